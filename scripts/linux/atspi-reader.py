@@ -0,0 +1,318 @@
+#!/usr/bin/env python3
+"""
+OScribe AT-SPI reader - Linux accessibility tree over D-Bus (AT-SPI2)
+
+Usage:
+  atspi-reader.py tree [window-title]   Elements of the matching window (default: active window)
+  atspi-reader.py point <x> <y>         Deepest element at screen coordinates
+  atspi-reader.py focused               Element with keyboard focus in the active window
+
+Output: JSON on stdout
+  tree:  {"window": str, "elements": [Element, ...]} or {"error": str}
+  point: Element or null
+  focused: {type, name, isPassword} or null
+
+Element: {type, name, automationId?, description?, x, y, width, height, isEnabled, value?}
+Types use the same names as Windows UI Automation (Button, Edit, MenuItem, ...).
+
+Requires: python3-gi and gir1.2-atspi-2.0 (Debian/Ubuntu), python3-gobject + at-spi2-core (Fedora)
+"""
+
+import json
+import sys
+
+try:
+    import gi
+    gi.require_version("Atspi", "2.0")
+    from gi.repository import Atspi
+except (ImportError, ValueError) as error:
+    print(json.dumps({"error": f"AT-SPI bindings not available: {error}. Install python3-gi and gir1.2-atspi-2.0"}))
+    sys.exit(0)
+
+MAX_DEPTH = 40
+MAX_ELEMENTS = 2000
+
+# AT-SPI role name -> UI Automation control type
+ROLE_MAP = {
+    "push button": "Button",
+    "toggle button": "Button",
+    "button": "Button",
+    "check box": "CheckBox",
+    "check menu item": "MenuItem",
+    "radio button": "RadioButton",
+    "radio menu item": "MenuItem",
+    "text": "Edit",
+    "entry": "Edit",
+    "password text": "Edit",
+    "editbar": "Edit",
+    "terminal": "Edit",
+    "combo box": "ComboBox",
+    "menu item": "MenuItem",
+    "menu": "MenuItem",
+    "menu bar": "MenuBar",
+    "list": "List",
+    "list box": "List",
+    "list item": "ListItem",
+    "tree": "Tree",
+    "tree table": "Tree",
+    "tree item": "TreeItem",
+    "table": "Table",
+    "table cell": "DataItem",
+    "page tab": "TabItem",
+    "page tab list": "Tab",
+    "slider": "Slider",
+    "spin button": "Spinner",
+    "scroll bar": "ScrollBar",
+    "link": "Hyperlink",
+    "label": "Text",
+    "static": "Text",
+    "heading": "Text",
+    "paragraph": "Text",
+    "caption": "Text",
+    "image": "Image",
+    "icon": "Image",
+    "tool bar": "ToolBar",
+    "status bar": "StatusBar",
+    "progress bar": "ProgressBar",
+    "document web": "Document",
+    "document frame": "Document",
+    "document text": "Document",
+    "dialog": "Window",
+    "alert": "Window",
+    "header": "Header",
+    "column header": "HeaderItem",
+    "row header": "HeaderItem",
+    "separator": "Separator",
+}
+
+
+def has_state(obj, state):
+    try:
+        return obj.get_state_set().contains(state)
+    except Exception:
+        return False
+
+
+def extents(obj):
+    try:
+        rect = obj.get_extents(Atspi.CoordType.SCREEN)
+        return rect.x, rect.y, rect.width, rect.height
+    except Exception:
+        return None
+
+
+def element_value(obj, role):
+    """Text content for editable fields, current value for ranges"""
+    try:
+        if role in ("text", "entry", "password text", "combo box", "spin button", "terminal"):
+            if role == "password text":
+                return None
+            count = Atspi.Text.get_character_count(obj)
+            if count > 0:
+                return Atspi.Text.get_text(obj, 0, min(count, 500))
+        if role in ("slider", "scroll bar", "progress bar", "spin button"):
+            return str(Atspi.Value.get_current_value(obj))
+    except Exception:
+        pass
+    return None
+
+
+def to_element(obj):
+    """Map an accessible to an Element dict, or None if it has no usable bounds"""
+    try:
+        role = obj.get_role_name()
+    except Exception:
+        return None
+
+    bounds = extents(obj)
+    if not bounds or bounds[2] <= 0 or bounds[3] <= 0:
+        return None
+
+    element = {
+        "type": ROLE_MAP.get(role) or role.title().replace(" ", ""),
+        "name": obj.get_name() or "",
+        "x": bounds[0],
+        "y": bounds[1],
+        "width": bounds[2],
+        "height": bounds[3],
+        "isEnabled": has_state(obj, Atspi.StateType.ENABLED) or has_state(obj, Atspi.StateType.SENSITIVE),
+    }
+
+    try:
+        accessible_id = obj.get_accessible_id()
+        if accessible_id:
+            element["automationId"] = accessible_id
+    except Exception:
+        pass
+
+    try:
+        description = obj.get_description()
+        if description:
+            element["description"] = description
+    except Exception:
+        pass
+
+    value = element_value(obj, role)
+    if value:
+        element["value"] = value
+
+    if role == "password text":
+        element["isPassword"] = True
+
+    return element
+
+
+def frames():
+    """All top-level windows of all accessible applications"""
+    desktop = Atspi.get_desktop(0)
+    for i in range(desktop.get_child_count()):
+        app = desktop.get_child_at_index(i)
+        if app is None:
+            continue
+        try:
+            count = app.get_child_count()
+        except Exception:
+            continue
+        for j in range(count):
+            frame = app.get_child_at_index(j)
+            if frame is not None:
+                yield frame
+
+
+def find_window(title):
+    """Window whose name contains title, else the active window"""
+    candidates = list(frames())
+    if title:
+        needle = title.lower()
+        for frame in candidates:
+            if needle in (frame.get_name() or "").lower():
+                return frame
+        return None
+    for frame in candidates:
+        if has_state(frame, Atspi.StateType.ACTIVE):
+            return frame
+    return None
+
+
+def collect(obj, elements, depth=0):
+    if depth > MAX_DEPTH or len(elements) >= MAX_ELEMENTS:
+        return
+    try:
+        count = obj.get_child_count()
+    except Exception:
+        return
+
+    for i in range(count):
+        try:
+            child = obj.get_child_at_index(i)
+        except Exception:
+            continue
+        if child is None or not has_state(child, Atspi.StateType.SHOWING):
+            continue
+
+        try:
+            role = child.get_role_name()
+        except Exception:
+            continue
+        if role in ROLE_MAP:
+            element = to_element(child)
+            if element:
+                elements.append(element)
+
+        collect(child, elements, depth + 1)
+
+
+def cmd_tree(title):
+    window = find_window(title)
+    if window is None:
+        return {"error": f'Window not found: "{title}"' if title else "No active window"}
+
+    elements = []
+    collect(window, elements)
+    return {"window": window.get_name() or "", "elements": elements}
+
+
+def contains(obj, x, y):
+    bounds = extents(obj)
+    return bounds is not None and bounds[0] <= x < bounds[0] + bounds[2] and bounds[1] <= y < bounds[1] + bounds[3]
+
+
+def cmd_point(x, y):
+    # Active window first: overlapping windows would otherwise shadow it
+    candidates = sorted(frames(), key=lambda f: not has_state(f, Atspi.StateType.ACTIVE))
+    current = next((f for f in candidates if has_state(f, Atspi.StateType.SHOWING) and contains(f, x, y)), None)
+    if current is None:
+        return None
+
+    for _ in range(MAX_DEPTH):
+        try:
+            child = Atspi.Component.get_accessible_at_point(current, x, y, Atspi.CoordType.SCREEN)
+        except Exception:
+            child = None
+        if child is None or child == current:
+            break
+        current = child
+
+    return to_element(current)
+
+
+def find_focused(obj, depth=0):
+    if depth > MAX_DEPTH:
+        return None
+    try:
+        count = obj.get_child_count()
+    except Exception:
+        return None
+
+    for i in range(count):
+        try:
+            child = obj.get_child_at_index(i)
+        except Exception:
+            continue
+        if child is None or not has_state(child, Atspi.StateType.SHOWING):
+            continue
+        if has_state(child, Atspi.StateType.FOCUSED):
+            return child
+        found = find_focused(child, depth + 1)
+        if found is not None:
+            return found
+    return None
+
+
+def cmd_focused():
+    window = find_window("")
+    focused = find_focused(window) if window is not None else None
+    if focused is None:
+        return None
+
+    try:
+        role = focused.get_role_name()
+    except Exception:
+        return None
+    return {
+        "type": ROLE_MAP.get(role) or role.title().replace(" ", ""),
+        "name": focused.get_name() or "",
+        "isPassword": role == "password text",
+    }
+
+
+def main():
+    if len(sys.argv) < 2:
+        print(json.dumps({"error": "Usage: atspi-reader.py tree [title] | point <x> <y> | focused"}))
+        return
+
+    command = sys.argv[1]
+    if command == "tree":
+        result = cmd_tree(sys.argv[2] if len(sys.argv) > 2 else "")
+    elif command == "point" and len(sys.argv) == 4:
+        result = cmd_point(int(float(sys.argv[2])), int(float(sys.argv[3])))
+    elif command == "focused":
+        result = cmd_focused()
+    else:
+        result = {"error": f"Unknown command: {' '.join(sys.argv[1:])}"}
+
+    print(json.dumps(result))
+
+
+if __name__ == "__main__":
+    main()
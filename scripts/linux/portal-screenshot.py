@@ -0,0 +1,99 @@
+#!/usr/bin/env python3
+"""
+OScribe portal screenshot - full-desktop capture through xdg-desktop-portal (Wayland)
+
+Usage:
+  portal-screenshot.py <output.png>
+
+Output: JSON on stdout
+  {"path": str} or {"error": str}
+
+Calls org.freedesktop.portal.Screenshot non-interactively and moves the returned
+file to <output.png>. GNOME may ask for permission the first time.
+
+Requires: python3-gi and a running xdg-desktop-portal with a backend
+(xdg-desktop-portal-gnome, -kde or -wlr)
+"""
+
+import json
+import os
+import shutil
+import sys
+from urllib.parse import unquote, urlparse
+
+try:
+    from gi.repository import Gio, GLib
+except ImportError as error:
+    print(json.dumps({"error": f"GObject bindings not available: {error}. Install python3-gi"}))
+    sys.exit(0)
+
+PORTAL_DEST = "org.freedesktop.portal.Desktop"
+PORTAL_PATH = "/org/freedesktop/portal/desktop"
+TIMEOUT_SECONDS = 45
+
+
+def screenshot():
+    bus = Gio.bus_get_sync(Gio.BusType.SESSION, None)
+
+    # The request object path is predictable from our bus name and handle token,
+    # so the Response signal can be subscribed to before the call
+    token = f"oscribe{os.getpid()}"
+    sender = bus.get_unique_name()[1:].replace(".", "_")
+    handle = f"{PORTAL_PATH}/request/{sender}/{token}"
+
+    loop = GLib.MainLoop()
+    result = {"error": "Timed out waiting for the screenshot portal"}
+
+    def on_response(_conn, _sender, _path, _iface, _signal, params, _data):
+        nonlocal result
+        code, results = params.unpack()
+        if code == 0 and "uri" in results:
+            result = {"uri": results["uri"]}
+        elif code == 1:
+            result = {"error": "Screenshot request was cancelled or denied"}
+        else:
+            result = {"error": f"Screenshot portal failed (response {code})"}
+        loop.quit()
+
+    bus.signal_subscribe(
+        PORTAL_DEST, "org.freedesktop.portal.Request", "Response", handle,
+        None, Gio.DBusSignalFlags.NONE, on_response, None,
+    )
+
+    options = {
+        "handle_token": GLib.Variant("s", token),
+        "interactive": GLib.Variant("b", False),
+    }
+    bus.call_sync(
+        PORTAL_DEST, PORTAL_PATH, "org.freedesktop.portal.Screenshot", "Screenshot",
+        GLib.Variant("(sa{sv})", ("", options)), GLib.VariantType("(o)"),
+        Gio.DBusCallFlags.NONE, -1, None,
+    )
+
+    GLib.timeout_add_seconds(TIMEOUT_SECONDS, loop.quit)
+    loop.run()
+    return result
+
+
+def main():
+    if len(sys.argv) != 2:
+        print(json.dumps({"error": "Usage: portal-screenshot.py <output.png>"}))
+        return
+
+    try:
+        result = screenshot()
+    except GLib.Error as error:
+        print(json.dumps({"error": error.message}))
+        return
+
+    if "uri" not in result:
+        print(json.dumps(result))
+        return
+
+    source = unquote(urlparse(result["uri"]).path)
+    shutil.move(source, sys.argv[1])
+    print(json.dumps({"path": sys.argv[1]}))
+
+
+if __name__ == "__main__":
+    main()
@@ -0,0 +1,157 @@
+#!/usr/bin/env python3
+"""
+OScribe uinput touch - inject multi-touch or pen gestures through a virtual input device
+
+Usage:
+  uinput-touch.py <gesture JSON>
+
+Gesture:
+  {"width": int, "height": int, "pointer": "touch" | "pen",
+   "frames": [{"contacts": [{"id": int, "x": int, "y": int, "state": "down" | "move" | "up"}],
+               "delayMs": int}]}
+
+Output: JSON on stdout
+  {"ok": true} or {"error": str}
+
+The device is a direct-touch screen (INPUT_PROP_DIRECT) spanning the whole desktop,
+driven with the multi-touch type B protocol (slots + tracking ids). Pen gestures use
+a separate stylus device.
+
+Requires: python3-evdev and write access to /dev/uinput
+(root, or the input group with a udev rule)
+"""
+
+import json
+import sys
+import time
+
+try:
+    from evdev import AbsInfo, UInput, ecodes as e
+except ImportError as error:
+    print(json.dumps({"error": f"python-evdev not available: {error}. Install python3-evdev"}))
+    sys.exit(0)
+
+MAX_SLOTS = 10
+# The compositor needs a moment to pick up a new device before its first event
+SETTLE_SECONDS = 0.5
+
+
+def axis(maximum):
+    return AbsInfo(value=0, min=0, max=maximum, fuzz=0, flat=0, resolution=0)
+
+
+def touch_device(width, height):
+    capabilities = {
+        e.EV_KEY: [e.BTN_TOUCH],
+        e.EV_ABS: [
+            (e.ABS_X, axis(width - 1)),
+            (e.ABS_Y, axis(height - 1)),
+            (e.ABS_MT_SLOT, axis(MAX_SLOTS - 1)),
+            (e.ABS_MT_TRACKING_ID, axis(65535)),
+            (e.ABS_MT_POSITION_X, axis(width - 1)),
+            (e.ABS_MT_POSITION_Y, axis(height - 1)),
+        ],
+    }
+    return UInput(capabilities, name="OScribe virtual touchscreen", input_props=[e.INPUT_PROP_DIRECT])
+
+
+def pen_device(width, height):
+    capabilities = {
+        e.EV_KEY: [e.BTN_TOOL_PEN, e.BTN_TOUCH, e.BTN_STYLUS],
+        e.EV_ABS: [
+            (e.ABS_X, axis(width - 1)),
+            (e.ABS_Y, axis(height - 1)),
+            (e.ABS_PRESSURE, axis(1023)),
+        ],
+    }
+    return UInput(capabilities, name="OScribe virtual pen", input_props=[e.INPUT_PROP_DIRECT])
+
+
+def play_touch(ui, frames):
+    slots = {}  # contact id -> slot
+    positions = {}  # contact id -> (x, y)
+    tracking_id = 0
+
+    for frame in frames:
+        for contact in frame["contacts"]:
+            cid = contact["id"]
+            if contact["state"] == "down":
+                slot = next(s for s in range(MAX_SLOTS) if s not in slots.values())
+                slots[cid] = slot
+                tracking_id += 1
+                ui.write(e.EV_ABS, e.ABS_MT_SLOT, slot)
+                ui.write(e.EV_ABS, e.ABS_MT_TRACKING_ID, tracking_id)
+            elif cid in slots:
+                ui.write(e.EV_ABS, e.ABS_MT_SLOT, slots[cid])
+            else:
+                continue
+
+            if contact["state"] == "up":
+                ui.write(e.EV_ABS, e.ABS_MT_TRACKING_ID, -1)
+                del slots[cid]
+                positions.pop(cid, None)
+            else:
+                ui.write(e.EV_ABS, e.ABS_MT_POSITION_X, contact["x"])
+                ui.write(e.EV_ABS, e.ABS_MT_POSITION_Y, contact["y"])
+                positions[cid] = (contact["x"], contact["y"])
+
+        # Single-touch emulation (first contact) for clients that ignore multi-touch
+        ui.write(e.EV_KEY, e.BTN_TOUCH, 1 if slots else 0)
+        if positions:
+            x, y = positions[min(positions)]
+            ui.write(e.EV_ABS, e.ABS_X, x)
+            ui.write(e.EV_ABS, e.ABS_Y, y)
+        ui.syn()
+        time.sleep(frame.get("delayMs", 0) / 1000)
+
+
+def play_pen(ui, frames):
+    for frame in frames:
+        contact = frame["contacts"][0]
+        if contact["state"] == "up":
+            ui.write(e.EV_KEY, e.BTN_TOUCH, 0)
+            ui.write(e.EV_ABS, e.ABS_PRESSURE, 0)
+            ui.syn()
+            ui.write(e.EV_KEY, e.BTN_TOOL_PEN, 0)
+        else:
+            if contact["state"] == "down":
+                ui.write(e.EV_KEY, e.BTN_TOOL_PEN, 1)
+                ui.write(e.EV_KEY, e.BTN_TOUCH, 1)
+            ui.write(e.EV_ABS, e.ABS_X, contact["x"])
+            ui.write(e.EV_ABS, e.ABS_Y, contact["y"])
+            ui.write(e.EV_ABS, e.ABS_PRESSURE, 512)
+        ui.syn()
+        time.sleep(frame.get("delayMs", 0) / 1000)
+
+
+def main():
+    if len(sys.argv) < 2:
+        print(json.dumps({"error": "Usage: uinput-touch.py <gesture JSON>"}))
+        return
+
+    gesture = json.loads(sys.argv[1])
+    width, height = int(gesture["width"]), int(gesture["height"])
+    pen = gesture.get("pointer") == "pen"
+
+    try:
+        ui = pen_device(width, height) if pen else touch_device(width, height)
+    except Exception as error:  # noqa: BLE001 - permission errors surface as various types
+        print(json.dumps({"error": f"Cannot create uinput device: {error}. Check write access to /dev/uinput"}))
+        return
+
+    try:
+        time.sleep(SETTLE_SECONDS)
+        if pen:
+            play_pen(ui, gesture["frames"])
+        else:
+            play_touch(ui, gesture["frames"])
+        # Let the last events be read before the device disappears
+        time.sleep(0.1)
+    finally:
+        ui.close()
+
+    print(json.dumps({"ok": True}))
+
+
+if __name__ == "__main__":
+    main()
@@ -21,6 +21,7 @@ struct UIElement: Codable {
     let width: Int
     let height: Int
     let isEnabled: Bool
+    let isPassword: Bool?
 }
 
 struct Response: Codable {
@@ -97,6 +98,7 @@ func walkElement(_ element: AXUIElement, elements: inout [UIElement], depth: Int
     let description: String? = getValue(element, attribute: kAXDescriptionAttribute)
     let help: String? = getValue(element, attribute: kAXHelpAttribute)
     let enabled: Bool = getValue(element, attribute: kAXEnabledAttribute) ?? true
+    let subrole: String? = getValue(element, attribute: kAXSubroleAttribute)
 
     // Get position
     if let rect = getPosition(element) {
@@ -118,7 +120,8 @@ func walkElement(_ element: AXUIElement, elements: inout [UIElement], depth: Int
                 y: Int(rect.origin.y),
                 width: Int(rect.width),
                 height: Int(rect.height),
-                isEnabled: enabled
+                isEnabled: enabled,
+                isPassword: subrole == "AXSecureTextField" ? true : nil
             ))
         }
     }
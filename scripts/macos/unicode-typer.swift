@@ -0,0 +1,45 @@
+#!/usr/bin/env swift
+/**
+ * unicode-typer - type text as Unicode keyboard events, whatever the keyboard layout
+ * Usage: printf '%s' "text" | unicode-typer [delayMs]
+ * The text is read from stdin, not argv, so secrets don't show in the process list.
+ * Each character is posted as a key down/up pair carrying its UTF-16 code units
+ * (CGEventKeyboardSetUnicodeString) - no keycode lookup, nothing dropped.
+ *
+ * Compile: swiftc scripts/macos/unicode-typer.swift -o bin/unicode-typer -framework ApplicationServices
+ */
+
+import ApplicationServices
+import Foundation
+
+func fail(_ message: String) -> Never {
+    FileHandle.standardError.write("\(message)\n".data(using: .utf8)!)
+    exit(1)
+}
+
+let delayMs = CommandLine.arguments.count > 1 ? (UInt32(CommandLine.arguments[1]) ?? 0) : 0
+
+guard let text = String(data: FileHandle.standardInput.readDataToEndOfFile(), encoding: .utf8) else {
+    fail("Input is not UTF-8")
+}
+
+let source = CGEventSource(stateID: .hidSystemState)
+
+for character in text {
+    // A grapheme may span several code units (surrogate pairs, combining marks)
+    let units = Array(String(character).utf16)
+    for keyDown in [true, false] {
+        guard let event = CGEvent(keyboardEventSource: source, virtualKey: 0, keyDown: keyDown) else {
+            fail("Cannot create keyboard events (grant Accessibility permission to the terminal)")
+        }
+        // Modifiers held on the keyboard must not change the character
+        event.flags = []
+        units.withUnsafeBufferPointer { buffer in
+            event.keyboardSetUnicodeString(stringLength: buffer.count, unicodeString: buffer.baseAddress)
+        }
+        event.post(tap: .cghidEventTap)
+    }
+    if delayMs > 0 {
+        usleep(delayMs * 1000)
+    }
+}
@@ -68,6 +68,7 @@ foreach ($el in $allElements) {
                     width = [int]$rect.Width
                     height = [int]$rect.Height
                     isEnabled = $el.Current.IsEnabled
+                    isPassword = $el.Current.IsPassword
                 }
             }
         }
@@ -107,6 +108,7 @@ foreach ($dialogWin in $allRootWindows) {
                                 width = [int]$rect.Width
                                 height = [int]$rect.Height
                                 isEnabled = $el.Current.IsEnabled
+                                isPassword = $el.Current.IsPassword
                             }
                         }
                     }
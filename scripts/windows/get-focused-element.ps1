@@ -0,0 +1,28 @@
+# Get-FocusedElement.ps1
+# Get the UI element that has keyboard focus
+# Usage: powershell -File get-focused-element.ps1
+#
+# Output: JSON object {type, name, isPassword} or 'null' if nothing has focus
+#
+# IsPassword is set by native password boxes and by browsers for <input type="password">
+
+[Console]::OutputEncoding = [System.Text.Encoding]::UTF8
+
+Add-Type -AssemblyName UIAutomationClient
+
+try {
+    $el = [System.Windows.Automation.AutomationElement]::FocusedElement
+} catch {
+    $el = $null
+}
+
+if (-not $el) {
+    Write-Output 'null'
+    exit
+}
+
+@{
+    type = $el.Current.ControlType.ProgrammaticName -replace "ControlType.", ""
+    name = $el.Current.Name
+    isPassword = [bool]$el.Current.IsPassword
+} | ConvertTo-Json -Compress
@@ -0,0 +1,207 @@
+# Inject-Touch.ps1
+# Inject touch or pen gestures as real pointer input
+# Usage: powershell -File inject-touch.ps1 -Frames <base64 JSON> [-Pointer touch|pen]
+#
+# Frames (JSON, base64-encoded UTF-8):
+#   [{"contacts": [{"id": 0, "x": 100, "y": 200, "state": "down"|"move"|"up"}], "delayMs": 16}, ...]
+#
+# Output: {"ok":true} or {"error":"..."}
+#
+# Touch: InjectTouchInput (Windows 8+), every active contact is sent in each frame
+# Pen:   InjectSyntheticPointerInput on a synthetic pen device (Windows 10 1809+)
+
+param(
+    [Parameter(Mandatory=$true)]
+    [string]$Frames,
+
+    [ValidateSet('touch', 'pen')]
+    [string]$Pointer = 'touch'
+)
+
+[Console]::OutputEncoding = [System.Text.Encoding]::UTF8
+$ErrorActionPreference = 'Stop'
+
+Add-Type @"
+using System;
+using System.Runtime.InteropServices;
+
+public static class OScribeTouch {
+    [StructLayout(LayoutKind.Sequential)]
+    public struct POINT { public int X; public int Y; }
+
+    [StructLayout(LayoutKind.Sequential)]
+    public struct RECT { public int Left; public int Top; public int Right; public int Bottom; }
+
+    [StructLayout(LayoutKind.Sequential)]
+    public struct POINTER_INFO {
+        public uint pointerType;
+        public uint pointerId;
+        public uint frameId;
+        public uint pointerFlags;
+        public IntPtr sourceDevice;
+        public IntPtr hwndTarget;
+        public POINT ptPixelLocation;
+        public POINT ptHimetricLocation;
+        public POINT ptPixelLocationRaw;
+        public POINT ptHimetricLocationRaw;
+        public uint dwTime;
+        public uint historyCount;
+        public int InputData;
+        public uint dwKeyStates;
+        public ulong PerformanceCount;
+        public int ButtonChangeType;
+    }
+
+    [StructLayout(LayoutKind.Sequential)]
+    public struct POINTER_TOUCH_INFO {
+        public POINTER_INFO pointerInfo;
+        public uint touchFlags;
+        public uint touchMask;
+        public RECT rcContact;
+        public RECT rcContactRaw;
+        public uint orientation;
+        public uint pressure;
+    }
+
+    [StructLayout(LayoutKind.Sequential)]
+    public struct POINTER_PEN_INFO {
+        public POINTER_INFO pointerInfo;
+        public uint penFlags;
+        public uint penMask;
+        public uint pressure;
+        public uint rotation;
+        public int tiltX;
+        public int tiltY;
+    }
+
+    // POINTER_TYPE_INFO: type, then an 8-byte aligned union of touch/pen info
+    [StructLayout(LayoutKind.Explicit)]
+    public struct POINTER_TYPE_INFO {
+        [FieldOffset(0)] public uint type;
+        [FieldOffset(8)] public POINTER_PEN_INFO penInfo;
+    }
+
+    [DllImport("user32.dll", SetLastError = true)]
+    static extern bool InitializeTouchInjection(uint maxCount, uint dwMode);
+
+    [DllImport("user32.dll", SetLastError = true)]
+    static extern bool InjectTouchInput(uint count, [In] POINTER_TOUCH_INFO[] contacts);
+
+    [DllImport("user32.dll", SetLastError = true)]
+    static extern IntPtr CreateSyntheticPointerDevice(uint pointerType, uint maxCount, uint mode);
+
+    [DllImport("user32.dll", SetLastError = true)]
+    static extern bool InjectSyntheticPointerInput(IntPtr device, [In] POINTER_TYPE_INFO[] info, uint count);
+
+    [DllImport("user32.dll")]
+    static extern void DestroySyntheticPointerDevice(IntPtr device);
+
+    const uint PT_TOUCH = 2;
+    const uint PT_PEN = 3;
+    const uint FLAG_INRANGE = 0x2;
+    const uint FLAG_INCONTACT = 0x4;
+    const uint FLAG_DOWN = 0x10000;
+    const uint FLAG_UPDATE = 0x20000;
+    const uint FLAG_UP = 0x40000;
+    const uint FEEDBACK_DEFAULT = 0x1;
+
+    static IntPtr penDevice = IntPtr.Zero;
+
+    static uint Flags(string state) {
+        if (state == "down") return FLAG_DOWN | FLAG_INRANGE | FLAG_INCONTACT;
+        if (state == "move") return FLAG_UPDATE | FLAG_INRANGE | FLAG_INCONTACT;
+        return FLAG_UP;
+    }
+
+    public static void InitTouch(int maxContacts) {
+        if (!InitializeTouchInjection((uint)maxContacts, FEEDBACK_DEFAULT)) {
+            throw new Exception("InitializeTouchInjection failed (error " + Marshal.GetLastWin32Error() + ")");
+        }
+    }
+
+    public static void TouchFrame(int[] ids, int[] xs, int[] ys, string[] states) {
+        POINTER_TOUCH_INFO[] contacts = new POINTER_TOUCH_INFO[ids.Length];
+        for (int i = 0; i < ids.Length; i++) {
+            contacts[i].pointerInfo.pointerType = PT_TOUCH;
+            contacts[i].pointerInfo.pointerId = (uint)ids[i];
+            contacts[i].pointerInfo.pointerFlags = Flags(states[i]);
+            contacts[i].pointerInfo.ptPixelLocation.X = xs[i];
+            contacts[i].pointerInfo.ptPixelLocation.Y = ys[i];
+            // Contact area, orientation and pressure are set
+            contacts[i].touchMask = 0x7;
+            contacts[i].orientation = 90;
+            contacts[i].pressure = 32000;
+            contacts[i].rcContact.Left = xs[i] - 2;
+            contacts[i].rcContact.Top = ys[i] - 2;
+            contacts[i].rcContact.Right = xs[i] + 2;
+            contacts[i].rcContact.Bottom = ys[i] + 2;
+        }
+        if (!InjectTouchInput((uint)contacts.Length, contacts)) {
+            throw new Exception("InjectTouchInput failed (error " + Marshal.GetLastWin32Error() + ")");
+        }
+    }
+
+    public static void InitPen() {
+        penDevice = CreateSyntheticPointerDevice(PT_PEN, 1, FEEDBACK_DEFAULT);
+        if (penDevice == IntPtr.Zero) {
+            throw new Exception("CreateSyntheticPointerDevice failed (pen injection needs Windows 10 1809+, error " + Marshal.GetLastWin32Error() + ")");
+        }
+    }
+
+    public static void PenFrame(int x, int y, string state) {
+        POINTER_TYPE_INFO[] info = new POINTER_TYPE_INFO[1];
+        info[0].type = PT_PEN;
+        info[0].penInfo.pointerInfo.pointerType = PT_PEN;
+        info[0].penInfo.pointerInfo.pointerFlags = Flags(state);
+        info[0].penInfo.pointerInfo.ptPixelLocation.X = x;
+        info[0].penInfo.pointerInfo.ptPixelLocation.Y = y;
+        // Pressure is set
+        info[0].penInfo.penMask = 0x1;
+        info[0].penInfo.pressure = state == "up" ? 0u : 512u;
+        if (!InjectSyntheticPointerInput(penDevice, info, 1)) {
+            throw new Exception("InjectSyntheticPointerInput failed (error " + Marshal.GetLastWin32Error() + ")");
+        }
+    }
+
+    public static void Close() {
+        if (penDevice != IntPtr.Zero) {
+            DestroySyntheticPointerDevice(penDevice);
+            penDevice = IntPtr.Zero;
+        }
+    }
+}
+"@
+
+try {
+    $json = [System.Text.Encoding]::UTF8.GetString([System.Convert]::FromBase64String($Frames))
+    $data = @($json | ConvertFrom-Json)
+
+    if ($Pointer -eq 'pen') {
+        [OScribeTouch]::InitPen()
+    } else {
+        [OScribeTouch]::InitTouch(10)
+    }
+
+    foreach ($frame in $data) {
+        $contacts = @($frame.contacts)
+        if ($Pointer -eq 'pen') {
+            [OScribeTouch]::PenFrame([int]$contacts[0].x, [int]$contacts[0].y, [string]$contacts[0].state)
+        } else {
+            [OScribeTouch]::TouchFrame(
+                [int[]]@($contacts | ForEach-Object { [int]$_.id }),
+                [int[]]@($contacts | ForEach-Object { [int]$_.x }),
+                [int[]]@($contacts | ForEach-Object { [int]$_.y }),
+                [string[]]@($contacts | ForEach-Object { [string]$_.state })
+            )
+        }
+        if ($frame.delayMs -gt 0) {
+            Start-Sleep -Milliseconds ([int]$frame.delayMs)
+        }
+    }
+
+    Write-Output '{"ok":true}'
+} catch {
+    Write-Output (@{ error = $_.Exception.Message } | ConvertTo-Json -Compress)
+} finally {
+    [OScribeTouch]::Close()
+}
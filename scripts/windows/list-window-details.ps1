@@ -0,0 +1,90 @@
+# List-WindowDetails.ps1
+# Visible top-level windows with bounds and owning process, front to back
+# Usage: powershell -File list-window-details.ps1
+#
+# Output: JSON array [{id, title, windowClass, pid, processName, processPath, x, y, width, height}]
+#
+# Minimized windows and windows cloaked by DWM (other virtual desktops, suspended UWP apps) are skipped
+
+[Console]::OutputEncoding = [System.Text.Encoding]::UTF8
+
+Add-Type @"
+using System;
+using System.Runtime.InteropServices;
+using System.Text;
+public class Win32WindowList {
+    public delegate bool EnumWindowsProc(IntPtr hWnd, IntPtr lParam);
+    [DllImport("user32.dll")]
+    public static extern bool EnumWindows(EnumWindowsProc lpEnumFunc, IntPtr lParam);
+    [DllImport("user32.dll")]
+    public static extern bool IsWindowVisible(IntPtr hWnd);
+    [DllImport("user32.dll")]
+    public static extern bool IsIconic(IntPtr hWnd);
+    [DllImport("user32.dll", CharSet = CharSet.Unicode)]
+    public static extern int GetWindowText(IntPtr hWnd, StringBuilder lpString, int nMaxCount);
+    [DllImport("user32.dll", CharSet = CharSet.Unicode)]
+    public static extern int GetClassName(IntPtr hWnd, StringBuilder lpClassName, int nMaxCount);
+    [DllImport("user32.dll")]
+    public static extern uint GetWindowThreadProcessId(IntPtr hWnd, out uint lpdwProcessId);
+    [DllImport("user32.dll")]
+    public static extern bool GetWindowRect(IntPtr hWnd, out RECT lpRect);
+    [DllImport("dwmapi.dll")]
+    public static extern int DwmGetWindowAttribute(IntPtr hWnd, int dwAttribute, out int pvAttribute, int cbAttribute);
+    [StructLayout(LayoutKind.Sequential)]
+    public struct RECT {
+        public int Left, Top, Right, Bottom;
+    }
+}
+"@
+
+# DWMWA_CLOAKED
+$DWMWA_CLOAKED = 14
+
+$windows = New-Object System.Collections.ArrayList
+$processes = @{}
+
+# EnumWindows walks top-level windows in z-order, topmost first
+$callback = {
+    param($hwnd, $lParam)
+    if (-not [Win32WindowList]::IsWindowVisible($hwnd) -or [Win32WindowList]::IsIconic($hwnd)) { return $true }
+
+    $cloaked = 0
+    if ([Win32WindowList]::DwmGetWindowAttribute($hwnd, $DWMWA_CLOAKED, [ref]$cloaked, 4) -eq 0 -and $cloaked -ne 0) { return $true }
+
+    $rect = New-Object Win32WindowList+RECT
+    if (-not [Win32WindowList]::GetWindowRect($hwnd, [ref]$rect)) { return $true }
+    $width = $rect.Right - $rect.Left
+    $height = $rect.Bottom - $rect.Top
+    if ($width -le 0 -or $height -le 0) { return $true }
+
+    $title = New-Object System.Text.StringBuilder 1024
+    [Win32WindowList]::GetWindowText($hwnd, $title, $title.Capacity) | Out-Null
+    $class = New-Object System.Text.StringBuilder 256
+    [Win32WindowList]::GetClassName($hwnd, $class, $class.Capacity) | Out-Null
+    $procId = [uint32]0
+    [Win32WindowList]::GetWindowThreadProcessId($hwnd, [ref]$procId) | Out-Null
+
+    # One Get-Process per process, not per window
+    if (-not $processes.ContainsKey($procId)) {
+        $processes[$procId] = Get-Process -Id $procId -ErrorAction SilentlyContinue
+    }
+    $proc = $processes[$procId]
+
+    $windows.Add(@{
+        id = "$hwnd"
+        title = $title.ToString()
+        windowClass = $class.ToString()
+        pid = [int]$procId
+        # Path is null for elevated processes when OScribe isn't elevated
+        processName = $proc.ProcessName
+        processPath = $proc.Path
+        x = $rect.Left
+        y = $rect.Top
+        width = $width
+        height = $height
+    }) | Out-Null
+    return $true
+}
+[Win32WindowList]::EnumWindows($callback, [IntPtr]::Zero) | Out-Null
+
+ConvertTo-Json -InputObject @($windows) -Compress
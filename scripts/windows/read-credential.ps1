@@ -0,0 +1,76 @@
+# Read-Credential.ps1
+# Read a generic credential from the Windows Credential Manager
+# Usage: powershell -File read-credential.ps1 -Target "oscribe:github-token"
+#
+# Output: {"secret":"..."} or 'null' if there is no such credential, {"error":"..."} on failure
+#
+# Store one with: cmdkey /generic:oscribe:github-token /user:oscribe /pass
+
+param(
+    [Parameter(Mandatory=$true)]
+    [string]$Target
+)
+
+[Console]::OutputEncoding = [System.Text.Encoding]::UTF8
+$ErrorActionPreference = 'Stop'
+
+Add-Type @"
+using System;
+using System.Runtime.InteropServices;
+
+public static class OScribeCredentials {
+    [StructLayout(LayoutKind.Sequential, CharSet = CharSet.Unicode)]
+    struct CREDENTIAL {
+        public uint Flags;
+        public uint Type;
+        public string TargetName;
+        public string Comment;
+        public long LastWritten;
+        public uint CredentialBlobSize;
+        public IntPtr CredentialBlob;
+        public uint Persist;
+        public uint AttributeCount;
+        public IntPtr Attributes;
+        public string TargetAlias;
+        public string UserName;
+    }
+
+    [DllImport("advapi32.dll", CharSet = CharSet.Unicode, SetLastError = true)]
+    static extern bool CredRead(string target, uint type, uint flags, out IntPtr credential);
+
+    [DllImport("advapi32.dll")]
+    static extern void CredFree(IntPtr credential);
+
+    const uint CRED_TYPE_GENERIC = 1;
+    const int ERROR_NOT_FOUND = 1168;
+
+    // null when the credential does not exist
+    public static string Read(string target) {
+        IntPtr pointer;
+        if (!CredRead(target, CRED_TYPE_GENERIC, 0, out pointer)) {
+            int error = Marshal.GetLastWin32Error();
+            if (error == ERROR_NOT_FOUND) return null;
+            throw new Exception("CredRead failed (error " + error + ")");
+        }
+        try {
+            CREDENTIAL credential = (CREDENTIAL)Marshal.PtrToStructure(pointer, typeof(CREDENTIAL));
+            if (credential.CredentialBlobSize == 0) return "";
+            // cmdkey stores UTF-16 passwords
+            return Marshal.PtrToStringUni(credential.CredentialBlob, (int)credential.CredentialBlobSize / 2);
+        } finally {
+            CredFree(pointer);
+        }
+    }
+}
+"@
+
+try {
+    $secret = [OScribeCredentials]::Read($Target)
+    if ($null -eq $secret) {
+        Write-Output 'null'
+    } else {
+        @{ secret = $secret } | ConvertTo-Json -Compress
+    }
+} catch {
+    Write-Output (@{ error = $_.Exception.Message } | ConvertTo-Json -Compress)
+}
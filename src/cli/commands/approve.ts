@@ -0,0 +1,129 @@
+/**
+ * approve command - Answer actions waiting for a human confirmation
+ * (security policy rules with effect "confirm", see core/confirmation.ts)
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { createInterface } from 'node:readline';
+import type { ConfirmationRequest } from '../../core/confirmation.js';
+
+interface ApproveOptions {
+  deny?: boolean;
+  reason?: string;
+  list?: boolean;
+  watch?: boolean;
+  dialog?: boolean;
+}
+
+const WATCH_INTERVAL_MS = 500;
+
+/**
+ * Yes/no prompt - anything but y/yes denies
+ */
+async function ask(message: string): Promise<boolean> {
+  const rl = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(`${message} [y/N] `, (answer) => {
+      rl.close();
+      const normalized = answer.trim().toLowerCase();
+      resolve(normalized === 'y' || normalized === 'yes');
+    });
+  });
+}
+
+function printRequest(request: ConfirmationRequest): void {
+  const age = Math.round((Date.now() - new Date(request.createdAt).getTime()) / 1000);
+  console.log(`${chalk.cyan(request.id)}  ${request.summary} ${chalk.gray(`(${age}s ago)`)}`);
+  if (request.element) console.log(chalk.gray(`          Element: "${request.element}"`));
+  if (request.process) console.log(chalk.gray(`          Process: ${request.process}`));
+  if (request.reason) console.log(chalk.gray(`          Asked by ${request.reason}`));
+}
+
+export function approveCommand(): Command {
+  return new Command('approve')
+    .description('Approve or deny actions waiting for confirmation')
+    .argument('[id]', 'Request to answer (default: ask for each pending request)')
+    .option('--deny', 'Deny the request instead of approving it')
+    .option('-r, --reason <text>', 'Note recorded with the decision')
+    .option('-l, --list', 'Only list pending requests')
+    .option('-w, --watch', 'Keep waiting for new requests (Ctrl+C to stop)')
+    .option('-d, --dialog', 'Ask with a desktop dialog instead of the terminal')
+    .action(async (id: string | undefined, options: ApproveOptions) => {
+      try {
+        // Dynamic import to avoid loading config at CLI startup
+        const { decideApproval, listPendingApprovals, showConfirmationDialog } = await import('../../core/confirmation.js');
+
+        if (id) {
+          const approved = !options.deny;
+          if (!decideApproval(id, approved, options.reason)) {
+            console.error(chalk.red(`No pending request "${id}"`));
+            process.exit(1);
+          }
+          console.log(approved ? chalk.green(`Approved ${id}`) : chalk.yellow(`Denied ${id}`));
+          return;
+        }
+
+        const answer = async (request: ConfirmationRequest): Promise<void> => {
+          printRequest(request);
+          const approved = options.dialog ? await showConfirmationDialog(request) : await ask('Allow it?');
+          // The action may have timed out while we were asking
+          if (decideApproval(request.id, approved, options.reason)) {
+            console.log(approved ? chalk.green(`Approved ${request.id}`) : chalk.yellow(`Denied ${request.id}`));
+          } else {
+            console.log(chalk.gray(`${request.id} is no longer pending`));
+          }
+          console.log();
+        };
+
+        const interactive = !options.list && (options.dialog === true || process.stdin.isTTY);
+
+        if (!options.watch) {
+          const pending = listPendingApprovals();
+          console.log();
+          if (pending.length === 0) {
+            console.log(chalk.gray('No pending requests.'));
+            console.log();
+            return;
+          }
+          console.log(chalk.bold(`Pending requests (${pending.length})`));
+          console.log('─'.repeat(40));
+          if (!interactive) {
+            pending.forEach(printRequest);
+            console.log();
+            console.log(chalk.gray('Answer with: oscribe approve <id> [--deny]'));
+            console.log();
+            return;
+          }
+          for (const request of pending) {
+            await answer(request);
+          }
+          return;
+        }
+
+        if (!interactive) {
+          console.error(chalk.red('--watch needs a terminal or --dialog to ask'));
+          process.exit(1);
+        }
+        console.log(chalk.gray('Waiting for confirmation requests... (Ctrl+C to stop)'));
+        console.log();
+        const answered = new Set<string>();
+        for (;;) {
+          for (const request of listPendingApprovals()) {
+            if (answered.has(request.id)) continue;
+            answered.add(request.id);
+            await answer(request);
+          }
+          await new Promise((resolve) => setTimeout(resolve, WATCH_INTERVAL_MS));
+        }
+      } catch (error) {
+        console.error(chalk.red('Failed to answer confirmation requests'));
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    });
+}
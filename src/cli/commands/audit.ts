@@ -0,0 +1,92 @@
+/**
+ * audit command - Check the hash chain of the action logs (see core/audit.ts)
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { readFileSync, writeFileSync } from 'node:fs';
+import type { AuditReport } from '../../core/audit.js';
+
+interface AuditVerifyOptions {
+  publicKey?: string;
+  requireSigned?: boolean;
+  export?: string;
+  json?: boolean;
+}
+
+function printReport(report: AuditReport, logsDir: string): void {
+  console.log();
+  console.log(chalk.bold('Audit Log'));
+  console.log('─'.repeat(40));
+  console.log(`Logs:     ${chalk.cyan(logsDir)} ${chalk.gray(`(${report.files.length} files)`)}`);
+  console.log(`Events:   ${report.events} ${chalk.gray(`(${report.chained} chained, ${report.signed} signed)`)}`);
+  if (report.firstSeq !== null) {
+    console.log(`Chain:    ${report.firstSeq} → ${report.lastSeq} ${chalk.gray(`head ${report.headHash?.slice(0, 16)}…`)}`);
+  }
+  if (report.unverifiedSignatures > 0) {
+    console.log(chalk.yellow(`${report.unverifiedSignatures} signatures not checked: no signing key here (use --public-key)`));
+  }
+  console.log();
+
+  if (report.issues.length === 0) {
+    console.log(chalk.green(report.chained > 0 ? '✓ Chain intact' : 'Nothing chained yet'));
+  } else {
+    console.log(chalk.red(`✗ ${report.issues.length} issue${report.issues.length > 1 ? 's' : ''}:`));
+    for (const issue of report.issues) {
+      const where = issue.line !== undefined ? `${issue.file}:${issue.line}` : issue.file;
+      console.log(`  ${chalk.red(issue.kind.padEnd(13))} ${issue.message} ${chalk.gray(where)}`);
+    }
+  }
+  console.log();
+}
+
+export function auditCommand(): Command {
+  const cmd = new Command('audit')
+    .description('Check that the action logs were not edited afterwards');
+
+  cmd
+    .command('verify')
+    .description('Verify the hash chain of ~/.oscribe/logs - detects edited, removed, inserted and truncated events')
+    .option('-k, --public-key <file>', 'Check signatures with this public key (PEM) instead of the local signing key')
+    .option('--require-signed', 'Fail on chained events without a signature')
+    .option('-e, --export <file>', 'Write the result as a summary signed with the local key')
+    .option('--json', 'Print the result as JSON')
+    .action(async (options: AuditVerifyOptions) => {
+      try {
+        // Dynamic import to avoid loading config at CLI startup
+        const { signAuditSummary, verifyAuditLog } = await import('../../core/audit.js');
+        const { getLogsDir } = await import('../../core/logger.js');
+
+        const logsDir = getLogsDir();
+        const report = verifyAuditLog(logsDir, {
+          ...(options.publicKey ? { publicKey: readFileSync(options.publicKey, 'utf-8') } : {}),
+          ...(options.requireSigned ? { requireSigned: true } : {}),
+        });
+
+        if (options.json) {
+          console.log(JSON.stringify(report, null, 2));
+        } else {
+          printReport(report, logsDir);
+        }
+
+        if (options.export) {
+          const summary = signAuditSummary(report, logsDir);
+          writeFileSync(options.export, JSON.stringify(summary, null, 2));
+          console.error(chalk.gray(`Signed summary written to ${options.export} (key ${summary.keyFingerprint})`));
+        }
+
+        if (!report.valid) process.exit(1);
+      } catch (error) {
+        console.error(chalk.red('Failed to verify audit log'));
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    });
+
+  // Default action: show help
+  cmd.action(() => {
+    cmd.help();
+  });
+
+  return cmd;
+}
@@ -6,6 +6,7 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import { captureScreen } from '../../core/screenshot.js';
+import { maskScreenshot } from '../../core/privacy.js';
 import { locateElement } from '../../core/vision.js';
 import { click } from '../../core/input.js';
 import { smartClick } from '../../core/automation.js';
@@ -71,7 +72,7 @@ export function clickCommand(): Command {
           const spinner = ora(`Looking for "${target}"...`).start();
 
           try {
-            const screenshot = await captureScreen({ screen });
+            const screenshot = (await maskScreenshot(await captureScreen({ screen }))).screenshot;
 
             if (options.verbose) {
               spinner.text = 'Analyzing screenshot with Claude...';
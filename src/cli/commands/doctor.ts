@@ -7,6 +7,9 @@ import chalk from 'chalk';
 import { spawnSync } from 'node:child_process';
 import { existsSync } from 'node:fs';
 import { createRequire } from 'node:module';
+import { loadConfig } from '../../config/index.js';
+import { createInputBackend, detectInputBackend } from '../../core/input-backend.js';
+import { detectLinuxDisplayBackend, getSessionType } from '../../core/wayland.js';
 
 interface CheckResult {
   name: string;
@@ -164,6 +167,132 @@ function checkXcode(): CheckResult {
   };
 }
 
+/**
+ * Check AT-SPI2 Python bindings (Linux UI element detection)
+ */
+function checkAtspi(): CheckResult {
+  try {
+    const result = spawnSync('python3', ['-c', 'import gi; gi.require_version("Atspi", "2.0"); from gi.repository import Atspi'], {
+      encoding: 'utf8',
+      timeout: 5000,
+    });
+
+    if (result.status === 0) {
+      return {
+        name: 'AT-SPI',
+        status: 'ok',
+        message: 'python3-gi + Atspi 2.0 available',
+      };
+    }
+  } catch {
+    // Continue to warning
+  }
+
+  return {
+    name: 'AT-SPI',
+    status: 'warning',
+    message: 'Not available (no UI element detection on Linux)',
+    fix: `Install the AT-SPI Python bindings:
+  Debian/Ubuntu: sudo apt install python3-gi gir1.2-atspi-2.0 at-spi2-core
+  Fedora: sudo dnf install python3-gobject at-spi2-core`,
+  };
+}
+
+/**
+ * Report the Linux display backend (X11 tools, or Wayland compositor + screenshot backend)
+ */
+function checkDisplayBackend(): CheckResult {
+  const display = detectLinuxDisplayBackend();
+  const succeeds = (cmd: string, args: string[]): boolean => {
+    try {
+      return spawnSync(cmd, args, { encoding: 'utf8', timeout: 5000 }).status === 0;
+    } catch {
+      return false;
+    }
+  };
+
+  if (display.session !== 'wayland') {
+    const missing = ['xdotool', 'wmctrl'].filter((tool) => !succeeds('which', [tool]));
+    return {
+      name: 'Display',
+      status: missing.length > 0 ? 'warning' : 'ok',
+      message: `${display.session === 'x11' ? 'X11' : 'No graphical session detected'} (xdotool, wmctrl)${missing.length > 0 ? ` - missing: ${missing.join(', ')}` : ''}`,
+      ...(missing.length > 0 ? { fix: `Install the X11 tools: sudo apt install ${missing.join(' ')}` } : {}),
+    };
+  }
+
+  const problems: string[] = [];
+  const fixes: string[] = [];
+
+  switch (display.windows) {
+    case 'sway':
+    case 'hyprland': {
+      const tool = display.windows === 'sway' ? 'swaymsg' : 'hyprctl';
+      if (!succeeds('which', [tool])) {
+        problems.push(`${tool} not found`);
+      }
+      break;
+    }
+    case 'gnome-shell':
+      if (!succeeds('gdbus', ['introspect', '--session', '--dest', 'org.gnome.Shell', '--object-path', '/org/gnome/Shell/Extensions/Windows'])) {
+        problems.push('Window Calls extension not running');
+        fixes.push('Install the "Window Calls" GNOME Shell extension: https://extensions.gnome.org/extension/4724/window-calls/');
+      }
+      break;
+    case 'none':
+      problems.push('no compositor backend (only XWayland windows are visible)');
+      break;
+  }
+
+  if (display.screenshot === 'grim' && !succeeds('which', ['grim'])) {
+    problems.push('grim not found');
+    fixes.push('Install grim: sudo apt install grim');
+  } else if (display.screenshot === 'portal' && !succeeds('gdbus', ['introspect', '--session', '--dest', 'org.freedesktop.portal.Desktop', '--object-path', '/org/freedesktop/portal/desktop'])) {
+    problems.push('xdg-desktop-portal not running');
+    fixes.push('Install xdg-desktop-portal and the backend for your desktop (xdg-desktop-portal-gnome, -kde or -wlr)');
+  }
+
+  return {
+    name: 'Display',
+    status: problems.length > 0 ? 'warning' : 'ok',
+    message: `Wayland (windows: ${display.windows}, screenshots: ${display.screenshot})${problems.length > 0 ? ` - ${problems.join(', ')}` : ''}`,
+    ...(fixes.length > 0 ? { fix: fixes.join('\n') } : {}),
+  };
+}
+
+/**
+ * Report the input backend - warns when it can't read the pointer (kill switch inactive)
+ */
+function checkInputBackend(): CheckResult {
+  const { input, killSwitch } = loadConfig();
+  const name = input.backend === 'auto' ? detectInputBackend() : input.backend;
+  const label = `${name}${input.backend === 'auto' ? ' (auto)' : ''}`;
+
+  if (killSwitch.enabled && !createInputBackend(name).readsPointer) {
+    return {
+      name: 'Input backend',
+      status: 'warning',
+      message: `${label} cannot read the pointer - kill switch INACTIVE (moving the mouse won't stop the agent)`,
+      fix: name === 'ydotool'
+        ? 'No Wayland backend can read the pointer: stop the agent with Ctrl+C, or run it in an X11 session'
+        : 'Use a backend that reads the pointer (input.backend in ~/.oscribe/config.json)',
+    };
+  }
+  if (input.backend === 'auto' && process.platform === 'linux' && getSessionType() === 'wayland') {
+    return {
+      name: 'Input backend',
+      status: 'warning',
+      message: `${label} only reaches XWayland windows in a Wayland session`,
+      fix: 'For native Wayland apps, opt in to ydotool (input.backend in ~/.oscribe/config.json) - it cannot read the pointer, so the kill switch is inactive',
+    };
+  }
+  return {
+    name: 'Input backend',
+    status: 'ok',
+    message: killSwitch.enabled ? `${label} (kill switch active)` : `${label} (kill switch disabled)`,
+  };
+}
+
 /**
  * Check if robotjs can be loaded
  */
@@ -237,8 +366,13 @@ export function doctorCommand(): Command {
         checks.push(checkVSBuildTools());
       } else if (process.platform === 'darwin') {
         checks.push(checkXcode());
+      } else if (process.platform === 'linux') {
+        checks.push(checkAtspi());
+        checks.push(checkDisplayBackend());
       }
 
+      checks.push(checkInputBackend());
+
       // Check npm
       checks.push(checkNpmGlobal());
 
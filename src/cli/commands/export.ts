@@ -0,0 +1,49 @@
+/**
+ * export command - Turn a recorded session into a standalone script
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { writeFileSync } from 'node:fs';
+import { loadSession } from '../../core/session-recorder.js';
+import { exportSession, EXPORT_FORMATS, type ExportFormat } from '../../core/session-export.js';
+
+interface ExportCommandOptions {
+  format: string;
+  output?: string;
+}
+
+export function exportCommand(): Command {
+  return new Command('export')
+    .description('Export a recorded session as a TypeScript, JSON or YAML script')
+    .argument('<sessionId>', 'Session ID to export')
+    .option('-f, --format <format>', `Output format (${EXPORT_FORMATS.join(', ')})`, 'ts')
+    .option('-o, --output <path>', 'Write to a file instead of stdout')
+    .action((sessionId: string, options: ExportCommandOptions) => {
+      try {
+        if (!EXPORT_FORMATS.includes(options.format as ExportFormat)) {
+          console.error(chalk.red(`Invalid format: ${options.format} (expected ${EXPORT_FORMATS.join(', ')})`));
+          process.exit(1);
+        }
+
+        const session = loadSession(sessionId);
+        if (!session) {
+          console.error(chalk.red(`Session not found: ${sessionId}`));
+          process.exit(1);
+        }
+
+        const output = exportSession(session, options.format as ExportFormat);
+
+        if (options.output) {
+          writeFileSync(options.output, output, 'utf-8');
+          console.log(chalk.green(`Exported ${sessionId} to ${options.output}`));
+        } else {
+          process.stdout.write(output);
+        }
+      } catch (error) {
+        console.error(chalk.red('Failed to export session'));
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    });
+}
@@ -9,7 +9,7 @@ import { hotkey } from '../../core/input.js';
 export function hotkeyCommand(): Command {
   return new Command('hotkey')
     .description('Press a keyboard shortcut (e.g., ctrl+a, ctrl+c, alt+tab)')
-    .argument('<keys>', 'Keys to press (e.g., "ctrl+a", "ctrl+shift+esc")')
+    .argument('<keys>', 'Keys to press (e.g., "ctrl+a", "ctrl+shift+esc", "primary+s" = ctrl/cmd)')
     .option('--dry-run', 'Simulate without executing')
     .option('-v, --verbose', 'Verbose output')
     .action(async (keys: string, options: { dryRun?: boolean; verbose?: boolean }) => {
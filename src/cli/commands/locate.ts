@@ -6,6 +6,7 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import { captureScreen } from '../../core/screenshot.js';
+import { maskScreenshot } from '../../core/privacy.js';
 import { locateElement } from '../../core/vision.js';
 
 export function locateCommand(): Command {
@@ -19,7 +20,7 @@ export function locateCommand(): Command {
 
       try {
         const screen = parseInt(options.screen, 10);
-        const screenshot = await captureScreen({ screen });
+        const screenshot = (await maskScreenshot(await captureScreen({ screen }))).screenshot;
 
         if (options.verbose) {
           spinner.text = 'Analyzing screenshot with Claude...';
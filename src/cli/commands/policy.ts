@@ -0,0 +1,134 @@
+/**
+ * policy command - Check what the security policy decides for an action
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import type { WindowDetails } from '../../core/windows.js';
+import type { PolicyEffect, PolicyRule } from '../../core/policy.js';
+
+interface PolicyTestOptions {
+  action: string;
+  x?: string;
+  y?: string;
+  keys?: string;
+  title?: string;
+  process?: string;
+  path?: string;
+  class?: string;
+  hash?: string;
+  element?: string;
+  active?: boolean;
+  file?: string;
+}
+
+const EFFECT_COLORS: Record<PolicyEffect, (text: string) => string> = {
+  allow: chalk.green,
+  deny: chalk.red,
+  confirm: chalk.yellow,
+};
+
+function formatRule(rule: PolicyRule): string {
+  const effect = EFFECT_COLORS[rule.effect](rule.effect.padEnd(7));
+  return `${effect} ${rule.id} ${chalk.gray(`(priority ${rule.priority})`)}${rule.description ? chalk.gray(` - ${rule.description}`) : ''}`;
+}
+
+export function policyCommand(): Command {
+  const cmd = new Command('policy')
+    .description('Inspect the security policy (restricted mode rules)');
+
+  cmd
+    .command('test')
+    .description('Evaluate a hypothetical action and show which rule decides it')
+    .option('-a, --action <action>', 'Action type (click, type, hotkey, scroll)', 'click')
+    .option('--x <x>', 'Action X coordinate')
+    .option('--y <y>', 'Action Y coordinate')
+    .option('-k, --keys <keys>', 'Hotkey, e.g. "ctrl+alt+delete" (implies --action hotkey)')
+    .option('-t, --title <title>', 'Window title')
+    .option('-p, --process <name>', 'Process name')
+    .option('--path <path>', 'Executable path')
+    .option('--class <class>', 'Window class')
+    .option('--hash <sha256>', 'Executable SHA-256 (default: computed from --path when a rule needs it)')
+    .option('-e, --element <name>', 'Name of the UI element at the action point')
+    .option('--active', 'Start from the active window (other options override its fields)')
+    .option('-f, --file <path>', 'Policy file to test instead of the configured one')
+    .action(async (options: PolicyTestOptions) => {
+      try {
+        // Dynamic import to avoid loading config at CLI startup
+        const { loadConfig } = await import('../../config/index.js');
+        const { buildPolicyRequest, evaluatePolicy, loadPolicy, readPolicyFile } = await import('../../core/policy.js');
+        const { getActiveWindowDetails } = await import('../../core/windows.js');
+
+        const { restrictedMode } = loadConfig();
+        const { policy, source } = options.file
+          ? { policy: readPolicyFile(options.file), source: options.file }
+          : loadPolicy(restrictedMode);
+
+        const action = options.keys ? 'hotkey' : options.action;
+        const params: Record<string, unknown> = {
+          ...(options.x !== undefined ? { x: Number(options.x) } : {}),
+          ...(options.y !== undefined ? { y: Number(options.y) } : {}),
+          ...(options.keys ? { keys: options.keys.split('+').map((k) => k.trim()) } : {}),
+        };
+
+        const live = options.active ? await getActiveWindowDetails() : null;
+        const fields = {
+          ...(options.title !== undefined ? { title: options.title } : {}),
+          ...(options.process ? { processName: options.process } : {}),
+          ...(options.path ? { processPath: options.path } : {}),
+          ...(options.class ? { windowClass: options.class } : {}),
+        };
+        const window: WindowDetails | null = live || Object.keys(fields).length > 0
+          ? { id: live?.id ?? 'test', title: '', ...live, ...fields }
+          : null;
+
+        const request = await buildPolicyRequest(policy, action, params, window, options.element);
+        if (options.hash) request.hash = options.hash.toLowerCase();
+        const decision = evaluatePolicy(policy, request);
+
+        console.log();
+        console.log(chalk.bold('Policy Test'));
+        console.log('─'.repeat(40));
+        console.log(`Policy:   ${chalk.cyan(source)} ${chalk.gray(`(${policy.rules.length} rules, default ${policy.default})`)}`);
+        console.log(`Action:   ${chalk.cyan(action)}${request.keys ? ` ${request.keys.join('+')}` : ''}${request.points.map((p) => ` at (${p.x}, ${p.y})`).join('')}`);
+        if (request.element !== undefined) console.log(`Element:  "${request.element}"`);
+        if (request.window) {
+          const w = request.window;
+          console.log(`Window:   "${w.title}"${w.windowClass ? chalk.gray(` [${w.windowClass}]`) : ''}`);
+          console.log(`Process:  ${w.processName ?? chalk.gray('unknown')}${w.processPath ? chalk.gray(` (${w.processPath})`) : ''}`);
+          if (request.hash) console.log(`SHA-256:  ${chalk.gray(request.hash)}`);
+        } else {
+          console.log(`Window:   ${chalk.gray('none (window rules cannot match)')}`);
+        }
+        console.log();
+
+        if (decision.matches.length > 0) {
+          console.log(chalk.bold('Matching rules (deciding rule first):'));
+          decision.matches.forEach((rule, i) => {
+            console.log(`  ${i === 0 ? '→' : ' '} ${formatRule(rule)}`);
+          });
+        } else {
+          console.log(chalk.gray('No rule matched.'));
+        }
+        console.log();
+
+        const verdict = EFFECT_COLORS[decision.effect](decision.effect.toUpperCase());
+        console.log(`Decision: ${chalk.bold(verdict)} ${chalk.gray(decision.rule ? `(rule "${decision.rule.id}")` : '(policy default)')}`);
+        if (!restrictedMode.enabled) {
+          console.log(chalk.yellow('Restricted mode is disabled in config.json - the policy is not enforced.'));
+        }
+        console.log();
+      } catch (error) {
+        console.error(chalk.red('Failed to test policy'));
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    });
+
+  // Default action: show help
+  cmd.action(() => {
+    cmd.help();
+  });
+
+  return cmd;
+}
@@ -0,0 +1,79 @@
+/**
+ * replay command - Re-execute a recorded session
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { replaySession, type ReplayStepResult } from '../../core/replay.js';
+
+interface ReplayCommandOptions {
+  speed: string;
+  dryRun?: boolean;
+  continueOnError?: boolean;
+  skipWaits?: boolean;
+  verify: boolean;
+}
+
+function formatStep(step: ReplayStepResult): string {
+  const label = `${String(step.index + 1).padStart(3)}. ${step.action}`;
+  switch (step.status) {
+    case 'ok':
+      return `${chalk.green('✓')} ${label} ${chalk.gray(`- ${step.message} (${step.duration_ms}ms)`)}`;
+    case 'error':
+      return `${chalk.red('✗')} ${label} ${chalk.red(`- ${step.message}`)}`;
+    case 'skipped':
+      return `${chalk.gray('-')} ${chalk.gray(`${label} - ${step.message}`)}`;
+    case 'dry-run':
+      return `${chalk.yellow('•')} ${label} ${chalk.gray(`- ${step.message}`)}`;
+  }
+}
+
+export function replayCommand(): Command {
+  return new Command('replay')
+    .description('Replay a recorded session (~/.oscribe/sessions/<id>)')
+    .argument('<sessionId>', 'Session ID to replay')
+    .option('-s, --speed <factor>', 'Playback speed factor (2 = twice as fast)', '1')
+    .option('--dry-run', 'List the steps without executing them')
+    .option('--continue-on-error', 'Keep going after a failed step')
+    .option('--skip-waits', 'Skip os_wait steps and pauses between actions')
+    .option('--no-verify', 'Do not check window title and target element before clicks')
+    .action(async (sessionId: string, options: ReplayCommandOptions) => {
+      try {
+        const speed = parseFloat(options.speed);
+        if (isNaN(speed) || speed <= 0) {
+          console.error(chalk.red(`Invalid speed factor: ${options.speed}`));
+          process.exit(1);
+        }
+
+        console.log();
+        console.log(chalk.bold(`Replaying session ${sessionId}`) + (options.dryRun ? chalk.yellow(' [DRY RUN]') : ''));
+        console.log('─'.repeat(50));
+
+        const result = await replaySession(sessionId, {
+          speed,
+          dryRun: options.dryRun ?? false,
+          stopOnError: !options.continueOnError,
+          skipWaits: options.skipWaits ?? false,
+          verify: options.verify,
+          onStep: (step) => console.log(formatStep(step)),
+        });
+
+        console.log('─'.repeat(50));
+        console.log(
+          `${chalk.green(`${result.succeeded} succeeded`)}, ` +
+          `${result.failed > 0 ? chalk.red(`${result.failed} failed`) : '0 failed'}, ` +
+          `${chalk.gray(`${result.skipped} skipped`)}` +
+          (result.aborted ? chalk.red(' - stopped early') : '')
+        );
+        console.log();
+
+        if (result.failed > 0) {
+          process.exit(1);
+        }
+      } catch (error) {
+        console.error(chalk.red('Failed to replay session'));
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    });
+}
@@ -3,14 +3,49 @@
  */
 
 import { Command } from 'commander';
-import { startServer } from '../../mcp/server.js';
+import { startServer, type StartServerOptions } from '../../mcp/server.js';
+import { parseResolution, type DisplayServer } from '../../core/virtual-display.js';
+
+interface ServeCommandOptions {
+  http?: string;
+  virtualDisplay?: string;
+  displayServer: string;
+  app?: string;
+}
 
 export function serveCommand(): Command {
   return new Command('serve')
-    .description('Start the MCP server (stdio transport)')
-    .action(async () => {
+    .description('Start the MCP server (stdio transport, or HTTP with --http)')
+    .option('--http <port>', 'Serve over Streamable HTTP (with SSE fallback) on this port')
+    .option('--virtual-display <WxH>', 'Run inside a headless X display of this size, e.g. 1920x1080 (Linux)')
+    .option('--display-server <server>', 'X server for --virtual-display (xvfb, xephyr)', 'xvfb')
+    .option('--app <command>', 'Launch this app inside the virtual display')
+    .action(async (options: ServeCommandOptions) => {
       try {
-        await startServer();
+        const serverOptions: StartServerOptions = {};
+
+        if (options.http !== undefined) {
+          const port = parseInt(options.http, 10);
+          if (isNaN(port) || port < 1 || port > 65535) {
+            throw new Error(`Invalid port: ${options.http}`);
+          }
+          serverOptions.http = port;
+        }
+
+        if (options.virtualDisplay !== undefined) {
+          if (options.displayServer !== 'xvfb' && options.displayServer !== 'xephyr') {
+            throw new Error(`Invalid display server: ${options.displayServer} (expected xvfb or xephyr)`);
+          }
+          serverOptions.virtualDisplay = {
+            ...parseResolution(options.virtualDisplay),
+            server: options.displayServer as DisplayServer,
+            ...(options.app ? { command: options.app } : {}),
+          };
+        } else if (options.app) {
+          throw new Error('--app requires --virtual-display');
+        }
+
+        await startServer(serverOptions);
       } catch (error) {
         console.error('Failed to start MCP server');
         console.error(error instanceof Error ? error.message : error);
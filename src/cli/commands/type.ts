@@ -5,24 +5,31 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { typeText } from '../../core/input.js';
+import { TYPING_STRATEGIES, type TypingStrategy } from '../../core/typing.js';
 
 export function typeCommand(): Command {
   return new Command('type')
     .description('Type text using the keyboard')
     .argument('<text>', 'Text to type')
     .option('-d, --delay <ms>', 'Delay between keystrokes in ms', '0')
+    .option('-s, --strategy <strategy>', `Typing strategy (${TYPING_STRATEGIES.join(', ')})`)
+    .option('--secret', 'Keep the text out of logs and output (passwords)')
     .option('--dry-run', 'Show what would be typed without typing')
-    .action(async (text: string, options: { delay: string; dryRun?: boolean }) => {
+    .action(async (text: string, options: { delay: string; strategy?: string; secret?: boolean; dryRun?: boolean }) => {
       try {
         const delay = parseInt(options.delay, 10);
+        const strategy = options.strategy as TypingStrategy | undefined;
+        if (strategy && !TYPING_STRATEGIES.includes(strategy)) {
+          throw new Error(`Invalid strategy: ${strategy} (expected ${TYPING_STRATEGIES.join(', ')})`);
+        }
 
         if (options.dryRun) {
-          console.log(chalk.yellow(`[DRY RUN] Would type: "${text}"`));
+          console.log(chalk.yellow(`[DRY RUN] Would type: "${options.secret ? '[REDACTED]' : text}"`));
           return;
         }
 
-        await typeText(text, { delay });
-        console.log(chalk.green(`Typed: "${text}"`));
+        const { display } = await typeText(text, { delay, secret: options.secret === true, ...(strategy ? { strategy } : {}) });
+        console.log(chalk.green(`Typed: "${display}"`));
       } catch (error) {
         console.error(chalk.red('Failed to type'));
         console.error(error instanceof Error ? error.message : error);
@@ -19,6 +19,11 @@ import { nvdaCommand } from './commands/nvda.js';
 import { killswitchCommand } from './commands/killswitch.js';
 import { voiceoverCommand } from './commands/voiceover.js';
 import { doctorCommand } from './commands/doctor.js';
+import { replayCommand } from './commands/replay.js';
+import { exportCommand } from './commands/export.js';
+import { policyCommand } from './commands/policy.js';
+import { approveCommand } from './commands/approve.js';
+import { auditCommand } from './commands/audit.js';
 
 export function registerCommands(program: Command): void {
   program.addCommand(initCommand());
@@ -37,4 +42,9 @@ export function registerCommands(program: Command): void {
   program.addCommand(killswitchCommand());
   program.addCommand(voiceoverCommand());
   program.addCommand(doctorCommand());
+  program.addCommand(replayCommand());
+  program.addCommand(exportCommand());
+  program.addCommand(policyCommand());
+  program.addCommand(approveCommand());
+  program.addCommand(auditCommand());
 }
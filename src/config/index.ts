@@ -32,6 +32,43 @@ const RestrictedModeSchema = z.object({
     'win+x',            // Quick link menu
   ]),
   allowedApps: z.array(z.string()).default([]),  // Whitelist mode if non-empty
+  // Policy rules file (default: ~/.oscribe/policy.json) - replaces the three lists above when it exists
+  policyFile: z.string().optional(),
+});
+
+// Security: human confirmation of "confirm" policy decisions
+const ConfirmationSchema = z.object({
+  timeoutMs: z.number().min(1000).max(3600000).default(120000),  // no answer = denied
+});
+
+// Security: secret redaction in logs, session recordings and tool responses
+const RedactionSchema = z.object({
+  // Scrub these patterns from everything written to disk: card numbers, email addresses, API tokens
+  patterns: z.array(z.enum(['pan', 'email', 'token'])).default(['pan', 'email', 'token']),
+  customPatterns: z.array(z.string()).default([]),  // Extra regexes to scrub
+  passwordFields: z.boolean().default(true),         // Treat text typed into password fields as secret
+  keychainService: z.string().default('oscribe'),    // Keychain service of {{secret:NAME}} placeholders
+});
+
+// Security: screenshot masking (os_screenshot image, session recording, element list and OCR)
+const PrivacySchema = z.object({
+  maskBlockedApps: z.boolean().default(true),     // Windows the policy doesn't let the agent click or type into
+  maskPasswordFields: z.boolean().default(true),
+  // Always masked, in screen coordinates
+  regions: z.array(z.object({
+    x: z.number(),
+    y: z.number(),
+    width: z.number().positive(),
+    height: z.number().positive(),
+    label: z.string().optional(),
+  })).default([]),
+  mode: z.enum(['black', 'blur']).default('black'),
+});
+
+// Security: tamper-evident action log (hash chain, see core/audit.ts)
+const AuditSchema = z.object({
+  sign: z.boolean().default(false),  // Also sign every logged action with the local Ed25519 key
+  keyFile: z.string().optional(),    // Private key (PEM), default ~/.oscribe/audit/signing-key.pem
 });
 
 // Security: Kill switch schema
@@ -41,6 +78,33 @@ const KillSwitchSchema = z.object({
   cooldownMs: z.number().min(0).max(5000).default(500),       // ms after our action
 });
 
+// Input backend (mouse/keyboard injection)
+const InputSchema = z.object({
+  // auto: ydotool on Wayland sessions, robotjs elsewhere
+  // ydotool can't read the pointer: the kill switch is inactive with it (warned at startup and in doctor)
+  backend: z.enum(['auto', 'robotjs', 'xdotool', 'ydotool', 'fake']).default('auto'),
+});
+
+// Mouse motion defaults (os_move, os_click_at, os_drag)
+const MotionSchema = z.object({
+  profile: z.enum(['instant', 'linear', 'bezier', 'human']).default('instant'),
+  duration: z.number().min(0).max(10000).default(300),  // ms of travel
+  jitter: z.number().min(0).max(20).default(2),           // px, human only
+  overshoot: z.number().min(0).max(0.5).default(0.05),    // fraction of distance, human only
+});
+
+// Text typing (os_type, os_type_into)
+const TypingSchema = z.object({
+  strategy: z.enum(['auto', 'keys', 'unicode', 'paste']).default('auto'),
+  pasteThreshold: z.number().min(0).default(200),  // auto: paste texts this long (0 = never)
+});
+
+// Touch and pen gestures (os_tap, os_swipe, os_pinch, os_long_press)
+const TouchSchema = z.object({
+  // auto: real touch where it can be injected, mouse otherwise; touch: fail without it; mouse: always emulate
+  mode: z.enum(['auto', 'touch', 'mouse']).default('auto'),
+});
+
 // NVDA screen reader settings (Windows only)
 const NvdaSchema = z.object({
   autoDownload: z.boolean().default(false),  // Don't download without consent
@@ -49,6 +113,13 @@ const NvdaSchema = z.object({
   customPath: z.string().optional(),         // Custom NVDA installation path
 });
 
+// MCP server settings (HTTP transport)
+const McpServerSchema = z.object({
+  httpHost: z.string().default('127.0.0.1'),  // Bind address for `oscribe serve --http`
+  httpToken: z.string().optional(),           // Bearer token required by HTTP clients
+  plugins: z.array(z.string()).default([]),   // Tool plugin modules (paths or package names)
+});
+
 export const ConfigSchema = z.object({
   apiKey: z.string().optional(),
   defaultScreen: z.number().default(0),
@@ -68,9 +139,23 @@ export const ConfigSchema = z.object({
   verifyDelay: z.number().min(0).max(5000).default(800),
   // Security
   restrictedMode: RestrictedModeSchema.default({}),
+  confirmation: ConfirmationSchema.default({}),
+  redaction: RedactionSchema.default({}),
+  privacy: PrivacySchema.default({}),
+  audit: AuditSchema.default({}),
   killSwitch: KillSwitchSchema.default({}),
+  // Input backend
+  input: InputSchema.default({}),
+  // Mouse motion profile
+  motion: MotionSchema.default({}),
+  // Typing strategy
+  typing: TypingSchema.default({}),
+  // Touch gestures
+  touch: TouchSchema.default({}),
   // NVDA (Windows Electron accessibility)
   nvda: NvdaSchema.default({}),
+  // MCP server (HTTP transport)
+  mcpServer: McpServerSchema.default({}),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
@@ -99,16 +184,54 @@ const DEFAULT_CONFIG: Config = {
     blockedHotkeys: ['win+l', 'ctrl+alt+delete', 'win+r', 'win+x'],
     allowedApps: [],
   },
+  confirmation: {
+    timeoutMs: 120000,
+  },
+  redaction: {
+    patterns: ['pan', 'email', 'token'],
+    customPatterns: [],
+    passwordFields: true,
+    keychainService: 'oscribe',
+  },
+  privacy: {
+    maskBlockedApps: true,
+    maskPasswordFields: true,
+    regions: [],
+    mode: 'black',
+  },
+  audit: {
+    sign: false,
+  },
   killSwitch: {
     enabled: true,
     movementThreshold: 50,
     cooldownMs: 500,
   },
+  input: {
+    backend: 'auto',
+  },
+  motion: {
+    profile: 'instant',
+    duration: 300,
+    jitter: 2,
+    overshoot: 0.05,
+  },
+  typing: {
+    strategy: 'auto',
+    pasteThreshold: 200,
+  },
+  touch: {
+    mode: 'auto',
+  },
   nvda: {
     autoDownload: false,
     autoStart: true,
     autoStop: true,
   },
+  mcpServer: {
+    httpHost: '127.0.0.1',
+    plugins: [],
+  },
 };
 
 export function getConfigDir(): string {
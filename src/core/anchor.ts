@@ -0,0 +1,142 @@
+/**
+ * Click anchors - describe a click by the element under it, not only by raw coordinates
+ * Recorded with os_click_at so replay survives windows that moved or resized.
+ *
+ * Resolution order at replay time:
+ *   element   Same element found in the live UI tree (automationId, else type + name) → its center
+ *   window    Same offset from the active window's top-left corner
+ *   absolute  Recorded screen coordinates
+ */
+
+import { getUIElements, getElementAtPoint, type UIElement } from './uiautomation.js';
+import { getActiveWindow } from './windows.js';
+import type { UIContext, UIElementContext } from './session-recorder.js';
+
+export interface ClickAnchor {
+  /** Element under the click point, if one was found */
+  element?: {
+    type: string;
+    name?: string;
+    automationId?: string;
+  };
+  /** Window the click landed in */
+  window?: string;
+  /** Click point relative to the window's top-left corner */
+  offsetX?: number;
+  offsetY?: number;
+}
+
+export type AnchorStrategy = 'element' | 'window' | 'absolute';
+
+export interface ResolvedPoint {
+  x: number;
+  y: number;
+  strategy: AnchorStrategy;
+  /** Matched element (element strategy only) */
+  element?: UIElement;
+}
+
+/**
+ * Smallest recorded element containing a point
+ */
+export function elementAtPoint(elements: UIElementContext[], x: number, y: number): UIElementContext | null {
+  let best: UIElementContext | null = null;
+  for (const el of elements) {
+    if (x < el.x || x > el.x + el.width || y < el.y || y > el.y + el.height) continue;
+    if (!best || el.width * el.height < best.width * best.height) {
+      best = el;
+    }
+  }
+  return best;
+}
+
+/**
+ * Capture the anchor for a click at (x, y) - call before clicking
+ * Uses the live element at the point, falling back to the last screenshot's UI context
+ */
+export async function captureClickAnchor(x: number, y: number, lastContext: UIContext | null): Promise<ClickAnchor | null> {
+  const anchor: ClickAnchor = {};
+
+  let element: { type: string; name?: string | undefined; automationId?: string | undefined } | null = null;
+  try {
+    element = await getElementAtPoint(x, y);
+  } catch {
+    // Not supported on this platform - use the recorded context
+  }
+  element ??= lastContext ? elementAtPoint(lastContext.elements, x, y) : null;
+
+  if (element?.type) {
+    anchor.element = {
+      type: element.type,
+      ...(element.name ? { name: element.name } : {}),
+      ...(element.automationId ? { automationId: element.automationId } : {}),
+    };
+  }
+
+  const active = await getActiveWindow().catch(() => null);
+  if (active) {
+    anchor.window = active.title;
+    if (active.bounds) {
+      anchor.offsetX = x - active.bounds.x;
+      anchor.offsetY = y - active.bounds.y;
+    }
+  }
+
+  return anchor.element || anchor.window ? anchor : null;
+}
+
+function matchesAnchorElement(el: UIElement, target: NonNullable<ClickAnchor['element']>): boolean {
+  if (el.type.toLowerCase() !== target.type.toLowerCase()) return false;
+  if (target.automationId) return el.automationId === target.automationId;
+  return (el.name ?? '') === (target.name ?? '');
+}
+
+/**
+ * Resolve an anchored click to live screen coordinates
+ * @param x, y - Recorded coordinates (absolute fallback)
+ */
+export async function resolveClickAnchor(anchor: ClickAnchor | undefined, x: number, y: number): Promise<ResolvedPoint> {
+  if (!anchor) {
+    return { x, y, strategy: 'absolute' };
+  }
+
+  const active = await getActiveWindow().catch(() => null);
+  // Window offsets only mean something inside the same window
+  const sameWindow = !anchor.window || (active?.title.toLowerCase().includes(anchor.window.toLowerCase()) ?? false);
+  const bounds = sameWindow ? active?.bounds : undefined;
+  // Where the point would be if only the window moved
+  const expected = bounds && anchor.offsetX !== undefined && anchor.offsetY !== undefined
+    ? { x: bounds.x + anchor.offsetX, y: bounds.y + anchor.offsetY }
+    : { x, y };
+
+  // An element without a name or id can't be told apart from its siblings
+  const target = anchor.element;
+  if (target && (target.name || target.automationId)) {
+    try {
+      const tree = await getUIElements(anchor.window);
+      const candidates = tree.elements.filter((el) => matchesAnchorElement(el, target));
+
+      // Several matches: take the one closest to where the window offset says it should be
+      const distance = (el: UIElement): number =>
+        Math.hypot(el.x + el.width / 2 - expected.x, el.y + el.height / 2 - expected.y);
+      const element = candidates.sort((a, b) => distance(a) - distance(b))[0];
+
+      if (element) {
+        return {
+          x: element.x + Math.floor(element.width / 2),
+          y: element.y + Math.floor(element.height / 2),
+          strategy: 'element',
+          element,
+        };
+      }
+    } catch {
+      // UI tree unavailable - fall through to window-relative coordinates
+    }
+  }
+
+  if (bounds && anchor.offsetX !== undefined && anchor.offsetY !== undefined) {
+    return { x: expected.x, y: expected.y, strategy: 'window' };
+  }
+
+  return { x, y, strategy: 'absolute' };
+}
@@ -0,0 +1,538 @@
+/**
+ * Audit - tamper-evident action log
+ *
+ * Every event appended to ~/.oscribe/logs/actions-*.jsonl carries a sequence number,
+ * the hash of the previous event and its own hash (SHA-256 of its canonical JSON),
+ * plus an Ed25519 signature by the local key with audit.sign. Editing, removing or
+ * inserting a line breaks the chain, and `oscribe audit verify` reports where.
+ * The last link is kept in audit-head.json, so truncated logs are detected too.
+ */
+
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, randomUUID, sign, verify, type KeyObject } from 'node:crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { appendFile, link, open, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { getConfigDir, loadConfig } from '../config/index.js';
+
+/** prevHash of the first event */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Chain fields added to each logged event
+ */
+export interface AuditLink {
+  /** 1 for the first chained event, +1 per event */
+  seq: number;
+  /** hash of the previous event (GENESIS_HASH for the first) */
+  prevHash: string;
+  /** SHA-256 of the event's canonical JSON, without hash and signature */
+  hash: string;
+  /** Ed25519 signature of hash (base64), when audit.sign is on */
+  signature?: string;
+}
+
+export type AuditIssueKind =
+  | 'unreadable'    // Not JSON
+  | 'modified'      // Content doesn't match its hash
+  | 'broken-link'   // prevHash doesn't match the previous event
+  | 'gap'           // Sequence numbers missing
+  | 'reordered'     // Sequence number went back
+  | 'unchained'     // Event without chain fields after the chain started
+  | 'bad-signature' // Signature doesn't verify
+  | 'unsigned'      // No signature (only with requireSigned)
+  | 'truncated';    // Events missing after the last line
+
+export interface AuditIssue {
+  kind: AuditIssueKind;
+  file: string;
+  /** 1-based line in file */
+  line?: number;
+  seq?: number;
+  message: string;
+}
+
+export interface AuditFileSummary {
+  name: string;
+  events: number;
+  /** SHA-256 of the file as verified */
+  sha256: string;
+}
+
+export interface AuditReport {
+  files: AuditFileSummary[];
+  events: number;
+  /** Events with chain fields (older events were logged before chaining) */
+  chained: number;
+  signed: number;
+  /** Signatures that couldn't be checked: no public key */
+  unverifiedSignatures: number;
+  firstSeq: number | null;
+  lastSeq: number | null;
+  headHash: string | null;
+  issues: AuditIssue[];
+  valid: boolean;
+}
+
+export interface VerifyAuditOptions {
+  /** Public key (PEM) to check signatures with - default: the local signing key */
+  publicKey?: string;
+  /** Every chained event must be signed */
+  requireSigned?: boolean;
+}
+
+/**
+ * Verification result signed by the local key (oscribe audit verify --export)
+ */
+export interface AuditSummary extends AuditReport {
+  version: 1;
+  generatedAt: string;
+  logsDir: string;
+  publicKey: string;
+  keyFingerprint: string;
+  signature: string;
+}
+
+const HEAD_FILE = 'audit-head.json';
+const LOCK_FILE = '.audit.lock';
+const LOG_FILE_PATTERN = /^actions-.*\.jsonl$/;
+
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_STALE_MS = 10000;
+const LOCK_RETRY_MS = 10;
+
+// Log files are read backwards in chunks of this size to find the last link
+const TAIL_CHUNK = 64 * 1024;
+
+// ============================================================================
+// Hashing
+// ============================================================================
+
+/**
+ * JSON with object keys sorted at every level - the same bytes whatever the key order
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`;
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hash of an event, over everything but its hash and signature
+ */
+export function hashAuditEvent(event: Record<string, unknown>): string {
+  const content = { ...event };
+  delete content['hash'];
+  delete content['signature'];
+  return createHash('sha256').update(canonicalJson(content)).digest('hex');
+}
+
+// ============================================================================
+// Signing key
+// ============================================================================
+
+/**
+ * Private key file (PEM) - audit.keyFile, default ~/.oscribe/audit/signing-key.pem
+ */
+export function getAuditKeyPath(): string {
+  return loadConfig().audit.keyFile ?? join(getConfigDir(), 'audit', 'signing-key.pem');
+}
+
+let keyCache: { path: string; key: KeyObject } | null = null;
+
+/**
+ * Local Ed25519 signing key - null if there is none and create is false
+ */
+export function loadAuditKey(create = false): KeyObject | null {
+  const path = getAuditKeyPath();
+  if (keyCache?.path === path) return keyCache.key;
+
+  if (!existsSync(path)) {
+    if (!create) return null;
+    const { privateKey } = generateKeyPairSync('ed25519');
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+    console.error(`[OScribe] Created audit signing key ${path}`);
+  }
+
+  const key = createPrivateKey(readFileSync(path, 'utf-8'));
+  keyCache = { path, key };
+  return key;
+}
+
+/**
+ * Public half of a signing key, as PEM
+ */
+export function auditPublicKeyPem(privateKey: KeyObject): string {
+  return createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString();
+}
+
+/**
+ * Short id of a public key: first 16 hex digits of the SHA-256 of its DER encoding
+ */
+export function auditKeyFingerprint(publicKeyPem: string): string {
+  const der = createPublicKey(publicKeyPem).export({ type: 'spki', format: 'der' });
+  return createHash('sha256').update(der).digest('hex').slice(0, 16);
+}
+
+// ============================================================================
+// Appending
+// ============================================================================
+
+/**
+ * Custom error for audit log failures
+ * Following error-handling-patterns skill
+ */
+export class AuditError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'LOCK_TIMEOUT',
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'AuditError';
+    // Preserve stack trace (V8 engines)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: alive, owned by another user
+    return (error as { code?: string }).code === 'EPERM';
+  }
+}
+
+/**
+ * Lock file contents, or null if it's gone
+ */
+async function readLock(lockPath: string): Promise<{ token: string; pid: number | null; ageMs: number } | null> {
+  try {
+    const [token, info] = await Promise.all([readFile(lockPath, 'utf-8'), stat(lockPath)]);
+    const pid = Number(token.split(':')[0]);
+    return { token, pid: Number.isInteger(pid) && pid > 0 ? pid : null, ageMs: Date.now() - info.mtimeMs };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove a lock left by a dead writer - only if it is still the one judged stale
+ * The lock is renamed away first, so a writer that took it meanwhile gets it back
+ */
+async function removeStaleLock(lockPath: string, staleToken: string): Promise<void> {
+  const moved = `${lockPath}.${randomUUID()}`;
+  try {
+    await rename(lockPath, moved);
+  } catch {
+    return; // Released meanwhile
+  }
+  if ((await readFile(moved, 'utf-8').catch(() => staleToken)) !== staleToken) {
+    await link(moved, lockPath).catch(() => undefined);
+  }
+  await unlink(moved).catch(() => undefined);
+}
+
+/**
+ * Run fn holding the log lock - the MCP server and CLI commands may log at the same time
+ * Waits without blocking the event loop. A lock is only taken over when its writer is gone
+ * (dead process, or no owner recorded after LOCK_STALE_MS); a live one makes this fail.
+ */
+async function withLogLock<T>(logsDir: string, fn: () => Promise<T>): Promise<T> {
+  const lockPath = join(logsDir, LOCK_FILE);
+  const token = `${process.pid}:${randomUUID()}`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      await writeFile(lockPath, token, { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'EEXIST') throw error;
+    }
+
+    const lock = await readLock(lockPath);
+    if (lock && (lock.pid !== null ? !isProcessAlive(lock.pid) : lock.ageMs > LOCK_STALE_MS)) {
+      await removeStaleLock(lockPath, lock.token);
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new AuditError(
+        `Action log locked by process ${lock?.pid ?? 'unknown'} for over ${LOCK_TIMEOUT_MS}ms - remove ${lockPath} if no OScribe process is running`,
+        'LOCK_TIMEOUT',
+        { lockPath, pid: lock?.pid }
+      );
+    }
+    await sleep(LOCK_RETRY_MS);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await unlink(lockPath).catch(() => undefined);
+  }
+}
+
+/**
+ * Action log files, oldest first
+ */
+export function listAuditLogFiles(logsDir: string): string[] {
+  if (!existsSync(logsDir)) return [];
+  return readdirSync(logsDir).filter((name) => LOG_FILE_PATTERN.test(name)).sort();
+}
+
+function parseLink(line: string): AuditLink | null {
+  try {
+    const event = JSON.parse(line) as Partial<AuditLink>;
+    return typeof event.seq === 'number' && typeof event.hash === 'string'
+      ? { seq: event.seq, prevHash: event.prevHash ?? '', hash: event.hash }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Last chained line of a log file, read from the end
+ */
+async function readLastLink(path: string): Promise<AuditLink | null> {
+  const handle = await open(path, 'r');
+  try {
+    let end = (await handle.stat()).size;
+    let carry = Buffer.alloc(0);
+    while (end > 0) {
+      const start = Math.max(0, end - TAIL_CHUNK);
+      const chunk = Buffer.alloc(end - start);
+      await handle.read(chunk, 0, chunk.length, start);
+      const data = Buffer.concat([chunk, carry]);
+      end = start;
+      // Before the first newline, the line may begin in the previous chunk
+      const first = end > 0 ? data.indexOf(0x0a) : -1;
+      if (end > 0 && first === -1) {
+        carry = data;
+        continue;
+      }
+      const lines = data.subarray(first + 1).toString('utf-8').split('\n');
+      for (let i = lines.length - 1; i >= 0; i--) {
+        const link = parseLink(lines[i] ?? '');
+        if (link) return link;
+      }
+      carry = data.subarray(0, first + 1);
+    }
+    return null;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Last link of the chain: the newer of audit-head.json and the last chained line of the logs
+ * The line is appended before the head is written - a crash in between leaves the head behind
+ */
+async function readHead(logsDir: string): Promise<{ seq: number; hash: string }> {
+  let head: { seq: number; hash: string } | null = null;
+  try {
+    const saved = JSON.parse(await readFile(join(logsDir, HEAD_FILE), 'utf-8')) as { seq?: unknown; hash?: unknown };
+    if (typeof saved.seq === 'number' && typeof saved.hash === 'string') head = { seq: saved.seq, hash: saved.hash };
+  } catch {
+    // No head yet (first chained event, or logs from before chaining)
+  }
+
+  for (const name of listAuditLogFiles(logsDir).reverse()) {
+    const link = await readLastLink(join(logsDir, name));
+    // Head ahead of the logs: they were truncated - keep chaining from the head, verify reports it
+    if (link) return head && head.seq > link.seq ? head : { seq: link.seq, hash: link.hash };
+  }
+  return head ?? { seq: 0, hash: GENESIS_HASH };
+}
+
+// Appends of this process, one at a time and in call order
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Append an event to the action log as the next link of the chain
+ * @param logPath - Called under the lock, so concurrent writers agree on file and order
+ */
+export function appendAuditEvent<T extends object>(logsDir: string, logPath: () => string, event: T): Promise<T & AuditLink> {
+  const { audit } = loadConfig();
+  const key = audit.sign ? loadAuditKey(true) : null;
+
+  const append = appendQueue.then(() => withLogLock(logsDir, async () => {
+    const head = await readHead(logsDir);
+    // Hash what verification will read back (JSON drops undefined, converts dates)
+    const content = JSON.parse(JSON.stringify({ ...event, seq: head.seq + 1, prevHash: head.hash })) as T & Omit<AuditLink, 'hash'>;
+    const hash = hashAuditEvent(content);
+    const chained: T & AuditLink = {
+      ...content,
+      hash,
+      ...(key ? { signature: sign(null, Buffer.from(hash), key).toString('base64') } : {}),
+    };
+
+    await appendFile(logPath(), JSON.stringify(chained) + '\n');
+    await writeFile(join(logsDir, HEAD_FILE), JSON.stringify({ seq: chained.seq, hash, timestamp: new Date().toISOString() }));
+    return chained;
+  }));
+  appendQueue = append.catch(() => undefined);
+  return append;
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Walk every action log file and check the chain
+ */
+export function verifyAuditLog(logsDir: string, options: VerifyAuditOptions = {}): AuditReport {
+  const localKey = options.publicKey ? null : loadAuditKey();
+  const publicKey = options.publicKey ?? (localKey ? auditPublicKeyPem(localKey) : undefined);
+
+  const report: AuditReport = {
+    files: [],
+    events: 0,
+    chained: 0,
+    signed: 0,
+    unverifiedSignatures: 0,
+    firstSeq: null,
+    lastSeq: null,
+    headHash: null,
+    issues: [],
+    valid: true,
+  };
+  let prev: { seq: number; hash: string } | null = null;
+  let lastFile = '';
+
+  for (const name of listAuditLogFiles(logsDir)) {
+    const raw = readFileSync(join(logsDir, name));
+    const lines = raw.toString('utf-8').split('\n');
+    let events = 0;
+    lastFile = name;
+
+    for (const [index, line] of lines.entries()) {
+      if (!line.trim()) continue;
+      events++;
+      const at = { file: name, line: index + 1 };
+
+      let event: Record<string, unknown>;
+      try {
+        event = JSON.parse(line) as Record<string, unknown>;
+      } catch {
+        report.issues.push({ kind: 'unreadable', ...at, message: 'line is not valid JSON' });
+        continue;
+      }
+
+      const seq = event['seq'];
+      const hash = event['hash'];
+      if (typeof seq !== 'number' || typeof hash !== 'string') {
+        // Events logged before chaining are fine, as long as the chain hasn't started
+        if (prev) report.issues.push({ kind: 'unchained', ...at, message: 'event without seq/hash inside the chain (inserted?)' });
+        continue;
+      }
+
+      report.chained++;
+      const issue = (kind: AuditIssueKind, message: string): void => {
+        report.issues.push({ kind, ...at, seq, message });
+      };
+
+      if (hashAuditEvent(event) !== hash) {
+        issue('modified', `event ${seq} doesn't match its hash`);
+      }
+
+      if (!prev) {
+        if (seq !== 1 || event['prevHash'] !== GENESIS_HASH) {
+          issue('gap', `chain starts at event ${seq} - events 1-${seq - 1} are missing`);
+        }
+        report.firstSeq = seq;
+      } else if (seq > prev.seq + 1) {
+        issue('gap', `events ${prev.seq + 1}-${seq - 1} are missing`);
+      } else if (seq <= prev.seq) {
+        issue('reordered', `event ${seq} follows event ${prev.seq}`);
+      } else if (event['prevHash'] !== prev.hash) {
+        issue('broken-link', `event ${seq} doesn't link to event ${prev.seq}`);
+      }
+
+      const signature = event['signature'];
+      if (typeof signature === 'string') {
+        report.signed++;
+        if (!publicKey) {
+          report.unverifiedSignatures++;
+        } else if (!verify(null, Buffer.from(hash), publicKey, Buffer.from(signature, 'base64'))) {
+          issue('bad-signature', `event ${seq} has an invalid signature`);
+        }
+      } else if (options.requireSigned) {
+        issue('unsigned', `event ${seq} is not signed`);
+      }
+
+      // Continue from the recorded hash: a single edit is reported once
+      prev = { seq, hash };
+    }
+
+    report.events += events;
+    report.files.push({ name, events, sha256: createHash('sha256').update(raw).digest('hex') });
+  }
+
+  if (prev) {
+    report.lastSeq = prev.seq;
+    report.headHash = prev.hash;
+  }
+
+  // The head outlives truncation of the log files
+  try {
+    const head = JSON.parse(readFileSync(join(logsDir, HEAD_FILE), 'utf-8')) as { seq?: unknown };
+    if (typeof head.seq === 'number' && head.seq > (prev?.seq ?? 0)) {
+      report.issues.push({
+        kind: 'truncated',
+        file: lastFile || HEAD_FILE,
+        seq: head.seq,
+        message: `log ends at event ${prev?.seq ?? 0} but ${head.seq} were written`,
+      });
+    }
+  } catch {
+    // No head: nothing chained yet
+  }
+
+  report.valid = report.issues.length === 0;
+  return report;
+}
+
+/**
+ * Sign a verification report with the local key (created if needed)
+ */
+export function signAuditSummary(report: AuditReport, logsDir: string): AuditSummary {
+  const key = loadAuditKey(true);
+  if (!key) throw new Error('No audit signing key');
+  const publicKey = auditPublicKeyPem(key);
+
+  const content: Omit<AuditSummary, 'signature'> = {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    logsDir,
+    ...report,
+    publicKey,
+    keyFingerprint: auditKeyFingerprint(publicKey),
+  };
+  return { ...content, signature: sign(null, Buffer.from(canonicalJson(content)), key).toString('base64') };
+}
+
+/**
+ * Check an exported summary against the public key it names (or a trusted one)
+ */
+export function verifyAuditSummary(summary: AuditSummary, trustedPublicKey?: string): boolean {
+  const { signature, ...content } = summary;
+  try {
+    return verify(null, Buffer.from(canonicalJson(content)), trustedPublicKey ?? summary.publicKey, Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
@@ -3,6 +3,7 @@
  */
 
 import { captureScreen } from './screenshot.js';
+import { maskScreenshot } from './privacy.js';
 import { locateElement, verifyAction } from './vision.js';
 import { click as inputClick } from './input.js';
 import { loadConfig } from '../config/index.js';
@@ -54,7 +55,7 @@ export async function smartClick(
       }
 
       // 1. Capture BEFORE screenshot
-      const beforeScreenshot = await captureScreen({ screen });
+      const beforeScreenshot = (await maskScreenshot(await captureScreen({ screen }))).screenshot;
 
       // 2. Locate element
       const coords = await locateElement(target, beforeScreenshot.base64);
@@ -72,7 +73,7 @@ export async function smartClick(
       await sleep(verifyDelay);
 
       // 5. Capture AFTER screenshot
-      const afterScreenshot = await captureScreen({ screen });
+      const afterScreenshot = (await maskScreenshot(await captureScreen({ screen }))).screenshot;
 
       // 6. Verify action succeeded
       const verified = await verifyAction(
@@ -254,6 +254,11 @@ async function convertAXNodeToUIElement(
     element.value = node.value.value;
   }
 
+  // Chromium reports password inputs as textboxes with a masked value
+  if (role === 'textbox' && /^[•●]+$/.test(node.value?.value ?? '')) {
+    element.isPassword = true;
+  }
+
   return element;
 }
 
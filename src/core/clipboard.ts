@@ -0,0 +1,425 @@
+/**
+ * Clipboard module - Read and write the system clipboard (text, HTML, PNG images)
+ * Windows: PowerShell, macOS: pbcopy/pbpaste + osascript, Linux: wl-clipboard (Wayland) or xclip (X11)
+ *
+ * snapshotClipboard()/restoreClipboard() save and put back the user's clipboard around
+ * actions that overwrite it (paste typing, os_clipboard_set).
+ */
+
+import { exec, execFile, spawn } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { readFile, unlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { getSessionType } from './wayland.js';
+
+const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+export const CLIPBOARD_FORMATS = ['text', 'html', 'image'] as const;
+
+export type ClipboardFormat = (typeof CLIPBOARD_FORMATS)[number];
+
+/**
+ * Clipboard content by format - image is PNG data
+ */
+export interface ClipboardContent {
+  text?: string;
+  html?: string;
+  image?: Buffer;
+}
+
+/**
+ * Custom error for clipboard failures
+ * Following error-handling-patterns skill
+ */
+export class ClipboardError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'TOOL_NOT_FOUND' | 'READ_FAILED' | 'WRITE_FAILED' | 'INVALID_IMAGE',
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'ClipboardError';
+    // Preserve stack trace (V8 engines)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+const MAX_BUFFER = 50 * 1024 * 1024;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Run a command with data on stdin
+ */
+function pipeTo(command: string, args: string[], input: Buffer | string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'ignore', 'pipe'], windowsHide: true });
+    let stderr = '';
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    child.on('error', (error: Error & { code?: string }) => {
+      reject(error.code === 'ENOENT'
+        ? new ClipboardError(`${command} not found`, 'TOOL_NOT_FOUND', { command })
+        : new ClipboardError(`${command} failed: ${error.message}`, 'WRITE_FAILED', { command }));
+    });
+    // 'exit', not 'close': xclip and wl-copy fork a daemon that keeps the pipes open
+    child.on('exit', (code) => {
+      if (code === 0) resolve();
+      else reject(new ClipboardError(`${command} exited with code ${code}: ${stderr.trim()}`, 'WRITE_FAILED', { command }));
+    });
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * Run a command and return its raw stdout - null if it fails (format not on the clipboard)
+ */
+async function readCommand(command: string, args: string[]): Promise<Buffer | null> {
+  try {
+    const { stdout } = await execFileAsync(command, args, { encoding: 'buffer', maxBuffer: MAX_BUFFER, timeout: 5000 });
+    return stdout;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Run a PowerShell script (base64-encoded, no quoting issues)
+ */
+async function powershell(script: string): Promise<string> {
+  const encoded = Buffer.from(script, 'utf16le').toString('base64');
+  const { stdout } = await execAsync(`powershell -NoProfile -STA -EncodedCommand ${encoded}`, {
+    windowsHide: true,
+    maxBuffer: MAX_BUFFER,
+  });
+  return stdout;
+}
+
+/**
+ * Run a PowerShell script with data on stdin - for payloads too large for the command line
+ * The script reads it with [Console]::In.ReadToEnd() (UTF-8)
+ */
+function powershellWithInput(script: string, input: string): Promise<void> {
+  const encoded = Buffer.from(`[Console]::InputEncoding = [System.Text.Encoding]::UTF8;\n${script}`, 'utf16le').toString('base64');
+  return pipeTo('powershell', ['-NoProfile', '-STA', '-EncodedCommand', encoded], input);
+}
+
+/**
+ * Run an AppleScript
+ */
+async function osascript(script: string): Promise<string> {
+  const { stdout } = await execFileAsync('osascript', ['-e', script], { maxBuffer: MAX_BUFFER });
+  return stdout;
+}
+
+/**
+ * Linux clipboard command: wl-paste/wl-copy on Wayland, xclip on X11
+ */
+function linuxRead(mimeType: string | null): Promise<Buffer | null> {
+  if (getSessionType() === 'wayland') {
+    return readCommand('wl-paste', mimeType ? ['--no-newline', '--type', mimeType] : ['--list-types']);
+  }
+  return readCommand('xclip', ['-selection', 'clipboard', '-o', '-t', mimeType ?? 'TARGETS']);
+}
+
+function linuxWrite(mimeType: string, data: Buffer | string): Promise<void> {
+  if (getSessionType() === 'wayland') {
+    return pipeTo('wl-copy', ['--type', mimeType], data);
+  }
+  return pipeTo('xclip', ['-selection', 'clipboard', '-in', '-t', mimeType], data);
+}
+
+/**
+ * Wrap an HTML fragment in the Windows CF_HTML format (byte offsets in a header)
+ */
+export function toCfHtml(html: string): string {
+  const header = 'Version:0.9\r\nStartHTML:0000000000\r\nEndHTML:0000000000\r\nStartFragment:0000000000\r\nEndFragment:0000000000\r\n';
+  const before = '<html><body><!--StartFragment-->';
+  const after = '<!--EndFragment--></body></html>';
+  const pad = (n: number): string => String(n).padStart(10, '0');
+
+  const startHtml = Buffer.byteLength(header);
+  const startFragment = startHtml + Buffer.byteLength(before);
+  const endFragment = startFragment + Buffer.byteLength(html);
+  const endHtml = endFragment + Buffer.byteLength(after);
+
+  return header
+    .replace('StartHTML:0000000000', `StartHTML:${pad(startHtml)}`)
+    .replace('EndHTML:0000000000', `EndHTML:${pad(endHtml)}`)
+    .replace('StartFragment:0000000000', `StartFragment:${pad(startFragment)}`)
+    .replace('EndFragment:0000000000', `EndFragment:${pad(endFragment)}`) + before + html + after;
+}
+
+/**
+ * Extract the fragment from Windows CF_HTML (whole document if there are no markers)
+ */
+export function fromCfHtml(cfHtml: string): string {
+  const fragment = /<!--StartFragment-->([\s\S]*)<!--EndFragment-->/.exec(cfHtml)?.[1];
+  if (fragment !== undefined) return fragment;
+  const start = cfHtml.search(/<html/i);
+  return start >= 0 ? cfHtml.slice(start) : cfHtml;
+}
+
+/**
+ * Decode AppleScript «data XXXX<hex>» output
+ */
+function fromAppleData(output: string): Buffer | null {
+  const hex = /«data \w{4}([0-9A-Fa-f]*)»/.exec(output)?.[1];
+  return hex ? Buffer.from(hex, 'hex') : null;
+}
+
+/**
+ * Read the clipboard as text - null if it holds no text
+ */
+export async function readClipboardText(): Promise<string | null> {
+  try {
+    if (process.platform === 'win32') {
+      const stdout = await powershell(`
+[Console]::OutputEncoding = [System.Text.Encoding]::UTF8;
+Add-Type -AssemblyName System.Windows.Forms;
+if ([System.Windows.Forms.Clipboard]::ContainsText()) { [Console]::Write([System.Windows.Forms.Clipboard]::GetText()) } else { exit 3 }
+`);
+      return stdout;
+    }
+    if (process.platform === 'darwin') {
+      const { stdout } = await execAsync('pbpaste', { maxBuffer: MAX_BUFFER });
+      return stdout;
+    }
+    const command = getSessionType() === 'wayland' ? 'wl-paste --no-newline --type text' : 'xclip -selection clipboard -o';
+    const { stdout } = await execAsync(command, { maxBuffer: MAX_BUFFER, timeout: 5000 });
+    return stdout;
+  } catch {
+    // Empty clipboard or non-text content
+    return null;
+  }
+}
+
+/**
+ * Read the clipboard as HTML - null if it holds no HTML
+ */
+export async function readClipboardHtml(): Promise<string | null> {
+  try {
+    if (process.platform === 'win32') {
+      const stdout = await powershell(`
+[Console]::OutputEncoding = [System.Text.Encoding]::UTF8;
+Add-Type -AssemblyName System.Windows.Forms;
+if ([System.Windows.Forms.Clipboard]::ContainsText([System.Windows.Forms.TextDataFormat]::Html)) { [Console]::Write([System.Windows.Forms.Clipboard]::GetText([System.Windows.Forms.TextDataFormat]::Html)) } else { exit 3 }
+`);
+      return fromCfHtml(stdout);
+    }
+    if (process.platform === 'darwin') {
+      return fromAppleData(await osascript('the clipboard as «class HTML»'))?.toString('utf-8') ?? null;
+    }
+    return (await linuxRead('text/html'))?.toString('utf-8') ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the clipboard as a PNG image - null if it holds no image
+ */
+export async function readClipboardImage(): Promise<Buffer | null> {
+  try {
+    if (process.platform === 'win32') {
+      const stdout = await powershell(`
+Add-Type -AssemblyName System.Windows.Forms;
+Add-Type -AssemblyName System.Drawing;
+$image = [System.Windows.Forms.Clipboard]::GetImage();
+if ($image -eq $null) { exit 3 }
+$stream = New-Object System.IO.MemoryStream;
+$image.Save($stream, [System.Drawing.Imaging.ImageFormat]::Png);
+[Console]::Write([System.Convert]::ToBase64String($stream.ToArray()))
+`);
+      return stdout.trim() ? Buffer.from(stdout.trim(), 'base64') : null;
+    }
+    if (process.platform === 'darwin') {
+      // PNG data is too large for osascript's hex output - write it to a temp file
+      const file = join(tmpdir(), `oscribe-clipboard-${randomUUID()}.png`);
+      try {
+        await osascript(`set f to open for access POSIX file "${file}" with write permission
+try
+  write (the clipboard as «class PNGf») to f
+end try
+close access f`);
+        const data = await readFile(file);
+        return data.length > 0 ? data : null;
+      } finally {
+        await unlink(file).catch(() => undefined);
+      }
+    }
+    const data = await linuxRead('image/png');
+    return data && data.length > 0 ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replace the clipboard content with text
+ */
+export async function writeClipboardText(text: string): Promise<void> {
+  if (process.platform === 'win32') {
+    await powershellWithInput(`
+Add-Type -AssemblyName System.Windows.Forms;
+$text = [Console]::In.ReadToEnd();
+if ($text.Length -eq 0) { [System.Windows.Forms.Clipboard]::Clear() } else { [System.Windows.Forms.Clipboard]::SetText($text) }
+`, text);
+    return;
+  }
+  if (process.platform === 'darwin') {
+    await pipeTo('pbcopy', [], text);
+    return;
+  }
+  if (getSessionType() === 'wayland') {
+    await pipeTo('wl-copy', ['--type', 'text/plain;charset=utf-8'], text);
+  } else {
+    await pipeTo('xclip', ['-selection', 'clipboard', '-in'], text);
+  }
+}
+
+/**
+ * Replace the clipboard content with HTML
+ * @param text - Plain-text alternative for apps that don't accept HTML (Windows/macOS; Linux tools hold one type)
+ */
+export async function writeClipboardHtml(html: string, text?: string): Promise<void> {
+  if (process.platform !== 'win32' && process.platform !== 'darwin') {
+    await linuxWrite('text/html', html);
+    return;
+  }
+
+  const plain = text ?? html.replace(/<[^>]*>/g, '');
+  try {
+    if (process.platform === 'win32') {
+      await powershellWithInput(`
+Add-Type -AssemblyName System.Windows.Forms;
+$payload = [Console]::In.ReadToEnd() | ConvertFrom-Json;
+$data = New-Object System.Windows.Forms.DataObject;
+$data.SetData([System.Windows.Forms.DataFormats]::Html, $payload.html);
+$data.SetData([System.Windows.Forms.DataFormats]::UnicodeText, $payload.text);
+[System.Windows.Forms.Clipboard]::SetDataObject($data, $true)
+`, JSON.stringify({ html: toCfHtml(html), text: plain }));
+    } else {
+      const hex = Buffer.from(html, 'utf-8').toString('hex').toUpperCase();
+      await osascript(`set the clipboard to {«class HTML»:«data HTML${hex}», string:"${plain.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"}`);
+    }
+  } catch (error) {
+    throw new ClipboardError(`Failed to write HTML to clipboard: ${error instanceof Error ? error.message : String(error)}`, 'WRITE_FAILED');
+  }
+}
+
+/**
+ * Replace the clipboard content with a PNG image
+ */
+export async function writeClipboardImage(png: Buffer): Promise<void> {
+  if (!png.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    throw new ClipboardError('Image data is not a PNG', 'INVALID_IMAGE', { bytes: png.length });
+  }
+
+  if (process.platform !== 'win32' && process.platform !== 'darwin') {
+    await linuxWrite('image/png', png);
+    return;
+  }
+
+  const file = join(tmpdir(), `oscribe-clipboard-${randomUUID()}.png`);
+  await writeFile(file, png);
+  try {
+    if (process.platform === 'win32') {
+      await powershell(`
+Add-Type -AssemblyName System.Windows.Forms;
+Add-Type -AssemblyName System.Drawing;
+$image = [System.Drawing.Image]::FromFile('${file.replace(/'/g, "''")}');
+[System.Windows.Forms.Clipboard]::SetImage($image);
+$image.Dispose()
+`);
+    } else {
+      await osascript(`set the clipboard to (read (POSIX file "${file}") as «class PNGf»)`);
+    }
+  } catch (error) {
+    throw new ClipboardError(`Failed to write image to clipboard: ${error instanceof Error ? error.message : String(error)}`, 'WRITE_FAILED');
+  } finally {
+    await unlink(file).catch(() => undefined);
+  }
+}
+
+/**
+ * Formats currently on the clipboard
+ */
+export async function listClipboardFormats(): Promise<ClipboardFormat[]> {
+  let types = '';
+  try {
+    if (process.platform === 'win32') {
+      types = await powershell(`
+Add-Type -AssemblyName System.Windows.Forms;
+$data = [System.Windows.Forms.Clipboard]::GetDataObject();
+if ($data -ne $null) { $data.GetFormats() -join "\`n" }
+`);
+    } else if (process.platform === 'darwin') {
+      types = await osascript('clipboard info');
+    } else {
+      types = (await linuxRead(null))?.toString('utf-8') ?? '';
+    }
+  } catch {
+    return [];
+  }
+
+  // Windows: UnicodeText / HTML Format / Bitmap, macOS: «class utf8» / «class HTML» / «class PNGf», Linux: MIME types
+  const formats: ClipboardFormat[] = [];
+  if (/UnicodeText|\bText\b|«class utf8»|\bstring\b|text\/plain|UTF8_STRING|\bSTRING\b/.test(types)) formats.push('text');
+  if (/HTML Format|«class HTML»|text\/html/.test(types)) formats.push('html');
+  if (/Bitmap|\bPNG\b|«class PNGf»|TIFF picture|image\/png/.test(types)) formats.push('image');
+  return formats;
+}
+
+/**
+ * Save everything on the clipboard that can be put back (text, HTML, image)
+ */
+export async function snapshotClipboard(): Promise<ClipboardContent> {
+  const formats = await listClipboardFormats();
+  const snapshot: ClipboardContent = {};
+  // Some platforms can't list formats reliably: always try text
+  const text = await readClipboardText();
+  if (text !== null) snapshot.text = text;
+  if (formats.includes('html')) {
+    const html = await readClipboardHtml();
+    if (html !== null) snapshot.html = html;
+  }
+  if (formats.includes('image')) {
+    const image = await readClipboardImage();
+    if (image) snapshot.image = image;
+  }
+  return snapshot;
+}
+
+/**
+ * Put a snapshot back - the richest format wins where only one can be held
+ */
+export async function restoreClipboard(snapshot: ClipboardContent): Promise<void> {
+  if (snapshot.image) {
+    await writeClipboardImage(snapshot.image);
+  } else if (snapshot.html !== undefined) {
+    await writeClipboardHtml(snapshot.html, snapshot.text);
+  } else {
+    await writeClipboardText(snapshot.text ?? '');
+  }
+}
+
+/**
+ * Run fn, then restore the clipboard as it was before (even if fn throws)
+ */
+export async function withClipboardRestored<T>(fn: () => Promise<T>): Promise<T> {
+  const snapshot = await snapshotClipboard();
+  try {
+    return await fn();
+  } finally {
+    await restoreClipboard(snapshot).catch((error: unknown) => {
+      console.error('[OScribe] Failed to restore clipboard:', error instanceof Error ? error.message : error);
+    });
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * Confirmation - ask a human before actions the policy marks "confirm"
+ *
+ * Channels:
+ *   MCP elicitation  The MCP server asks its client (see mcp/confirm.ts)
+ *   Approval queue   The request waits in ~/.oscribe/approvals until `oscribe approve`
+ *                    decides, from a terminal or a desktop dialog
+ * The MCP server installs its channel per tool call; everything else uses the queue.
+ * No answer within confirmation.timeoutMs counts as a refusal.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { execFile } from 'node:child_process';
+import { randomBytes } from 'node:crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, unlinkSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { getConfigDir, loadConfig } from '../config/index.js';
+import { scrubValue } from './redaction.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * An action waiting for a human decision
+ */
+export interface ConfirmationRequest {
+  id: string;
+  createdAt: string;
+  /** Process that asked (stale requests of dead processes are dropped) */
+  pid: number;
+  action: string;
+  /** What is about to happen: 'Hotkey "alt+f4" on "Untitled - Notepad"' */
+  summary: string;
+  /** Rule that asked for the confirmation, with its description */
+  rule?: string;
+  reason?: string;
+  window?: string;
+  process?: string;
+  element?: string;
+  params: Record<string, unknown>;
+}
+
+export type ConfirmationChannel = 'elicitation' | 'approve' | 'timeout';
+
+export interface ConfirmationResult {
+  approved: boolean;
+  /** Who decided: the MCP client, `oscribe approve`, or nobody in time */
+  channel: ConfirmationChannel;
+  reason?: string;
+}
+
+/**
+ * A decision as kept in the session (see SessionRecorder.recordConfirmation)
+ */
+export interface ConfirmationRecord extends ConfirmationResult {
+  id: string;
+  requestedAt: string;
+  decidedAt: string;
+  action: string;
+  summary: string;
+  rule?: string;
+}
+
+export type ConfirmationHandler = (request: ConfirmationRequest) => Promise<ConfirmationResult>;
+
+const POLL_INTERVAL_MS = 250;
+
+const handlerStorage = new AsyncLocalStorage<ConfirmationHandler>();
+
+/**
+ * Run fn with a confirmation channel - actions it triggers ask through the handler
+ */
+export function runWithConfirmationHandler<T>(handler: ConfirmationHandler, fn: () => Promise<T>): Promise<T> {
+  return handlerStorage.run(handler, fn);
+}
+
+/**
+ * New request with a short id (what `oscribe approve <id>` takes)
+ */
+export function createConfirmationRequest(
+  fields: Omit<ConfirmationRequest, 'id' | 'createdAt' | 'pid'>
+): ConfirmationRequest {
+  return {
+    id: randomBytes(4).toString('hex'),
+    createdAt: new Date().toISOString(),
+    pid: process.pid,
+    ...fields,
+    // Written to the approvals directory and shown to the approver
+    params: scrubValue(fields.params),
+  };
+}
+
+/**
+ * Ask a human - through the channel of the current MCP call, otherwise the approval queue
+ */
+export async function requestConfirmation(request: ConfirmationRequest): Promise<ConfirmationResult> {
+  const handler = handlerStorage.getStore() ?? waitForApproval;
+  return handler(request);
+}
+
+/**
+ * Session entry for a decision
+ */
+export function toConfirmationRecord(request: ConfirmationRequest, result: ConfirmationResult): ConfirmationRecord {
+  return {
+    id: request.id,
+    requestedAt: request.createdAt,
+    decidedAt: new Date().toISOString(),
+    action: request.action,
+    summary: request.summary,
+    ...(request.rule ? { rule: request.rule } : {}),
+    ...result,
+  };
+}
+
+// ============================================================================
+// Approval queue
+// ============================================================================
+
+interface ApprovalDecision {
+  approved: boolean;
+  reason?: string;
+  decidedAt: string;
+}
+
+// Request ids are 8 hex characters
+const APPROVAL_ID_PATTERN = /^[0-9a-f]{8}$/;
+
+/**
+ * Directory holding pending requests (<id>.json) and decisions (<id>.decision.json)
+ */
+export function getApprovalsDir(): string {
+  return join(getConfigDir(), 'approvals');
+}
+
+const requestFile = (id: string): string => join(getApprovalsDir(), `${id}.json`);
+
+const decisionFile = (id: string): string => join(getApprovalsDir(), `${id}.decision.json`);
+
+function removeQuietly(path: string): void {
+  try {
+    unlinkSync(path);
+  } catch {
+    // Already gone
+  }
+}
+
+function readDecision(id: string): ApprovalDecision | null {
+  try {
+    return JSON.parse(readFileSync(decisionFile(id), 'utf-8')) as ApprovalDecision;
+  } catch {
+    // Not decided yet (or still being written)
+    return null;
+  }
+}
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Queue the request and wait until `oscribe approve` decides or the timeout expires
+ */
+export async function waitForApproval(
+  request: ConfirmationRequest,
+  timeoutMs: number = loadConfig().confirmation.timeoutMs
+): Promise<ConfirmationResult> {
+  mkdirSync(getApprovalsDir(), { recursive: true });
+  writeFileSync(requestFile(request.id), JSON.stringify(request, null, 2));
+  console.error(`[OScribe] Waiting for approval: ${request.summary} - run "oscribe approve ${request.id}" (or --deny)`);
+
+  const deadline = Date.now() + timeoutMs;
+  try {
+    while (Date.now() < deadline) {
+      const decision = readDecision(request.id);
+      if (decision) {
+        return { approved: decision.approved, channel: 'approve', ...(decision.reason ? { reason: decision.reason } : {}) };
+      }
+      await sleep(POLL_INTERVAL_MS);
+    }
+    return { approved: false, channel: 'timeout', reason: `no answer within ${Math.round(timeoutMs / 1000)}s` };
+  } finally {
+    removeQuietly(requestFile(request.id));
+    removeQuietly(decisionFile(request.id));
+  }
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as { code?: string }).code === 'EPERM';
+  }
+}
+
+/**
+ * Requests waiting for a decision, oldest first (stale ones are removed)
+ */
+export function listPendingApprovals(): ConfirmationRequest[] {
+  const dir = getApprovalsDir();
+  if (!existsSync(dir)) return [];
+
+  const pending: ConfirmationRequest[] = [];
+  for (const file of readdirSync(dir)) {
+    const id = file.replace(/\.json$/, '');
+    if (!APPROVAL_ID_PATTERN.test(id) || existsSync(decisionFile(id))) continue;
+
+    let request: ConfirmationRequest;
+    try {
+      request = JSON.parse(readFileSync(join(dir, file), 'utf-8')) as ConfirmationRequest;
+    } catch {
+      continue;
+    }
+    if (!isAlive(request.pid)) {
+      removeQuietly(join(dir, file));
+      continue;
+    }
+    pending.push(request);
+  }
+  return pending.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Answer a pending request - false if there is no such request
+ */
+export function decideApproval(id: string, approved: boolean, reason?: string): boolean {
+  if (!APPROVAL_ID_PATTERN.test(id) || !existsSync(requestFile(id))) return false;
+
+  const decision: ApprovalDecision = { approved, decidedAt: new Date().toISOString(), ...(reason ? { reason } : {}) };
+  writeFileSync(decisionFile(id), JSON.stringify(decision));
+  return true;
+}
+
+// ============================================================================
+// Desktop dialog
+// ============================================================================
+
+/**
+ * Dialog text for a request
+ */
+export function describeConfirmation(request: ConfirmationRequest): string {
+  const lines = [`${request.summary}`];
+  if (request.element) lines.push(`Element: "${request.element}"`);
+  if (request.process) lines.push(`Process: ${request.process}`);
+  if (request.reason) lines.push(`Asked by ${request.reason}`);
+  return lines.join('\n');
+}
+
+/**
+ * Ask with a native Yes/No dialog - true if approved
+ * Windows: MessageBox, macOS: AppleScript dialog, Linux: zenity or kdialog
+ */
+export async function showConfirmationDialog(request: ConfirmationRequest): Promise<boolean> {
+  const text = `OScribe wants to run:\n\n${describeConfirmation(request)}\n\nAllow it?`;
+  const title = `OScribe approval ${request.id}`;
+
+  if (process.platform === 'win32') {
+    const script = [
+      'Add-Type -AssemblyName System.Windows.Forms',
+      `[System.Windows.Forms.MessageBox]::Show($env:OSCRIBE_DIALOG_TEXT, $env:OSCRIBE_DIALOG_TITLE, 'YesNo', 'Warning', 'Button2')`,
+    ].join('; ');
+    const { stdout } = await execFileAsync('powershell', ['-NoProfile', '-Command', script], {
+      env: { ...process.env, OSCRIBE_DIALOG_TEXT: text, OSCRIBE_DIALOG_TITLE: title },
+      windowsHide: true,
+    });
+    return stdout.trim() === 'Yes';
+  }
+
+  if (process.platform === 'darwin') {
+    const script = [
+      'on run argv',
+      '  display dialog (item 1 of argv) with title (item 2 of argv) buttons {"Deny", "Approve"} default button "Deny" with icon caution',
+      '  return button returned of result',
+      'end run',
+    ];
+    try {
+      const { stdout } = await execFileAsync('osascript', [...script.flatMap((line) => ['-e', line]), text, title]);
+      return stdout.trim() === 'Approve';
+    } catch {
+      // Closed with Escape
+      return false;
+    }
+  }
+
+  // Linux: zenity / kdialog exit with 1 on "No" - --no-markup: the action text must show as is, never as Pango markup
+  for (const [command, args] of [
+    ['zenity', ['--question', '--no-markup', '--title', title, '--text', text, '--ok-label', 'Approve', '--cancel-label', 'Deny']],
+    ['kdialog', ['--title', title, '--warningyesno', text]],
+  ] as const) {
+    try {
+      await execFileAsync(command, [...args]);
+      return true;
+    } catch (error) {
+      if ((error as { code?: unknown }).code === 'ENOENT') continue;
+      return false;
+    }
+  }
+  throw new Error('No dialog tool found - install zenity or kdialog, or answer in the terminal');
+}
@@ -0,0 +1,536 @@
+/**
+ * Gestures - tap, long press, swipe and pinch as real touch or pen input
+ *
+ * Touch-first UIs (tablet mode, kiosks, touch-optimized web apps) react to pointer
+ * events that a mouse never produces: inertia on swipes, two-finger zoom, press-and-hold menus.
+ *
+ * Injection:
+ *   Windows  InjectTouchInput / synthetic pen device (scripts/windows/inject-touch.ps1)
+ *   Linux    uinput multi-touch screen or stylus (scripts/linux/uinput-touch.py, needs python3-evdev
+ *            and write access to /dev/uinput) - works on X11 and Wayland
+ *   macOS    No public touch injection
+ *
+ * Where touch can't be injected the gesture is emulated with the mouse, with a warning:
+ * tap = click, long press = held click, swipe = drag, pinch = ctrl + wheel zoom.
+ * config.touch.mode: auto (fallback), touch (fail instead), mouse (always emulate).
+ */
+
+import { execFile } from 'node:child_process';
+import { access, constants } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { promisify } from 'node:util';
+import { loadConfig } from '../config/index.js';
+import { withLogging } from './logger.js';
+import { checkRestrictions } from './security.js';
+import { checkUserActivity, recordActionDone } from './killswitch.js';
+import { getInputBackend } from './input-backend.js';
+import { getHeldKeys, physicalButton, wait } from './input.js';
+import { captureScreen } from './screenshot.js';
+
+const execFileAsync = promisify(execFile);
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export type PointerKind = 'touch' | 'pen';
+
+export type TouchMode = 'auto' | 'touch' | 'mouse';
+
+/** How a gesture was actually performed */
+export type GestureMethod = PointerKind | 'mouse';
+
+export interface TouchContact {
+  /** Contact id, stable for the whole gesture (one per finger) */
+  id: number;
+  x: number;
+  y: number;
+  state: 'down' | 'move' | 'up';
+}
+
+export interface TouchFrame {
+  /** Contacts reported together (every finger still down) */
+  contacts: TouchContact[];
+  /** Pause after the frame */
+  delayMs: number;
+}
+
+/**
+ * Platform touch/pen injection
+ */
+export interface TouchInjector {
+  readonly name: string;
+  /** null when the pointer kind can be injected, otherwise why not */
+  unavailableReason(pointer: PointerKind): Promise<string | null>;
+  inject(frames: TouchFrame[], pointer: PointerKind): Promise<void>;
+}
+
+/**
+ * Custom error for gesture failures
+ * Following error-handling-patterns skill
+ */
+export class GestureError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'TOUCH_UNAVAILABLE' | 'INJECTION_FAILED' | 'INVALID_GESTURE',
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'GestureError';
+    // Preserve stack trace (V8 engines)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+// Interval between moves of a swipe or pinch (~60 Hz)
+const STEP_MS = 16;
+const MAX_STEPS = 200;
+
+// Held contacts are refreshed so Windows doesn't cancel them as stale
+const HOLD_REFRESH_MS = 100;
+
+// Wheel clicks of a ctrl+scroll pinch emulation, per 100 px of finger travel
+const ZOOM_CLICKS_PER_100PX = 2;
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+function contactsAt(points: Point[], state: TouchContact['state']): TouchContact[] {
+  return points.map((p, id) => ({ id, x: Math.round(p.x), y: Math.round(p.y), state }));
+}
+
+function holdFrames(points: Point[], ms: number): TouchFrame[] {
+  const frames: TouchFrame[] = [];
+  for (let left = ms; left > 0; left -= HOLD_REFRESH_MS) {
+    frames.push({ contacts: contactsAt(points, 'move'), delayMs: Math.min(left, HOLD_REFRESH_MS) });
+  }
+  return frames;
+}
+
+/**
+ * Contacts move from `from` to `to` positions in even steps over `duration`
+ */
+function planMove(from: Point[], to: Point[], duration: number): TouchFrame[] {
+  const steps = Math.min(MAX_STEPS, Math.max(2, Math.round(duration / STEP_MS)));
+  const delayMs = Math.round(duration / steps);
+  const frames: TouchFrame[] = [{ contacts: contactsAt(from, 'down'), delayMs: 0 }];
+
+  for (let i = 1; i <= steps; i++) {
+    const t = i / steps;
+    const points = from.map((start, n) => {
+      const end = to[n] ?? start;
+      return { x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t };
+    });
+    frames.push({ contacts: contactsAt(points, 'move'), delayMs });
+  }
+
+  frames.push({ contacts: contactsAt(to, 'up'), delayMs: 0 });
+  return frames;
+}
+
+/**
+ * One finger down, held for `holdMs`, then lifted
+ */
+export function planTap(x: number, y: number, holdMs: number = 50): TouchFrame[] {
+  const point = [{ x, y }];
+  return [
+    { contacts: contactsAt(point, 'down'), delayMs: 0 },
+    ...holdFrames(point, holdMs),
+    { contacts: contactsAt(point, 'up'), delayMs: 0 },
+  ];
+}
+
+/**
+ * One finger from (fromX, fromY) to (toX, toY) at constant speed - short durations fling
+ */
+export function planSwipe(fromX: number, fromY: number, toX: number, toY: number, duration: number): TouchFrame[] {
+  return planMove([{ x: fromX, y: fromY }], [{ x: toX, y: toY }], duration);
+}
+
+/**
+ * Two fingers on either side of (x, y), moving apart (zoom in) or together (zoom out)
+ * @param startDistance - Distance between the fingers at the start, in px
+ * @param endDistance - Distance at the end
+ * @param angle - Angle of the line through both fingers, in degrees (0 = horizontal)
+ */
+export function planPinch(
+  x: number,
+  y: number,
+  startDistance: number,
+  endDistance: number,
+  duration: number,
+  angle: number = 0
+): TouchFrame[] {
+  const rad = (angle * Math.PI) / 180;
+  const fingers = (distance: number): Point[] => {
+    const dx = (Math.cos(rad) * distance) / 2;
+    const dy = (Math.sin(rad) * distance) / 2;
+    return [{ x: x - dx, y: y - dy }, { x: x + dx, y: y + dy }];
+  };
+  return planMove(fingers(startDistance), fingers(endDistance), duration);
+}
+
+/**
+ * Total duration of a plan in ms
+ */
+export function framesDuration(frames: TouchFrame[]): number {
+  return frames.reduce((sum, frame) => sum + frame.delayMs, 0);
+}
+
+// ============================================================================
+// Injectors
+// ============================================================================
+
+function parseScriptResult(stdout: string, script: string): void {
+  let result: { ok?: boolean; error?: string };
+  try {
+    result = JSON.parse(stdout.trim()) as { ok?: boolean; error?: string };
+  } catch {
+    throw new GestureError(`${script} returned invalid output: ${stdout.trim().slice(0, 200)}`, 'INJECTION_FAILED');
+  }
+  if (result.error || !result.ok) {
+    throw new GestureError(`Touch injection failed: ${result.error ?? 'no result'}`, 'INJECTION_FAILED', { script });
+  }
+}
+
+/**
+ * Windows - InjectTouchInput for touch, a synthetic pointer device for pens
+ */
+export class WindowsTouchInjector implements TouchInjector {
+  readonly name = 'InjectTouchInput';
+
+  async unavailableReason(): Promise<string | null> {
+    // Touch injection exists since Windows 8; pen failures (pre-1809) surface from the script
+    return null;
+  }
+
+  async inject(frames: TouchFrame[], pointer: PointerKind): Promise<void> {
+    const scriptPath = join(__dirname, '..', '..', '..', 'scripts', 'windows', 'inject-touch.ps1');
+    const encoded = Buffer.from(JSON.stringify(frames), 'utf-8').toString('base64');
+    try {
+      const { stdout } = await execFileAsync(
+        'powershell',
+        ['-NoProfile', '-ExecutionPolicy', 'Bypass', '-File', scriptPath, '-Frames', encoded, '-Pointer', pointer],
+        { windowsHide: true, timeout: framesDuration(frames) + 30000 }
+      );
+      parseScriptResult(stdout, 'inject-touch.ps1');
+    } catch (error) {
+      if (error instanceof GestureError) throw error;
+      throw new GestureError(`inject-touch.ps1 failed: ${(error as Error).message}`, 'INJECTION_FAILED');
+    }
+  }
+}
+
+/**
+ * Linux - virtual touchscreen or stylus through uinput
+ */
+export class UinputTouchInjector implements TouchInjector {
+  readonly name = 'uinput';
+  private reason: string | null | undefined;
+  private desktopSize: { width: number; height: number } | null = null;
+
+  async unavailableReason(): Promise<string | null> {
+    if (this.reason !== undefined) return this.reason;
+
+    try {
+      await access('/dev/uinput', constants.W_OK);
+      await execFileAsync('python3', ['-c', 'import evdev'], { timeout: 10000 });
+      this.reason = null;
+    } catch (error) {
+      const code = (error as Error & { code?: string | number }).code;
+      this.reason = code === 'EACCES' || code === 'ENOENT'
+        ? 'no write access to /dev/uinput (add the user to the input group or run as root)'
+        : 'python3-evdev is not installed';
+    }
+    return this.reason;
+  }
+
+  /**
+   * Desktop size in px - the touchscreen's axes span the whole desktop
+   */
+  private async getDesktopSize(): Promise<{ width: number; height: number }> {
+    if (this.desktopSize) return this.desktopSize;
+
+    try {
+      const { stdout } = await execFileAsync('xdotool', ['getdisplaygeometry'], { timeout: 5000 });
+      const [width, height] = stdout.trim().split(/\s+/).map(Number);
+      if (width && height) this.desktopSize = { width, height };
+    } catch {
+      // Not on X11 - measure a screenshot instead
+    }
+
+    if (!this.desktopSize) {
+      const { width, height } = await captureScreen({ cursor: false });
+      if (!width || !height) {
+        throw new GestureError('Cannot determine the screen size for touch injection', 'INJECTION_FAILED');
+      }
+      this.desktopSize = { width, height };
+    }
+    return this.desktopSize;
+  }
+
+  async inject(frames: TouchFrame[], pointer: PointerKind): Promise<void> {
+    const scriptPath = join(__dirname, '..', '..', '..', 'scripts', 'linux', 'uinput-touch.py');
+    const gesture = JSON.stringify({ ...(await this.getDesktopSize()), pointer, frames });
+    try {
+      const { stdout } = await execFileAsync('python3', [scriptPath, gesture], { timeout: framesDuration(frames) + 30000 });
+      parseScriptResult(stdout, 'uinput-touch.py');
+    } catch (error) {
+      if (error instanceof GestureError) throw error;
+      throw new GestureError(`uinput-touch.py failed: ${(error as Error).message}`, 'INJECTION_FAILED');
+    }
+  }
+}
+
+let activeInjector: TouchInjector | null | undefined;
+
+/**
+ * Touch injector for this platform, or null (macOS)
+ */
+export function getTouchInjector(): TouchInjector | null {
+  if (activeInjector === undefined) {
+    activeInjector = process.platform === 'win32'
+      ? new WindowsTouchInjector()
+      : process.platform === 'linux'
+        ? new UinputTouchInjector()
+        : null;
+  }
+  return activeInjector;
+}
+
+/**
+ * Override the touch injector (tests) - undefined goes back to the platform one
+ */
+export function setTouchInjector(injector: TouchInjector | null | undefined): void {
+  activeInjector = injector;
+}
+
+/**
+ * Touch or pen if it can be injected, otherwise the mouse (auto) or an error (touch)
+ */
+async function resolveMethod(pointer: PointerKind, mode: TouchMode): Promise<GestureMethod> {
+  if (mode === 'mouse') return 'mouse';
+
+  const injector = getTouchInjector();
+  const reason = injector
+    ? await injector.unavailableReason(pointer)
+    : `no ${pointer} injection on ${process.platform}`;
+  if (!reason) return pointer;
+
+  if (mode === 'touch') {
+    throw new GestureError(`${pointer} injection unavailable: ${reason}`, 'TOUCH_UNAVAILABLE', { pointer });
+  }
+  console.error(`[OScribe] ${pointer} injection unavailable (${reason}) - emulating with the mouse`);
+  return 'mouse';
+}
+
+// ============================================================================
+// Mouse emulation
+// ============================================================================
+
+async function mousePress(x: number, y: number, holdMs: number): Promise<void> {
+  const backend = getInputBackend();
+  const button = physicalButton('left');
+  await backend.moveMouse(x, y);
+  await backend.mouseToggle('down', button);
+  await wait(holdMs);
+  await backend.mouseToggle('up', button);
+}
+
+async function mouseSwipe(fromX: number, fromY: number, toX: number, toY: number, duration: number): Promise<void> {
+  const backend = getInputBackend();
+  const button = physicalButton('left');
+  const frames = planSwipe(fromX, fromY, toX, toY, duration);
+
+  await backend.moveMouse(fromX, fromY);
+  await backend.mouseToggle('down', button);
+  for (const frame of frames.slice(1, -1)) {
+    const contact = frame.contacts[0];
+    if (contact) await backend.moveMouse(contact.x, contact.y);
+    await wait(frame.delayMs);
+  }
+  await backend.mouseToggle('up', button);
+}
+
+async function mouseZoom(x: number, y: number, startDistance: number, endDistance: number): Promise<void> {
+  const backend = getInputBackend();
+  const clicks = Math.max(1, Math.round((Math.abs(endDistance - startDistance) / 100) * ZOOM_CLICKS_PER_100PX));
+
+  await backend.moveMouse(x, y);
+  await backend.keyToggle('control', 'down');
+  try {
+    // Fingers apart = zoom in = wheel up
+    await backend.scroll(0, endDistance > startDistance ? clicks : -clicks);
+  } finally {
+    await backend.keyToggle('control', 'up');
+  }
+}
+
+// ============================================================================
+// Gestures
+// ============================================================================
+
+export interface GestureOptions {
+  /** Finger or pen (default: touch) */
+  pointer?: PointerKind;
+  /** Overrides config.touch.mode */
+  mode?: TouchMode;
+  dryRun?: boolean;
+}
+
+export interface SwipeOptions extends GestureOptions {
+  /** Duration in ms (default: 300) - shorter swipes fling further */
+  duration?: number;
+}
+
+export interface PinchOptions extends Omit<GestureOptions, 'pointer'> {
+  /** Finger distance at the start in px (default: 200) */
+  startDistance?: number;
+  /** Finger distance at the end in px (default: 400 - zoom in) */
+  endDistance?: number;
+  /** Duration in ms (default: 400) */
+  duration?: number;
+  /** Angle of the fingers in degrees (default: 0 = horizontal) */
+  angle?: number;
+}
+
+/**
+ * Security checks, logging and method selection shared by every gesture
+ */
+async function runGesture(
+  action: 'tap' | 'longPress' | 'swipe' | 'pinch',
+  params: Record<string, unknown>,
+  pointer: PointerKind,
+  mode: TouchMode | undefined,
+  run: {
+    frames: () => TouchFrame[];
+    mouse: () => Promise<void>;
+    /** Keys the mouse emulation holds down - checked like a hotkey */
+    mouseKeys?: string[];
+  }
+): Promise<GestureMethod> {
+  // Security: check for user activity (kill switch)
+  checkUserActivity();
+
+  // Security: check restricted mode
+  await checkRestrictions('click', params);
+
+  const method = await resolveMethod(pointer, mode ?? loadConfig().touch.mode);
+  if (method === 'mouse' && run.mouseKeys) {
+    await checkRestrictions('hotkey', { ...params, keys: [...getHeldKeys(), ...run.mouseKeys] });
+  }
+
+  // Execute with logging
+  await withLogging(action, { ...params, method }, async () => {
+    if (method === 'mouse') {
+      await run.mouse();
+      return;
+    }
+    const injector = getTouchInjector();
+    if (!injector) {
+      throw new GestureError(`No touch injector on ${process.platform}`, 'TOUCH_UNAVAILABLE');
+    }
+    await injector.inject(run.frames(), method);
+  });
+
+  // Update kill switch state
+  recordActionDone();
+  return method;
+}
+
+/**
+ * Tap at (x, y)
+ */
+export async function tap(x: number, y: number, options: GestureOptions = {}): Promise<GestureMethod> {
+  const { pointer = 'touch', dryRun = false } = options;
+  const params = { x, y, pointer, dryRun };
+
+  if (dryRun) {
+    console.log(`[DRY RUN] Tap (${pointer}) at (${x}, ${y})`);
+    return pointer;
+  }
+
+  return runGesture('tap', params, pointer, options.mode, {
+    frames: () => planTap(x, y),
+    mouse: () => mousePress(x, y, 50),
+  });
+}
+
+/**
+ * Press and hold at (x, y) - context menus, selection, drag handles
+ */
+export async function longPress(
+  x: number,
+  y: number,
+  options: GestureOptions & { duration?: number } = {}
+): Promise<GestureMethod> {
+  const { pointer = 'touch', dryRun = false, duration = 800 } = options;
+  const params = { x, y, pointer, duration, dryRun };
+
+  if (dryRun) {
+    console.log(`[DRY RUN] Long press (${pointer}) at (${x}, ${y}) for ${duration}ms`);
+    return pointer;
+  }
+
+  return runGesture('longPress', params, pointer, options.mode, {
+    frames: () => planTap(x, y, duration),
+    mouse: () => mousePress(x, y, duration),
+  });
+}
+
+/**
+ * Swipe from (fromX, fromY) to (toX, toY)
+ */
+export async function swipe(
+  fromX: number,
+  fromY: number,
+  toX: number,
+  toY: number,
+  options: SwipeOptions = {}
+): Promise<GestureMethod> {
+  const { pointer = 'touch', dryRun = false, duration = 300 } = options;
+  const params = { fromX, fromY, toX, toY, pointer, duration, dryRun };
+
+  if (dryRun) {
+    console.log(`[DRY RUN] Swipe (${pointer}) from (${fromX}, ${fromY}) to (${toX}, ${toY})`);
+    return pointer;
+  }
+
+  return runGesture('swipe', params, pointer, options.mode, {
+    frames: () => planSwipe(fromX, fromY, toX, toY, duration),
+    mouse: () => mouseSwipe(fromX, fromY, toX, toY, duration),
+  });
+}
+
+/**
+ * Two-finger pinch centered on (x, y) - zoom in when the fingers move apart
+ */
+export async function pinch(x: number, y: number, options: PinchOptions = {}): Promise<GestureMethod> {
+  const { dryRun = false, startDistance = 200, endDistance = 400, duration = 400, angle = 0 } = options;
+  const params = { x, y, startDistance, endDistance, duration, angle, dryRun };
+
+  if (startDistance <= 0 || endDistance <= 0 || startDistance === endDistance) {
+    throw new GestureError(
+      'Pinch distances must be positive and different (larger end distance zooms in)',
+      'INVALID_GESTURE',
+      { startDistance, endDistance }
+    );
+  }
+
+  if (dryRun) {
+    console.log(`[DRY RUN] Pinch at (${x}, ${y}) from ${startDistance}px to ${endDistance}px`);
+    return 'touch';
+  }
+
+  return runGesture('pinch', params, 'touch', options.mode, {
+    frames: () => planPinch(x, y, startDistance, endDistance, duration, angle),
+    mouse: () => mouseZoom(x, y, startDistance, endDistance),
+    mouseKeys: ['control'],
+  });
+}
@@ -5,13 +5,27 @@
 export * from './screenshot.js';
 export * from './vision.js';
 export * from './input.js';
+export * from './input-backend.js';
+export * from './motion.js';
+export * from './keys.js';
+export * from './typing.js';
+export * from './gestures.js';
+export * from './clipboard.js';
 export * from './windows.js';
+export * from './wayland.js';
+export * from './virtual-display.js';
 export * from './auth.js';
 export * from './automation.js';
 export * from './uiautomation.js';
 export * from './nvda.js';
 export * from './voiceover.js';
 export * from './axmanual.js';
+export * from './selector.js';
+export * from './wait.js';
+export * from './png.js';
+export * from './anchor.js';
+export * from './replay.js';
+export * from './session-export.js';
 // Unity Bridge
 export * from './unity-bridge.js';
 export * from './unity-setup.js';
@@ -22,7 +36,12 @@ export * from './cdp-elements.js';
 export * from './browser-restart.js';
 // Security modules
 export * from './logger.js';
+export * from './audit.js';
 export * from './security.js';
+export * from './policy.js';
+export * from './confirmation.js';
+export * from './redaction.js';
+export * from './privacy.js';
 export * from './killswitch.js';
 // OCR text detection
 export * from './ocr.js';
@@ -0,0 +1,614 @@
+/**
+ * Input backends - Low-level mouse and keyboard injection
+ * input.ts keeps the policy (logging, restricted mode, kill switch), backends only inject events.
+ *
+ *   robotjs  Native module (Windows, macOS, Linux X11)
+ *   xdotool  X11 command-line tool
+ *   ydotool  uinput daemon, works on Wayland (needs ydotoold running)
+ *   fake     Records calls in memory - tests and CI without a display
+ *
+ * Key names follow robotjs: control, alt, shift, command, enter, pageup, f1...
+ */
+
+import { exec, execFile, execFileSync, spawn } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { promisify } from 'node:util';
+import { loadConfig } from '../config/index.js';
+import { getSessionType } from './wayland.js';
+
+const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+// From dist/src/core/ go up 3 levels to reach oscribe/
+const PACKAGE_ROOT = join(dirname(fileURLToPath(import.meta.url)), '..', '..', '..');
+
+export type MouseButton = 'left' | 'right' | 'middle';
+
+export type InputBackendName = 'robotjs' | 'xdotool' | 'ydotool' | 'fake';
+
+export interface InputBackend {
+  readonly name: InputBackendName;
+  /** keyTap('a') types "a" whatever the keyboard layout (false: physical US key positions) */
+  readonly layoutAware: boolean;
+  /** getMousePos() reads the real pointer (false: only the last position we set - no kill switch) */
+  readonly readsPointer: boolean;
+  moveMouse(x: number, y: number): Promise<void>;
+  mouseToggle(state: 'down' | 'up', button: MouseButton): Promise<void>;
+  /** Type a string, waiting delayMs between characters */
+  typeString(text: string, delayMs: number): Promise<void>;
+  /** Inject text as Unicode characters, bypassing the keyboard layout */
+  typeUnicode(text: string, delayMs: number): Promise<void>;
+  /** Press and release a key while holding modifiers */
+  keyTap(key: string, modifiers: string[]): Promise<void>;
+  /** Press or release a single key (held keys, chords built step by step) */
+  keyToggle(key: string, state: 'down' | 'up'): Promise<void>;
+  /** Scroll by wheel clicks - positive dy scrolls up, positive dx scrolls right */
+  scroll(dx: number, dy: number): Promise<void>;
+  getMousePos(): { x: number; y: number };
+}
+
+/**
+ * Custom error for input backend failures
+ * Following error-handling-patterns skill
+ */
+export class InputBackendError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'UNAVAILABLE' | 'UNSUPPORTED' | 'UNSUPPORTED_KEY' | 'COMMAND_FAILED',
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'InputBackendError';
+    // Preserve stack trace (V8 engines)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+// ============================================================================
+// robotjs
+// ============================================================================
+
+type RobotModule = typeof import('robotjs');
+
+/**
+ * Run a Unicode typer that reads its text from stdin
+ * Keeps the text out of the process list and clear of command-line length limits
+ */
+function typeFromStdin(command: string, args: string[], text: string, label: string, missingHint: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'ignore', 'pipe'], windowsHide: true });
+    let stderr = '';
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    child.on('error', (error: Error & { code?: string }) => {
+      reject(new InputBackendError(
+        error.code === 'ENOENT' ? missingHint : `${label} failed: ${error.message}`,
+        error.code === 'ENOENT' ? 'UNSUPPORTED' : 'COMMAND_FAILED'
+      ));
+    });
+    child.on('close', (code) => {
+      if (code === 0) resolve();
+      else reject(new InputBackendError(`${label} exited with code ${code}: ${stderr.trim()}`, 'COMMAND_FAILED'));
+    });
+    child.stdin.end(text);
+  });
+}
+
+/**
+ * macOS: post Unicode keyboard events (CGEventKeyboardSetUnicodeString) with unicode-typer
+ * Uses bin/unicode-typer when compiled, else runs the Swift source (needs the Xcode tools)
+ */
+function typeUnicodeMacOS(text: string, delayMs: number): Promise<void> {
+  const binary = join(PACKAGE_ROOT, 'bin', 'unicode-typer');
+  const delay = String(Math.max(0, Math.round(delayMs)));
+  const [command, args] = existsSync(binary)
+    ? [binary, [delay]]
+    : ['swift', [join(PACKAGE_ROOT, 'scripts', 'macos', 'unicode-typer.swift'), delay]];
+
+  return typeFromStdin(
+    command,
+    args,
+    text,
+    'unicode-typer',
+    'Unicode typing on macOS needs unicode-typer: swiftc scripts/macos/unicode-typer.swift -o bin/unicode-typer -framework ApplicationServices'
+  );
+}
+
+/**
+ * Windows: SendInput with KEYEVENTF_UNICODE, one UTF-16 code unit per event
+ * The script is fixed; the text is read from stdin as UTF-8
+ */
+function typeUnicodeWindows(text: string, delayMs: number): Promise<void> {
+  const psScript = `
+[Console]::InputEncoding = [System.Text.Encoding]::UTF8;
+Add-Type @"
+using System;
+using System.Runtime.InteropServices;
+public class UnicodeInput {
+    [StructLayout(LayoutKind.Sequential)] public struct KEYBDINPUT { public ushort wVk; public ushort wScan; public uint dwFlags; public uint time; public IntPtr dwExtraInfo; }
+    [StructLayout(LayoutKind.Explicit, Size = 40)] public struct INPUT { [FieldOffset(0)] public uint type; [FieldOffset(8)] public KEYBDINPUT ki; }
+    [DllImport("user32.dll", SetLastError = true)] public static extern uint SendInput(uint n, INPUT[] inputs, int size);
+    public static void Send(char c) {
+        INPUT[] inputs = new INPUT[2];
+        for (int i = 0; i < 2; i++) { inputs[i].type = 1; inputs[i].ki.wScan = c; inputs[i].ki.dwFlags = 0x0004u | (i == 1 ? 0x0002u : 0u); }
+        SendInput(2, inputs, Marshal.SizeOf(typeof(INPUT)));
+    }
+}
+"@;
+$text = [Console]::In.ReadToEnd();
+foreach ($c in $text.ToCharArray()) { [UnicodeInput]::Send($c); Start-Sleep -Milliseconds ${Math.max(0, Math.round(delayMs))} }
+`;
+  const encodedScript = Buffer.from(psScript, 'utf16le').toString('base64');
+  return typeFromStdin(
+    'powershell',
+    ['-NoProfile', '-EncodedCommand', encodedScript],
+    text,
+    'PowerShell Unicode input',
+    'Unicode typing on Windows needs PowerShell'
+  );
+}
+
+/**
+ * Native backend - robotjs is loaded lazily so other backends work without the native build
+ */
+export class RobotjsInputBackend implements InputBackend {
+  readonly name = 'robotjs';
+  readonly layoutAware = true;
+  readonly readsPointer = true;
+  private robot: RobotModule | null = null;
+
+  private get native(): RobotModule {
+    if (!this.robot) {
+      try {
+        this.robot = createRequire(import.meta.url)('robotjs') as RobotModule;
+      } catch (error) {
+        throw new InputBackendError(
+          'robotjs native module could not be loaded. Run: npm rebuild robotjs',
+          'UNAVAILABLE',
+          { cause: error instanceof Error ? error.message : String(error) }
+        );
+      }
+    }
+    return this.robot;
+  }
+
+  async moveMouse(x: number, y: number): Promise<void> {
+    this.native.moveMouse(x, y);
+  }
+
+  async mouseToggle(state: 'down' | 'up', button: MouseButton): Promise<void> {
+    this.native.mouseToggle(state, button);
+  }
+
+  async typeString(text: string, delayMs: number): Promise<void> {
+    if (delayMs > 0) {
+      this.native.setKeyboardDelay(delayMs);
+    }
+    this.native.typeString(text);
+  }
+
+  async typeUnicode(text: string, delayMs: number): Promise<void> {
+    if (process.platform === 'win32') {
+      await typeUnicodeWindows(text, delayMs);
+      return;
+    }
+
+    if (process.platform === 'darwin') {
+      await typeUnicodeMacOS(text, delayMs);
+      return;
+    }
+
+    // X11: xdotool remaps a spare keycode to each missing keysym; --file - reads the text from stdin
+    await typeFromStdin(
+      'xdotool',
+      ['type', '--delay', String(delayMs), '--file', '-'],
+      text,
+      'xdotool',
+      'Unicode typing needs xdotool on Linux'
+    );
+  }
+
+  async keyTap(key: string, modifiers: string[]): Promise<void> {
+    this.native.keyTap(key, modifiers);
+  }
+
+  async keyToggle(key: string, state: 'down' | 'up'): Promise<void> {
+    this.native.keyToggle(key, state);
+  }
+
+  async scroll(dx: number, dy: number): Promise<void> {
+    if (process.platform !== 'win32') {
+      this.native.scrollMouse(dx, dy);
+      return;
+    }
+
+    // robotjs scrollMouse is broken on Windows - use mouse_event through PowerShell
+    // WHEEL_DELTA = 120 per "click"
+    const wheel = async (flag: string, value: number): Promise<void> => {
+      const csharpCode = `using System; using System.Runtime.InteropServices; public class MouseScroll { [DllImport(\\"user32.dll\\")] public static extern void mouse_event(uint dwFlags, int dx, int dy, int dwData, int dwExtraInfo); public const uint MOUSEEVENTF_WHEEL = 0x0800; public const uint MOUSEEVENTF_HWHEEL = 0x01000; }`;
+      const psCommand = `Add-Type -TypeDefinition '${csharpCode}'; [MouseScroll]::mouse_event([MouseScroll]::${flag}, 0, 0, ${value}, 0)`;
+      await execAsync(`powershell -Command "${psCommand}"`);
+    };
+
+    if (dy !== 0) {
+      await wheel('MOUSEEVENTF_WHEEL', 120 * dy);
+    }
+    if (dx !== 0) {
+      await wheel('MOUSEEVENTF_HWHEEL', 120 * dx);
+    }
+  }
+
+  getMousePos(): { x: number; y: number } {
+    const pos = this.native.getMousePos();
+    return { x: pos.x, y: pos.y };
+  }
+}
+
+// ============================================================================
+// xdotool (X11)
+// ============================================================================
+
+// robotjs key name -> X keysym
+const XDOTOOL_KEYS: Record<string, string> = {
+  control: 'ctrl',
+  command: 'super',
+  alt: 'alt',
+  shift: 'shift',
+  enter: 'Return',
+  tab: 'Tab',
+  escape: 'Escape',
+  space: 'space',
+  backspace: 'BackSpace',
+  delete: 'Delete',
+  insert: 'Insert',
+  up: 'Up',
+  down: 'Down',
+  left: 'Left',
+  right: 'Right',
+  home: 'Home',
+  end: 'End',
+  pageup: 'Prior',
+  pagedown: 'Next',
+  capslock: 'Caps_Lock',
+  menu: 'Menu',
+  printscreen: 'Print',
+  right_control: 'Control_R',
+  left_control: 'Control_L',
+  right_shift: 'Shift_R',
+  right_alt: 'ISO_Level3_Shift',
+  numpad_lock: 'Num_Lock',
+  'numpad_+': 'KP_Add',
+  'numpad_-': 'KP_Subtract',
+  'numpad_*': 'KP_Multiply',
+  'numpad_/': 'KP_Divide',
+  'numpad_.': 'KP_Decimal',
+  audio_mute: 'XF86AudioMute',
+  audio_vol_down: 'XF86AudioLowerVolume',
+  audio_vol_up: 'XF86AudioRaiseVolume',
+  audio_play: 'XF86AudioPlay',
+  audio_stop: 'XF86AudioStop',
+  audio_pause: 'XF86AudioPause',
+  audio_prev: 'XF86AudioPrev',
+  audio_next: 'XF86AudioNext',
+  audio_rewind: 'XF86AudioRewind',
+  audio_forward: 'XF86AudioForward',
+  audio_repeat: 'XF86AudioRepeat',
+  audio_random: 'XF86AudioRandomPlay',
+  lights_mon_up: 'XF86MonBrightnessUp',
+  lights_mon_down: 'XF86MonBrightnessDown',
+  lights_kbd_toggle: 'XF86KbdLightOnOff',
+  lights_kbd_up: 'XF86KbdBrightnessUp',
+  lights_kbd_down: 'XF86KbdBrightnessDown',
+  '+': 'plus',
+  '-': 'minus',
+  '=': 'equal',
+  ',': 'comma',
+  '.': 'period',
+  '/': 'slash',
+  ';': 'semicolon',
+  "'": 'apostrophe',
+  '`': 'grave',
+  '[': 'bracketleft',
+  ']': 'bracketright',
+  '\\': 'backslash',
+};
+
+const XDOTOOL_BUTTONS: Record<MouseButton, string> = { left: '1', middle: '2', right: '3' };
+
+function xdotoolKey(key: string): string {
+  const numpad = /^numpad_(\d)$/.exec(key)?.[1];
+  if (numpad) return `KP_${numpad}`;
+  return XDOTOOL_KEYS[key] ?? (/^f\d{1,2}$/.test(key) ? key.toUpperCase() : key);
+}
+
+export class XdotoolInputBackend implements InputBackend {
+  readonly name = 'xdotool';
+  readonly layoutAware = true;
+  readonly readsPointer = true;
+
+  private async run(args: string[]): Promise<void> {
+    try {
+      await execFileAsync('xdotool', args, { timeout: 30000 });
+    } catch (error) {
+      throw new InputBackendError(
+        `xdotool ${args[0]} failed: ${error instanceof Error ? error.message : String(error)}`,
+        'COMMAND_FAILED',
+        { args }
+      );
+    }
+  }
+
+  async moveMouse(x: number, y: number): Promise<void> {
+    await this.run(['mousemove', '--sync', String(Math.round(x)), String(Math.round(y))]);
+  }
+
+  async mouseToggle(state: 'down' | 'up', button: MouseButton): Promise<void> {
+    await this.run([state === 'down' ? 'mousedown' : 'mouseup', XDOTOOL_BUTTONS[button]]);
+  }
+
+  async typeString(text: string, delayMs: number): Promise<void> {
+    await this.run(['type', '--delay', String(delayMs), '--', text]);
+  }
+
+  async typeUnicode(text: string, delayMs: number): Promise<void> {
+    // xdotool type already maps any Unicode character to a keysym
+    await this.typeString(text, delayMs);
+  }
+
+  async keyTap(key: string, modifiers: string[]): Promise<void> {
+    await this.run(['key', '--clearmodifiers', [...modifiers, key].map(xdotoolKey).join('+')]);
+  }
+
+  async keyToggle(key: string, state: 'down' | 'up'): Promise<void> {
+    await this.run([state === 'down' ? 'keydown' : 'keyup', xdotoolKey(key)]);
+  }
+
+  async scroll(dx: number, dy: number): Promise<void> {
+    // X11 wheel buttons: 4 up, 5 down, 6 left, 7 right
+    if (dy !== 0) {
+      await this.run(['click', '--repeat', String(Math.abs(dy)), dy > 0 ? '4' : '5']);
+    }
+    if (dx !== 0) {
+      await this.run(['click', '--repeat', String(Math.abs(dx)), dx > 0 ? '7' : '6']);
+    }
+  }
+
+  getMousePos(): { x: number; y: number } {
+    const output = execFileSync('xdotool', ['getmouselocation', '--shell'], { encoding: 'utf-8', timeout: 5000 });
+    const x = /^X=(\d+)/m.exec(output)?.[1];
+    const y = /^Y=(\d+)/m.exec(output)?.[1];
+    if (x === undefined || y === undefined) {
+      throw new InputBackendError('Unexpected xdotool getmouselocation output', 'COMMAND_FAILED', { output });
+    }
+    return { x: parseInt(x, 10), y: parseInt(y, 10) };
+  }
+}
+
+// ============================================================================
+// ydotool (uinput, Wayland)
+// ============================================================================
+
+// robotjs key name -> Linux input event code (linux/input-event-codes.h)
+const YDOTOOL_KEYCODES: Record<string, number> = {
+  escape: 1, backspace: 14, tab: 15, enter: 28, space: 57,
+  control: 29, shift: 42, alt: 56, command: 125,
+  left_control: 29, right_control: 97, right_shift: 54, right_alt: 100,
+  home: 102, up: 103, pageup: 104, left: 105, right: 106, end: 107, down: 108, pagedown: 109,
+  insert: 110, delete: 111, capslock: 58, menu: 127, printscreen: 99,
+  '-': 12, '=': 13, '[': 26, ']': 27, ';': 39, "'": 40, '`': 41, '\\': 43, ',': 51, '.': 52, '/': 53,
+  f1: 59, f2: 60, f3: 61, f4: 62, f5: 63, f6: 64, f7: 65, f8: 66, f9: 67, f10: 68, f11: 87, f12: 88,
+  f13: 183, f14: 184, f15: 185, f16: 186, f17: 187, f18: 188, f19: 189, f20: 190, f21: 191, f22: 192, f23: 193, f24: 194,
+  numpad_lock: 69, numpad_7: 71, numpad_8: 72, numpad_9: 73, 'numpad_-': 74, numpad_4: 75, numpad_5: 76, numpad_6: 77,
+  'numpad_+': 78, numpad_1: 79, numpad_2: 80, numpad_3: 81, numpad_0: 82, 'numpad_.': 83, 'numpad_/': 98, 'numpad_*': 55,
+  audio_mute: 113, audio_vol_down: 114, audio_vol_up: 115, audio_next: 163, audio_play: 164, audio_prev: 165,
+  audio_stop: 166, audio_pause: 119, audio_rewind: 168, audio_forward: 159,
+  lights_mon_down: 224, lights_mon_up: 225, lights_kbd_toggle: 228, lights_kbd_down: 229, lights_kbd_up: 230,
+};
+
+// Keyboard rows in scan code order
+const YDOTOOL_ROWS: Array<[string, number]> = [['1234567890', 2], ['qwertyuiop', 16], ['asdfghjkl', 30], ['zxcvbnm', 44]];
+for (const [row, start] of YDOTOOL_ROWS) {
+  [...row].forEach((char, i) => {
+    YDOTOOL_KEYCODES[char] = start + i;
+  });
+}
+
+// ydotool click codes: 0x40 = press, 0x80 = release, low bits = button
+const YDOTOOL_BUTTONS: Record<MouseButton, number> = { left: 0x00, right: 0x01, middle: 0x02 };
+
+function ydotoolKeycode(key: string): number {
+  const code = YDOTOOL_KEYCODES[key.toLowerCase()];
+  if (code === undefined) {
+    throw new InputBackendError(`Key not supported by ydotool backend: ${key}`, 'UNSUPPORTED_KEY', { key });
+  }
+  return code;
+}
+
+/**
+ * uinput backend - injects at the kernel level, so it works under any compositor.
+ * uinput can't read the pointer: the position is the last one we moved to,
+ * which means the kill switch only sees our own movements with this backend.
+ */
+export class YdotoolInputBackend implements InputBackend {
+  readonly name = 'ydotool';
+  readonly layoutAware = false;
+  readonly readsPointer = false;
+  private position = { x: 0, y: 0 };
+
+  private async run(args: string[]): Promise<void> {
+    try {
+      await execFileAsync('ydotool', args, { timeout: 30000 });
+    } catch (error) {
+      throw new InputBackendError(
+        `ydotool ${args[0]} failed: ${error instanceof Error ? error.message : String(error)}. Is ydotoold running?`,
+        'COMMAND_FAILED',
+        { args }
+      );
+    }
+  }
+
+  async moveMouse(x: number, y: number): Promise<void> {
+    const rx = Math.round(x);
+    const ry = Math.round(y);
+    await this.run(['mousemove', '--absolute', '-x', String(rx), '-y', String(ry)]);
+    this.position = { x: rx, y: ry };
+  }
+
+  async mouseToggle(state: 'down' | 'up', button: MouseButton): Promise<void> {
+    const code = (state === 'down' ? 0x40 : 0x80) | YDOTOOL_BUTTONS[button];
+    await this.run(['click', `0x${code.toString(16)}`]);
+  }
+
+  async typeString(text: string, delayMs: number): Promise<void> {
+    await this.run(['type', '--key-delay', String(delayMs), '--', text]);
+  }
+
+  async typeUnicode(): Promise<void> {
+    // uinput only knows physical keys - callers fall back to pasting
+    throw new InputBackendError('ydotool cannot inject Unicode characters', 'UNSUPPORTED');
+  }
+
+  async keyTap(key: string, modifiers: string[]): Promise<void> {
+    const codes = [...modifiers, key].map(ydotoolKeycode);
+    // Press in order, release in reverse: <code>:1 down, <code>:0 up
+    const events = [...codes.map((c) => `${c}:1`), ...[...codes].reverse().map((c) => `${c}:0`)];
+    await this.run(['key', ...events]);
+  }
+
+  async keyToggle(key: string, state: 'down' | 'up'): Promise<void> {
+    await this.run(['key', `${ydotoolKeycode(key)}:${state === 'down' ? 1 : 0}`]);
+  }
+
+  async scroll(dx: number, dy: number): Promise<void> {
+    // Wheel axis: positive y scrolls up, like robotjs
+    await this.run(['mousemove', '--wheel', '-x', String(dx), '-y', String(dy)]);
+  }
+
+  getMousePos(): { x: number; y: number } {
+    return { ...this.position };
+  }
+}
+
+// ============================================================================
+// Fake (in-memory)
+// ============================================================================
+
+export interface RecordedInputCall {
+  method: 'moveMouse' | 'mouseToggle' | 'typeString' | 'typeUnicode' | 'keyTap' | 'keyToggle' | 'scroll';
+  args: unknown[];
+}
+
+/**
+ * Records every call instead of injecting events
+ * Use setMousePosition() to simulate the user grabbing the mouse (kill switch tests)
+ */
+export class FakeInputBackend implements InputBackend {
+  readonly name = 'fake';
+  readonly layoutAware = true;
+  readonly readsPointer = true;
+  readonly calls: RecordedInputCall[] = [];
+  private position = { x: 0, y: 0 };
+
+  async moveMouse(x: number, y: number): Promise<void> {
+    this.calls.push({ method: 'moveMouse', args: [x, y] });
+    this.position = { x, y };
+  }
+
+  async mouseToggle(state: 'down' | 'up', button: MouseButton): Promise<void> {
+    this.calls.push({ method: 'mouseToggle', args: [state, button] });
+  }
+
+  async typeString(text: string, delayMs: number): Promise<void> {
+    this.calls.push({ method: 'typeString', args: [text, delayMs] });
+  }
+
+  async typeUnicode(text: string, delayMs: number): Promise<void> {
+    this.calls.push({ method: 'typeUnicode', args: [text, delayMs] });
+  }
+
+  async keyTap(key: string, modifiers: string[]): Promise<void> {
+    this.calls.push({ method: 'keyTap', args: [key, [...modifiers]] });
+  }
+
+  async keyToggle(key: string, state: 'down' | 'up'): Promise<void> {
+    this.calls.push({ method: 'keyToggle', args: [key, state] });
+  }
+
+  async scroll(dx: number, dy: number): Promise<void> {
+    this.calls.push({ method: 'scroll', args: [dx, dy] });
+  }
+
+  getMousePos(): { x: number; y: number } {
+    return { ...this.position };
+  }
+
+  /** Move the pointer without recording a call, as a user would */
+  setMousePosition(x: number, y: number): void {
+    this.position = { x, y };
+  }
+
+  reset(): void {
+    this.calls.length = 0;
+    this.position = { x: 0, y: 0 };
+  }
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+let activeBackend: InputBackend | null = null;
+
+/**
+ * Backend used when config says 'auto'
+ * Never ydotool: it can't read the pointer, so picking it would turn the kill switch off
+ * behind the user's back - on Wayland it has to be chosen in config (input.backend)
+ */
+export function detectInputBackend(): InputBackendName {
+  return 'robotjs';
+}
+
+export function createInputBackend(name: InputBackendName): InputBackend {
+  switch (name) {
+    case 'robotjs':
+      return new RobotjsInputBackend();
+    case 'xdotool':
+      return new XdotoolInputBackend();
+    case 'ydotool':
+      return new YdotoolInputBackend();
+    case 'fake':
+      return new FakeInputBackend();
+  }
+}
+
+/**
+ * Current input backend (created from config on first use)
+ */
+export function getInputBackend(): InputBackend {
+  if (!activeBackend) {
+    const configured = loadConfig().input.backend;
+    const name = configured === 'auto' ? detectInputBackend() : configured;
+    activeBackend = createInputBackend(name);
+    console.error(`[OScribe] Input backend: ${name}${configured === 'auto' ? ' (auto)' : ''}`);
+    if (configured === 'auto' && process.platform === 'linux' && getSessionType() === 'wayland') {
+      console.error('[OScribe] Wayland session: robotjs only reaches XWayland windows. Set input.backend to "ydotool" for native apps (the kill switch is then inactive)');
+    }
+    if (!activeBackend.readsPointer && loadConfig().killSwitch.enabled) {
+      console.error(`[OScribe] WARNING: the ${name} backend cannot read the pointer - the kill switch is INACTIVE, moving the mouse will not stop the agent`);
+    }
+  }
+  return activeBackend;
+}
+
+/**
+ * Override the input backend (tests) - null goes back to the configured one
+ */
+export function setInputBackend(backend: InputBackend | null): void {
+  activeBackend = backend;
+}
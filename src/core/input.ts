@@ -1,14 +1,20 @@
 /**
  * Input module - Mouse and keyboard control
  * With security features: logging, restricted mode, kill switch
+ * Events are injected through the configured input backend (see input-backend.ts)
  */
 
-import robot from 'robotjs';
 import { exec } from 'node:child_process';
 import { promisify } from 'node:util';
 import { withLogging } from './logger.js';
-import { checkRestrictions } from './security.js';
+import { RestrictedActionError, checkRestrictions } from './security.js';
 import { checkUserActivity, recordActionDone } from './killswitch.js';
+import { getInputBackend, type MouseButton } from './input-backend.js';
+import { planPath, resolveMotion, type MotionOptions } from './motion.js';
+import { typeWithStrategy, type TypingStrategy } from './typing.js';
+import { formatChord, isModifierKey, parseKeySequence, resolveChord, resolveKey, type KeyChord } from './keys.js';
+import { loadConfig } from '../config/index.js';
+import { REDACTED, hasSecretPlaceholders, registerSecret, resolveSecretPlaceholders } from './redaction.js';
 
 const execAsync = promisify(exec);
 
@@ -34,24 +40,74 @@ async function detectSwappedMouseButtons(): Promise<void> {
 // Call on module load
 detectSwappedMouseButtons();
 
+/**
+ * Adapt to Windows swapped mouse buttons
+ */
+export function physicalButton(button: MouseButton): MouseButton {
+  if (mouseButtonsSwapped && process.platform === 'win32') {
+    if (button === 'left') return 'right';
+    if (button === 'right') return 'left';
+  }
+  return button;
+}
+
+async function pressButton(button: MouseButton, double: boolean): Promise<void> {
+  const backend = getInputBackend();
+  await backend.mouseToggle('down', button);
+  await backend.mouseToggle('up', button);
+  if (double) {
+    await wait(100);
+    await backend.mouseToggle('down', button);
+    await backend.mouseToggle('up', button);
+  }
+}
+
+/**
+ * Move the cursor to (x, y) along the path of a motion profile
+ * @param steps - Force the number of moves (drag)
+ */
+async function travel(x: number, y: number, motion: Required<MotionOptions>, steps?: number): Promise<void> {
+  const backend = getInputBackend();
+  for (const point of planPath(backend.getMousePos(), { x, y }, motion, steps)) {
+    await backend.moveMouse(point.x, point.y);
+    if (point.delayMs > 0) {
+      await wait(point.delayMs);
+    }
+  }
+}
+
 export interface ClickOptions {
   button?: 'left' | 'right' | 'middle';
   double?: boolean;
   dryRun?: boolean;
+  /** How the cursor travels to the click point (default: config.motion) */
+  motion?: MotionOptions;
 }
 
 export interface TypeOptions {
   delay?: number;
   dryRun?: boolean;
+  /** Key taps, Unicode injection or clipboard paste (default: config.typing.strategy) */
+  strategy?: TypingStrategy;
+  /** Keep the text out of logs and recordings (also automatic for password fields) */
+  secret?: boolean;
+}
+
+export interface TypedText {
+  /** Text as it may be shown: [REDACTED] for secrets, {{secret:NAME}} placeholders unresolved */
+  display: string;
+  /** The typed text held a secret (flagged, password field or placeholder) */
+  secret: boolean;
 }
 
 export async function moveMouse(
   x: number,
   y: number,
-  options: { dryRun?: boolean } = {}
+  options: { dryRun?: boolean; motion?: MotionOptions } = {}
 ): Promise<void> {
   const { dryRun = false } = options;
-  const params = { x, y, dryRun };
+  const motion = resolveMotion(options.motion);
+  const params = { x, y, dryRun, motion: motion.profile };
 
   if (dryRun) {
     console.log(`[DRY RUN] Move mouse to (${x}, ${y})`);
@@ -63,7 +119,7 @@ export async function moveMouse(
 
   // Execute with logging
   await withLogging('move', params, async () => {
-    robot.moveMouse(x, y);
+    await travel(x, y, motion);
   });
 
   // Update kill switch state
@@ -72,7 +128,8 @@ export async function moveMouse(
 
 export async function click(x: number, y: number, options: ClickOptions = {}): Promise<void> {
   const { button = 'left', double = false, dryRun = false } = options;
-  const params = { x, y, button, double, dryRun };
+  const motion = resolveMotion(options.motion);
+  const params = { x, y, button, double, dryRun, motion: motion.profile };
 
   if (dryRun) {
     console.log(`[DRY RUN] Click ${button} at (${x}, ${y})${double ? ' (double)' : ''}`);
@@ -87,47 +144,72 @@ export async function click(x: number, y: number, options: ClickOptions = {}): P
 
   // Execute with logging
   await withLogging('click', params, async () => {
-    // Adapt to Windows swapped mouse buttons
-    let effectiveButton = button;
-    if (mouseButtonsSwapped && process.platform === 'win32') {
-      if (button === 'left') effectiveButton = 'right';
-      else if (button === 'right') effectiveButton = 'left';
-    }
+    const effectiveButton = physicalButton(button);
 
     // Move to position
-    robot.moveMouse(x, y);
+    await travel(x, y, motion);
 
     // Small delay to ensure position is set
     await wait(50);
 
     console.error(`[OScribe] Click ${button} (effective: ${effectiveButton}) at (${x}, ${y})`);
 
-    // Click
-    if (double) {
-      robot.mouseToggle('down', effectiveButton);
-      robot.mouseToggle('up', effectiveButton);
-      await wait(100);
-      robot.mouseToggle('down', effectiveButton);
-      robot.mouseToggle('up', effectiveButton);
-    } else {
-      robot.mouseToggle('down', effectiveButton);
-      robot.mouseToggle('up', effectiveButton);
-    }
+    await pressButton(effectiveButton, double);
   });
 
   // Update kill switch state
   recordActionDone();
 }
 
-export async function typeText(text: string, options: TypeOptions = {}): Promise<void> {
-  const { delay = 0, dryRun = false } = options;
-  const params = { text, delay, dryRun };
+// Keys pressed with keyDown and not released yet (canonical names, in press order)
+const heldKeys = new Set<string>();
+
+/**
+ * Keys currently held down by keyDown()
+ */
+export function getHeldKeys(): string[] {
+  return [...heldKeys];
+}
+
+/**
+ * Is the focused element a password field? (config.redaction.passwordFields)
+ */
+async function typingIntoPasswordField(): Promise<boolean> {
+  if (!loadConfig().redaction.passwordFields) return false;
+  // Dynamic import: UI automation is only needed for this check
+  const { isPasswordFieldFocused } = await import('./uiautomation.js');
+  return isPasswordFieldFocused();
+}
+
+export async function typeText(text: string, options: TypeOptions = {}): Promise<TypedText> {
+  const { delay = 0, dryRun = false, strategy } = options;
 
   if (dryRun) {
-    console.log(`[DRY RUN] Type: "${text}"`);
-    return;
+    console.log(`[DRY RUN] Type: "${options.secret ? REDACTED : text}"`);
+    return { display: options.secret ? REDACTED : text, secret: options.secret === true };
+  }
+
+  // Security: typed characters would combine with held modifiers into chords no policy checked
+  const heldModifiers = getHeldKeys().filter(isModifierKey);
+  if (heldModifiers.length > 0) {
+    throw new RestrictedActionError(
+      `Cannot type while ${heldModifiers.join('+')} ${heldModifiers.length > 1 ? 'are' : 'is'} held down - release with keyUp first`,
+      'MODIFIERS_HELD',
+      { heldKeys: heldModifiers }
+    );
   }
 
+  // Resolve {{secret:NAME}} before the kill switch check (a keychain prompt may need the mouse)
+  const resolved = hasSecretPlaceholders(text) ? await resolveSecretPlaceholders(text) : text;
+  const secret = options.secret === true || (await typingIntoPasswordField());
+  if (secret) {
+    registerSecret(resolved);
+  }
+  // Placeholders are kept as they are: they don't reveal the secret and still replay
+  const display = secret ? REDACTED : text;
+  const hasSecrets = secret || resolved !== text;
+  const params = { text: display, delay, dryRun, strategy, ...(secret ? { secret } : {}) };
+
   // Security: check for user activity (kill switch)
   checkUserActivity();
 
@@ -136,15 +218,15 @@ export async function typeText(text: string, options: TypeOptions = {}): Promise
 
   // Execute with logging
   await withLogging('type', params, async () => {
-    console.error(`[OScribe] Typing text: "${text}"`);
-
-    if (delay > 0) {
-      robot.setKeyboardDelay(delay);
-    }
+    console.error(`[OScribe] Typing text: "${display}"`);
 
     try {
-      robot.typeString(text);
-      console.error(`[OScribe] Typing complete`);
+      const used = await typeWithStrategy(resolved, {
+        delay,
+        secret: hasSecrets,
+        ...(strategy ? { strategy } : {}),
+      });
+      console.error(`[OScribe] Typing complete (${used})`);
     } catch (error) {
       console.error(`[OScribe] Typing error:`, error);
       throw error;
@@ -153,12 +235,16 @@ export async function typeText(text: string, options: TypeOptions = {}): Promise
 
   // Update kill switch state
   recordActionDone();
+  return { display, secret: hasSecrets };
 }
 
 export async function hotkey(keys: string[], options: { dryRun?: boolean } = {}): Promise<void> {
   const { dryRun = false } = options;
   const params = { keys, dryRun };
 
+  // Validate before anything else: unknown keys are an error, not a silent no-op
+  const chord = resolveChord(keys);
+
   if (dryRun) {
     console.log(`[DRY RUN] Hotkey: ${keys.join('+')}`);
     return;
@@ -167,61 +253,16 @@ export async function hotkey(keys: string[], options: { dryRun?: boolean } = {})
   // Security: check for user activity (kill switch)
   checkUserActivity();
 
-  // Security: check restricted mode (blocked hotkeys and apps)
-  await checkRestrictions('hotkey', params);
+  // Security: check restricted mode (blocked hotkeys and apps) - keys held with keyDown are part of the chord
+  await checkRestrictions('hotkey', { ...params, keys: [...getHeldKeys(), ...keys] });
 
   // Execute with logging
   await withLogging('hotkey', params, async () => {
     console.error(`[OScribe] Hotkey: ${keys.join('+')}`);
-
-    // Use robotjs - native, reliable, works on all platforms
-    const keyMap: Record<string, string> = {
-      ctrl: 'control',
-      control: 'control',
-      alt: 'alt',
-      shift: 'shift',
-      cmd: 'command',
-      command: 'command',
-      win: 'command', // robotjs uses 'command' for Windows key
-      windows: 'command',
-      enter: 'enter',
-      return: 'enter',
-      tab: 'tab',
-      escape: 'escape',
-      esc: 'escape',
-      space: 'space',
-      backspace: 'backspace',
-      delete: 'delete',
-      up: 'up',
-      down: 'down',
-      left: 'left',
-      right: 'right',
-      home: 'home',
-      end: 'end',
-      pageup: 'pageup',
-      pagedown: 'pagedown',
-    };
-
-    const modifiers: string[] = [];
-    let mainKey = '';
-
-    // Separate modifiers from main key
-    keys.forEach((k) => {
-      const lower = k.toLowerCase();
-      if (['ctrl', 'control', 'alt', 'shift', 'cmd', 'command', 'win', 'windows'].includes(lower)) {
-        const mapped = keyMap[lower];
-        if (mapped && !modifiers.includes(mapped)) {
-          modifiers.push(mapped);
-        }
-      } else {
-        mainKey = keyMap[lower] ?? k.toLowerCase();
-      }
-    });
-
-    console.error(`[OScribe] Modifiers: ${modifiers.join('+')}, Main key: ${mainKey}`);
+    console.error(`[OScribe] Modifiers: ${chord.modifiers.join('+')}, Main key: ${chord.key}`);
 
     try {
-      robot.keyTap(mainKey, modifiers);
+      await getInputBackend().keyTap(chord.key, chord.modifiers);
       console.error(`[OScribe] Hotkey complete`);
     } catch (error) {
       console.error(`[OScribe] Hotkey error:`, error);
@@ -233,6 +274,110 @@ export async function hotkey(keys: string[], options: { dryRun?: boolean } = {})
   recordActionDone();
 }
 
+/**
+ * Press and hold a key - it stays down across other actions (e.g. shift while clicking) until keyUp()
+ */
+export async function keyDown(key: string, options: { dryRun?: boolean } = {}): Promise<void> {
+  const { dryRun = false } = options;
+  const name = resolveKey(key);
+  // Restricted mode sees the whole combination being built (win held + l = win+l)
+  const params = { key: name, keys: [...heldKeys, name], dryRun };
+
+  if (dryRun) {
+    console.log(`[DRY RUN] Key down: ${name}`);
+    return;
+  }
+
+  // Security: check for user activity (kill switch)
+  checkUserActivity();
+
+  // Security: check restricted mode (blocked hotkeys and apps)
+  await checkRestrictions('hotkey', params);
+
+  // Execute with logging
+  await withLogging('keyDown', params, async () => {
+    console.error(`[OScribe] Key down: ${name}`);
+    await getInputBackend().keyToggle(name, 'down');
+    heldKeys.add(name);
+  });
+
+  // Update kill switch state
+  recordActionDone();
+}
+
+/**
+ * Release a key pressed with keyDown() - without a key, releases every held key
+ */
+export async function keyUp(key?: string, options: { dryRun?: boolean } = {}): Promise<void> {
+  const { dryRun = false } = options;
+  const names = key ? [resolveKey(key)] : [...heldKeys].reverse();
+  const params = { keys: names, dryRun };
+
+  if (dryRun) {
+    console.log(`[DRY RUN] Key up: ${names.join(', ') || '(none held)'}`);
+    return;
+  }
+
+  // No kill switch check: releasing keys is always safe, and must work after an interrupt
+  await withLogging('keyUp', params, async () => {
+    for (const name of names) {
+      console.error(`[OScribe] Key up: ${name}`);
+      await getInputBackend().keyToggle(name, 'up');
+      heldKeys.delete(name);
+    }
+  });
+}
+
+export interface PressKeysOptions {
+  /** Pause between chords in ms (default: 50) */
+  delay?: number;
+  dryRun?: boolean;
+}
+
+/**
+ * Press a key sequence: "ctrl+k ctrl+s", "shift+tab x3", or one chord per array item
+ * The whole sequence is validated before the first key is sent.
+ */
+export async function pressKeys(sequence: string | string[], options: PressKeysOptions = {}): Promise<KeyChord[]> {
+  const { delay = 50, dryRun = false } = options;
+  const chords = Array.isArray(sequence) ? sequence.flatMap((s) => parseKeySequence(s)) : parseKeySequence(sequence);
+  const text = chords.map((c) => `${formatChord(c)}${c.repeat > 1 ? ` x${c.repeat}` : ''}`).join(' ');
+  const params = { sequence: text, dryRun };
+
+  if (dryRun) {
+    console.log(`[DRY RUN] Keys: ${text}`);
+    return chords;
+  }
+
+  // Security: check for user activity (kill switch)
+  checkUserActivity();
+
+  // Security: every chord, with the keys held by keyDown, must pass restricted mode before anything is pressed
+  for (const chord of chords) {
+    await checkRestrictions('hotkey', { keys: [...getHeldKeys(), ...chord.modifiers, chord.key], dryRun });
+  }
+
+  // Execute with logging
+  await withLogging('pressKeys', params, async () => {
+    console.error(`[OScribe] Keys: ${text}`);
+    const backend = getInputBackend();
+    let first = true;
+    for (const chord of chords) {
+      for (let i = 0; i < chord.repeat; i++) {
+        if (!first && delay > 0) {
+          await wait(delay);
+        }
+        first = false;
+        await backend.keyTap(chord.key, chord.modifiers);
+      }
+    }
+  });
+
+  // Update kill switch state
+  recordActionDone();
+  return chords;
+}
+
 export async function scroll(
   direction: 'up' | 'down' | 'left' | 'right',
   amount: number = 3,
@@ -254,31 +399,10 @@ export async function scroll(
 
   // Execute with logging
   await withLogging('scroll', params, async () => {
-    if (process.platform === 'win32') {
-      // Use PowerShell on Windows - robotjs scrollMouse is broken on Windows
-      // WHEEL_DELTA = 120 per "click", multiply by amount
-      const wheelDelta = 120 * amount;
-      const scrollValue = direction === 'down' ? -wheelDelta : direction === 'up' ? wheelDelta : 0;
-      const horizontalValue = direction === 'right' ? wheelDelta : direction === 'left' ? -wheelDelta : 0;
-
-      if (scrollValue !== 0) {
-        // Vertical scroll using PowerShell + C# interop
-        // Use single quotes in PowerShell to avoid here-string issues
-        const csharpCode = `using System; using System.Runtime.InteropServices; public class MouseScroll { [DllImport(\\"user32.dll\\")] public static extern void mouse_event(uint dwFlags, int dx, int dy, int dwData, int dwExtraInfo); public const uint MOUSEEVENTF_WHEEL = 0x0800; }`;
-        const psCommand = `Add-Type -TypeDefinition '${csharpCode}'; [MouseScroll]::mouse_event([MouseScroll]::MOUSEEVENTF_WHEEL, 0, 0, ${scrollValue}, 0)`;
-        await execAsync(`powershell -Command "${psCommand}"`);
-      } else if (horizontalValue !== 0) {
-        // Horizontal scroll
-        const csharpCode = `using System; using System.Runtime.InteropServices; public class MouseScroll { [DllImport(\\"user32.dll\\")] public static extern void mouse_event(uint dwFlags, int dx, int dy, int dwData, int dwExtraInfo); public const uint MOUSEEVENTF_HWHEEL = 0x01000; }`;
-        const psCommand = `Add-Type -TypeDefinition '${csharpCode}'; [MouseScroll]::mouse_event([MouseScroll]::MOUSEEVENTF_HWHEEL, 0, 0, ${horizontalValue}, 0)`;
-        await execAsync(`powershell -Command "${psCommand}"`);
-      }
-    } else {
-      // Use robotjs on macOS/Linux where it works
-      const x = direction === 'left' ? -amount : direction === 'right' ? amount : 0;
-      const y = direction === 'down' ? -amount : direction === 'up' ? amount : 0;
-      robot.scrollMouse(x, y);
-    }
+    // Wheel clicks - positive y scrolls up, positive x scrolls right
+    const x = direction === 'left' ? -amount : direction === 'right' ? amount : 0;
+    const y = direction === 'down' ? -amount : direction === 'up' ? amount : 0;
+    await getInputBackend().scroll(x, y);
   });
 
   // Update kill switch state
@@ -313,14 +437,10 @@ export async function mouseDown(
 
   // Execute with logging
   await withLogging('mouseDown', params, async () => {
-    let effectiveButton = button;
-    if (mouseButtonsSwapped && process.platform === 'win32') {
-      if (button === 'left') effectiveButton = 'right';
-      else if (button === 'right') effectiveButton = 'left';
-    }
+    const effectiveButton = physicalButton(button);
 
     console.error(`[OScribe] Mouse down ${button} (effective: ${effectiveButton}) at (${pos.x}, ${pos.y})`);
-    robot.mouseToggle('down', effectiveButton);
+    await getInputBackend().mouseToggle('down', effectiveButton);
   });
 
   // Update kill switch state
@@ -348,14 +468,10 @@ export async function mouseUp(
 
   // Execute with logging
   await withLogging('mouseUp', params, async () => {
-    let effectiveButton = button;
-    if (mouseButtonsSwapped && process.platform === 'win32') {
-      if (button === 'left') effectiveButton = 'right';
-      else if (button === 'right') effectiveButton = 'left';
-    }
+    const effectiveButton = physicalButton(button);
 
     console.error(`[OScribe] Mouse up ${button} (effective: ${effectiveButton}) at (${pos.x}, ${pos.y})`);
-    robot.mouseToggle('up', effectiveButton);
+    await getInputBackend().mouseToggle('up', effectiveButton);
   });
 
   // Update kill switch state
@@ -369,6 +485,8 @@ export interface DragOptions {
   duration?: number;
   /** Number of steps for smooth movement (default: 20) */
   steps?: number;
+  /** Path profile for the approach and the drag itself (default: config.motion, linear if instant) */
+  motion?: MotionOptions;
 }
 
 /**
@@ -382,7 +500,10 @@ export async function drag(
   options: DragOptions = {}
 ): Promise<void> {
   const { button = 'left', dryRun = false, duration = 500, steps = 20 } = options;
-  const params = { fromX, fromY, toX, toY, button, dryRun, duration, steps };
+  const motion = resolveMotion(options.motion);
+  // A drag needs intermediate moves - teleporting would drop nothing anywhere
+  const dragMotion = { ...motion, profile: motion.profile === 'instant' ? 'linear' as const : motion.profile, duration };
+  const params = { fromX, fromY, toX, toY, button, dryRun, duration, steps, motion: dragMotion.profile };
 
   if (dryRun) {
     console.log(`[DRY RUN] Drag ${button} from (${fromX}, ${fromY}) to (${toX}, ${toY})`);
@@ -397,37 +518,28 @@ export async function drag(
 
   // Execute with logging
   await withLogging('drag', params, async () => {
-    let effectiveButton = button;
-    if (mouseButtonsSwapped && process.platform === 'win32') {
-      if (button === 'left') effectiveButton = 'right';
-      else if (button === 'right') effectiveButton = 'left';
-    }
+    const effectiveButton = physicalButton(button);
 
     console.error(`[OScribe] Drag ${button} (effective: ${effectiveButton}) from (${fromX}, ${fromY}) to (${toX}, ${toY})`);
 
+    const backend = getInputBackend();
+
     // Move to start position
-    robot.moveMouse(fromX, fromY);
+    await travel(fromX, fromY, motion);
     await wait(50);
 
     // Press button
-    robot.mouseToggle('down', effectiveButton);
+    await backend.mouseToggle('down', effectiveButton);
     await wait(50);
 
-    // Smooth movement to destination
-    const stepDelay = duration / steps;
-    for (let i = 1; i <= steps; i++) {
-      const progress = i / steps;
-      const currentX = Math.round(fromX + (toX - fromX) * progress);
-      const currentY = Math.round(fromY + (toY - fromY) * progress);
-      robot.moveMouse(currentX, currentY);
-      await wait(stepDelay);
-    }
+    // Move to destination along the profile's path
+    await travel(toX, toY, dragMotion, steps);
 
     // Small delay at destination before release
     await wait(50);
 
     // Release button
-    robot.mouseToggle('up', effectiveButton);
+    await backend.mouseToggle('up', effectiveButton);
     console.error(`[OScribe] Drag complete`);
   });
 
@@ -439,8 +551,7 @@ export async function drag(
  * Get current mouse cursor position
  */
 export function getMousePosition(): { x: number; y: number } {
-  const pos = robot.getMousePos();
-  return { x: pos.x, y: pos.y };
+  return getInputBackend().getMousePos();
 }
 
 /**
@@ -464,25 +575,11 @@ export async function clickAtCurrentPosition(options: Omit<ClickOptions, 'double
 
   // Execute with logging
   await withLogging('click', params, async () => {
-    // Adapt to Windows swapped mouse buttons
-    let effectiveButton = button;
-    if (mouseButtonsSwapped && process.platform === 'win32') {
-      if (button === 'left') effectiveButton = 'right';
-      else if (button === 'right') effectiveButton = 'left';
-    }
+    const effectiveButton = physicalButton(button);
 
     console.error(`[OScribe] Click ${button} (effective: ${effectiveButton}) at current position (${pos.x}, ${pos.y})`);
 
-    if (double) {
-      robot.mouseToggle('down', effectiveButton);
-      robot.mouseToggle('up', effectiveButton);
-      await wait(100);
-      robot.mouseToggle('down', effectiveButton);
-      robot.mouseToggle('up', effectiveButton);
-    } else {
-      robot.mouseToggle('down', effectiveButton);
-      robot.mouseToggle('up', effectiveButton);
-    }
+    await pressButton(effectiveButton, double);
   });
 
   // Update kill switch state
@@ -0,0 +1,234 @@
+/**
+ * Key names - the validated table behind hotkeys, key down/up and key sequences
+ *
+ * Canonical names are robotjs names (control, command, pageup, f13, audio_mute, numpad_5...),
+ * which every input backend understands. Aliases cover the usual spellings (ctrl, esc, pgdn,
+ * volumeup, num5...). Unknown names are rejected instead of being sent as-is.
+ *
+ * Modifiers are translated per platform (PLATFORM_MODIFIERS): "primary" is ctrl on Windows/Linux
+ * and cmd on macOS, and "cmd" in a shortcut written for a Mac means ctrl elsewhere.
+ *
+ * Sequence syntax: chords separated by spaces, keys in a chord joined by "+",
+ * an optional "xN" after a chord repeats it:  "ctrl+k ctrl+s", "shift+tab x3", "down x5 enter"
+ */
+
+/**
+ * Custom error for invalid key names and sequences
+ * Following error-handling-patterns skill
+ */
+export class KeyError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'UNKNOWN_KEY' | 'INVALID_CHORD' | 'INVALID_SEQUENCE',
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'KeyError';
+    // Preserve stack trace (V8 engines)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+export interface KeyChord {
+  /** Canonical main key */
+  key: string;
+  /** Canonical modifiers, held while the key is tapped */
+  modifiers: string[];
+  /** Times the chord is pressed (default: 1) */
+  repeat: number;
+}
+
+export const MODIFIER_KEYS = ['control', 'shift', 'alt', 'command', 'right_control', 'right_shift', 'right_alt', 'left_control'] as const;
+
+const NAMED_KEYS = [
+  // Editing and navigation
+  'backspace', 'delete', 'enter', 'tab', 'escape', 'space', 'insert',
+  'up', 'down', 'left', 'right', 'home', 'end', 'pageup', 'pagedown',
+  'capslock', 'menu', 'printscreen',
+  // Function keys
+  ...Array.from({ length: 24 }, (_, i) => `f${i + 1}`),
+  // Numpad
+  'numpad_lock', ...Array.from({ length: 10 }, (_, i) => `numpad_${i}`),
+  'numpad_+', 'numpad_-', 'numpad_*', 'numpad_/', 'numpad_.',
+  // Media
+  'audio_mute', 'audio_vol_down', 'audio_vol_up', 'audio_play', 'audio_stop', 'audio_pause',
+  'audio_prev', 'audio_next', 'audio_rewind', 'audio_forward', 'audio_repeat', 'audio_random',
+  // Brightness (macOS)
+  'lights_mon_up', 'lights_mon_down', 'lights_kbd_toggle', 'lights_kbd_up', 'lights_kbd_down',
+];
+
+// Printable keys of a US keyboard, tapped by their character ("+" for zoom shortcuts)
+const CHARACTER_KEYS = [...'abcdefghijklmnopqrstuvwxyz0123456789`-=[]\\;\',./+'];
+
+const KNOWN_KEYS = new Set<string>([...MODIFIER_KEYS, ...NAMED_KEYS, ...CHARACTER_KEYS]);
+
+export type KeyPlatform = 'win32' | 'darwin' | 'linux';
+
+/**
+ * Modifier names whose meaning depends on the OS
+ * robotjs "command" is the OS key everywhere: Win key (VK_LWIN), Cmd, Super.
+ * macOS has no "win": Windows-only patterns like the default blocked "win+l" must not turn into cmd+l.
+ */
+export const PLATFORM_MODIFIERS: Record<KeyPlatform, Record<string, string>> = {
+  win32: {
+    primary: 'control', cmd: 'control',
+    win: 'command', windows: 'command', super: 'command', meta: 'command',
+    option: 'alt', opt: 'alt',
+  },
+  darwin: {
+    primary: 'command', cmd: 'command',
+    super: 'command', meta: 'command',
+    option: 'alt', opt: 'alt',
+  },
+  linux: {
+    primary: 'control', cmd: 'control',
+    win: 'command', windows: 'command', super: 'command', meta: 'command',
+    option: 'alt', opt: 'alt',
+  },
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  // Modifiers (same on every platform)
+  ctrl: 'control', ctl: 'control', lctrl: 'left_control', rctrl: 'right_control',
+  ralt: 'right_alt', altgr: 'right_alt', rshift: 'right_shift',
+  // Editing and navigation
+  return: 'enter', esc: 'escape', del: 'delete', ins: 'insert', bksp: 'backspace',
+  spacebar: 'space', pgup: 'pageup', pgdn: 'pagedown', page_up: 'pageup', page_down: 'pagedown',
+  arrowup: 'up', arrowdown: 'down', arrowleft: 'left', arrowright: 'right',
+  caps: 'capslock', caps_lock: 'capslock', contextmenu: 'menu', apps: 'menu',
+  print: 'printscreen', prtsc: 'printscreen', prtscn: 'printscreen', print_screen: 'printscreen',
+  // Characters that can't be written inside a chord
+  plus: '+', minus: '-', equal: '=', comma: ',', period: '.', dot: '.', slash: '/',
+  backslash: '\\', semicolon: ';', quote: '\'', backtick: '`', bracketleft: '[', bracketright: ']',
+  // Numpad
+  numlock: 'numpad_lock', num_lock: 'numpad_lock',
+  num_plus: 'numpad_+', num_minus: 'numpad_-', num_multiply: 'numpad_*', num_divide: 'numpad_/', num_decimal: 'numpad_.',
+  numpad_plus: 'numpad_+', numpad_minus: 'numpad_-', numpad_multiply: 'numpad_*', numpad_divide: 'numpad_/', numpad_decimal: 'numpad_.',
+  // Media
+  mute: 'audio_mute', volume_mute: 'audio_mute', volumemute: 'audio_mute',
+  volumedown: 'audio_vol_down', volume_down: 'audio_vol_down', voldown: 'audio_vol_down',
+  volumeup: 'audio_vol_up', volume_up: 'audio_vol_up', volup: 'audio_vol_up',
+  play: 'audio_play', playpause: 'audio_play', play_pause: 'audio_play', mediaplay: 'audio_play',
+  stop: 'audio_stop', mediastop: 'audio_stop', pause: 'audio_pause',
+  prev: 'audio_prev', previous: 'audio_prev', prevtrack: 'audio_prev', mediaprev: 'audio_prev',
+  next: 'audio_next', nexttrack: 'audio_next', medianext: 'audio_next',
+};
+
+const MODIFIERS = new Set<string>(MODIFIER_KEYS);
+
+const MAX_REPEAT = 100;
+
+/**
+ * Platform whose modifier table applies (BSDs and others use the Linux one)
+ */
+export function keyPlatform(platform: typeof process.platform = process.platform): KeyPlatform {
+  return platform === 'win32' || platform === 'darwin' ? platform : 'linux';
+}
+
+/**
+ * Canonical name of a key on a platform, or null if it isn't in the table
+ * Canonical names map to themselves, so resolving twice is safe.
+ */
+export function canonicalKey(name: string, platform: typeof process.platform = process.platform): string | null {
+  const lower = name.trim().toLowerCase();
+  if (KNOWN_KEYS.has(lower)) return lower;
+
+  const alias = PLATFORM_MODIFIERS[keyPlatform(platform)][lower] ?? KEY_ALIASES[lower];
+  if (alias) return alias;
+
+  // num5 / num_5 / kp5 -> numpad_5
+  const numpad = /^(?:num|kp|numpad)_?(\d)$/.exec(lower)?.[1];
+  if (numpad) return `numpad_${numpad}`;
+
+  return null;
+}
+
+/**
+ * Canonical name of a key - throws KeyError for unknown keys
+ */
+export function resolveKey(name: string, platform: typeof process.platform = process.platform): string {
+  const key = canonicalKey(name, platform);
+  if (!key) {
+    throw new KeyError(
+      `Unknown key: "${name}". Use names like primary, ctrl, shift, alt, cmd, win, enter, esc, tab, f1-f24, pageup, printscreen, numpad_5, audio_mute, or a single character.`,
+      'UNKNOWN_KEY',
+      { key: name }
+    );
+  }
+  return key;
+}
+
+export function isModifierKey(key: string): boolean {
+  return MODIFIERS.has(key);
+}
+
+/**
+ * Split keys into modifiers and one main key: ["Ctrl", "Shift", "T"] -> { key: 't', modifiers: ['control', 'shift'] }
+ * A chord of modifiers only ("shift") taps its last modifier.
+ */
+export function resolveChord(keys: string[], platform: typeof process.platform = process.platform): KeyChord {
+  const resolved = keys.map((k) => k.trim()).filter(Boolean).map((k) => resolveKey(k, platform));
+  const mains = resolved.filter((k) => !isModifierKey(k));
+
+  if (resolved.length === 0) {
+    throw new KeyError('Empty key combination', 'INVALID_CHORD', { keys });
+  }
+  if (mains.length > 1) {
+    throw new KeyError(
+      `Only one non-modifier key per combination: "${keys.join('+')}" (use a sequence for several keys)`,
+      'INVALID_CHORD',
+      { keys }
+    );
+  }
+
+  const modifiers = [...new Set(resolved.filter(isModifierKey))];
+  const key = mains[0] ?? modifiers.pop();
+  return { key: key ?? '', modifiers, repeat: 1 };
+}
+
+/**
+ * Parse one chord written with "+": "ctrl+shift+t", "ctrl++" (plus key)
+ */
+export function parseChord(chord: string, platform: typeof process.platform = process.platform): KeyChord {
+  // A trailing "+" after a separator is the plus key itself
+  const keys = chord.endsWith('++') ? [...chord.slice(0, -2).split('+'), 'plus'] : chord === '+' ? ['plus'] : chord.split('+');
+  return resolveChord(keys, platform);
+}
+
+/**
+ * Parse a key sequence: "ctrl+k ctrl+s", "shift+tab x3", "down x5 enter"
+ */
+export function parseKeySequence(sequence: string, platform: typeof process.platform = process.platform): KeyChord[] {
+  const chords: KeyChord[] = [];
+
+  for (const token of sequence.trim().split(/\s+/).filter(Boolean)) {
+    const repeat = /^[x*](\d+)$/i.exec(token)?.[1];
+    if (repeat !== undefined) {
+      const last = chords[chords.length - 1];
+      const count = parseInt(repeat, 10);
+      if (!last) {
+        throw new KeyError(`Repeat "${token}" must follow a key`, 'INVALID_SEQUENCE', { sequence });
+      }
+      if (count < 1 || count > MAX_REPEAT) {
+        throw new KeyError(`Repeat count must be 1-${MAX_REPEAT}: "${token}"`, 'INVALID_SEQUENCE', { sequence });
+      }
+      last.repeat = count;
+      continue;
+    }
+    chords.push(parseChord(token, platform));
+  }
+
+  if (chords.length === 0) {
+    throw new KeyError('Empty key sequence', 'INVALID_SEQUENCE', { sequence });
+  }
+  return chords;
+}
+
+/**
+ * Readable chord: { key: 't', modifiers: ['control', 'shift'] } -> "control+shift+t"
+ */
+export function formatChord(chord: Pick<KeyChord, 'key' | 'modifiers'>): string {
+  return [...chord.modifiers, chord.key].join('+');
+}
@@ -9,8 +9,8 @@ import { join } from 'node:path';
 import { homedir } from 'node:os';
 
 // Import getMousePosition from input.ts would create circular dependency
-// So we import robotjs directly here
-import robot from 'robotjs';
+// So we read the pointer from the input backend directly here
+import { getInputBackend } from './input-backend.js';
 
 // Resume signal file path
 const RESUME_FILE = join(homedir(), '.oscribe', 'killswitch-resume');
@@ -98,7 +98,7 @@ export function checkUserActivity(): void {
     return;
   }
 
-  const current = robot.getMousePos();
+  const current = getInputBackend().getMousePos();
   const now = Date.now();
 
   // First action: just record position
@@ -143,6 +143,6 @@ export function recordActionDone(): void {
     return;
   }
 
-  lastPosition = robot.getMousePos();
+  lastPosition = getInputBackend().getMousePos();
   lastActionTime = Date.now();
 }
@@ -3,24 +3,36 @@
  * One rich JSON event per action for audit and debugging
  */
 
-import { existsSync, mkdirSync, appendFileSync } from 'node:fs';
+import { existsSync, mkdirSync } from 'node:fs';
 import { join } from 'node:path';
 import { homedir } from 'node:os';
 import { loadConfig } from '../config/index.js';
+import { appendAuditEvent } from './audit.js';
+import { scrubValue } from './redaction.js';
 
 // Wide event interface - all context for one action
 export interface ActionEvent {
   timestamp: string;
-  action: 'click' | 'move' | 'type' | 'hotkey' | 'scroll' | 'mouseDown' | 'mouseUp' | 'drag';
+  action: 'click' | 'move' | 'type' | 'hotkey' | 'scroll' | 'mouseDown' | 'mouseUp' | 'drag' | 'keyDown' | 'keyUp' | 'pressKeys'
+    | 'tap' | 'longPress' | 'swipe' | 'pinch';
   params: Record<string, unknown>;
   duration_ms: number;
   success: boolean;
   error?: { message: string; code: string | undefined };
   platform: typeof process.platform;
+  // Audit chain (see audit.ts) - set when the event is written
+  seq?: number;
+  prevHash?: string;
+  hash?: string;
+  signature?: string;
 }
 
 const LOGS_DIR = join(homedir(), '.oscribe', 'logs');
 
+export function getLogsDir(): string {
+  return LOGS_DIR;
+}
+
 function ensureLogsDir(): void {
   if (!existsSync(LOGS_DIR)) {
     mkdirSync(LOGS_DIR, { recursive: true });
@@ -32,7 +44,7 @@ function getLogPath(): string {
   return join(LOGS_DIR, `actions-${date}.jsonl`);  // JSONL = 1 JSON per line
 }
 
-export function logAction(event: ActionEvent): void {
+export async function logAction(event: ActionEvent): Promise<void> {
   const config = loadConfig();
 
   // Only log if logLevel is debug or info
@@ -41,7 +53,8 @@ export function logAction(event: ActionEvent): void {
   }
 
   ensureLogsDir();
-  appendFileSync(getLogPath(), JSON.stringify(event) + '\n');
+  // Secrets and sensitive patterns never reach the log file
+  await appendAuditEvent(LOGS_DIR, getLogPath, scrubValue(event));
 }
 
 /**
@@ -75,7 +88,10 @@ export async function withLogging<T>(
     throw err;
   } finally {
     event.duration_ms = Date.now() - start;
-    logAction(event);
+    // A logging failure must not replace the action's outcome
+    await logAction(event).catch((error: unknown) => {
+      console.error('[OScribe] Failed to log action:', error);
+    });
   }
 }
 
@@ -109,6 +125,9 @@ export function withLoggingSync<T>(
     throw err;
   } finally {
     event.duration_ms = Date.now() - start;
-    logAction(event);
+    // Written in the background, in order with the other events
+    logAction(event).catch((error: unknown) => {
+      console.error('[OScribe] Failed to log action:', error);
+    });
   }
 }
@@ -0,0 +1,152 @@
+/**
+ * Mouse motion profiles - how the cursor travels to a point
+ *
+ *   instant  Teleport (one move event)
+ *   linear   Straight line at constant speed
+ *   bezier   Curved path with ease-in/ease-out
+ *   human    Bezier + hand jitter, small overshoot and correction, uneven timing
+ *
+ * Games and canvas apps often only react to hover/move events, which teleporting skips.
+ * Defaults come from config.motion, each call can override them.
+ */
+
+import { loadConfig } from '../config/index.js';
+
+export const MOTION_PROFILES = ['instant', 'linear', 'bezier', 'human'] as const;
+
+export type MotionProfile = (typeof MOTION_PROFILES)[number];
+
+export interface MotionOptions {
+  profile?: MotionProfile;
+  /** Travel time in ms */
+  duration?: number;
+  /** Max random deviation per step in pixels (human only) */
+  jitter?: number;
+  /** Overshoot past the target as a fraction of the distance (human only) */
+  overshoot?: number;
+}
+
+export interface PathPoint {
+  x: number;
+  y: number;
+  /** Pause after moving to this point (ms) */
+  delayMs: number;
+}
+
+// ~60 move events per second
+const STEP_MS = 16;
+const MAX_STEPS = 200;
+// Overshoot never exceeds this, whatever the distance
+const MAX_OVERSHOOT_PX = 40;
+
+/**
+ * Fill missing motion options from config
+ */
+export function resolveMotion(options: MotionOptions = {}): Required<MotionOptions> {
+  const defaults = loadConfig().motion;
+  return {
+    profile: options.profile ?? defaults.profile,
+    duration: options.duration ?? defaults.duration,
+    jitter: options.jitter ?? defaults.jitter,
+    overshoot: options.overshoot ?? defaults.overshoot,
+  };
+}
+
+const easeInOut = (t: number): number => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2);
+
+function cubicBezier(p0: number, p1: number, p2: number, p3: number, t: number): number {
+  const u = 1 - t;
+  return u ** 3 * p0 + 3 * u * u * t * p1 + 3 * u * t * t * p2 + t ** 3 * p3;
+}
+
+/**
+ * Curve from a to b: control points pushed sideways by up to 30% of the distance
+ */
+function bezierCurve(
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  random: () => number
+): (t: number) => { x: number; y: number } {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  // Unit normal to the straight line
+  const length = Math.hypot(dx, dy) || 1;
+  const nx = -dy / length;
+  const ny = dx / length;
+  const bend1 = (random() - 0.5) * 0.6 * length;
+  const bend2 = (random() - 0.5) * 0.6 * length;
+  const c1 = { x: from.x + dx * 0.3 + nx * bend1, y: from.y + dy * 0.3 + ny * bend1 };
+  const c2 = { x: from.x + dx * 0.7 + nx * bend2, y: from.y + dy * 0.7 + ny * bend2 };
+
+  return (t) => ({
+    x: cubicBezier(from.x, c1.x, c2.x, to.x, t),
+    y: cubicBezier(from.y, c1.y, c2.y, to.y, t),
+  });
+}
+
+/**
+ * Points the cursor goes through from `from` to `to` - the last one is always `to`
+ * @param steps - Number of moves (default: one per ~16ms of duration)
+ */
+export function planPath(
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  motion: Required<MotionOptions>,
+  steps?: number,
+  random: () => number = Math.random
+): PathPoint[] {
+  const distance = Math.hypot(to.x - from.x, to.y - from.y);
+  if (motion.profile === 'instant' || distance < 1 || motion.duration <= 0) {
+    return [{ x: to.x, y: to.y, delayMs: 0 }];
+  }
+
+  const count = Math.max(2, Math.min(MAX_STEPS, steps ?? Math.round(motion.duration / STEP_MS)));
+  const stepDelay = motion.duration / count;
+  const round = (p: { x: number; y: number }, delayMs: number): PathPoint => ({ x: Math.round(p.x), y: Math.round(p.y), delayMs });
+
+  if (motion.profile === 'linear') {
+    return Array.from({ length: count }, (_, i) => {
+      const t = (i + 1) / count;
+      return round({ x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t }, stepDelay);
+    });
+  }
+
+  if (motion.profile === 'bezier') {
+    const curve = bezierCurve(from, to, random);
+    return Array.from({ length: count }, (_, i) => round(curve(easeInOut((i + 1) / count)), stepDelay));
+  }
+
+  // human: travel to a point past the target, then correct back to it
+  const overshootPx = Math.min(distance * motion.overshoot, MAX_OVERSHOOT_PX);
+  const past = {
+    x: to.x + ((to.x - from.x) / distance) * overshootPx,
+    y: to.y + ((to.y - from.y) / distance) * overshootPx,
+  };
+  const correction = overshootPx >= 1 && count >= 4 ? Math.max(2, Math.round(count * 0.15)) : 0;
+  const main = count - correction;
+  const curve = bezierCurve(from, overshootPx >= 1 ? past : to, random);
+  const noise = (): number => (random() - 0.5) * 2 * motion.jitter;
+
+  const points: PathPoint[] = [];
+  for (let i = 1; i <= main; i++) {
+    const t = i / main;
+    const p = curve(easeInOut(t));
+    // Hand tremor fades out near the end of the movement
+    const tremor = 1 - t;
+    // Uneven timing: +/-30% around the nominal step
+    points.push(round({ x: p.x + noise() * tremor, y: p.y + noise() * tremor }, stepDelay * (0.7 + random() * 0.6)));
+  }
+  for (let i = 1; i <= correction; i++) {
+    const t = easeInOut(i / correction);
+    points.push(round({ x: past.x + (to.x - past.x) * t, y: past.y + (to.y - past.y) * t }, stepDelay * 1.5));
+  }
+
+  // Always land exactly on the target
+  const last = points[points.length - 1];
+  if (last) {
+    last.x = to.x;
+    last.y = to.y;
+    last.delayMs = 0;
+  }
+  return points;
+}
@@ -0,0 +1,203 @@
+/**
+ * Minimal PNG codec for pixel comparisons and screenshot masking
+ * Decodes the 8-bit, non-interlaced PNGs produced by captureScreen() on every platform
+ * No external dependencies - uses node:zlib only
+ */
+
+import { deflateSync, inflateSync } from 'node:zlib';
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  /** Bytes per pixel (1 gray, 2 gray+alpha, 3 RGB, 4 RGBA) */
+  channels: number;
+  /** Unfiltered pixel data, row-major, `width * channels` bytes per row */
+  data: Buffer;
+}
+
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Color type -> channels (palette images are not produced by the capture backends)
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+// Channels -> color type
+const COLOR_TYPES: Record<number, number> = { 1: 0, 2: 4, 3: 2, 4: 6 };
+
+/**
+ * Decode a PNG buffer into raw pixels
+ * Throws on unsupported formats (palette, 16-bit, interlaced)
+ */
+export function decodePng(buffer: Buffer): DecodedImage {
+  if (buffer.length < 8 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error('Not a PNG image');
+  }
+
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const idat: Buffer[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const chunk = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      const bitDepth = chunk.readUInt8(8);
+      const colorType = chunk.readUInt8(9);
+      const interlace = chunk.readUInt8(12);
+      channels = CHANNELS[colorType] ?? 0;
+      if (bitDepth !== 8 || channels === 0 || interlace !== 0) {
+        throw new Error(`Unsupported PNG format (bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace})`);
+      }
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (width === 0 || height === 0) {
+    throw new Error('PNG has no IHDR chunk');
+  }
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const data = Buffer.alloc(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)] ?? 0;
+    const src = y * (stride + 1) + 1;
+    const dst = y * stride;
+    const prev = dst - stride;
+
+    for (let i = 0; i < stride; i++) {
+      const value = raw[src + i] ?? 0;
+      const left = i >= channels ? data[dst + i - channels] ?? 0 : 0;
+      const up = y > 0 ? data[prev + i] ?? 0 : 0;
+      const upLeft = y > 0 && i >= channels ? data[prev + i - channels] ?? 0 : 0;
+
+      let predictor = 0;
+      switch (filter) {
+        case 1: predictor = left; break;
+        case 2: predictor = up; break;
+        case 3: predictor = (left + up) >> 1; break;
+        case 4: predictor = paeth(left, up, upLeft); break;
+      }
+      data[dst + i] = (value + predictor) & 0xff;
+    }
+  }
+
+  return { width, height, channels, data };
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+}
+
+/**
+ * Fraction of pixels (0-1) that differ between two images inside a region
+ * Region defaults to the full image and is clamped to the image bounds
+ */
+export function diffRegion(a: DecodedImage, b: DecodedImage, region?: Region): number {
+  if (a.width !== b.width || a.height !== b.height || a.channels !== b.channels) {
+    return 1;
+  }
+
+  const x0 = Math.max(0, Math.floor(region?.x ?? 0));
+  const y0 = Math.max(0, Math.floor(region?.y ?? 0));
+  const x1 = Math.min(a.width, region ? Math.floor(region.x + region.width) : a.width);
+  const y1 = Math.min(a.height, region ? Math.floor(region.y + region.height) : a.height);
+  if (x1 <= x0 || y1 <= y0) {
+    return 0;
+  }
+
+  const stride = a.width * a.channels;
+  let changed = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const p = y * stride + x * a.channels;
+      for (let c = 0; c < a.channels; c++) {
+        if (a.data[p + c] !== b.data[p + c]) {
+          changed++;
+          break;
+        }
+      }
+    }
+  }
+
+  return changed / ((x1 - x0) * (y1 - y0));
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, 'ascii');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), data])), 0);
+  return Buffer.concat([header, data, crc]);
+}
+
+/**
+ * Encode raw pixels as an 8-bit PNG (rows unfiltered, lossless through decodePng)
+ */
+export function encodePng(image: DecodedImage): Buffer {
+  const colorType = COLOR_TYPES[image.channels];
+  if (colorType === undefined) {
+    throw new Error(`Unsupported channel count: ${image.channels}`);
+  }
+
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(image.width, 0);
+  ihdr.writeUInt32BE(image.height, 4);
+  ihdr.writeUInt8(8, 8);
+  ihdr.writeUInt8(colorType, 9);
+  // Compression, filter method, interlace: all 0
+
+  const stride = image.width * image.channels;
+  const raw = Buffer.alloc((stride + 1) * image.height);
+  for (let y = 0; y < image.height; y++) {
+    // Filter byte 0 (None), then the row
+    image.data.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', ihdr),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
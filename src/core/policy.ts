@@ -0,0 +1,487 @@
+/**
+ * Policy engine - declarative allow / deny / confirm rules for restricted mode
+ *
+ * Rules match on what the action targets, not on title substrings:
+ *   process      Process name glob ("keepass*", "chrome") - ".exe" optional
+ *   path         Executable path glob ("C:/Program Files/Bitwarden/*")
+ *   hash         SHA-256 of the executable
+ *   windowClass  Win32 class, X11 WM_CLASS / Wayland app id, macOS bundle id (glob)
+ *   title        Window title regex (case-insensitive)
+ *   element      Name of the UI element at the action point, regex ("^(Delete|Send)$")
+ *   region       Screen rectangle containing the action point
+ *   actions      click, type, hotkey, scroll
+ *   hotkeys      Key combinations, matched as the keys sent on this platform
+ * A rule matches when every field it sets matches; a list matches any of its entries.
+ *
+ * The matching rule with the highest priority decides (deny > confirm > allow on ties),
+ * otherwise the policy default. Without a policy file, the restrictedMode lists of
+ * config.json are converted to equivalent rules.
+ *
+ * File: ~/.oscribe/policy.json (or config.restrictedMode.policyFile)
+ */
+
+import { createHash } from 'node:crypto';
+import { createReadStream, existsSync, readFileSync, statSync } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { isAbsolute, join } from 'node:path';
+import { z } from 'zod';
+import { getConfigDir, type Config } from '../config/index.js';
+import { canonicalKey } from './keys.js';
+import { getActiveWindowDetails, type WindowDetails } from './windows.js';
+
+export const POLICY_EFFECTS = ['allow', 'deny', 'confirm'] as const;
+
+export type PolicyEffect = (typeof POLICY_EFFECTS)[number];
+
+export const POLICY_ACTIONS = ['click', 'type', 'hotkey', 'scroll'] as const;
+
+export type PolicyAction = (typeof POLICY_ACTIONS)[number];
+
+/**
+ * Custom error for unreadable or invalid policy files
+ * Following error-handling-patterns skill
+ */
+export class PolicyError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'READ_FAILED' | 'INVALID_POLICY',
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'PolicyError';
+    // Preserve stack trace (V8 engines)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+const OneOrMany = z.union([z.string(), z.array(z.string())]).transform((v) => (Array.isArray(v) ? v : [v]));
+
+const RuleMatchSchema = z.object({
+  process: OneOrMany.optional(),
+  path: OneOrMany.optional(),
+  hash: OneOrMany.optional(),
+  windowClass: OneOrMany.optional(),
+  title: OneOrMany.optional(),
+  element: OneOrMany.optional(),
+  region: z.object({
+    x: z.number(),
+    y: z.number(),
+    width: z.number().positive(),
+    height: z.number().positive(),
+  }).optional(),
+  actions: z.union([z.enum(POLICY_ACTIONS), z.array(z.enum(POLICY_ACTIONS))])
+    .transform((v) => (Array.isArray(v) ? v : [v]))
+    .optional(),
+  hotkeys: OneOrMany.optional(),
+}).strict();
+
+const PolicyRuleSchema = z.object({
+  id: z.string().min(1),
+  effect: z.enum(POLICY_EFFECTS),
+  priority: z.number().int().default(0),
+  description: z.string().optional(),
+  match: RuleMatchSchema.default({}),
+}).strict();
+
+const PolicySchema = z.object({
+  // Effect when no rule matches
+  default: z.enum(POLICY_EFFECTS).default('allow'),
+  rules: z.array(PolicyRuleSchema).default([]),
+});
+
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>;
+
+export type Policy = z.infer<typeof PolicySchema>;
+
+export interface LoadedPolicy {
+  policy: Policy;
+  /** Policy file path, or "config.json" for rules converted from restrictedMode */
+  source: string;
+}
+
+/**
+ * What an action is about to do, as seen by the rules
+ */
+export interface PolicyRequest {
+  action: string;
+  /** Screen points the action touches (click point, drag ends) */
+  points: Array<{ x: number; y: number }>;
+  /** Keys of a hotkey */
+  keys?: string[];
+  /** Target window - null when it can't be determined */
+  window: WindowDetails | null;
+  /** SHA-256 of the window's executable, when a rule needs it */
+  hash?: string;
+  /** Name of the UI element at the first action point, when a rule needs it */
+  element?: string;
+}
+
+export interface PolicyDecision {
+  effect: PolicyEffect;
+  /** Deciding rule - null when the policy default applied */
+  rule: PolicyRule | null;
+  /** Every matching rule, deciding one first */
+  matches: PolicyRule[];
+}
+
+// Actions that target the active window (the legacy app lists only applied to these)
+const APP_ACTIONS: PolicyAction[] = ['click', 'type', 'hotkey', 'scroll'];
+
+const EFFECT_WEIGHT: Record<PolicyEffect, number> = { deny: 2, confirm: 1, allow: 0 };
+
+const WINDOW_FIELDS = ['process', 'path', 'hash', 'windowClass', 'title'] as const;
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+let cached: { path: string; mtimeMs: number; policy: Policy } | null = null;
+
+/**
+ * Policy file path (may not exist)
+ */
+export function getPolicyPath(restrictedMode?: Config['restrictedMode']): string {
+  const configured = restrictedMode?.policyFile;
+  if (!configured) return join(getConfigDir(), 'policy.json');
+  return isAbsolute(configured) ? configured : join(getConfigDir(), configured);
+}
+
+/**
+ * Validate a policy object - throws PolicyError listing the problems
+ */
+export function parsePolicy(raw: unknown, source: string = 'policy'): Policy {
+  const result = PolicySchema.safeParse(raw);
+  if (!result.success) {
+    const problems = result.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`);
+    throw new PolicyError(`Invalid policy ${source}:\n  ${problems.join('\n  ')}`, 'INVALID_POLICY', { source, problems });
+  }
+
+  for (const rule of result.data.rules) {
+    for (const field of ['title', 'element'] as const) {
+      for (const pattern of rule.match[field] ?? []) {
+        try {
+          new RegExp(pattern, 'i');
+        } catch (error) {
+          throw new PolicyError(
+            `Invalid policy ${source}: rule "${rule.id}" has an invalid ${field} regex: ${(error as Error).message}`,
+            'INVALID_POLICY',
+            { source, rule: rule.id, pattern }
+          );
+        }
+      }
+    }
+  }
+  return result.data;
+}
+
+/**
+ * Read and validate a policy file (cached until the file changes)
+ */
+export function readPolicyFile(path: string): Policy {
+  let mtimeMs: number;
+  let raw: string;
+  try {
+    mtimeMs = statSync(path).mtimeMs;
+    if (cached?.path === path && cached.mtimeMs === mtimeMs) return cached.policy;
+    raw = readFileSync(path, 'utf-8');
+  } catch (error) {
+    throw new PolicyError(`Cannot read policy ${path}: ${(error as Error).message}`, 'READ_FAILED', { path });
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    throw new PolicyError(`Invalid policy ${path}: ${(error as Error).message}`, 'INVALID_POLICY', { path });
+  }
+
+  const policy = parsePolicy(json, path);
+  cached = { path, mtimeMs, policy };
+  return policy;
+}
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Rules equivalent to the restrictedMode lists of config.json (title substrings)
+ */
+export function legacyPolicy(restrictedMode: Config['restrictedMode']): Policy {
+  const rules: PolicyRule[] = restrictedMode.blockedHotkeys.map((hotkey) => ({
+    id: `blocked-hotkey:${hotkey}`,
+    effect: 'deny',
+    priority: 100,
+    match: { actions: ['hotkey'], hotkeys: [hotkey] },
+  }));
+
+  if (restrictedMode.allowedApps.length > 0) {
+    // Whitelist mode: listed apps are allowed even if also blocked, every other window is denied
+    rules.push(
+      {
+        id: 'allowed-apps',
+        effect: 'allow',
+        priority: 10,
+        match: { actions: APP_ACTIONS, title: restrictedMode.allowedApps.map(escapeRegex) },
+      },
+      {
+        id: 'not-in-allowed-apps',
+        effect: 'deny',
+        priority: 0,
+        match: { actions: APP_ACTIONS, title: [''] },
+      }
+    );
+  }
+
+  for (const app of restrictedMode.blockedApps) {
+    rules.push({
+      id: `blocked-app:${app}`,
+      effect: 'deny',
+      priority: 5,
+      match: { actions: APP_ACTIONS, title: [escapeRegex(app)] },
+    });
+  }
+
+  return { default: 'allow', rules };
+}
+
+/**
+ * Policy in force: the policy file if there is one, otherwise rules from config.json
+ */
+export function loadPolicy(restrictedMode: Config['restrictedMode']): LoadedPolicy {
+  const path = getPolicyPath(restrictedMode);
+  if (existsSync(path)) {
+    return { policy: readPolicyFile(path), source: path };
+  }
+  if (restrictedMode.policyFile) {
+    throw new PolicyError(`Policy file not found: ${path}`, 'READ_FAILED', { path });
+  }
+  return { policy: legacyPolicy(restrictedMode), source: 'config.json' };
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+// Side-specific modifiers act like the generic one: rctrl+alt+delete is ctrl+alt+delete
+const SIDED_MODIFIERS: Record<string, string> = {
+  left_control: 'control', right_control: 'control',
+  right_alt: 'alt', right_shift: 'shift',
+};
+
+/**
+ * Normalize hotkey for comparison, as the keys actually sent on this platform
+ * "Ctrl+Alt+Delete" -> "alt+control+delete", "cmd+q" -> "control+q" on Windows, "command+q" on macOS
+ */
+function normalizeHotkey(keys: string[], platform: typeof process.platform): string {
+  const canonical = keys.map((k) => canonicalKey(k, platform) ?? k.trim().toLowerCase());
+  return [...new Set(canonical.map((k) => SIDED_MODIFIERS[k] ?? k))].sort().join('+');
+}
+
+/**
+ * Pattern matching a hotkey, or undefined
+ * Both sides are translated with the platform's modifier table, so "win+l" blocks
+ * "super+l" and "meta+l" too, and "cmd+c" on Windows is checked as the ctrl+c it sends.
+ */
+export function findBlockedHotkey(
+  keys: string[],
+  patterns: string[],
+  platform: typeof process.platform = process.platform
+): string | undefined {
+  const normalized = normalizeHotkey(keys, platform);
+  return patterns.find(h => normalizeHotkey(h.split('+'), platform) === normalized);
+}
+
+/**
+ * Case-insensitive glob ("*" any text, "?" one character) over the whole value
+ */
+function globMatch(pattern: string, value: string): boolean {
+  const source = pattern.split('').map((c) => (c === '*' ? '.*' : c === '?' ? '.' : escapeRegex(c))).join('');
+  return new RegExp(`^${source}$`, 'i').test(value);
+}
+
+const stripExe = (name: string): string => name.replace(/\.exe$/i, '');
+
+const normalizePath = (path: string): string => path.replace(/\\/g, '/');
+
+/**
+ * Does every field of the rule match the request?
+ */
+export function ruleMatches(
+  rule: PolicyRule,
+  request: PolicyRequest,
+  platform: typeof process.platform = process.platform
+): boolean {
+  const { match } = rule;
+  const window = request.window;
+
+  if (match.actions && !match.actions.some((a) => a === request.action)) return false;
+
+  if (match.hotkeys && !(request.keys && findBlockedHotkey(request.keys, match.hotkeys, platform))) return false;
+
+  if (match.region) {
+    const { x, y, width, height } = match.region;
+    const inside = request.points.some((p) => p.x >= x && p.x < x + width && p.y >= y && p.y < y + height);
+    if (!inside) return false;
+  }
+
+  // Window fields never match an unknown window
+  if (WINDOW_FIELDS.some((field) => match[field]) && !window) return false;
+
+  if (match.process) {
+    const name = window?.processName;
+    if (!name || !match.process.some((p) => globMatch(stripExe(p), stripExe(name)))) return false;
+  }
+  if (match.path) {
+    const path = window?.processPath;
+    if (!path || !match.path.some((p) => globMatch(normalizePath(p), normalizePath(path)))) return false;
+  }
+  if (match.hash) {
+    const hash = request.hash;
+    if (!hash || !match.hash.some((h) => h.toLowerCase() === hash)) return false;
+  }
+  if (match.windowClass) {
+    const windowClass = window?.windowClass;
+    if (!windowClass || !match.windowClass.some((c) => globMatch(c, windowClass))) return false;
+  }
+  if (match.title) {
+    const title = window?.title ?? '';
+    if (!match.title.some((t) => new RegExp(t, 'i').test(title))) return false;
+  }
+  if (match.element) {
+    // Unknown element (no point, no accessibility info) never matches
+    const element = request.element;
+    if (element === undefined || !match.element.some((e) => new RegExp(e, 'i').test(element))) return false;
+  }
+  return true;
+}
+
+/**
+ * Decide an action: highest-priority matching rule, deny > confirm > allow on ties, else the default
+ */
+export function evaluatePolicy(
+  policy: Policy,
+  request: PolicyRequest,
+  platform: typeof process.platform = process.platform
+): PolicyDecision {
+  const matches = policy.rules
+    .map((rule, index) => ({ rule, index }))
+    .filter(({ rule }) => ruleMatches(rule, request, platform))
+    .sort((a, b) =>
+      b.rule.priority - a.rule.priority ||
+      EFFECT_WEIGHT[b.rule.effect] - EFFECT_WEIGHT[a.rule.effect] ||
+      a.index - b.index)
+    .map(({ rule }) => rule);
+
+  const rule = matches[0] ?? null;
+  return { effect: rule?.effect ?? policy.default, rule, matches };
+}
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+const hashCache = new Map<string, { mtimeMs: number; hash: string }>();
+
+/**
+ * SHA-256 of a file (cached until it changes)
+ */
+export async function hashExecutable(path: string): Promise<string> {
+  const { mtimeMs } = await stat(path);
+  const hit = hashCache.get(path);
+  if (hit?.mtimeMs === mtimeMs) return hit.hash;
+
+  const hash = await new Promise<string>((resolve, reject) => {
+    const digest = createHash('sha256');
+    createReadStream(path)
+      .on('data', (chunk) => digest.update(chunk))
+      .on('end', () => resolve(digest.digest('hex')))
+      .on('error', reject);
+  });
+  hashCache.set(path, { mtimeMs, hash });
+  return hash;
+}
+
+/**
+ * Screen points in action params: (x, y), (fromX, fromY), (toX, toY)
+ */
+export function actionPoints(params: Record<string, unknown>): Array<{ x: number; y: number }> {
+  const points: Array<{ x: number; y: number }> = [];
+  for (const [xKey, yKey] of [['x', 'y'], ['fromX', 'fromY'], ['toX', 'toY']] as const) {
+    const x = params[xKey];
+    const y = params[yKey];
+    if (typeof x === 'number' && typeof y === 'number') points.push({ x, y });
+  }
+  return points;
+}
+
+/**
+ * Could any rule for this action look at the target window?
+ */
+function needsWindow(policy: Policy, action: string): boolean {
+  return policy.rules.some((rule) =>
+    (!rule.match.actions || rule.match.actions.some((a) => a === action)) &&
+    WINDOW_FIELDS.some((field) => rule.match[field]));
+}
+
+/**
+ * Could any rule for this action look at the element under the action point?
+ */
+function needsElement(policy: Policy, action: string): boolean {
+  return policy.rules.some((rule) =>
+    (!rule.match.actions || rule.match.actions.some((a) => a === action)) && rule.match.element);
+}
+
+/**
+ * Name of the UI element at a screen point, or undefined
+ */
+async function elementNameAt(point: { x: number; y: number }): Promise<string | undefined> {
+  try {
+    // Dynamic import: UI automation pulls in platform helpers the other rules don't need
+    const { getElementAtPoint } = await import('./uiautomation.js');
+    const name = (await getElementAtPoint(point.x, point.y))?.name;
+    return name === '' ? undefined : name;
+  } catch {
+    // No accessibility info: element rules don't match
+    return undefined;
+  }
+}
+
+/**
+ * Describe an action for the rules - the active window and the element under the
+ * action point are only queried when a rule needs them
+ * @param window - Use this window instead of the active one (policy test)
+ * @param element - Use this element name instead of querying UI automation (policy test)
+ */
+export async function buildPolicyRequest(
+  policy: Policy,
+  action: string,
+  params: Record<string, unknown>,
+  window?: WindowDetails | null,
+  element?: string
+): Promise<PolicyRequest> {
+  const keys = Array.isArray(params['keys']) ? (params['keys'] as string[]) : undefined;
+  const target = window !== undefined
+    ? window
+    : needsWindow(policy, action) ? await getActiveWindowDetails() : null;
+
+  const request: PolicyRequest = { action, points: actionPoints(params), window: target, ...(keys ? { keys } : {}) };
+
+  const hashNeeded = policy.rules.some((rule) => rule.match.hash);
+  if (hashNeeded && target?.processPath) {
+    try {
+      request.hash = await hashExecutable(target.processPath);
+    } catch {
+      // Unreadable executable: hash rules don't match
+    }
+  }
+
+  const point = request.points[0];
+  if (element !== undefined) {
+    request.element = element;
+  } else if (point && needsElement(policy, action)) {
+    const name = await elementNameAt(point);
+    if (name !== undefined) request.element = name;
+  }
+  return request;
+}
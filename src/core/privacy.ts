@@ -0,0 +1,282 @@
+/**
+ * Privacy - mask sensitive parts of screenshots before they are sent or recorded
+ *
+ * Masked:
+ *   Blocked apps     Windows the security policy doesn't let the agent click or type into
+ *   Regions          config.privacy.regions, always
+ *   Password fields  UI elements the accessibility API reports as password fields
+ * The image is blacked out or pixelated there (config.privacy.mode), and the elements
+ * and OCR text inside are dropped. Layers are in screen coordinates, like windows and
+ * the element list; the mask's area maps them onto the image, which can be scaled (Retina,
+ * Windows DPI scaling) and start at another screen's origin.
+ */
+
+import { loadConfig, type Config } from '../config/index.js';
+import type { OcrLine } from './ocr.js';
+import { buildPolicyRequest, evaluatePolicy, loadPolicy, type Policy, type PolicyAction } from './policy.js';
+import { decodePng, encodePng, type DecodedImage, type Region } from './png.js';
+import { getCaptureArea, type ScreenshotResult } from './screenshot.js';
+import type { UIElement } from './uiautomation.js';
+import { listWindowDetails, type WindowDetails } from './windows.js';
+
+export type MaskReason = 'app' | 'region' | 'password';
+
+/**
+ * A rectangle of the screen, masked or shown as captured
+ */
+export interface MaskLayer extends Region {
+  /** false: allowed window stacked above a blocked one */
+  masked: boolean;
+  reason?: MaskReason;
+  /** What was masked: 'blocked app "keepassxc"', 'password field "Password"' */
+  label: string;
+  /** Title of the window the layer covers (window layers only) */
+  title?: string;
+}
+
+export interface ScreenMask {
+  /** Bottom to top - the topmost layer containing a point decides */
+  layers: MaskLayer[];
+  /** Screen area the image shows - default: image pixels are screen coordinates */
+  area?: Region;
+}
+
+export type MaskMode = Config['privacy']['mode'];
+
+// A window is a blocked app if the policy denies one of these in it
+const BLOCKING_ACTIONS: PolicyAction[] = ['click', 'type'];
+
+// Pixelation block size of the "blur" mode - coarse enough that text can't be read back
+const BLUR_BLOCK = 24;
+
+async function isBlockedWindow(policy: Policy, window: WindowDetails): Promise<boolean> {
+  for (const action of BLOCKING_ACTIONS) {
+    // No action point: region and element rules stay out of it
+    const request = await buildPolicyRequest(policy, action, {}, window);
+    if (evaluatePolicy(policy, request).effect === 'deny') return true;
+  }
+  return false;
+}
+
+/**
+ * Layers for the windows of blocked apps, with the allowed windows stacked above them
+ * Empty when restricted mode or config.privacy.maskBlockedApps is off
+ */
+export async function getBlockedWindowLayers(): Promise<MaskLayer[]> {
+  const { privacy, restrictedMode } = loadConfig();
+  if (!privacy.maskBlockedApps || !restrictedMode.enabled) return [];
+
+  const { policy } = loadPolicy(restrictedMode);
+  const layers: MaskLayer[] = [];
+  // Front to back
+  for (const window of await listWindowDetails()) {
+    if (!window.bounds) continue;
+    const masked = await isBlockedWindow(policy, window);
+    layers.push({
+      ...window.bounds,
+      masked,
+      ...(masked ? { reason: 'app' as const } : {}),
+      label: masked ? `blocked app "${window.processName ?? window.app ?? 'unknown'}"` : `window "${window.title}"`,
+      title: window.title,
+    });
+  }
+
+  // Windows below the last blocked one don't change anything
+  const lastBlocked = layers.map((layer) => layer.masked).lastIndexOf(true);
+  return layers.slice(0, lastBlocked + 1).reverse();
+}
+
+/**
+ * Full mask: blocked app windows, then the configured regions and password fields on top
+ * @param windowLayers - From getBlockedWindowLayers()
+ * @param elements - UI elements of the screenshot (password fields)
+ */
+export function buildScreenMask(windowLayers: MaskLayer[], elements: UIElement[] = []): ScreenMask {
+  const { privacy } = loadConfig();
+  const layers = [...windowLayers];
+
+  for (const { label, ...region } of privacy.regions) {
+    layers.push({ ...region, masked: true, reason: 'region', label: label ?? `region (${region.x},${region.y}) ${region.width}x${region.height}` });
+  }
+
+  if (privacy.maskPasswordFields) {
+    for (const el of elements) {
+      if (!el.isPassword) continue;
+      layers.push({ x: el.x, y: el.y, width: el.width, height: el.height, masked: true, reason: 'password', label: `password field "${el.name}"` });
+    }
+  }
+  return { layers };
+}
+
+/**
+ * Attach the screen area a captureScreen() image shows, when something is masked
+ * Unknown area: image pixels are taken as screen coordinates
+ */
+export async function withCaptureArea(mask: ScreenMask, screen = 0): Promise<ScreenMask> {
+  if (!mask.layers.some((layer) => layer.masked)) return mask;
+  try {
+    const area = await getCaptureArea(screen);
+    return area && area.width > 0 && area.height > 0 ? { ...mask, area } : mask;
+  } catch (error) {
+    console.error(`[OScribe] Screen area unknown, masking as if unscaled: ${error instanceof Error ? error.message : String(error)}`);
+    return mask;
+  }
+}
+
+/**
+ * Mask layers in image pixels
+ */
+function imageLayers(mask: ScreenMask, width: number, height: number): MaskLayer[] {
+  const { area } = mask;
+  if (!area) return mask.layers;
+  const sx = width / area.width;
+  const sy = height / area.height;
+  return mask.layers.map((layer) => ({
+    ...layer,
+    x: (layer.x - area.x) * sx,
+    y: (layer.y - area.y) * sy,
+    width: layer.width * sx,
+    height: layer.height * sy,
+  }));
+}
+
+/**
+ * Is a screen point hidden by the mask?
+ */
+export function isMaskedPoint(mask: ScreenMask, x: number, y: number): boolean {
+  for (let i = mask.layers.length - 1; i >= 0; i--) {
+    const layer = mask.layers[i];
+    if (layer && x >= layer.x && x < layer.x + layer.width && y >= layer.y && y < layer.y + layer.height) {
+      return layer.masked;
+    }
+  }
+  return false;
+}
+
+const isMaskedCenter = (mask: ScreenMask, rect: Region): boolean =>
+  isMaskedPoint(mask, rect.x + Math.floor(rect.width / 2), rect.y + Math.floor(rect.height / 2));
+
+/**
+ * Elements whose center isn't masked
+ */
+export function filterMaskedElements<T extends Region>(mask: ScreenMask, elements: T[]): T[] {
+  return elements.filter((el) => !isMaskedCenter(mask, el));
+}
+
+/**
+ * OCR lines with no masked word (a line may run out of a masked window)
+ * @param image - Size of the image OCR ran on: OCR boxes are in its pixels
+ */
+export function filterMaskedOcr(mask: ScreenMask, lines: OcrLine[], image?: { width: number; height: number }): OcrLine[] {
+  const pixelMask = image ? { layers: imageLayers(mask, image.width, image.height) } : mask;
+  return lines.filter((line) => !isMaskedCenter(pixelMask, line) && !line.words.some((word) => isMaskedCenter(pixelMask, word)));
+}
+
+/**
+ * Window title as the agent may see it - hidden when it belongs to a blocked app
+ * @param windowLayers - From getBlockedWindowLayers()
+ */
+export function maskWindowTitle(windowLayers: MaskLayer[], title: string): string {
+  return windowLayers.some((layer) => layer.masked && layer.reason === 'app' && layer.title === title)
+    ? '[blocked app]'
+    : title;
+}
+
+/**
+ * What the mask hides, one label per masked layer
+ */
+export function describeScreenMask(mask: ScreenMask): string[] {
+  return mask.layers.filter((layer) => layer.masked).map((layer) => layer.label);
+}
+
+// ============================================================================
+// Pixels
+// ============================================================================
+
+function clampToImage(layer: Region, image: DecodedImage): { x0: number; y0: number; x1: number; y1: number } | null {
+  const x0 = Math.max(0, Math.floor(layer.x));
+  const y0 = Math.max(0, Math.floor(layer.y));
+  const x1 = Math.min(image.width, Math.ceil(layer.x + layer.width));
+  const y1 = Math.min(image.height, Math.ceil(layer.y + layer.height));
+  return x1 > x0 && y1 > y0 ? { x0, y0, x1, y1 } : null;
+}
+
+/**
+ * Fill [x0,x1) x [y0,y1) with one color, averaged from the source (blur) or black
+ */
+function fillRect(source: DecodedImage, target: Buffer, x0: number, y0: number, x1: number, y1: number, average: boolean): void {
+  const { width, channels } = source;
+  // Alpha stays opaque
+  const hasAlpha = channels === 2 || channels === 4;
+  const color = new Array<number>(channels).fill(0);
+  if (hasAlpha) color[channels - 1] = 255;
+
+  if (average) {
+    const sums = new Array<number>(channels).fill(0);
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const p = (y * width + x) * channels;
+        for (let c = 0; c < channels; c++) sums[c] = (sums[c] ?? 0) + (source.data[p + c] ?? 0);
+      }
+    }
+    const count = (x1 - x0) * (y1 - y0);
+    const colorChannels = hasAlpha ? channels - 1 : channels;
+    for (let c = 0; c < colorChannels; c++) color[c] = Math.round((sums[c] ?? 0) / count);
+  }
+
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const p = (y * width + x) * channels;
+      for (let c = 0; c < channels; c++) target[p + c] = color[c] ?? 0;
+    }
+  }
+}
+
+/**
+ * Apply the mask to a PNG - returns the input unchanged when nothing is masked
+ * Throws if the image can't be decoded: never fall back to the unmasked image
+ */
+export function applyScreenMask(png: Buffer, mask: ScreenMask, mode: MaskMode = loadConfig().privacy.mode): Buffer {
+  if (!mask.layers.some((layer) => layer.masked)) return png;
+
+  const source = decodePng(png);
+  const data = Buffer.from(source.data);
+  const stride = source.width * source.channels;
+
+  for (const layer of imageLayers(mask, source.width, source.height)) {
+    const rect = clampToImage(layer, source);
+    if (!rect) continue;
+    const { x0, y0, x1, y1 } = rect;
+
+    if (!layer.masked) {
+      // Allowed window above a blocked one: back to the captured pixels
+      for (let y = y0; y < y1; y++) {
+        source.data.copy(data, y * stride + x0 * source.channels, y * stride + x0 * source.channels, y * stride + x1 * source.channels);
+      }
+    } else if (mode === 'blur') {
+      for (let by = y0; by < y1; by += BLUR_BLOCK) {
+        for (let bx = x0; bx < x1; bx += BLUR_BLOCK) {
+          fillRect(source, data, bx, by, Math.min(bx + BLUR_BLOCK, x1), Math.min(by + BLUR_BLOCK, y1), true);
+        }
+      }
+    } else {
+      fillRect(source, data, x0, y0, x1, y1, false);
+    }
+  }
+
+  return encodePng({ ...source, data });
+}
+
+/**
+ * Mask a screenshot for blocked apps, configured regions and password fields
+ * @param elements - UI elements of the screenshot (password fields)
+ */
+export async function maskScreenshot(
+  screenshot: ScreenshotResult,
+  elements: UIElement[] = []
+): Promise<{ screenshot: ScreenshotResult; mask: ScreenMask }> {
+  const mask = await withCaptureArea(buildScreenMask(await getBlockedWindowLayers(), elements), screenshot.screen);
+  const buffer = applyScreenMask(screenshot.buffer, mask);
+  if (buffer === screenshot.buffer) return { screenshot, mask };
+  return { screenshot: { ...screenshot, buffer, base64: buffer.toString('base64') }, mask };
+}
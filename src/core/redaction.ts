@@ -0,0 +1,252 @@
+/**
+ * Redaction - keep secrets out of logs, session recordings and tool responses
+ *
+ * Secrets come from:
+ *   {{secret:NAME}}  Placeholder resolved at type time from OSCRIBE_SECRET_NAME or the OS keychain
+ *                    (macOS Keychain, libsecret, Windows Credential Manager) - the placeholder is
+ *                    what gets recorded, so sessions still replay
+ *   secret: true     Text typed with the flag, or into a password field
+ * Known secret values are replaced everywhere they would be written. On top of that,
+ * card numbers, email addresses and API tokens are scrubbed from everything persisted.
+ */
+
+import { execFile } from 'node:child_process';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { promisify } from 'node:util';
+import { loadConfig, type Config } from '../config/index.js';
+
+const execFileAsync = promisify(execFile);
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Custom error for secrets that can't be resolved
+ * Following error-handling-patterns skill
+ */
+export class SecretError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'SECRET_NOT_FOUND' | 'KEYCHAIN_FAILED',
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'SecretError';
+    // Preserve stack trace (V8 engines)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+const SECRET_PLACEHOLDER = /\{\{secret:([\w.-]+)\}\}/g;
+
+// Shorter values (PINs) are only scrubbed as whole words, not inside other words and numbers
+const SHORT_SECRET_LENGTH = 4;
+
+const knownSecrets = new Set<string>();
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Scrub this value from everything written from now on (this process)
+ */
+export function registerSecret(value: string): void {
+  if (value !== '') {
+    knownSecrets.add(value);
+  }
+}
+
+export function hasSecretPlaceholders(text: string): boolean {
+  return new RegExp(SECRET_PLACEHOLDER.source).test(text);
+}
+
+/**
+ * Environment variable of a secret: "github-token" -> OSCRIBE_SECRET_GITHUB_TOKEN
+ */
+export function secretEnvName(name: string): string {
+  return `OSCRIBE_SECRET_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+}
+
+/**
+ * Secret from the OS keychain, or null if it isn't stored there
+ */
+async function readKeychain(name: string, service: string): Promise<string | null> {
+  try {
+    if (process.platform === 'darwin') {
+      const { stdout } = await execFileAsync('security', ['find-generic-password', '-s', service, '-a', name, '-w'], { timeout: 10000 });
+      return stdout.replace(/\n$/, '');
+    }
+
+    if (process.platform === 'win32') {
+      const scriptPath = join(__dirname, '..', '..', '..', 'scripts', 'windows', 'read-credential.ps1');
+      const { stdout } = await execFileAsync(
+        'powershell',
+        ['-NoProfile', '-ExecutionPolicy', 'Bypass', '-File', scriptPath, '-Target', `${service}:${name}`],
+        { timeout: 10000, windowsHide: true }
+      );
+      const result = JSON.parse(stdout.trim()) as { secret?: string; error?: string } | null;
+      if (result?.error) {
+        throw new SecretError(`Credential Manager: ${result.error}`, 'KEYCHAIN_FAILED', { name });
+      }
+      return result?.secret ?? null;
+    }
+
+    // Linux: libsecret (GNOME Keyring, KWallet)
+    const { stdout } = await execFileAsync('secret-tool', ['lookup', 'service', service, 'account', name], { timeout: 10000 });
+    return stdout.replace(/\n$/, '');
+  } catch (error) {
+    if (error instanceof SecretError) throw error;
+    // Not found (security exits 44, secret-tool 1) or no keychain tool installed
+    return null;
+  }
+}
+
+/**
+ * Value of a named secret: environment variable first, then the OS keychain
+ */
+export async function resolveSecret(name: string): Promise<string> {
+  const fromEnv = process.env[secretEnvName(name)];
+  const value = fromEnv ?? (await readKeychain(name, loadConfig().redaction.keychainService));
+
+  if (value === null || value === '') {
+    const service = loadConfig().redaction.keychainService;
+    throw new SecretError(
+      `Secret "${name}" not found - set ${secretEnvName(name)} or store it in the keychain ` +
+      `(service "${service}", account "${name}")`,
+      'SECRET_NOT_FOUND',
+      { name }
+    );
+  }
+
+  registerSecret(value);
+  return value;
+}
+
+/**
+ * Replace {{secret:NAME}} placeholders with their values
+ */
+export async function resolveSecretPlaceholders(text: string): Promise<string> {
+  const names = [...new Set([...text.matchAll(SECRET_PLACEHOLDER)].map((m) => m[1] ?? ''))];
+  const values = new Map<string, string>();
+  for (const name of names) {
+    values.set(name, await resolveSecret(name));
+  }
+  return text.replace(SECRET_PLACEHOLDER, (_, name: string) => values.get(name) ?? '');
+}
+
+// ============================================================================
+// Scrubbing
+// ============================================================================
+
+type ScrubPattern = Config['redaction']['patterns'][number];
+
+const TOKEN_PATTERNS = [
+  /\beyJ[\w-]{8,}\.eyJ[\w-]{8,}\.[\w-]{8,}/g,          // JWT
+  /\b(?:sk|pk|rk)-(?:[a-z]+-)?[A-Za-z0-9_-]{20,}/g,    // OpenAI / Anthropic / Stripe style keys
+  /\bgh[pousr]_[A-Za-z0-9]{30,}\b/g,                   // GitHub
+  /\bgithub_pat_[A-Za-z0-9_]{40,}\b/g,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,                   // Slack
+  /\bAKIA[0-9A-Z]{16}\b/g,                             // AWS access key id
+  /\bAIza[0-9A-Za-z_-]{35}\b/g,                        // Google API key
+  /\bBearer\s+[A-Za-z0-9._~+/-]{16,}=*/gi,             // Authorization headers
+];
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g;
+
+// 13-19 digits, optionally grouped with spaces or dashes
+const PAN_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+
+/**
+ * Luhn checksum - tells card numbers from other long numbers (timestamps, ids)
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function scrubPattern(text: string, pattern: ScrubPattern): string {
+  switch (pattern) {
+    case 'pan':
+      return text.replace(PAN_PATTERN, (match) => {
+        const digits = match.replace(/\D/g, '');
+        return digits.length >= 13 && digits.length <= 19 && passesLuhn(digits) ? '[REDACTED:card]' : match;
+      });
+    case 'email':
+      return text.replace(EMAIL_PATTERN, '[REDACTED:email]');
+    case 'token':
+      return TOKEN_PATTERNS.reduce((result, regex) => result.replace(regex, '[REDACTED:token]'), text);
+  }
+}
+
+const warnedPatterns = new Set<string>();
+
+function customRegex(source: string): RegExp | null {
+  try {
+    return new RegExp(source, 'g');
+  } catch (error) {
+    if (!warnedPatterns.has(source)) {
+      warnedPatterns.add(source);
+      console.error(`[OScribe] Ignoring invalid redaction pattern "${source}": ${(error as Error).message}`);
+    }
+    return null;
+  }
+}
+
+function scrubWith(text: string, redaction: Config['redaction']): string {
+  let result = text;
+  // Longest first, so a secret containing another one is replaced whole
+  for (const secret of [...knownSecrets].sort((a, b) => b.length - a.length)) {
+    result = secret.length >= SHORT_SECRET_LENGTH
+      ? result.split(secret).join(REDACTED)
+      : result.replace(new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegex(secret)}(?![\\p{L}\\p{N}])`, 'gu'), REDACTED);
+  }
+  for (const pattern of redaction.patterns) {
+    result = scrubPattern(result, pattern);
+  }
+  for (const source of redaction.customPatterns) {
+    const regex = customRegex(source);
+    if (regex) result = result.replace(regex, REDACTED);
+  }
+  return result;
+}
+
+/**
+ * Text safe to write to disk: known secrets and configured patterns replaced
+ */
+export function scrubText(text: string): string {
+  return scrubWith(text, loadConfig().redaction);
+}
+
+/**
+ * Deep copy with every string scrubbed (action params, session records, UI context)
+ */
+export function scrubValue<T>(value: T): T {
+  const { redaction } = loadConfig();
+
+  const walk = (item: unknown): unknown => {
+    if (typeof item === 'string') return scrubWith(item, redaction);
+    if (Array.isArray(item)) return item.map(walk);
+    if (item && typeof item === 'object' && Object.getPrototypeOf(item) === Object.prototype) {
+      return Object.fromEntries(Object.entries(item).map(([key, v]) => [key, walk(v)]));
+    }
+    return item;
+  };
+  return walk(value) as T;
+}
+
+/**
+ * Was this text redacted when it was recorded? (it can't be replayed as is)
+ */
+export function isRedacted(text: string): boolean {
+  return text.includes(REDACTED) || /\[REDACTED:\w+\]/.test(text);
+}
@@ -0,0 +1,544 @@
+/**
+ * Replay engine - re-execute a recorded session (session.json) through the input module
+ * Turns one successful agent run into a deterministic regression script.
+ *
+ * Before each click, the active window title and the element under the target point
+ * are checked against the UI context (_ui.json) saved with the preceding screenshot.
+ * Anchored clicks (os_click_at) are re-resolved first - see anchor.ts.
+ */
+
+import { moveMouse, click, typeText, hotkey, scroll, wait, drag, mouseDown, mouseUp, keyDown, keyUp, pressKeys } from './input.js';
+import { longPress, pinch, swipe, tap, type PointerKind } from './gestures.js';
+import { focusWindow, getActiveWindow } from './windows.js';
+import { getElementAtPoint } from './uiautomation.js';
+import { resolveElement } from './selector.js';
+import { waitFor, type WaitCondition } from './wait.js';
+import { elementAtPoint, resolveClickAnchor, type AnchorStrategy, type ClickAnchor } from './anchor.js';
+import { resetKillSwitch, UserInterruptError } from './killswitch.js';
+import { MOTION_PROFILES, type MotionOptions, type MotionProfile } from './motion.js';
+import { TYPING_STRATEGIES, type TypingStrategy } from './typing.js';
+import { isRedacted } from './redaction.js';
+import {
+  loadSession,
+  loadActionContext,
+  type Session,
+  type SessionAction,
+  type UIContext,
+} from './session-recorder.js';
+
+export interface ReplayOptions {
+  /** Playback speed factor: 2 = twice as fast (default: 1) */
+  speed?: number;
+  /** Print the steps without executing them */
+  dryRun?: boolean;
+  /** Stop at the first failing step (default: true) */
+  stopOnError?: boolean;
+  /** Skip os_wait steps and pauses between actions */
+  skipWaits?: boolean;
+  /** Check window title and target element before each click (default: true) */
+  verify?: boolean;
+  /** Called after each step (progress reporting) */
+  onStep?: (step: ReplayStepResult) => void;
+}
+
+export type ReplayStepStatus = 'ok' | 'error' | 'skipped' | 'dry-run';
+
+export interface ReplayStepResult {
+  /** Index in session.actions */
+  index: number;
+  action: string;
+  status: ReplayStepStatus;
+  message: string;
+  duration_ms: number;
+  /** How the click target was resolved: live element, window offset or raw coordinates */
+  strategy?: AnchorStrategy;
+}
+
+export interface ReplayResult {
+  sessionId: string;
+  steps: ReplayStepResult[];
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  /** True if the replay stopped before the last action */
+  aborted: boolean;
+}
+
+/**
+ * Custom error for replay failures
+ * Following error-handling-patterns skill
+ */
+export class ReplayError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'SESSION_NOT_FOUND' | 'INVALID_ACTION' | 'VERIFY_FAILED',
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'ReplayError';
+    // Preserve stack trace (V8 engines)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+// Pauses longer than this were agent think time, not UI settling time
+export const MAX_PAUSE_MS = 3000;
+
+type Button = 'left' | 'right' | 'middle';
+
+function numberParam(action: SessionAction, key: string): number {
+  const value = action.params[key];
+  if (typeof value !== 'number') {
+    throw new ReplayError(`${action.action}: missing numeric param "${key}"`, 'INVALID_ACTION', { action: action.action, key });
+  }
+  return value;
+}
+
+function stringParam(action: SessionAction, key: string): string {
+  const value = action.params[key];
+  if (typeof value !== 'string') {
+    throw new ReplayError(`${action.action}: missing string param "${key}"`, 'INVALID_ACTION', { action: action.action, key });
+  }
+  return value;
+}
+
+function optionalString(action: SessionAction, key: string): string | undefined {
+  const value = action.params[key];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function buttonParam(action: SessionAction): Button {
+  const value = action.params['button'];
+  return value === 'right' || value === 'middle' ? value : 'left';
+}
+
+function pointerParam(action: SessionAction): PointerKind {
+  return action.params['pointer'] === 'pen' ? 'pen' : 'touch';
+}
+
+/**
+ * Recorded duration (ms) scaled by replay speed, if any
+ */
+function durationParam(action: SessionAction, speed: number): { duration?: number } {
+  const value = action.params['duration'];
+  return typeof value === 'number' ? { duration: value / speed } : {};
+}
+
+/**
+ * Recorded motion profile and duration (scaled by replay speed)
+ */
+function motionParam(action: SessionAction, speed: number): MotionOptions {
+  const profile = action.params['motion'];
+  const duration = action.params['motionDuration'];
+  return {
+    ...(MOTION_PROFILES.includes(profile as MotionProfile) ? { profile: profile as MotionProfile } : {}),
+    ...(typeof duration === 'number' ? { duration: duration / speed } : {}),
+  };
+}
+
+function typeOptions(action: SessionAction): { strategy?: TypingStrategy; secret?: boolean } {
+  const strategy = action.params['strategy'];
+  return {
+    ...(TYPING_STRATEGIES.includes(strategy as TypingStrategy) ? { strategy: strategy as TypingStrategy } : {}),
+    ...(action.params['secret'] === true ? { secret: true } : {}),
+  };
+}
+
+/**
+ * Text to type - redacted text was not recorded and can't be typed again
+ */
+function typedText(action: SessionAction): string {
+  const text = stringParam(action, 'text');
+  if (isRedacted(text)) {
+    throw new ReplayError(
+      `${action.action}: the typed text was redacted when recorded - use a {{secret:NAME}} placeholder to make it replayable`,
+      'INVALID_ACTION',
+      { action: action.action }
+    );
+  }
+  return text;
+}
+
+function describeElement(el: { type: string; name?: string | undefined }): string {
+  return el.name ? `${el.type} "${el.name}"` : el.type;
+}
+
+/**
+ * Check the live screen against the recorded context before a click
+ * Throws ReplayError (VERIFY_FAILED) on mismatch
+ * @param recorded - Point clicked in the recorded session
+ * @param target - Point about to be clicked (differs when re-anchored to the window)
+ * @param checkElement - Compare the element under the point (skipped when the element itself was re-resolved)
+ */
+async function verifyClickTarget(
+  context: UIContext,
+  recordedPoint: { x: number; y: number },
+  target: { x: number; y: number },
+  checkElement: boolean
+): Promise<void> {
+  const active = await getActiveWindow();
+  const expected = context.window.toLowerCase();
+  const actual = active?.title.toLowerCase() ?? '';
+  if (expected && actual && !actual.includes(expected) && !expected.includes(actual)) {
+    throw new ReplayError(
+      `Window mismatch: expected "${context.window}", active window is "${active?.title ?? ''}"`,
+      'VERIFY_FAILED',
+      { expected: context.window, actual: active?.title }
+    );
+  }
+
+  const recorded = checkElement ? elementAtPoint(context.elements, recordedPoint.x, recordedPoint.y) : null;
+  if (!recorded) {
+    return;
+  }
+
+  let live: Awaited<ReturnType<typeof getElementAtPoint>> = null;
+  try {
+    live = await getElementAtPoint(target.x, target.y);
+  } catch {
+    // Element lookup not supported on this platform - window check only
+    return;
+  }
+  if (!live) {
+    return;
+  }
+
+  const sameType = live.type.toLowerCase() === recorded.type.toLowerCase();
+  const sameName = !recorded.name || (live.name ?? '') === recorded.name;
+  if (!sameType || !sameName) {
+    throw new ReplayError(
+      `Element mismatch at (${target.x}, ${target.y}): expected ${describeElement(recorded)}, found ${describeElement(live)}`,
+      'VERIFY_FAILED',
+      { expected: recorded, actual: { type: live.type, name: live.name } }
+    );
+  }
+}
+
+/**
+ * Human-readable description of a recorded action
+ */
+export function describeAction(action: SessionAction): string {
+  const p = action.params;
+  const at = typeof p['x'] === 'number' && typeof p['y'] === 'number' ? ` at (${p['x']}, ${p['y']})` : '';
+  switch (action.action) {
+    case 'os_move':
+      return `Move mouse${at}`;
+    case 'os_click':
+    case 'os_click_at':
+      return `Click ${buttonParam(action)}${at}${optionalString(action, 'window') ? ` in "${optionalString(action, 'window')}"` : ''}`;
+    case 'os_click_element':
+      return `Click element ${String(p['selector'])}`;
+    case 'os_type':
+      return `Type "${String(p['text'])}"`;
+    case 'os_type_into':
+      return `Type "${String(p['text'])}" into ${String(p['selector'])}`;
+    case 'os_hotkey':
+      return `Press ${String(p['keys'])}`;
+    case 'os_key_sequence':
+      return `Press ${String(p['sequence'])}`;
+    case 'os_key_down':
+      return `Hold ${String(p['key'])}`;
+    case 'os_key_up':
+      return `Release ${p['key'] ? String(p['key']) : 'held keys'}`;
+    case 'os_scroll':
+      return `Scroll ${String(p['direction'])} by ${String(p['amount'])}`;
+    case 'os_wait':
+      return `Wait ${String(p['ms'])}ms`;
+    case 'os_wait_for':
+      return `Wait for ${String(p['kind'])}`;
+    case 'os_drag':
+      return `Drag from (${String(p['fromX'])}, ${String(p['fromY'])}) to (${String(p['toX'])}, ${String(p['toY'])})`;
+    case 'os_mouse_down':
+      return `Mouse ${buttonParam(action)} down${at}`;
+    case 'os_mouse_up':
+      return `Mouse ${buttonParam(action)} up${at}`;
+    case 'os_focus':
+      return `Focus "${String(p['window'])}"`;
+    case 'os_tap':
+      return `Tap${at}`;
+    case 'os_long_press':
+      return `Long press${at}`;
+    case 'os_swipe':
+      return `Swipe from (${String(p['fromX'])}, ${String(p['fromY'])}) to (${String(p['toX'])}, ${String(p['toY'])})`;
+    case 'os_pinch':
+      return `Pinch${at} from ${String(p['startDistance'])}px to ${String(p['endDistance'])}px`;
+    default:
+      return action.action;
+  }
+}
+
+const REPLAYABLE_ACTIONS = new Set([
+  'os_move', 'os_click', 'os_click_at', 'os_click_element', 'os_type', 'os_type_into', 'os_hotkey',
+  'os_key_sequence', 'os_key_down', 'os_key_up',
+  'os_scroll', 'os_wait', 'os_wait_for', 'os_drag', 'os_mouse_down', 'os_mouse_up', 'os_focus',
+  'os_tap', 'os_long_press', 'os_swipe', 'os_pinch',
+]);
+
+interface ExecutedAction {
+  message: string;
+  /** How the click target was resolved (anchored clicks only) */
+  strategy?: AnchorStrategy;
+}
+
+/**
+ * Execute one recorded action
+ * @param context - UI context captured before this action (for click verification)
+ */
+async function executeAction(
+  action: SessionAction,
+  context: UIContext | null,
+  options: Required<Pick<ReplayOptions, 'speed' | 'skipWaits' | 'verify'>>
+): Promise<ExecutedAction> {
+  const description = describeAction(action);
+
+  switch (action.action) {
+    case 'os_move':
+      await moveMouse(numberParam(action, 'x'), numberParam(action, 'y'), { motion: motionParam(action, options.speed) });
+      break;
+
+    case 'os_click':
+    case 'os_click_at': {
+      const recorded = { x: numberParam(action, 'x'), y: numberParam(action, 'y') };
+      const windowName = optionalString(action, 'window');
+      if (windowName) {
+        await focusWindow(windowName);
+      }
+      // Re-resolve the element under the recorded click (falls back to window offset, then raw coordinates)
+      const anchor = action.params['anchor'] as ClickAnchor | undefined;
+      const target = await resolveClickAnchor(anchor, recorded.x, recorded.y);
+      if (options.verify && context) {
+        await verifyClickTarget(context, recorded, target, target.strategy !== 'element');
+      }
+      await click(target.x, target.y, { button: buttonParam(action), motion: motionParam(action, options.speed) });
+      const moved = target.x !== recorded.x || target.y !== recorded.y;
+      return {
+        message: `${description}${moved ? ` → (${target.x}, ${target.y})` : ''} [${target.strategy}]`,
+        strategy: target.strategy,
+      };
+    }
+
+    case 'os_click_element': {
+      const element = await resolveElement(stringParam(action, 'selector'));
+      const double = action.params['double'] === true;
+      await click(element.x + Math.floor(element.width / 2), element.y + Math.floor(element.height / 2), { button: buttonParam(action), double });
+      break;
+    }
+
+    case 'os_type':
+      await typeText(typedText(action), typeOptions(action));
+      break;
+
+    case 'os_type_into': {
+      const element = await resolveElement(stringParam(action, 'selector'));
+      await click(element.x + Math.floor(element.width / 2), element.y + Math.floor(element.height / 2));
+      if (action.params['clear'] === true) {
+        await hotkey(['primary', 'a']);
+      }
+      await typeText(typedText(action), typeOptions(action));
+      break;
+    }
+
+    case 'os_hotkey':
+      await hotkey(stringParam(action, 'keys').split('+').map((k) => k.trim()));
+      break;
+
+    case 'os_key_sequence':
+      await pressKeys(stringParam(action, 'sequence'), {
+        ...(typeof action.params['delay'] === 'number' ? { delay: action.params['delay'] / options.speed } : {}),
+      });
+      break;
+
+    case 'os_key_down':
+      await keyDown(stringParam(action, 'key'));
+      break;
+
+    case 'os_key_up':
+      await keyUp(optionalString(action, 'key'));
+      break;
+
+    case 'os_scroll': {
+      const direction = stringParam(action, 'direction') as 'up' | 'down' | 'left' | 'right';
+      await scroll(direction, numberParam(action, 'amount'));
+      break;
+    }
+
+    case 'os_wait':
+      if (options.skipWaits) {
+        return { message: `${description} (skipped)` };
+      }
+      await wait(numberParam(action, 'ms') / options.speed);
+      break;
+
+    case 'os_wait_for': {
+      const { timeout, interval, ...condition } = action.params;
+      const result = await waitFor(condition as unknown as WaitCondition, {
+        ...(typeof timeout === 'number' ? { timeoutMs: timeout } : {}),
+        ...(typeof interval === 'number' ? { intervalMs: interval } : {}),
+      });
+      return { message: `${result.matched} (after ${result.elapsedMs}ms)` };
+    }
+
+    case 'os_drag':
+      await drag(
+        numberParam(action, 'fromX'),
+        numberParam(action, 'fromY'),
+        numberParam(action, 'toX'),
+        numberParam(action, 'toY'),
+        {
+          button: buttonParam(action),
+          motion: motionParam(action, options.speed),
+          ...(typeof action.params['duration'] === 'number' ? { duration: action.params['duration'] / options.speed } : {}),
+        }
+      );
+      break;
+
+    case 'os_mouse_down':
+      await moveMouse(numberParam(action, 'x'), numberParam(action, 'y'));
+      await mouseDown(buttonParam(action));
+      break;
+
+    case 'os_mouse_up':
+      await moveMouse(numberParam(action, 'x'), numberParam(action, 'y'));
+      await mouseUp(buttonParam(action));
+      break;
+
+    case 'os_tap':
+      await tap(numberParam(action, 'x'), numberParam(action, 'y'), { pointer: pointerParam(action) });
+      break;
+
+    case 'os_long_press':
+      // Hold time is part of the gesture - not scaled by speed
+      await longPress(numberParam(action, 'x'), numberParam(action, 'y'), {
+        pointer: pointerParam(action),
+        ...(typeof action.params['duration'] === 'number' ? { duration: action.params['duration'] } : {}),
+      });
+      break;
+
+    case 'os_swipe':
+      await swipe(
+        numberParam(action, 'fromX'),
+        numberParam(action, 'fromY'),
+        numberParam(action, 'toX'),
+        numberParam(action, 'toY'),
+        { pointer: pointerParam(action), ...durationParam(action, options.speed) }
+      );
+      break;
+
+    case 'os_pinch':
+      await pinch(numberParam(action, 'x'), numberParam(action, 'y'), {
+        startDistance: numberParam(action, 'startDistance'),
+        endDistance: numberParam(action, 'endDistance'),
+        ...durationParam(action, options.speed),
+        ...(typeof action.params['angle'] === 'number' ? { angle: action.params['angle'] } : {}),
+      });
+      break;
+
+    case 'os_focus': {
+      const windowName = stringParam(action, 'window');
+      if (!(await focusWindow(windowName))) {
+        throw new Error(`Could not focus: ${windowName}`);
+      }
+      break;
+    }
+  }
+
+  return { message: description };
+}
+
+/**
+ * Replay a recorded session
+ * @param session - Session ID (from ~/.oscribe/sessions) or a loaded Session
+ */
+export async function replaySession(session: string | Session, options: ReplayOptions = {}): Promise<ReplayResult> {
+  const {
+    speed = 1,
+    dryRun = false,
+    stopOnError = true,
+    skipWaits = false,
+    verify = true,
+    onStep,
+  } = options;
+
+  const loaded = typeof session === 'string' ? loadSession(session) : session;
+  if (!loaded) {
+    throw new ReplayError(`Session not found: ${String(session)}`, 'SESSION_NOT_FOUND', { sessionId: session });
+  }
+
+  if (!(speed > 0)) {
+    throw new RangeError(`Invalid speed factor: ${speed}`);
+  }
+
+  // Start with a clean kill switch - the user is expected to keep hands off from here
+  resetKillSwitch();
+
+  const steps: ReplayStepResult[] = [];
+  let aborted = false;
+  let interrupted = false;
+  // Most recent UI context: screenshots are attached to the action that preceded them
+  let context: UIContext | null = null;
+
+  for (const [index, action] of loaded.actions.entries()) {
+    const start = Date.now();
+    let step: ReplayStepResult;
+
+    if (action.result === 'error') {
+      step = { index, action: action.action, status: 'skipped', message: 'Failed in the recorded session', duration_ms: 0 };
+    } else if (!REPLAYABLE_ACTIONS.has(action.action)) {
+      step = { index, action: action.action, status: 'skipped', message: 'Not replayable', duration_ms: 0 };
+    } else if (dryRun) {
+      step = { index, action: action.action, status: 'dry-run', message: describeAction(action), duration_ms: 0 };
+    } else {
+      // Reproduce the pause before this action (capped, scaled by speed)
+      const previous = index > 0 ? loaded.actions[index - 1] : undefined;
+      if (previous && !skipWaits) {
+        const gap = Date.parse(action.timestamp) - Date.parse(previous.timestamp) - previous.duration_ms;
+        if (gap > 0) {
+          await wait(Math.min(gap, MAX_PAUSE_MS) / speed);
+        }
+      }
+
+      try {
+        const { message, strategy } = await executeAction(action, context, { speed, skipWaits, verify });
+        step = {
+          index,
+          action: action.action,
+          status: 'ok',
+          message,
+          duration_ms: Date.now() - start,
+          ...(strategy ? { strategy } : {}),
+        };
+      } catch (error) {
+        // Kill switch always ends the replay, whatever stopOnError says
+        interrupted = error instanceof UserInterruptError;
+        step = {
+          index,
+          action: action.action,
+          status: 'error',
+          message: error instanceof Error ? error.message : String(error),
+          duration_ms: Date.now() - start,
+        };
+      }
+    }
+
+    steps.push(step);
+    onStep?.(step);
+
+    context = loadActionContext(loaded.id, action) ?? context;
+
+    if (step.status === 'error' && (stopOnError || interrupted)) {
+      aborted = index < loaded.actions.length - 1;
+      break;
+    }
+  }
+
+  return {
+    sessionId: loaded.id,
+    steps,
+    succeeded: steps.filter((s) => s.status === 'ok').length,
+    failed: steps.filter((s) => s.status === 'error').length,
+    skipped: steps.filter((s) => s.status === 'skipped').length,
+    aborted,
+  };
+}
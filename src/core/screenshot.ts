@@ -1,16 +1,20 @@
 /**
  * Screenshot capture module
  * Cross-platform: PowerShell (Windows), screencapture (macOS), screenshot-desktop (Linux)
+ * Linux Wayland sessions use grim or the xdg-desktop-portal (see wayland.ts)
  */
 
-import { exec } from 'node:child_process';
+import { exec, execFile } from 'node:child_process';
 import { promisify } from 'node:util';
 import { readFile, unlink, mkdtemp, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { loadConfig } from '../config/index.js';
+import type { Region } from './png.js';
+import { detectLinuxDisplayBackend, captureWayland, listWaylandOutputDetails, listWaylandOutputs } from './wayland.js';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 export interface ScreenshotOptions {
   screen?: number;
@@ -28,6 +32,8 @@ export interface ScreenshotResult {
   base64: string;
   width?: number;
   height?: number;
+  /** Screen captured by captureScreen() */
+  screen?: number;
 }
 
 interface Display {
@@ -68,6 +74,7 @@ export async function captureScreen(options: ScreenshotOptions = {}): Promise<Sc
       base64: buffer.toString('base64'),
       width,
       height,
+      screen,
     };
   } finally {
     // Cleanup temp file
@@ -202,6 +209,13 @@ async function captureMacOS(outputPath: string, screen: number): Promise<void> {
  * Linux: Use screenshot-desktop as fallback
  */
 async function captureLinux(outputPath: string, screen: number): Promise<void> {
+  // X11 capture tools return black or fail under Wayland
+  const display = detectLinuxDisplayBackend();
+  if (display.screenshot) {
+    await captureWayland(outputPath, screen, display);
+    return;
+  }
+
   // Try import (gnome-screenshot) first, then scrot, then screenshot-desktop
   try {
     await execAsync(`import -window root "${outputPath}"`);
@@ -481,6 +495,14 @@ async function listScreensMacOS(): Promise<Display[]> {
 }
 
 async function listScreensLinux(): Promise<Display[]> {
+  const { windows } = detectLinuxDisplayBackend();
+  if (windows === 'sway' || windows === 'hyprland') {
+    const outputs = await listWaylandOutputs(windows).catch(() => []);
+    if (outputs.length > 0) {
+      return outputs.map((name, i) => ({ id: String(i), name }));
+    }
+  }
+
   try {
     const { stdout } = await execAsync('xrandr --listmonitors');
     const lines = stdout.split('\n').slice(1).filter(Boolean);
@@ -496,3 +518,61 @@ async function listScreensLinux(): Promise<Display[]> {
     return [{ id: '0', name: 'Primary Display' }];
   }
 }
+
+/**
+ * Area of the desktop a captureScreen() image shows, in the coordinates of windows and
+ * UI elements - null when image pixels are those coordinates (X11 root captures)
+ * The image can be larger (Retina, scaled Wayland outputs) and start at another origin (screen > 0).
+ */
+export async function getCaptureArea(screen = 0): Promise<Region | null> {
+  if (platform === 'win32') {
+    // Same screen choice as captureWindows()
+    const psScript = `
+Add-Type -AssemblyName System.Windows.Forms;
+$screen = [System.Windows.Forms.Screen]::PrimaryScreen
+$allScreens = [System.Windows.Forms.Screen]::AllScreens
+if ($allScreens.Length -gt ${screen}) { $screen = $allScreens[${screen}] }
+$b = $screen.Bounds
+Write-Output "$($b.X);$($b.Y);$($b.Width);$($b.Height)"
+`;
+    const encoded = Buffer.from(psScript, 'utf16le').toString('base64');
+    const { stdout } = await execAsync(`powershell -NoProfile -EncodedCommand ${encoded}`, { windowsHide: true });
+    const [x = 0, y = 0, width = 0, height = 0] = stdout.trim().split(';').map(Number);
+    return { x, y, width, height };
+  }
+
+  if (platform === 'darwin') {
+    // NSScreen frames are in points with a bottom-left origin; windows use top-left of the main screen
+    // screencapture -D numbers displays like NSScreen.screens (1 = main)
+    const script = `ObjC.import('AppKit');
+const screens = $.NSScreen.screens;
+const main = screens.objectAtIndex(0).frame;
+const f = screens.objectAtIndex(Math.min(${screen}, screens.count - 1)).frame;
+JSON.stringify({ x: f.origin.x, y: main.size.height - f.origin.y - f.size.height, width: f.size.width, height: f.size.height });`;
+    const { stdout } = await execFileAsync('osascript', ['-l', 'JavaScript', '-e', script]);
+    return JSON.parse(stdout.trim()) as Region;
+  }
+
+  const display = detectLinuxDisplayBackend();
+  if (!display.screenshot) {
+    // import/scrot capture the whole X root window
+    return null;
+  }
+  const outputs = await listWaylandOutputDetails(display.windows);
+  if (outputs.length === 0) {
+    return null;
+  }
+  // grim -o captures one output; grim alone and the portal the whole layout
+  const output = display.screenshot === 'grim' && screen > 0 ? outputs[screen] : undefined;
+  if (output) {
+    return { x: output.x, y: output.y, width: output.width, height: output.height };
+  }
+  const x = Math.min(...outputs.map((o) => o.x));
+  const y = Math.min(...outputs.map((o) => o.y));
+  return {
+    x,
+    y,
+    width: Math.max(...outputs.map((o) => o.x + o.width)) - x,
+    height: Math.max(...outputs.map((o) => o.y + o.height)) - y,
+  };
+}
@@ -1,10 +1,14 @@
 /**
  * Security module - Restricted mode
- * Blocks actions on sensitive apps and dangerous hotkeys
+ * Blocks actions on sensitive apps and dangerous hotkeys, as decided by the policy engine,
+ * and asks a human before the ones it marks "confirm" (see confirmation.ts)
  */
 
 import { loadConfig } from '../config/index.js';
-import { getActiveWindow } from './windows.js';
+import { createConfirmationRequest, requestConfirmation } from './confirmation.js';
+import { resetKillSwitch } from './killswitch.js';
+import { buildPolicyRequest, evaluatePolicy, loadPolicy, type PolicyRequest } from './policy.js';
+import { focusWindow, getActiveWindow, getActiveWindowDetails, type WindowDetails } from './windows.js';
 
 /**
  * Custom error for restricted actions
@@ -26,16 +30,36 @@ export class RestrictedActionError extends Error {
 }
 
 /**
- * Normalize hotkey for comparison
- * "Ctrl+Alt+Delete" -> "alt+ctrl+delete" (sorted, lowercase)
+ * What the action is, for error messages
  */
-function normalizeHotkey(keys: string[]): string {
-  return keys.map(k => k.toLowerCase()).sort().join('+');
+function describeRequest(request: PolicyRequest): string {
+  const element = request.element ? ` on "${request.element}"` : '';
+  const target = request.window?.title ? `${element ? ' in' : ' on'} "${request.window.title}"` : '';
+  return request.keys
+    ? `Hotkey "${request.keys.join('+')}"${target}`
+    : `Action "${request.action}"${element}${target}`;
 }
 
 /**
- * Check if action is allowed based on restricted mode config
- * Throws RestrictedActionError if blocked
+ * Give focus back to the target window if answering the confirmation moved it
+ * (terminal running `oscribe approve`, desktop dialog, MCP client window)
+ */
+async function restoreFocus(target: WindowDetails | null): Promise<void> {
+  if (!target?.title) return;
+  try {
+    const active = await getActiveWindow();
+    if (active?.id === target.id) return;
+    if (!(await focusWindow(target.title))) {
+      console.error(`[OScribe] Could not refocus "${target.title}" after confirmation`);
+    }
+  } catch (error) {
+    console.error('[OScribe] Could not refocus after confirmation:', error);
+  }
+}
+
+/**
+ * Check if action is allowed by the security policy (see policy.ts)
+ * Throws RestrictedActionError if denied, or if it needs a confirmation that isn't given
  */
 export async function checkRestrictions(
   action: string,
@@ -49,59 +73,50 @@ export async function checkRestrictions(
     return;
   }
 
-  // Check blocked hotkeys
-  if (action === 'hotkey' && Array.isArray(params['keys'])) {
-    const inputKeys = params['keys'] as string[];
-    const normalized = normalizeHotkey(inputKeys);
+  const { policy, source } = loadPolicy(restrictedMode);
+  const request = await buildPolicyRequest(policy, action, params);
+  const decision = evaluatePolicy(policy, request);
+  const details = {
+    action,
+    window: request.window?.title,
+    process: request.window?.processName,
+    rule: decision.rule?.id,
+    policy: source,
+  };
+  const reason = decision.rule
+    ? `rule "${decision.rule.id}"${decision.rule.description ? ` (${decision.rule.description})` : ''}`
+    : `default "${decision.effect}" of ${source}`;
 
-    const blocked = restrictedMode.blockedHotkeys.find(
-      h => normalizeHotkey(h.split('+')) === normalized
-    );
-
-    if (blocked) {
-      throw new RestrictedActionError(
-        `Hotkey "${inputKeys.join('+')}" is blocked by security policy`,
-        'BLOCKED_HOTKEY',
-        { hotkey: inputKeys, pattern: blocked }
-      );
-    }
+  if (decision.effect === 'deny') {
+    throw new RestrictedActionError(`${describeRequest(request)} is blocked by security policy: ${reason}`, 'POLICY_DENIED', details);
   }
 
-  // Check blocked apps for UI-interacting actions
-  if (['click', 'type', 'hotkey', 'scroll'].includes(action)) {
-    const activeWindow = await getActiveWindow();
-
-    if (activeWindow) {
-      const title = activeWindow.title.toLowerCase();
-
-      // Whitelist mode: if allowedApps is non-empty, only those are allowed
-      if (restrictedMode.allowedApps.length > 0) {
-        const allowed = restrictedMode.allowedApps.some(
-          app => title.includes(app.toLowerCase())
-        );
+  if (decision.effect === 'confirm') {
+    // The window the action targets, even if no rule needed it, to show and to refocus
+    const target = request.window ?? (await getActiveWindowDetails().catch(() => null));
+    const summary = describeRequest({ ...request, window: target });
+    const result = await requestConfirmation(createConfirmationRequest({
+      action,
+      summary,
+      ...(decision.rule ? { rule: decision.rule.id } : {}),
+      reason,
+      ...(target?.title ? { window: target.title } : {}),
+      ...(target?.processName ? { process: target.processName } : {}),
+      ...(request.element ? { element: request.element } : {}),
+      params,
+    }));
 
-        if (!allowed) {
-          throw new RestrictedActionError(
-            `App "${activeWindow.title}" is not in allowed list`,
-            'APP_NOT_ALLOWED',
-            { window: activeWindow.title, allowedApps: restrictedMode.allowedApps }
-          );
-        }
-        return;
-      }
-
-      // Blacklist mode: check if app matches any blocked pattern
-      const blocked = restrictedMode.blockedApps.find(
-        app => title.includes(app.toLowerCase())
+    if (!result.approved) {
+      throw new RestrictedActionError(
+        `${summary} was not confirmed (${result.reason ?? `denied via ${result.channel}`}) - required by ${reason}`,
+        'CONFIRMATION_DENIED',
+        { ...details, channel: result.channel }
       );
-
-      if (blocked) {
-        throw new RestrictedActionError(
-          `Actions blocked on "${activeWindow.title}" (matches: "${blocked}")`,
-          'BLOCKED_APP',
-          { window: activeWindow.title, pattern: blocked }
-        );
-      }
     }
+
+    console.error(`[OScribe] ${summary} confirmed via ${result.channel}`);
+    // The human used mouse and keyboard to answer - not an interruption of the automation
+    resetKillSwitch();
+    await restoreFocus(target);
   }
 }
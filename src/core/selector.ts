@@ -0,0 +1,270 @@
+/**
+ * Element selectors - find a UI element by attributes instead of raw coordinates
+ * Resolved against a fresh getUIElements() tree at action time
+ *
+ * Grammar:
+ *   selector   := [ 'window=' string '>>' ] [ Type ] { '[' attr op value ']' } [ ':nth(' n ')' ]
+ *   attr       := 'name' | 'automationId' | 'value'
+ *   op         := '='  exact match
+ *               | '*=' substring (case-insensitive)
+ *               | '~=' regex, value written as /pattern/flags
+ *   string     := "double quoted" (backslash escapes)
+ *
+ * Examples:
+ *   Button[name="Save"]
+ *   Edit[automationId="txtUser"]
+ *   window="Notepad" >> MenuItem[name*="file"]
+ *   ListItem[name~=/^Item \d+$/]:nth(2)
+ */
+
+import { getUIElements, type UIElement } from './uiautomation.js';
+
+export type TextMatcher =
+  | { exact: string }
+  | { contains: string }
+  | { regex: RegExp };
+
+export interface ElementSelector {
+  /** Window to search in (title substring, as for getUIElements) */
+  window?: string;
+  /** Element type, e.g. Button, Edit, MenuItem (case-insensitive) */
+  type?: string;
+  name?: TextMatcher;
+  automationId?: TextMatcher;
+  value?: TextMatcher;
+  /** 0-based index among matches - required when several elements match */
+  index?: number;
+}
+
+type SelectorAttribute = 'name' | 'automationId' | 'value';
+
+/**
+ * Custom error for selector parsing and resolution failures
+ * Following error-handling-patterns skill
+ */
+export class SelectorError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'INVALID_SELECTOR' | 'NO_MATCH' | 'AMBIGUOUS',
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'SelectorError';
+    // Preserve stack trace (V8 engines)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+/**
+ * Parse a selector string into an ElementSelector
+ * Throws SelectorError (INVALID_SELECTOR) on syntax errors
+ */
+export function parseSelector(input: string): ElementSelector {
+  const source = input.trim();
+  let pos = 0;
+  const selector: ElementSelector = {};
+
+  const fail = (message: string): never => {
+    throw new SelectorError(`Invalid selector "${input}" at position ${pos}: ${message}`, 'INVALID_SELECTOR', { selector: input, position: pos });
+  };
+  const skipSpaces = (): void => {
+    while (pos < source.length && /\s/.test(source[pos] ?? '')) pos++;
+  };
+  const readQuoted = (): string => {
+    if (source[pos] !== '"') fail('expected "');
+    pos++;
+    let out = '';
+    while (pos < source.length && source[pos] !== '"') {
+      if (source[pos] === '\\' && pos + 1 < source.length) {
+        pos++;
+      }
+      out += source[pos];
+      pos++;
+    }
+    if (source[pos] !== '"') fail('unterminated string');
+    pos++;
+    return out;
+  };
+  const readRegex = (): RegExp => {
+    if (source[pos] !== '/') fail('expected /pattern/');
+    pos++;
+    let pattern = '';
+    while (pos < source.length && source[pos] !== '/') {
+      if (source[pos] === '\\' && pos + 1 < source.length) {
+        pattern += source[pos];
+        pos++;
+      }
+      pattern += source[pos];
+      pos++;
+    }
+    if (source[pos] !== '/') fail('unterminated regex');
+    pos++;
+    const flags = source.slice(pos).match(/^[gimsuy]*/)?.[0] ?? '';
+    pos += flags.length;
+    try {
+      return new RegExp(pattern, flags);
+    } catch (error) {
+      return fail(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // Optional window scope: window="Title" >>
+  skipSpaces();
+  if (source.startsWith('window=', pos)) {
+    pos += 'window='.length;
+    selector.window = readQuoted();
+    skipSpaces();
+    if (!source.startsWith('>>', pos)) fail('expected >> after window');
+    pos += 2;
+    skipSpaces();
+  }
+
+  // Optional element type
+  const typeMatch = source.slice(pos).match(/^[A-Za-z][\w]*/);
+  if (typeMatch) {
+    selector.type = typeMatch[0];
+    pos += typeMatch[0].length;
+  }
+
+  // Attribute filters
+  while (source[pos] === '[') {
+    pos++;
+    skipSpaces();
+    const attrMatch = source.slice(pos).match(/^(name|automationId|value)/);
+    if (!attrMatch) fail('expected name, automationId or value');
+    const attr = attrMatch![1] as SelectorAttribute;
+    pos += attr.length;
+    skipSpaces();
+
+    let matcher: TextMatcher;
+    if (source.startsWith('*=', pos)) {
+      pos += 2;
+      skipSpaces();
+      matcher = { contains: readQuoted() };
+    } else if (source.startsWith('~=', pos)) {
+      pos += 2;
+      skipSpaces();
+      matcher = { regex: readRegex() };
+    } else if (source[pos] === '=') {
+      pos++;
+      skipSpaces();
+      matcher = { exact: readQuoted() };
+    } else {
+      matcher = fail('expected =, *= or ~=');
+    }
+
+    if (selector[attr]) fail(`duplicate ${attr} filter`);
+    selector[attr] = matcher;
+    skipSpaces();
+    if (source[pos] !== ']') fail('expected ]');
+    pos++;
+  }
+
+  // Optional index
+  const nthMatch = source.slice(pos).match(/^:nth\((\d+)\)/);
+  if (nthMatch?.[1]) {
+    selector.index = parseInt(nthMatch[1], 10);
+    pos += nthMatch[0].length;
+  }
+
+  skipSpaces();
+  if (pos < source.length) fail(`unexpected "${source.slice(pos)}"`);
+  if (!selector.type && !selector.name && !selector.automationId && !selector.value) {
+    fail('selector must specify a type or at least one attribute');
+  }
+
+  return selector;
+}
+
+function matchText(matcher: TextMatcher, text: string | undefined): boolean {
+  const value = text ?? '';
+  if ('exact' in matcher) return value.trim() === matcher.exact;
+  if ('contains' in matcher) return value.toLowerCase().includes(matcher.contains.toLowerCase());
+  matcher.regex.lastIndex = 0;
+  return matcher.regex.test(value);
+}
+
+/**
+ * Check if an element matches a selector (ignores window and index)
+ */
+export function matchesSelector(element: UIElement, selector: ElementSelector): boolean {
+  if (selector.type && element.type.toLowerCase() !== selector.type.toLowerCase()) return false;
+  if (selector.name && !matchText(selector.name, element.name)) return false;
+  if (selector.automationId && !matchText(selector.automationId, element.automationId)) return false;
+  if (selector.value && !matchText(selector.value, element.value)) return false;
+  return true;
+}
+
+/**
+ * Format a selector back to its string form (for logs and error messages)
+ */
+export function formatSelector(selector: ElementSelector): string {
+  const formatMatcher = (attr: string, m: TextMatcher): string => {
+    if ('exact' in m) return `[${attr}=${JSON.stringify(m.exact)}]`;
+    if ('contains' in m) return `[${attr}*=${JSON.stringify(m.contains)}]`;
+    return `[${attr}~=${m.regex.toString()}]`;
+  };
+
+  let out = selector.window !== undefined ? `window=${JSON.stringify(selector.window)} >> ` : '';
+  out += selector.type ?? '';
+  if (selector.name) out += formatMatcher('name', selector.name);
+  if (selector.automationId) out += formatMatcher('automationId', selector.automationId);
+  if (selector.value) out += formatMatcher('value', selector.value);
+  if (selector.index !== undefined) out += `:nth(${selector.index})`;
+  return out;
+}
+
+function describeElement(el: UIElement): string {
+  const cx = el.x + Math.floor(el.width / 2);
+  const cy = el.y + Math.floor(el.height / 2);
+  return `${el.type} "${el.name}" center=(${cx},${cy})${el.automationId ? ` id="${el.automationId}"` : ''}`;
+}
+
+/**
+ * Find all elements matching a selector in the live UI tree
+ */
+export async function findElements(selector: ElementSelector | string): Promise<UIElement[]> {
+  const parsed = typeof selector === 'string' ? parseSelector(selector) : selector;
+  const tree = await getUIElements(parsed.window);
+  return tree.elements.filter((el) => matchesSelector(el, parsed));
+}
+
+/**
+ * Resolve a selector to exactly one element in the live UI tree
+ * Throws SelectorError: NO_MATCH if nothing matches, AMBIGUOUS if several match without an index
+ */
+export async function resolveElement(selector: ElementSelector | string): Promise<UIElement> {
+  const parsed = typeof selector === 'string' ? parseSelector(selector) : selector;
+  const text = formatSelector(parsed);
+  const matches = await findElements(parsed);
+
+  if (parsed.index !== undefined) {
+    const element = matches[parsed.index];
+    if (!element) {
+      throw new SelectorError(
+        `No element at index ${parsed.index} for ${text} (${matches.length} match${matches.length === 1 ? '' : 'es'})`,
+        'NO_MATCH',
+        { selector: text, matches: matches.length }
+      );
+    }
+    return element;
+  }
+
+  if (matches.length === 0) {
+    throw new SelectorError(`No element matches ${text}`, 'NO_MATCH', { selector: text });
+  }
+
+  if (matches.length > 1) {
+    const candidates = matches.slice(0, 5).map((el, i) => `  :nth(${i}) ${describeElement(el)}`).join('\n');
+    const more = matches.length > 5 ? `\n  ... and ${matches.length - 5} more` : '';
+    throw new SelectorError(
+      `${matches.length} elements match ${text} - refine the selector or add :nth(n):\n${candidates}${more}`,
+      'AMBIGUOUS',
+      { selector: text, matches: matches.length }
+    );
+  }
+
+  return matches[0]!;
+}
@@ -0,0 +1,322 @@
+/**
+ * Session export - turn a recorded session into a standalone automation script
+ *
+ * - ts:   runnable TypeScript using the public `oscribe` library API
+ * - json: declarative step list (action, params, delay, comment)
+ * - yaml: same step list as YAML
+ *
+ * Pauses are derived from action timestamps, comments from the screenshot UI contexts.
+ */
+
+import { describeAction, MAX_PAUSE_MS } from './replay.js';
+import { isRedacted } from './redaction.js';
+import { elementAtPoint, type ClickAnchor } from './anchor.js';
+import { loadActionContext, type Session, type SessionAction, type UIContext } from './session-recorder.js';
+
+export type ExportFormat = 'ts' | 'json' | 'yaml';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['ts', 'json', 'yaml'];
+
+export interface ExportedStep {
+  action: string;
+  params: Record<string, unknown>;
+  /** Pause before this step (ms) */
+  delayMs?: number;
+  /** What the step does, from the recorded UI context */
+  comment: string;
+}
+
+export interface ExportedScript {
+  session: string;
+  request: string;
+  recorded: string;
+  steps: ExportedStep[];
+}
+
+const EXPORTABLE_ACTIONS = new Set([
+  'os_move', 'os_click', 'os_click_at', 'os_click_element', 'os_type', 'os_type_into', 'os_hotkey',
+  'os_key_sequence', 'os_key_down', 'os_key_up',
+  'os_scroll', 'os_wait', 'os_wait_for', 'os_drag', 'os_mouse_down', 'os_mouse_up', 'os_focus',
+  'os_tap', 'os_long_press', 'os_swipe', 'os_pinch',
+]);
+
+// Pauses shorter than this are input latency, not worth a wait() call
+const MIN_DELAY_MS = 100;
+
+/**
+ * Comment for a step: the element under a click (from its anchor or the last screenshot context)
+ */
+function stepComment(action: SessionAction, context: UIContext | null): string {
+  const description = describeAction(action);
+  const x = action.params['x'];
+  const y = action.params['y'];
+  if ((action.action !== 'os_click' && action.action !== 'os_click_at') || typeof x !== 'number' || typeof y !== 'number') {
+    return description;
+  }
+
+  const anchor = action.params['anchor'] as ClickAnchor | undefined;
+  const element = anchor?.element ?? (context ? elementAtPoint(context.elements, x, y) : null);
+  const windowName = anchor?.window ?? context?.window;
+  const target = element ? `${element.type}${element.name ? ` "${element.name}"` : ''}` : null;
+
+  return `${description}${target ? ` on ${target}` : ''}${windowName ? ` (window: ${windowName})` : ''}`;
+}
+
+/**
+ * Build the exportable step list: successful, replayable actions with their pauses
+ */
+export function buildExportedScript(session: Session): ExportedScript {
+  const steps: ExportedStep[] = [];
+  let context: UIContext | null = null;
+  let previous: SessionAction | undefined;
+
+  for (const action of session.actions) {
+    if (action.result === 'success' && EXPORTABLE_ACTIONS.has(action.action)) {
+      const gap = previous
+        ? Date.parse(action.timestamp) - Date.parse(previous.timestamp) - previous.duration_ms
+        : 0;
+      const delayMs = Math.round(Math.min(gap, MAX_PAUSE_MS));
+
+      steps.push({
+        action: action.action,
+        params: Object.fromEntries(Object.entries(action.params).filter(([, v]) => v !== undefined)),
+        ...(delayMs >= MIN_DELAY_MS ? { delayMs } : {}),
+        comment: stepComment(action, context),
+      });
+    }
+
+    // Screenshots are attached to the action that preceded them
+    context = loadActionContext(session.id, action) ?? context;
+    previous = action;
+  }
+
+  return {
+    session: session.id,
+    request: session.initialRequest,
+    recorded: session.startTime,
+    steps,
+  };
+}
+
+const literal = (value: unknown): string => JSON.stringify(value);
+
+/**
+ * TypeScript statements for one step; records the library functions it uses
+ */
+function stepToTs(step: ExportedStep, uses: Set<string>): string[] {
+  const p = step.params;
+  const use = (...names: string[]): void => names.forEach((n) => uses.add(n));
+  const motion = [
+    p['motion'] ? `profile: ${literal(p['motion'])}` : '',
+    typeof p['motionDuration'] === 'number' ? `duration: ${p['motionDuration']}` : '',
+  ].filter(Boolean).join(', ');
+  const clickOptions = [
+    p['button'] && p['button'] !== 'left' ? `button: ${literal(p['button'])}` : '',
+    motion ? `motion: { ${motion} }` : '',
+  ].filter(Boolean).join(', ');
+
+  const typeOptions = [
+    p['strategy'] ? `strategy: ${literal(p['strategy'])}` : '',
+    p['secret'] === true ? 'secret: true' : '',
+  ].filter(Boolean).join(', ');
+  const typeArgs = typeOptions ? `, { ${typeOptions} }` : '';
+  const redactedNote = typeof p['text'] === 'string' && isRedacted(p['text'])
+    ? ['// Redacted when recorded: replace with the text or a {{secret:NAME}} placeholder']
+    : [];
+  const pointer = p['pointer'] === 'pen' ? `pointer: 'pen'` : '';
+
+  switch (step.action) {
+    case 'os_move':
+      use('moveMouse');
+      return [`await moveMouse(${literal(p['x'])}, ${literal(p['y'])}${motion ? `, { motion: { ${motion} } }` : ''});`];
+    case 'os_click':
+    case 'os_click_at': {
+      use('click');
+      const lines: string[] = [];
+      if (p['window']) {
+        use('focusWindow');
+        lines.push(`await focusWindow(${literal(p['window'])});`);
+      }
+      return [...lines, `await click(${literal(p['x'])}, ${literal(p['y'])}${clickOptions ? `, { ${clickOptions} }` : ''});`];
+    }
+    case 'os_click_element': {
+      use('resolveElement', 'click');
+      const options = [
+        p['button'] && p['button'] !== 'left' ? `button: ${literal(p['button'])}` : '',
+        p['double'] === true ? 'double: true' : '',
+      ].filter(Boolean).join(', ');
+      return [
+        '{',
+        `  const el = await resolveElement(${literal(p['selector'])});`,
+        `  await click(el.x + Math.floor(el.width / 2), el.y + Math.floor(el.height / 2)${options ? `, { ${options} }` : ''});`,
+        '}',
+      ];
+    }
+    case 'os_type':
+      use('typeText');
+      return [...redactedNote, `await typeText(${literal(p['text'])}${typeArgs});`];
+    case 'os_type_into': {
+      use('resolveElement', 'click', 'typeText');
+      const clear: string[] = [];
+      if (p['clear'] === true) {
+        use('hotkey');
+        clear.push(`  await hotkey(['primary', 'a']);`);
+      }
+      return [
+        '{',
+        `  const el = await resolveElement(${literal(p['selector'])});`,
+        '  await click(el.x + Math.floor(el.width / 2), el.y + Math.floor(el.height / 2));',
+        ...clear,
+        ...redactedNote.map((line) => `  ${line}`),
+        `  await typeText(${literal(p['text'])}${typeArgs});`,
+        '}',
+      ];
+    }
+    case 'os_hotkey':
+      use('hotkey');
+      return [`await hotkey([${String(p['keys']).split('+').map((k) => literal(k.trim())).join(', ')}]);`];
+    case 'os_key_sequence':
+      use('pressKeys');
+      return [`await pressKeys(${literal(p['sequence'])}${typeof p['delay'] === 'number' ? `, { delay: ${p['delay']} }` : ''});`];
+    case 'os_key_down':
+      use('keyDown');
+      return [`await keyDown(${literal(p['key'])});`];
+    case 'os_key_up':
+      use('keyUp');
+      return [`await keyUp(${p['key'] ? literal(p['key']) : ''});`];
+    case 'os_scroll':
+      use('scroll');
+      return [`await scroll(${literal(p['direction'])}, ${literal(p['amount'])});`];
+    case 'os_wait':
+      use('wait');
+      return [`await wait(${literal(p['ms'])});`];
+    case 'os_wait_for': {
+      use('waitFor');
+      const { timeout, interval, ...condition } = p;
+      return [`await waitFor(${literal(condition)}, { timeoutMs: ${literal(timeout ?? 10000)}, intervalMs: ${literal(interval ?? 500)} });`];
+    }
+    case 'os_drag': {
+      use('drag');
+      const options = [
+        p['button'] && p['button'] !== 'left' ? `button: ${literal(p['button'])}` : '',
+        typeof p['duration'] === 'number' ? `duration: ${p['duration']}` : '',
+        motion ? `motion: { ${motion} }` : '',
+      ].filter(Boolean).join(', ');
+      return [`await drag(${literal(p['fromX'])}, ${literal(p['fromY'])}, ${literal(p['toX'])}, ${literal(p['toY'])}${options ? `, { ${options} }` : ''});`];
+    }
+    case 'os_mouse_down':
+    case 'os_mouse_up': {
+      const fn = step.action === 'os_mouse_down' ? 'mouseDown' : 'mouseUp';
+      use('moveMouse', fn);
+      return [
+        `await moveMouse(${literal(p['x'])}, ${literal(p['y'])});`,
+        `await ${fn}(${literal(p['button'] ?? 'left')});`,
+      ];
+    }
+    case 'os_focus':
+      use('focusWindow');
+      return [`await focusWindow(${literal(p['window'])});`];
+    case 'os_tap':
+      use('tap');
+      return [`await tap(${literal(p['x'])}, ${literal(p['y'])}${pointer ? `, { ${pointer} }` : ''});`];
+    case 'os_long_press': {
+      use('longPress');
+      const options = [typeof p['duration'] === 'number' ? `duration: ${p['duration']}` : '', pointer].filter(Boolean).join(', ');
+      return [`await longPress(${literal(p['x'])}, ${literal(p['y'])}${options ? `, { ${options} }` : ''});`];
+    }
+    case 'os_swipe': {
+      use('swipe');
+      const options = [typeof p['duration'] === 'number' ? `duration: ${p['duration']}` : '', pointer].filter(Boolean).join(', ');
+      return [`await swipe(${literal(p['fromX'])}, ${literal(p['fromY'])}, ${literal(p['toX'])}, ${literal(p['toY'])}${options ? `, { ${options} }` : ''});`];
+    }
+    case 'os_pinch': {
+      use('pinch');
+      const options = ['startDistance', 'endDistance', 'duration', 'angle']
+        .filter((key) => typeof p[key] === 'number')
+        .map((key) => `${key}: ${String(p[key])}`)
+        .join(', ');
+      return [`await pinch(${literal(p['x'])}, ${literal(p['y'])}${options ? `, { ${options} }` : ''});`];
+    }
+    default:
+      return [`// Unsupported action: ${step.action}`];
+  }
+}
+
+function toTypeScript(script: ExportedScript): string {
+  const uses = new Set<string>();
+  const body: string[] = [];
+
+  script.steps.forEach((step, i) => {
+    body.push(`// ${i + 1}. ${step.comment.replace(/\s+/g, ' ')}`);
+    if (step.delayMs) {
+      uses.add('wait');
+      body.push(`await wait(${step.delayMs});`);
+    }
+    body.push(...stepToTs(step, uses));
+    body.push('');
+  });
+
+  const imports = [...uses].sort();
+  return [
+    '/**',
+    ` * Generated by \`oscribe export\` from session ${script.session}`,
+    ` * Recorded: ${script.recorded}`,
+    ` * Request: ${script.request.replace(/\s+/g, ' ').replace(/\*\//g, '* /')}`,
+    ' */',
+    '',
+    `import { ${imports.join(', ')} } from 'oscribe';`,
+    '',
+    'async function main(): Promise<void> {',
+    ...body.map((line) => (line ? `  ${line}` : line)).slice(0, -1),
+    '}',
+    '',
+    'main().catch((error: unknown) => {',
+    '  console.error(error);',
+    '  process.exit(1);',
+    '});',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Minimal YAML serializer for the exported script (objects, arrays, scalars)
+ * Strings are emitted as JSON-style double-quoted scalars, which YAML accepts verbatim
+ */
+function toYaml(value: unknown, indent = ''): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return value
+      .map((item) => {
+        const nested = toYaml(item, `${indent}  `);
+        return `\n${indent}- ${nested.startsWith('\n') ? nested.trimStart() : nested}`;
+      })
+      .join('');
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (entries.length === 0) return '{}';
+    return entries
+      .map(([key, v]) => {
+        const nested = toYaml(v, `${indent}  `);
+        return `\n${indent}${key}:${nested.startsWith('\n') ? nested : ` ${nested}`}`;
+      })
+      .join('');
+  }
+  if (typeof value === 'string') return JSON.stringify(value);
+  return String(value ?? null);
+}
+
+/**
+ * Export a session in the given format
+ */
+export function exportSession(session: Session, format: ExportFormat): string {
+  const script = buildExportedScript(session);
+  switch (format) {
+    case 'ts':
+      return toTypeScript(script);
+    case 'json':
+      return `${JSON.stringify(script, null, 2)}\n`;
+    case 'yaml':
+      return `${toYaml(script).trimStart()}\n`;
+  }
+}
@@ -3,10 +3,13 @@
  * Logs actions, screenshots, errors for playback/debugging
  */
 
-import { writeFileSync, mkdirSync, existsSync } from 'node:fs';
+import { writeFileSync, mkdirSync, existsSync, readFileSync, readdirSync } from 'node:fs';
 import { join } from 'node:path';
 import { homedir } from 'node:os';
 import { loadConfig } from '../config/index.js';
+import type { UIElement } from './uiautomation.js';
+import type { ConfirmationRecord } from './confirmation.js';
+import { scrubText, scrubValue } from './redaction.js';
 
 export interface UIElementContext {
   type: string;
@@ -62,21 +65,142 @@ export interface Session {
   initialRequest: string;
   actions: SessionAction[];
   screenshots: string[];
+  /** Human decisions on actions the security policy marked "confirm" */
+  confirmations?: ConfirmationRecord[];
+}
+
+/**
+ * Format a UI element for session context (centered coordinates, defaults omitted)
+ */
+export function toElementContext(el: UIElement): UIElementContext {
+  return {
+    type: el.type,
+    ...(el.name ? { name: el.name } : {}),
+    x: el.x,
+    y: el.y,
+    width: el.width,
+    height: el.height,
+    centerX: el.x + Math.floor(el.width / 2),
+    centerY: el.y + Math.floor(el.height / 2),
+    ...(!el.isEnabled ? { isEnabled: false } : {}),
+    ...(el.automationId ? { automationId: el.automationId } : {}),
+    ...(el.value ? { value: el.value } : {}),
+  };
+}
+
+export interface SessionSummary {
+  id: string;
+  startTime: string;
+  endTime?: string;
+  initialRequest: string;
+  actionCount: number;
+  screenshotCount: number;
+}
+
+// Session IDs are generated as YYYY-MM-DD_HH-MM-SS_random
+const SESSION_ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * Base directory holding all sessions (config.sessionDir or ~/.oscribe/sessions)
+ */
+export function getSessionsDir(): string {
+  const config = loadConfig();
+  return config.sessionDir ?? join(homedir(), '.oscribe', 'sessions');
+}
+
+/**
+ * Directory of a recorded session, or null if the ID is invalid or unknown
+ */
+export function getSessionDirById(sessionId: string): string | null {
+  if (!SESSION_ID_PATTERN.test(sessionId)) {
+    return null;
+  }
+  const dir = join(getSessionsDir(), sessionId);
+  return existsSync(join(dir, 'session.json')) ? dir : null;
+}
+
+/**
+ * Load a recorded session.json
+ */
+export function loadSession(sessionId: string): Session | null {
+  const dir = getSessionDirById(sessionId);
+  if (!dir) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(readFileSync(join(dir, 'session.json'), 'utf-8')) as Session;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load the _ui.json context attached to a recorded action
+ * Paths in session.json are absolute - resolved inside the session dir in case it moved
+ */
+export function loadActionContext(sessionId: string, action: SessionAction): UIContext | null {
+  const dir = getSessionDirById(sessionId);
+  if (!dir || !action.context) {
+    return null;
+  }
+
+  const fileName = action.context.split(/[/\\]/).pop() ?? '';
+  const contextPath = join(dir, 'screenshots', fileName);
+  if (!existsSync(contextPath)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(readFileSync(contextPath, 'utf-8')) as UIContext;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List recorded sessions, newest first
+ */
+export function listSessions(): SessionSummary[] {
+  const baseDir = getSessionsDir();
+  if (!existsSync(baseDir)) {
+    return [];
+  }
+
+  const summaries: SessionSummary[] = [];
+  for (const entry of readdirSync(baseDir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+
+    const session = loadSession(entry.name);
+    if (!session) continue;
+
+    const summary: SessionSummary = {
+      id: session.id,
+      startTime: session.startTime,
+      initialRequest: session.initialRequest,
+      actionCount: session.actions.length,
+      screenshotCount: session.screenshots.length,
+    };
+    if (session.endTime) {
+      summary.endTime = session.endTime;
+    }
+    summaries.push(summary);
+  }
+
+  return summaries.sort((a, b) => b.startTime.localeCompare(a.startTime));
 }
 
 export class SessionRecorder {
   private session: Session;
   private sessionDir: string;
   private screenshotDir: string;
+  private lastUIContext: UIContext | null = null;
 
   constructor(initialRequest: string) {
     const sessionId = this.generateSessionId();
-    const config = loadConfig();
 
     // Use configured session dir or default to ~/.oscribe/sessions
-    const baseDir = config.sessionDir ?? join(homedir(), '.oscribe', 'sessions');
-
-    this.sessionDir = join(baseDir, sessionId);
+    this.sessionDir = join(getSessionsDir(), sessionId);
     this.screenshotDir = join(this.sessionDir, 'screenshots');
 
     // Create directories
@@ -129,16 +253,17 @@ export class SessionRecorder {
     } finally {
       const duration_ms = Date.now() - start;
 
+      // Scrubbed after the action ran: secrets it resolved are known by now
       const actionRecord: SessionAction = {
         timestamp,
         action,
-        params,
+        params: scrubValue(params),
         result,
         duration_ms,
       };
 
       if (errorMsg !== undefined) {
-        actionRecord.error = errorMsg;
+        actionRecord.error = scrubText(errorMsg);
       }
 
       this.session.actions.push(actionRecord);
@@ -148,6 +273,14 @@ export class SessionRecorder {
     return returnValue;
   }
 
+  /**
+   * Record a human decision on a "confirm" action
+   */
+  recordConfirmation(record: ConfirmationRecord): void {
+    (this.session.confirmations ??= []).push(scrubValue(record));
+    this.saveSession();
+  }
+
   /**
    * Save a screenshot with the session
    * Generates 2 context files:
@@ -181,7 +314,8 @@ export class SessionRecorder {
         timestamp: context.timestamp,
         elements: uiElements,
       };
-      writeFileSync(uiContextPath, JSON.stringify(uiContext, null, 2));
+      writeFileSync(uiContextPath, JSON.stringify(scrubValue(uiContext), null, 2));
+      this.lastUIContext = uiContext;
 
       // Save text content context
       const textContextFile = join(this.screenshotDir, `${index}_text.json`);
@@ -190,7 +324,7 @@ export class SessionRecorder {
         timestamp: context.timestamp,
         elements: textElements,
       };
-      writeFileSync(textContextFile, JSON.stringify(textContext, null, 2));
+      writeFileSync(textContextFile, JSON.stringify(scrubValue(textContext), null, 2));
     }
 
     // Update last action with screenshot/context reference
@@ -208,6 +342,13 @@ export class SessionRecorder {
     return filepath;
   }
 
+  /**
+   * UI context of the most recent screenshot (null if none yet)
+   */
+  getLastUIContext(): UIContext | null {
+    return this.lastUIContext;
+  }
+
   /**
    * End the session
    */
@@ -275,6 +416,19 @@ export class SessionRecorder {
       report += `---\n\n`;
     });
 
+    const confirmations = this.session.confirmations ?? [];
+    if (confirmations.length > 0) {
+      report += `## Confirmations\n\n`;
+      report += `| Time | Action | Rule | Decision | Via |\n`;
+      report += `|------|--------|------|----------|-----|\n`;
+      for (const c of confirmations) {
+        const decision = c.approved ? '✅ Approved' : '❌ Denied';
+        const note = c.reason ? ` (${c.reason})` : '';
+        report += `| ${new Date(c.decidedAt).toLocaleTimeString()} | ${c.summary.replace(/\|/g, '\\|')} | ${c.rule ?? '-'} | ${decision}${note} | ${c.channel} |\n`;
+      }
+      report += `\n---\n\n`;
+    }
+
     report += `## Session Files\n\n`;
     report += `- [session.json](session.json) - Raw session data\n`;
     report += `- [screenshots/](screenshots/) - All screenshots\n\n`;
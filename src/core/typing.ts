@@ -0,0 +1,226 @@
+/**
+ * Typing engine - layout-aware, Unicode-safe text input
+ *
+ * Strategies:
+ *   auto     Per character: key taps for keys the active layout has, Unicode injection
+ *            for the rest (accents, symbols, emoji); long text is pasted instead
+ *   keys     Backend typeString (robotjs) - the historical behaviour
+ *   unicode  Unicode injection for the whole text
+ *   paste    Through the clipboard, then the user's clipboard is restored
+ *
+ * Letters go through keyTap, which follows the active layout (AZERTY "a" stays "a").
+ * Digits are shifted on AZERTY, so they are only tapped on other layouts.
+ */
+
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+import { loadConfig } from '../config/index.js';
+import { getInputBackend, InputBackendError, type InputBackend } from './input-backend.js';
+import { withClipboardRestored, writeClipboardText } from './clipboard.js';
+import { getSessionType } from './wayland.js';
+import { resolveKey } from './keys.js';
+
+const execAsync = promisify(exec);
+
+export const TYPING_STRATEGIES = ['auto', 'keys', 'unicode', 'paste'] as const;
+
+export type TypingStrategy = (typeof TYPING_STRATEGIES)[number];
+
+interface KeyStroke {
+  key: string;
+  modifiers: string[];
+}
+
+interface TextRun {
+  kind: 'keys' | 'unicode';
+  text: string;
+}
+
+// Layouts where the digit row needs shift (AZERTY)
+const SHIFTED_DIGIT_LAYOUTS = new Set(['fr', 'be']);
+
+// Native runs shorter than this between Unicode runs are folded into them (fewer injections)
+const MIN_KEY_RUN = 4;
+
+// Time for the target app to read the clipboard before it is restored
+const PASTE_SETTLE_MS = 150;
+
+let cachedLayout: string | null = null;
+
+/**
+ * Map a layout name or id to a short id: "French" -> fr, "us" -> us, "German (Switzerland)" -> ch
+ */
+function normalizeLayout(raw: string): string {
+  const name = raw.trim().toLowerCase();
+  if (/^[a-z]{2}$/.test(name)) return name === 'uk' ? 'gb' : name;
+  if (name.includes('belgi')) return 'be';
+  if (name.includes('swiss') || name.includes('switzerland')) return 'ch';
+  if (name.includes('canadian')) return 'ca';
+  if (name.includes('french')) return 'fr';
+  if (name.includes('german')) return 'de';
+  if (name.includes('british')) return 'gb';
+  if (name.includes('spanish')) return 'es';
+  if (name.includes('italian')) return 'it';
+  return 'us';
+}
+
+/**
+ * Active keyboard layout id (cached) - "us" if it can't be detected
+ */
+export async function detectKeyboardLayout(): Promise<string> {
+  if (cachedLayout) return cachedLayout;
+
+  let raw = 'us';
+  try {
+    if (process.platform === 'win32') {
+      const psScript = 'Add-Type -AssemblyName System.Windows.Forms; [System.Windows.Forms.InputLanguage]::CurrentInputLanguage.LayoutName';
+      const encoded = Buffer.from(psScript, 'utf16le').toString('base64');
+      const { stdout } = await execAsync(`powershell -NoProfile -EncodedCommand ${encoded}`, { windowsHide: true });
+      raw = stdout.trim() || raw;
+    } else if (process.platform === 'darwin') {
+      const { stdout } = await execAsync('defaults read com.apple.HIToolbox AppleSelectedInputSources');
+      raw = /"KeyboardLayout Name"\s*=\s*"?([^";\n]+)"?;/.exec(stdout)?.[1] ?? raw;
+    } else {
+      const command = getSessionType() === 'wayland'
+        ? 'gsettings get org.gnome.desktop.input-sources sources'
+        : 'setxkbmap -query';
+      const { stdout } = await execAsync(command, { timeout: 5000 });
+      // setxkbmap: "layout:     fr,us" / gsettings: "[('xkb', 'fr+oss')]"
+      raw = /layout:\s*([a-z]+)/.exec(stdout)?.[1] ?? /'xkb',\s*'([a-z]+)/.exec(stdout)?.[1] ?? raw;
+    }
+  } catch {
+    // Keep the default
+  }
+
+  cachedLayout = normalizeLayout(raw);
+  return cachedLayout;
+}
+
+/**
+ * Key tap that types `char` on this layout, or null if it needs Unicode injection
+ */
+export function keyStrokeFor(char: string, layout: string, layoutAware: boolean): KeyStroke | null {
+  if (char === ' ') return { key: 'space', modifiers: [] };
+  if (char === '\n') return { key: 'enter', modifiers: [] };
+  if (char === '\t') return { key: 'tab', modifiers: [] };
+
+  // Physical-key backends only match the characters on a US layout
+  if (!layoutAware && layout !== 'us') return null;
+
+  if (/^[a-z]$/.test(char)) return { key: char, modifiers: [] };
+  if (/^[A-Z]$/.test(char)) return { key: char.toLowerCase(), modifiers: ['shift'] };
+  if (/^[0-9]$/.test(char) && !SHIFTED_DIGIT_LAYOUTS.has(layout)) return { key: char, modifiers: [] };
+  return null;
+}
+
+/**
+ * Split text into key-tap runs and Unicode runs
+ */
+export function planTyping(text: string, layout: string, layoutAware: boolean): TextRun[] {
+  const runs: TextRun[] = [];
+  for (const char of text) {
+    const kind = keyStrokeFor(char, layout, layoutAware) ? 'keys' : 'unicode';
+    const last = runs[runs.length - 1];
+    if (last?.kind === kind) last.text += char;
+    else runs.push({ kind, text: char });
+  }
+
+  // Fold short key runs surrounded by Unicode runs into one injection
+  const merged: TextRun[] = [];
+  runs.forEach((run, i) => {
+    const prev = merged[merged.length - 1];
+    const shortKeys = run.kind === 'keys' && [...run.text].length < MIN_KEY_RUN && prev?.kind === 'unicode' && runs[i + 1]?.kind === 'unicode';
+    if (prev && (shortKeys || (prev.kind === 'unicode' && run.kind === 'unicode'))) {
+      prev.text += run.text;
+    } else {
+      merged.push({ ...run });
+    }
+  });
+  return merged;
+}
+
+/**
+ * Paste text through the clipboard, then put the user's clipboard back
+ */
+export async function pasteText(text: string, backend: InputBackend = getInputBackend()): Promise<void> {
+  await withClipboardRestored(async () => {
+    await writeClipboardText(text);
+    await backend.keyTap('v', [resolveKey('primary')]);
+    await new Promise((resolve) => setTimeout(resolve, PASTE_SETTLE_MS));
+  });
+}
+
+async function tapRun(backend: InputBackend, text: string, layout: string, delayMs: number): Promise<void> {
+  for (const char of text) {
+    const stroke = keyStrokeFor(char, layout, backend.layoutAware);
+    if (!stroke) continue;
+    await backend.keyTap(stroke.key, stroke.modifiers);
+    if (delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Unicode injection, pasting when the backend can't - secrets are never pasted
+ */
+async function injectUnicode(backend: InputBackend, text: string, delayMs: number, secret: boolean): Promise<void> {
+  try {
+    await backend.typeUnicode(text, delayMs);
+  } catch (error) {
+    if (!(error instanceof InputBackendError && error.code === 'UNSUPPORTED')) throw error;
+    if (secret) {
+      throw new InputBackendError(
+        `${error.message} - not pasting a secret (clipboard managers keep a history)`,
+        'UNSUPPORTED',
+        { backend: backend.name }
+      );
+    }
+    console.error(`[OScribe] ${error.message} - pasting instead`);
+    await pasteText(text, backend);
+  }
+}
+
+/**
+ * Type text with the given strategy (default: config.typing.strategy)
+ * Secrets are never pasted by "auto" - clipboard managers keep a history
+ */
+export async function typeWithStrategy(
+  text: string,
+  options: { delay?: number; strategy?: TypingStrategy; secret?: boolean } = {}
+): Promise<TypingStrategy> {
+  const { typing } = loadConfig();
+  const delay = options.delay ?? 0;
+  const secret = options.secret ?? false;
+  const strategy = options.strategy ?? typing.strategy;
+  const backend = getInputBackend();
+
+  switch (strategy) {
+    case 'keys':
+      await backend.typeString(text, delay);
+      return 'keys';
+    case 'unicode':
+      await injectUnicode(backend, text, delay, secret);
+      return 'unicode';
+    case 'paste':
+      await pasteText(text, backend);
+      return 'paste';
+    case 'auto':
+      break;
+  }
+
+  if (!secret && typing.pasteThreshold > 0 && text.length >= typing.pasteThreshold && delay === 0) {
+    await pasteText(text, backend);
+    return 'paste';
+  }
+
+  const layout = await detectKeyboardLayout();
+  for (const run of planTyping(text, layout, backend.layoutAware)) {
+    if (run.kind === 'keys') {
+      await tapRun(backend, run.text, layout, delay);
+    } else {
+      await injectUnicode(backend, run.text, delay, secret);
+    }
+  }
+  return 'auto';
+}
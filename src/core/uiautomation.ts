@@ -4,6 +4,7 @@
  * - Native: standard UI Automation on window
  * - WebView2/Electron: search for Document elements globally
  * - MSAA fallback: use IAccessible for Electron apps when UIA fails
+ * macOS uses ax-reader (AXUIElement), Linux uses AT-SPI2 (scripts/linux/atspi-reader.py)
  */
 
 import { exec } from 'node:child_process';
@@ -77,6 +78,8 @@ export interface UIElement {
   height: number;
   isEnabled: boolean;
   value?: string;
+  /** Password field (screenshot masking), where the accessibility API tells */
+  isPassword?: boolean;
 }
 
 export interface UITree {
@@ -160,6 +163,8 @@ export async function getUIElements(windowTitle?: string): Promise<UITree> {
     return getUIElementsMacOS(windowTitle);
   } else if (process.platform === 'win32') {
     return getUIElementsWindows(windowTitle);
+  } else if (process.platform === 'linux') {
+    return getUIElementsLinux(windowTitle);
   } else {
     throw new Error(`UI Automation is not yet supported on ${process.platform}`);
   }
@@ -942,6 +947,7 @@ async function getUIElementsMacOS(windowTitle?: string): Promise<UITree> {
         width: number;
         height: number;
         isEnabled: boolean;
+        isPassword?: boolean;
       }>;
       error?: string;
     };
@@ -964,6 +970,9 @@ async function getUIElementsMacOS(windowTitle?: string): Promise<UITree> {
       if (el.description) {
         element.description = el.description;
       }
+      if (el.isPassword) {
+        element.isPassword = true;
+      }
       return element;
     });
 
@@ -1045,6 +1054,63 @@ async function getUIElementsMacOS(windowTitle?: string): Promise<UITree> {
   }
 }
 
+/**
+ * Run the AT-SPI reader script (Linux accessibility tree over D-Bus)
+ */
+async function runAtspiReader(args: string[]): Promise<unknown> {
+  const scriptPath = join(__dirname, '..', '..', '..', 'scripts', 'linux', 'atspi-reader.py');
+  const quoted = args.map((arg) => `"${arg.replace(/(["\\$`])/g, '\\$1')}"`).join(' ');
+
+  const { stdout } = await execAsync(`python3 "${scriptPath}" ${quoted}`, {
+    timeout: 15000,
+    maxBuffer: 10 * 1024 * 1024,
+  });
+
+  return JSON.parse(stdout.trim()) as unknown;
+}
+
+/**
+ * Linux implementation using AT-SPI2 (GTK, Qt, Firefox, LibreOffice, ...)
+ * AT-SPI roles are mapped to the UI Automation types used on Windows
+ */
+async function getUIElementsLinux(windowTitle?: string): Promise<UITree> {
+  const result = await runAtspiReader(['tree', ...(windowTitle ? [windowTitle] : [])]) as {
+    window?: string;
+    elements?: UIElement[];
+    error?: string;
+  };
+
+  if (result.error || !result.elements) {
+    throw new Error(`AT-SPI: ${result.error ?? 'no elements returned'}`);
+  }
+
+  const elements = result.elements;
+  const ui = elements.filter((el) => el.type !== 'Text' && el.type !== 'Image');
+  const content = elements.filter((el) => el.type === 'Text');
+
+  return {
+    window: result.window ?? windowTitle ?? '',
+    windowClass: 'AtspiFrame',
+    strategy: 'native',
+    elements,
+    ui,
+    content,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Linux: Get element at point via AT-SPI
+ */
+async function getElementAtPointLinux(x: number, y: number): Promise<UIElement | null> {
+  try {
+    const result = await runAtspiReader(['point', String(Math.round(x)), String(Math.round(y))]);
+    return result && typeof result === 'object' && 'type' in result ? result as UIElement : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Find a specific element by name or type
  */
@@ -1081,6 +1147,8 @@ export async function getElementAtPoint(x: number, y: number): Promise<UIElement
     return getElementAtPointMacOS(x, y);
   } else if (process.platform === 'win32') {
     return getElementAtPointWindows(x, y);
+  } else if (process.platform === 'linux') {
+    return getElementAtPointLinux(x, y);
   } else {
     throw new Error(`UI Automation is not yet supported on ${process.platform}`);
   }
@@ -1116,3 +1184,125 @@ async function getElementAtPointWindows(x: number, y: number): Promise<UIElement
     return null;
   }
 }
+
+export interface FocusedElement {
+  type: string;
+  name: string;
+  /** Password field: UIA IsPassword, AT-SPI "password text", AXSecureTextField, <input type="password"> */
+  isPassword: boolean;
+}
+
+/**
+ * Element with keyboard focus (null if unknown)
+ */
+export async function getFocusedElement(): Promise<FocusedElement | null> {
+  if (process.platform === 'darwin') {
+    return getFocusedElementMacOS();
+  } else if (process.platform === 'win32') {
+    return getFocusedElementWindows();
+  } else if (process.platform === 'linux') {
+    return getFocusedElementLinux();
+  }
+  return null;
+}
+
+async function getFocusedElementWindows(): Promise<FocusedElement | null> {
+  const scriptPath = join(__dirname, '..', '..', '..', 'scripts', 'windows', 'get-focused-element.ps1');
+
+  try {
+    const { stdout } = await execAsync(
+      `powershell -NoProfile -ExecutionPolicy Bypass -File "${scriptPath}"`,
+      { timeout: 5000 }
+    );
+
+    const result = stdout.trim();
+    if (result === 'null') return null;
+
+    return JSON.parse(result) as FocusedElement;
+  } catch {
+    return null;
+  }
+}
+
+async function getFocusedElementMacOS(): Promise<FocusedElement | null> {
+  const script = [
+    'tell application "System Events"',
+    '  set focusedElement to value of attribute "AXFocusedUIElement" of (first process whose frontmost is true)',
+    '  set elementRole to value of attribute "AXRole" of focusedElement',
+    '  set elementSubrole to ""',
+    '  try',
+    '    set elementSubrole to value of attribute "AXSubrole" of focusedElement',
+    '  end try',
+    '  set elementName to ""',
+    '  try',
+    '    set elementName to value of attribute "AXTitle" of focusedElement',
+    '  end try',
+    '  return elementRole & "|" & elementSubrole & "|" & elementName',
+    'end tell',
+  ];
+
+  try {
+    const { stdout } = await execAsync(
+      `osascript ${script.map((line) => `-e '${line.replace(/'/g, "'\\''")}'`).join(' ')}`,
+      { timeout: 5000 }
+    );
+    const [role = '', subrole = '', ...name] = stdout.trim().split('|');
+    if (!role) return null;
+    return { type: role.replace(/^AX/, ''), name: name.join('|'), isPassword: subrole === 'AXSecureTextField' };
+  } catch {
+    return null;
+  }
+}
+
+async function getFocusedElementLinux(): Promise<FocusedElement | null> {
+  try {
+    const result = await runAtspiReader(['focused']);
+    return result && typeof result === 'object' && 'isPassword' in result ? result as FocusedElement : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Is the focused element of a CDP-enabled browser a password input?
+ * Only pages that have focus count; shadow roots and same-origin frames are followed.
+ */
+async function isPasswordFocusedViaCDP(port = 9222): Promise<boolean> {
+  const expression = `(() => {
+    if (!document.hasFocus()) return false;
+    let el = document.activeElement;
+    for (;;) {
+      const inner = el && (el.shadowRoot ? el.shadowRoot.activeElement : el.contentDocument ? el.contentDocument.activeElement : null);
+      if (!inner) break;
+      el = inner;
+    }
+    return !!el && el.tagName === 'INPUT' && el.type === 'password';
+  })()`;
+
+  try {
+    const CDP = (await import('chrome-remote-interface')).default;
+    const targets = await CDP.List({ host: '127.0.0.1', port });
+    for (const target of targets.filter((t: { type: string }) => t.type === 'page')) {
+      const client = await CDP({ host: '127.0.0.1', port, target: target.webSocketDebuggerUrl });
+      try {
+        const { result } = await client.Runtime.evaluate({ expression, returnByValue: true });
+        if (result.value === true) return true;
+      } finally {
+        await client.close();
+      }
+    }
+  } catch {
+    // No CDP browser listening
+  }
+  return false;
+}
+
+/**
+ * Would typed text go into a password field?
+ * Asks the platform accessibility API, then browsers with remote debugging enabled.
+ */
+export async function isPasswordFieldFocused(): Promise<boolean> {
+  const focused = await getFocusedElement();
+  if (focused?.isPassword) return true;
+  return isPasswordFocusedViaCDP();
+}
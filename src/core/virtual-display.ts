@@ -0,0 +1,260 @@
+/**
+ * Virtual display - headless X server (Xvfb or Xephyr) for CI and reproducible runs
+ *
+ * Starting a display points this process at it: DISPLAY is set and the session is
+ * treated as X11, so screenshots, window management and input all use the X11 paths.
+ * An optional app command is launched inside the display. stop() (or process exit)
+ * tears everything down and restores the previous environment.
+ */
+
+import { spawn, type ChildProcess } from 'node:child_process';
+import type { Readable } from 'node:stream';
+import { setInputBackend } from './input-backend.js';
+
+export type DisplayServer = 'xvfb' | 'xephyr';
+
+export interface VirtualDisplayOptions {
+  /** Screen width in pixels (default: 1920) */
+  width?: number;
+  /** Screen height in pixels (default: 1080) */
+  height?: number;
+  /** Color depth (default: 24) */
+  depth?: number;
+  /** X server to run (default: xvfb). Xephyr opens a nested window, handy to watch a run. */
+  server?: DisplayServer;
+  /** Display number (default: first free one, chosen by the X server) */
+  display?: number;
+  /** Shell command to launch inside the display (e.g. "gedit" or "npm run app") */
+  command?: string;
+  /** Wait after launching the command, so its window can map (default: 1000ms) */
+  appStartupMs?: number;
+  /** Give up if the X server isn't ready in time (default: 10000ms) */
+  timeoutMs?: number;
+}
+
+export interface VirtualDisplay {
+  /** DISPLAY value, e.g. ":99" */
+  display: string;
+  width: number;
+  height: number;
+  server: DisplayServer;
+  /** Launched app, if a command was given */
+  app: ChildProcess | null;
+  /** false once the X server has exited */
+  readonly alive: boolean;
+  /** Stop the app and the X server, restore DISPLAY */
+  stop(): Promise<void>;
+}
+
+/**
+ * Custom error for virtual display failures
+ * Following error-handling-patterns skill
+ */
+export class VirtualDisplayError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'UNSUPPORTED_PLATFORM' | 'INVALID_RESOLUTION' | 'SERVER_NOT_FOUND' | 'START_FAILED',
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'VirtualDisplayError';
+    // Preserve stack trace (V8 engines)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+const SERVER_BINARIES: Record<DisplayServer, string> = {
+  xvfb: 'Xvfb',
+  xephyr: 'Xephyr',
+};
+
+// Environment variables overridden while a virtual display is active
+const DISPLAY_ENV = ['DISPLAY', 'WAYLAND_DISPLAY', 'XDG_SESSION_TYPE'] as const;
+
+/**
+ * Parse "1920x1080" (optionally "1920x1080x24")
+ */
+export function parseResolution(value: string): { width: number; height: number; depth?: number } {
+  const match = /^(\d+)x(\d+)(?:x(\d+))?$/i.exec(value.trim());
+  if (!match?.[1] || !match[2]) {
+    throw new VirtualDisplayError(`Invalid resolution: "${value}" (expected WIDTHxHEIGHT, e.g. 1920x1080)`, 'INVALID_RESOLUTION');
+  }
+  const width = parseInt(match[1], 10);
+  const height = parseInt(match[2], 10);
+  if (width < 64 || height < 64 || width > 16384 || height > 16384) {
+    throw new VirtualDisplayError(`Invalid resolution: "${value}" (64-16384 pixels per side)`, 'INVALID_RESOLUTION');
+  }
+  return { width, height, ...(match[3] ? { depth: parseInt(match[3], 10) } : {}) };
+}
+
+/**
+ * Start the X server and wait until it accepts clients
+ * -displayfd makes the server pick a free display and report it once ready
+ */
+function startServer(
+  server: DisplayServer,
+  width: number,
+  height: number,
+  depth: number,
+  display: number | undefined,
+  timeoutMs: number
+): Promise<{ process: ChildProcess; display: string }> {
+  const screen = `${width}x${height}x${depth}`;
+  const args = server === 'xvfb'
+    ? ['-screen', '0', screen, '-nolisten', 'tcp']
+    : ['-screen', screen, '-nolisten', 'tcp', '-title', 'OScribe virtual display'];
+  const displayArgs = display !== undefined ? [`:${display}`] : ['-displayfd', '3'];
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(SERVER_BINARIES[server], [...displayArgs, ...args], {
+      stdio: ['ignore', 'ignore', 'pipe', 'pipe'],
+    });
+
+    let stderr = '';
+    let settled = false;
+    const fail = (error: VirtualDisplayError): void => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      child.kill();
+      reject(error);
+    };
+    const ready = (name: string): void => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      // Running: exits are the caller's to handle from here
+      child.removeListener('exit', onExit);
+      resolve({ process: child, display: name });
+    };
+
+    const timer = setTimeout(() => {
+      fail(new VirtualDisplayError(`${SERVER_BINARIES[server]} did not start within ${timeoutMs}ms`, 'START_FAILED', { stderr }));
+    }, timeoutMs);
+
+    child.stderr?.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+
+    child.on('error', (error: Error & { code?: string }) => {
+      fail(error.code === 'ENOENT'
+        ? new VirtualDisplayError(`${SERVER_BINARIES[server]} not found`, 'SERVER_NOT_FOUND', { server })
+        : new VirtualDisplayError(`${SERVER_BINARIES[server]} failed: ${error.message}`, 'START_FAILED', { server }));
+    });
+
+    const onExit = (code: number | null): void => {
+      fail(new VirtualDisplayError(`${SERVER_BINARIES[server]} exited with code ${code}`, 'START_FAILED', { stderr: stderr.trim() }));
+    };
+    child.on('exit', onExit);
+
+    if (display !== undefined) {
+      // Fixed display number: no readiness report, give the server a moment
+      setTimeout(() => ready(`:${display}`), 500);
+      return;
+    }
+
+    const fd = child.stdio[3] as Readable | null;
+    let reported = '';
+    fd?.on('data', (chunk: Buffer) => {
+      reported += chunk.toString();
+      if (reported.includes('\n')) {
+        ready(`:${reported.trim()}`);
+      }
+    });
+  });
+}
+
+/**
+ * Start a virtual display and point screenshots, windows and input at it
+ */
+export async function startVirtualDisplay(options: VirtualDisplayOptions = {}): Promise<VirtualDisplay> {
+  const {
+    width = 1920,
+    height = 1080,
+    depth = 24,
+    server = 'xvfb',
+    display,
+    command,
+    appStartupMs = 1000,
+    timeoutMs = 10000,
+  } = options;
+
+  if (process.platform !== 'linux') {
+    throw new VirtualDisplayError('Virtual displays are only supported on Linux', 'UNSUPPORTED_PLATFORM', { platform: process.platform });
+  }
+
+  const started = await startServer(server, width, height, depth, display, timeoutMs);
+  const xserver = started.process;
+  let alive = true;
+  let stopped = false;
+  xserver.on('exit', (code, signal) => {
+    alive = false;
+    if (!stopped) {
+      console.error(`[OScribe] Virtual display ${started.display} exited unexpectedly (${signal ?? `code ${code}`})`);
+    }
+  });
+  console.error(`[OScribe] Virtual display ${started.display} (${SERVER_BINARIES[server]} ${width}x${height}x${depth})`);
+
+  const previousEnv = Object.fromEntries(DISPLAY_ENV.map((key) => [key, process.env[key]]));
+  process.env['DISPLAY'] = started.display;
+  process.env['XDG_SESSION_TYPE'] = 'x11';
+  delete process.env['WAYLAND_DISPLAY'];
+  // Re-create the input backend for the new display (robotjs opens DISPLAY on first use)
+  setInputBackend(null);
+
+  let app: ChildProcess | null = null;
+  if (command) {
+    // Own process group, so the whole app tree can be stopped
+    app = spawn(command, { shell: true, detached: true, stdio: 'ignore', env: { ...process.env } });
+    app.on('error', (error) => console.error(`[OScribe] Failed to launch "${command}":`, error.message));
+    console.error(`[OScribe] Launched in ${started.display}: ${command}`);
+    await new Promise((resolve) => setTimeout(resolve, appStartupMs));
+  }
+
+  const stopSync = (): void => {
+    if (stopped) return;
+    stopped = true;
+    if (app?.pid && app.exitCode === null) {
+      try {
+        process.kill(-app.pid, 'SIGTERM');
+      } catch {
+        // Already gone
+      }
+    }
+    if (xserver.exitCode === null) {
+      xserver.kill('SIGTERM');
+    }
+    for (const key of DISPLAY_ENV) {
+      const value = previousEnv[key];
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+    setInputBackend(null);
+  };
+
+  // Never leave an X server behind, even if the caller forgets stop()
+  process.once('exit', stopSync);
+
+  return {
+    display: started.display,
+    width,
+    height,
+    server,
+    app,
+    get alive(): boolean {
+      return alive;
+    },
+    async stop(): Promise<void> {
+      if (stopped) return;
+      process.removeListener('exit', stopSync);
+      const exited = xserver.exitCode === null
+        ? new Promise((resolve) => xserver.once('exit', resolve))
+        : Promise.resolve();
+      stopSync();
+      await Promise.race([exited, new Promise((resolve) => setTimeout(resolve, 3000))]);
+      console.error(`[OScribe] Virtual display ${started.display} stopped`);
+    },
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * Wait-for-condition - poll the UI tree, OCR, pixels or the active window until a condition holds
+ * Replaces fixed sleeps: returns as soon as the condition matches, fails after the timeout
+ */
+
+import { captureScreen } from './screenshot.js';
+import { recognizeText, type OcrLine } from './ocr.js';
+import { getActiveWindow } from './windows.js';
+import { findElements, formatSelector, parseSelector } from './selector.js';
+import { decodePng, diffRegion, type DecodedImage, type Region } from './png.js';
+import { applyScreenMask, buildScreenMask, filterMaskedOcr, getBlockedWindowLayers, withCaptureArea, type ScreenMask } from './privacy.js';
+
+export type WaitCondition =
+  | {
+      /** Element matching a selector appears or disappears */
+      kind: 'element';
+      selector: string;
+      state: 'appear' | 'disappear';
+    }
+  | {
+      /** OCR text appears (case-insensitive substring), optionally inside a region */
+      kind: 'text';
+      text: string;
+      region?: Region;
+    }
+  | {
+      /** Pixels stop changing for `stableMs`, optionally inside a region */
+      kind: 'stable';
+      region?: Region;
+      stableMs: number;
+      /** Fraction of pixels (0-1) allowed to change between polls (default: 0) */
+      threshold?: number;
+    }
+  | {
+      /** Active window title matches a pattern (substring, or /regex/flags) */
+      kind: 'title';
+      pattern: string;
+    };
+
+export interface WaitOptions {
+  /** Give up after this many ms (default: 10000) */
+  timeoutMs?: number;
+  /** Delay between polls in ms (default: 500) */
+  intervalMs?: number;
+}
+
+export interface WaitResult {
+  condition: WaitCondition['kind'];
+  /** Human-readable description of what matched */
+  matched: string;
+  elapsedMs: number;
+  polls: number;
+}
+
+/**
+ * Custom error for waits that time out
+ * Following error-handling-patterns skill
+ */
+export class WaitTimeoutError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'TIMEOUT',
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'WaitTimeoutError';
+    // Preserve stack trace (V8 engines)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+/** Check run once per poll: returns what matched, or null to keep waiting */
+type Probe = () => Promise<string | null>;
+
+/**
+ * Parse a title pattern: /regex/flags or a case-insensitive substring
+ */
+function titleMatcher(pattern: string): (title: string) => boolean {
+  const regexMatch = pattern.match(/^\/(.+)\/([gimsuy]*)$/);
+  if (regexMatch?.[1] !== undefined) {
+    // g and y make test() stateful (lastIndex carries over between polls)
+    const regex = new RegExp(regexMatch[1], (regexMatch[2] ?? '').replace(/[gy]/g, ''));
+    return (title) => regex.test(title);
+  }
+  const needle = pattern.toLowerCase();
+  return (title) => title.toLowerCase().includes(needle);
+}
+
+function insideRegion(line: OcrLine, region: Region): boolean {
+  const cx = line.x + Math.floor(line.width / 2);
+  const cy = line.y + Math.floor(line.height / 2);
+  return cx >= region.x && cx <= region.x + region.width && cy >= region.y && cy <= region.y + region.height;
+}
+
+function describeRegion(region: Region | undefined): string {
+  return region ? ` in region (${region.x},${region.y}) ${region.width}x${region.height}` : '';
+}
+
+/**
+ * Screenshot with blocked apps, configured regions and password fields blacked out
+ * Always black: pixelation would still show changes in a masked window
+ */
+async function captureMasked(): Promise<{ buffer: Buffer; mask: ScreenMask; size?: { width: number; height: number } }> {
+  const screenshot = await captureScreen({ cursor: false });
+  const mask = await withCaptureArea(buildScreenMask(await getBlockedWindowLayers()), screenshot.screen);
+  return {
+    buffer: applyScreenMask(screenshot.buffer, mask, 'black'),
+    mask,
+    ...(screenshot.width && screenshot.height ? { size: { width: screenshot.width, height: screenshot.height } } : {}),
+  };
+}
+
+function createProbe(condition: WaitCondition): Probe {
+  switch (condition.kind) {
+    case 'element': {
+      const selector = parseSelector(condition.selector);
+      const text = formatSelector(selector);
+      return async () => {
+        let matches: Awaited<ReturnType<typeof findElements>> = [];
+        try {
+          matches = await findElements(selector);
+        } catch {
+          // Window not found / UI tree unavailable - treat as no match
+        }
+        if (condition.state === 'appear') {
+          const el = matches[selector.index ?? 0];
+          return el ? `${el.type} "${el.name}" appeared (${text})` : null;
+        }
+        return matches.length === 0 ? `No element matches ${text}` : null;
+      };
+    }
+
+    case 'text': {
+      const needle = condition.text.toLowerCase();
+      return async () => {
+        const { buffer, mask, size } = await captureMasked();
+        const lines = filterMaskedOcr(mask, (await recognizeText(buffer)).lines, size);
+        const line = lines.find((l) =>
+          l.text.toLowerCase().includes(needle) && (!condition.region || insideRegion(l, condition.region))
+        );
+        return line ? `Text "${line.text}" at (${line.x},${line.y})${describeRegion(condition.region)}` : null;
+      };
+    }
+
+    case 'stable': {
+      const threshold = condition.threshold ?? 0;
+      let previous: DecodedImage | null = null;
+      let stableSince = 0;
+      return async () => {
+        const current = decodePng((await captureMasked()).buffer);
+        const now = Date.now();
+        if (!previous || diffRegion(previous, current, condition.region) > threshold) {
+          stableSince = now;
+        }
+        previous = current;
+        return now - stableSince >= condition.stableMs
+          ? `Pixels stable for ${now - stableSince}ms${describeRegion(condition.region)}`
+          : null;
+      };
+    }
+
+    case 'title': {
+      const matches = titleMatcher(condition.pattern);
+      return async () => {
+        const win = await getActiveWindow();
+        return win && matches(win.title) ? `Active window "${win.title}"` : null;
+      };
+    }
+  }
+}
+
+/**
+ * Poll until a condition holds
+ * Throws WaitTimeoutError if it does not hold within the timeout
+ */
+export async function waitFor(condition: WaitCondition, options: WaitOptions = {}): Promise<WaitResult> {
+  const { timeoutMs = 10000, intervalMs = 500 } = options;
+  const probe = createProbe(condition);
+  const start = Date.now();
+  let polls = 0;
+
+  for (;;) {
+    polls++;
+    const matched = await probe();
+    const elapsedMs = Date.now() - start;
+    if (matched !== null) {
+      return { condition: condition.kind, matched, elapsedMs, polls };
+    }
+
+    if (elapsedMs + intervalMs > timeoutMs) {
+      throw new WaitTimeoutError(
+        `Timed out after ${elapsedMs}ms waiting for ${describeCondition(condition)} (${polls} polls)`,
+        'TIMEOUT',
+        { condition, elapsedMs, polls }
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
+
+/**
+ * Describe a condition for logs and error messages
+ */
+export function describeCondition(condition: WaitCondition): string {
+  switch (condition.kind) {
+    case 'element':
+      return `${condition.selector} to ${condition.state}`;
+    case 'text':
+      return `text "${condition.text}"${describeRegion(condition.region)}`;
+    case 'stable':
+      return `pixels stable for ${condition.stableMs}ms${describeRegion(condition.region)}`;
+    case 'title':
+      return `active window title matching ${condition.pattern}`;
+  }
+}
@@ -0,0 +1,351 @@
+/**
+ * Wayland support - screenshots and window management without X11 tools
+ *
+ * Session type comes from XDG_SESSION_TYPE, the compositor from its environment:
+ *   sway         swaymsg (SWAYSOCK)
+ *   hyprland     hyprctl (HYPRLAND_INSTANCE_SIGNATURE)
+ *   gnome-shell  "Window Calls" extension over D-Bus (XDG_CURRENT_DESKTOP=GNOME)
+ *
+ * Screenshots: grim on wlroots compositors (sway, Hyprland), else the
+ * xdg-desktop-portal Screenshot portal (scripts/linux/portal-screenshot.py).
+ * Other compositors (KDE, ...) fall back to the X11 tools, which only see XWayland windows.
+ */
+
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { WindowInfo } from './windows.js';
+
+const execFileAsync = promisify(execFile);
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export type SessionType = 'x11' | 'wayland' | 'unknown';
+
+export type WaylandWindowBackend = 'sway' | 'hyprland' | 'gnome-shell' | 'none';
+
+export type WaylandScreenshotBackend = 'grim' | 'portal';
+
+export interface LinuxDisplayBackend {
+  session: SessionType;
+  /** Window listing/focus backend (Wayland only, 'none' = X11 tools) */
+  windows: WaylandWindowBackend;
+  /** Screenshot backend (Wayland only, null = X11 tools) */
+  screenshot: WaylandScreenshotBackend | null;
+}
+
+// "Window Calls" GNOME Shell extension: https://extensions.gnome.org/extension/4724/window-calls/
+const GNOME_WINDOWS_DEST = 'org.gnome.Shell';
+const GNOME_WINDOWS_PATH = '/org/gnome/Shell/Extensions/Windows';
+const GNOME_WINDOWS_IFACE = 'org.gnome.Shell.Extensions.Windows';
+
+export function getSessionType(): SessionType {
+  const type = process.env['XDG_SESSION_TYPE'];
+  if (type === 'wayland' || type === 'x11') return type;
+  if (process.env['WAYLAND_DISPLAY']) return 'wayland';
+  if (process.env['DISPLAY']) return 'x11';
+  return 'unknown';
+}
+
+/**
+ * Detect the display backends for the current Linux session
+ */
+export function detectLinuxDisplayBackend(): LinuxDisplayBackend {
+  const session = getSessionType();
+  if (session !== 'wayland') {
+    return { session, windows: 'none', screenshot: null };
+  }
+
+  let windows: WaylandWindowBackend = 'none';
+  if (process.env['SWAYSOCK']) {
+    windows = 'sway';
+  } else if (process.env['HYPRLAND_INSTANCE_SIGNATURE']) {
+    windows = 'hyprland';
+  } else if ((process.env['XDG_CURRENT_DESKTOP'] ?? '').toLowerCase().includes('gnome')) {
+    windows = 'gnome-shell';
+  }
+
+  const wlroots = windows === 'sway' || windows === 'hyprland';
+  return { session, windows, screenshot: wlroots ? 'grim' : 'portal' };
+}
+
+async function run(command: string, args: string[], timeout = 10000): Promise<string> {
+  const { stdout } = await execFileAsync(command, args, { timeout, maxBuffer: 10 * 1024 * 1024 });
+  return stdout;
+}
+
+// ============================================================================
+// sway
+// ============================================================================
+
+interface SwayNode {
+  id: number;
+  name?: string | null;
+  type?: string;
+  app_id?: string | null;
+  focused?: boolean;
+  pid?: number;
+  rect?: { x: number; y: number; width: number; height: number };
+  window_properties?: { class?: string };
+  nodes?: SwayNode[];
+  floating_nodes?: SwayNode[];
+}
+
+function swayWindows(node: SwayNode, out: Array<WindowInfo & { focused: boolean }> = []): Array<WindowInfo & { focused: boolean }> {
+  // Leaf containers with a pid are application windows
+  if (node.pid !== undefined && (node.type === 'con' || node.type === 'floating_con')) {
+    const app = node.app_id ?? node.window_properties?.class;
+    out.push({
+      id: String(node.id),
+      title: node.name ?? '',
+      ...(app ? { app } : {}),
+      pid: node.pid,
+      ...(node.rect ? { bounds: { ...node.rect } } : {}),
+      focused: node.focused === true,
+    });
+  }
+  for (const child of [...(node.nodes ?? []), ...(node.floating_nodes ?? [])]) {
+    swayWindows(child, out);
+  }
+  return out;
+}
+
+async function listSway(): Promise<Array<WindowInfo & { focused: boolean }>> {
+  const tree = JSON.parse(await run('swaymsg', ['-t', 'get_tree', '-r'])) as SwayNode;
+  return swayWindows(tree);
+}
+
+// ============================================================================
+// Hyprland
+// ============================================================================
+
+interface HyprClient {
+  address: string;
+  title: string;
+  class: string;
+  at: [number, number];
+  size: [number, number];
+  pid?: number;
+  mapped?: boolean;
+}
+
+function hyprWindow(client: HyprClient): WindowInfo {
+  return {
+    id: client.address,
+    title: client.title,
+    ...(client.class ? { app: client.class } : {}),
+    ...(client.pid ? { pid: client.pid } : {}),
+    bounds: { x: client.at[0], y: client.at[1], width: client.size[0], height: client.size[1] },
+  };
+}
+
+// ============================================================================
+// GNOME Shell
+// ============================================================================
+
+/**
+ * Extract the string from gdbus output such as ('[{"id": 1}]',)
+ */
+export function parseGdbusString(output: string): string {
+  const match = /^\(\s*(['"])([\s\S]*)\1\s*,\s*\)$/.exec(output.trim());
+  if (match?.[2] === undefined) {
+    throw new Error(`Unexpected gdbus output: ${output.slice(0, 200)}`);
+  }
+  return match[2].replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, seq: string) => {
+    if (seq.startsWith('u') && seq.length === 5) return String.fromCharCode(parseInt(seq.slice(1), 16));
+    switch (seq) {
+      case 'n': return '\n';
+      case 't': return '\t';
+      case 'r': return '\r';
+      default: return seq;
+    }
+  });
+}
+
+async function gnomeCall(method: string, ...args: string[]): Promise<string> {
+  const output = await run('gdbus', [
+    'call', '--session',
+    '--dest', GNOME_WINDOWS_DEST,
+    '--object-path', GNOME_WINDOWS_PATH,
+    '--method', `${GNOME_WINDOWS_IFACE}.${method}`,
+    ...args,
+  ]);
+  return output.trim();
+}
+
+interface GnomeWindow {
+  id: number;
+  title?: string;
+  wm_class?: string;
+  pid?: number;
+  focus?: boolean;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+}
+
+async function listGnome(): Promise<Array<WindowInfo & { focused: boolean }>> {
+  const windows = JSON.parse(parseGdbusString(await gnomeCall('List'))) as GnomeWindow[];
+  const result: Array<WindowInfo & { focused: boolean }> = [];
+
+  for (const win of windows) {
+    // Recent extension versions no longer include titles in List()
+    const title = win.title ?? parseGdbusString(await gnomeCall('GetTitle', String(win.id)).catch(() => "('',)"));
+    const { x, y, width, height } = win;
+    result.push({
+      id: String(win.id),
+      title,
+      ...(win.wm_class ? { app: win.wm_class } : {}),
+      ...(win.pid ? { pid: win.pid } : {}),
+      ...(x !== undefined && y !== undefined && width !== undefined && height !== undefined ? { bounds: { x, y, width, height } } : {}),
+      focused: win.focus === true,
+    });
+  }
+  return result;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+const stripFocus = ({ focused: _focused, ...info }: WindowInfo & { focused: boolean }): WindowInfo => info;
+
+export async function listWindowsWayland(backend: WaylandWindowBackend): Promise<WindowInfo[]> {
+  switch (backend) {
+    case 'sway':
+      return (await listSway()).map(stripFocus);
+    case 'hyprland': {
+      const clients = JSON.parse(await run('hyprctl', ['clients', '-j'])) as HyprClient[];
+      return clients.filter((c) => c.mapped !== false).map(hyprWindow);
+    }
+    case 'gnome-shell':
+      return (await listGnome()).map(stripFocus);
+    case 'none':
+      return [];
+  }
+}
+
+export async function getActiveWindowWayland(backend: WaylandWindowBackend): Promise<WindowInfo | null> {
+  switch (backend) {
+    case 'sway': {
+      const focused = (await listSway()).find((w) => w.focused);
+      return focused ? stripFocus(focused) : null;
+    }
+    case 'hyprland': {
+      const client = JSON.parse(await run('hyprctl', ['activewindow', '-j'])) as Partial<HyprClient>;
+      return client.address ? hyprWindow(client as HyprClient) : null;
+    }
+    case 'gnome-shell': {
+      const focused = (await listGnome()).find((w) => w.focused);
+      return focused ? stripFocus(focused) : null;
+    }
+    case 'none':
+      return null;
+  }
+}
+
+/**
+ * Focus the first window whose title or app contains titleOrApp
+ */
+export async function focusWindowWayland(backend: WaylandWindowBackend, titleOrApp: string): Promise<boolean> {
+  const needle = titleOrApp.toLowerCase();
+  const windows = await listWindowsWayland(backend);
+  const target = windows.find((w) => w.title.toLowerCase().includes(needle))
+    ?? windows.find((w) => w.app?.toLowerCase().includes(needle));
+  if (!target) return false;
+
+  switch (backend) {
+    case 'sway':
+      await run('swaymsg', [`[con_id=${target.id}]`, 'focus']);
+      return true;
+    case 'hyprland':
+      await run('hyprctl', ['dispatch', 'focuswindow', `address:${target.id}`]);
+      return true;
+    case 'gnome-shell':
+      await gnomeCall('Activate', target.id);
+      return true;
+    case 'none':
+      return false;
+  }
+}
+
+/**
+ * Wayland output (monitor), in logical (scaled) layout coordinates
+ */
+export interface WaylandOutput {
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Wayland outputs with their place in the layout, in compositor order
+ */
+export async function listWaylandOutputDetails(backend: WaylandWindowBackend): Promise<WaylandOutput[]> {
+  switch (backend) {
+    case 'sway': {
+      const outputs = JSON.parse(await run('swaymsg', ['-t', 'get_outputs', '-r'])) as Array<{
+        name: string;
+        active?: boolean;
+        rect: { x: number; y: number; width: number; height: number };
+      }>;
+      return outputs.filter((o) => o.active !== false).map((o) => ({ name: o.name, ...o.rect }));
+    }
+    case 'hyprland': {
+      // width/height are in pixels, x/y already in layout coordinates
+      const monitors = JSON.parse(await run('hyprctl', ['monitors', '-j'])) as Array<{
+        name: string;
+        x: number;
+        y: number;
+        width: number;
+        height: number;
+        scale?: number;
+      }>;
+      return monitors.map((m) => ({
+        name: m.name,
+        x: m.x,
+        y: m.y,
+        width: Math.round(m.width / (m.scale ?? 1)),
+        height: Math.round(m.height / (m.scale ?? 1)),
+      }));
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Wayland outputs (monitors) in compositor order
+ */
+export async function listWaylandOutputs(backend: WaylandWindowBackend): Promise<string[]> {
+  return (await listWaylandOutputDetails(backend)).map((o) => o.name);
+}
+
+/**
+ * Capture the screen on Wayland
+ * The portal always returns the full desktop - screen selection needs grim
+ */
+export async function captureWayland(outputPath: string, screen: number, backend: LinuxDisplayBackend): Promise<void> {
+  if (backend.screenshot === 'grim') {
+    const args: string[] = [];
+    if (screen > 0) {
+      const output = (await listWaylandOutputs(backend.windows))[screen];
+      if (!output) {
+        throw new Error(`Screen ${screen} not found`);
+      }
+      args.push('-o', output);
+    }
+    await run('grim', [...args, outputPath], 30000);
+    return;
+  }
+
+  const scriptPath = join(__dirname, '..', '..', '..', 'scripts', 'linux', 'portal-screenshot.py');
+  // The portal may show a permission dialog on first use
+  const result = JSON.parse(await run('python3', [scriptPath, outputPath], 60000)) as { path?: string; error?: string };
+  if (result.error || !result.path) {
+    throw new Error(`Screenshot portal: ${result.error ?? 'no file returned'}`);
+  }
+}
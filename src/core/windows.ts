@@ -2,16 +2,24 @@
  * Window management module
  */
 
-import { exec } from 'node:child_process';
+import { exec, execFile } from 'node:child_process';
+import { readFile, readlink } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
 import { promisify } from 'node:util';
+import { detectLinuxDisplayBackend, listWindowsWayland, focusWindowWayland, getActiveWindowWayland } from './wayland.js';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+const __dirname = dirname(fileURLToPath(import.meta.url));
 const platform = process.platform;
 
 export interface WindowInfo {
   id: string;
   title: string;
   app?: string;
+  /** Owning process, where the window system reports it */
+  pid?: number;
   bounds?: {
     x: number;
     y: number;
@@ -20,6 +28,18 @@ export interface WindowInfo {
   };
 }
 
+/**
+ * Active window with its owning process (security policy matching)
+ */
+export interface WindowDetails extends WindowInfo {
+  /** Win32 class name, X11 WM_CLASS / Wayland app id, macOS bundle id */
+  windowClass?: string;
+  /** Process name without extension ("chrome", "KeePassXC") */
+  processName?: string;
+  /** Executable path */
+  processPath?: string;
+}
+
 export async function listWindows(): Promise<WindowInfo[]> {
   if (platform === 'win32') {
     return listWindowsWindows();
@@ -136,6 +156,17 @@ async function listWindowsMacOS(): Promise<WindowInfo[]> {
 }
 
 async function listWindowsLinux(): Promise<WindowInfo[]> {
+  // Wayland: ask the compositor, X11 tools only see XWayland windows
+  const { windows } = detectLinuxDisplayBackend();
+  if (windows !== 'none') {
+    try {
+      return await listWindowsWayland(windows);
+    } catch (error) {
+      console.error(`[OScribe] Failed to list windows (${windows}):`, error);
+      return [];
+    }
+  }
+
   try {
     const { stdout } = await execAsync('wmctrl -l');
     const lines = stdout.split('\n').filter(Boolean);
@@ -237,6 +268,11 @@ async function focusWindowMacOS(titleOrApp: string): Promise<boolean> {
 }
 
 async function focusWindowLinux(titleOrApp: string): Promise<boolean> {
+  const { windows } = detectLinuxDisplayBackend();
+  if (windows !== 'none') {
+    return focusWindowWayland(windows, titleOrApp).catch(() => false);
+  }
+
   try {
     await execAsync(`wmctrl -a "${titleOrApp}"`);
     return true;
@@ -357,6 +393,11 @@ async function getActiveWindowMacOS(): Promise<WindowInfo | null> {
 }
 
 async function getActiveWindowLinux(): Promise<WindowInfo | null> {
+  const { windows } = detectLinuxDisplayBackend();
+  if (windows !== 'none') {
+    return getActiveWindowWayland(windows).catch(() => null);
+  }
+
   try {
     // Get active window ID
     const { stdout: idOut } = await execAsync('xdotool getactivewindow');
@@ -371,3 +412,337 @@ async function getActiveWindowLinux(): Promise<WindowInfo | null> {
     return null;
   }
 }
+
+export async function getActiveWindowDetails(): Promise<WindowDetails | null> {
+  if (platform === 'win32') {
+    return getActiveWindowDetailsWindows();
+  } else if (platform === 'darwin') {
+    return getActiveWindowDetailsMacOS();
+  } else {
+    return getActiveWindowDetailsLinux();
+  }
+}
+
+async function getActiveWindowDetailsWindows(): Promise<WindowDetails | null> {
+  const psScript = `
+[Console]::OutputEncoding = [System.Text.Encoding]::UTF8;
+Add-Type @"
+using System;
+using System.Runtime.InteropServices;
+using System.Text;
+public class Win32Foreground {
+    [DllImport("user32.dll")]
+    public static extern IntPtr GetForegroundWindow();
+    [DllImport("user32.dll", CharSet = CharSet.Unicode)]
+    public static extern int GetWindowText(IntPtr hWnd, StringBuilder lpString, int nMaxCount);
+    [DllImport("user32.dll", CharSet = CharSet.Unicode)]
+    public static extern int GetClassName(IntPtr hWnd, StringBuilder lpClassName, int nMaxCount);
+    [DllImport("user32.dll")]
+    public static extern uint GetWindowThreadProcessId(IntPtr hWnd, out uint lpdwProcessId);
+}
+"@;
+
+$hwnd = [Win32Foreground]::GetForegroundWindow();
+if ($hwnd -eq [IntPtr]::Zero) {
+    exit 1;
+}
+$title = New-Object System.Text.StringBuilder 1024;
+[Win32Foreground]::GetWindowText($hwnd, $title, $title.Capacity) | Out-Null;
+$class = New-Object System.Text.StringBuilder 256;
+[Win32Foreground]::GetClassName($hwnd, $class, $class.Capacity) | Out-Null;
+$procId = [uint32]0;
+[Win32Foreground]::GetWindowThreadProcessId($hwnd, [ref]$procId) | Out-Null;
+# Path is null for elevated processes when OScribe isn't elevated
+$proc = Get-Process -Id $procId -ErrorAction SilentlyContinue;
+@{
+    id = "$hwnd";
+    title = $title.ToString();
+    windowClass = $class.ToString();
+    pid = [int]$procId;
+    processName = $proc.ProcessName;
+    processPath = $proc.Path
+} | ConvertTo-Json -Compress
+`;
+
+  try {
+    const encoded = Buffer.from(psScript, 'utf16le').toString('base64');
+    const { stdout } = await execAsync(`powershell -NoProfile -EncodedCommand ${encoded}`, {
+      windowsHide: true,
+    });
+    const info = JSON.parse(stdout.trim()) as {
+      id: string;
+      title: string;
+      windowClass: string;
+      pid: number;
+      processName: string | null;
+      processPath: string | null;
+    };
+    return {
+      id: info.id,
+      title: info.title,
+      pid: info.pid,
+      ...(info.windowClass ? { windowClass: info.windowClass } : {}),
+      ...(info.processName ? { processName: info.processName, app: info.processName } : {}),
+      ...(info.processPath ? { processPath: info.processPath } : {}),
+    };
+  } catch {
+    return null;
+  }
+}
+
+async function getActiveWindowDetailsMacOS(): Promise<WindowDetails | null> {
+  try {
+    // Title last: it may contain the separator
+    const script = `
+      tell application "System Events"
+        set frontApp to first application process whose frontmost is true
+        set bundleId to ""
+        try
+          set bundleId to bundle identifier of frontApp
+        end try
+        set windowTitle to ""
+        try
+          set windowTitle to name of front window of frontApp
+        end try
+        return name of frontApp & "|" & (unix id of frontApp) & "|" & bundleId & "|" & windowTitle
+      end tell
+    `;
+    const { stdout } = await execFileAsync('osascript', ['-e', script]);
+    const [app = '', pidText = '', bundleId = '', ...titleParts] = stdout.trim().split('|');
+    const pid = parseInt(pidText, 10);
+    const title = titleParts.join('|') || app;
+
+    let processPath = '';
+    if (!isNaN(pid)) {
+      const { stdout: comm } = await execFileAsync('ps', ['-o', 'comm=', '-p', String(pid)]);
+      processPath = comm.trim();
+    }
+
+    return {
+      id: '0',
+      title,
+      app,
+      processName: app,
+      ...(!isNaN(pid) ? { pid } : {}),
+      ...(bundleId ? { windowClass: bundleId } : {}),
+      ...(processPath ? { processPath } : {}),
+    };
+  } catch {
+    return null;
+  }
+}
+
+async function getActiveWindowDetailsLinux(): Promise<WindowDetails | null> {
+  const window = await getActiveWindow();
+  if (!window) return null;
+
+  const details: WindowDetails = { ...window };
+  if (window.app) details.windowClass = window.app;
+
+  // X11: pid and WM_CLASS from xdotool (Wayland compositors report them in the window list)
+  if (/^\d+$/.test(window.id) && detectLinuxDisplayBackend().windows === 'none') {
+    try {
+      const { stdout } = await execFileAsync('xdotool', ['getwindowpid', window.id], { timeout: 5000 });
+      const pid = parseInt(stdout.trim(), 10);
+      if (!isNaN(pid)) details.pid = pid;
+    } catch {
+      // Windows without _NET_WM_PID
+    }
+    try {
+      const { stdout } = await execFileAsync('xdotool', ['getwindowclassname', window.id], { timeout: 5000 });
+      if (stdout.trim()) details.windowClass = stdout.trim();
+    } catch {
+      // xdotool < 3.2021
+    }
+  }
+
+  if (details.pid !== undefined) {
+    Object.assign(details, await readProcessLinux(details.pid));
+  }
+  return details;
+}
+
+/**
+ * Linux: process name and executable from /proc
+ */
+async function readProcessLinux(pid: number): Promise<Pick<WindowDetails, 'processName' | 'processPath'>> {
+  const info: Pick<WindowDetails, 'processName' | 'processPath'> = {};
+  try {
+    info.processName = (await readFile(`/proc/${pid}/comm`, 'utf-8')).trim();
+    info.processPath = await readlink(`/proc/${pid}/exe`);
+  } catch {
+    // Process gone, or owned by another user
+  }
+  return info;
+}
+
+/**
+ * Visible windows with their bounds and owning process, front to back where the
+ * window system reports stacking (screenshot masking)
+ * Windows without bounds are left out
+ */
+export async function listWindowDetails(): Promise<WindowDetails[]> {
+  if (platform === 'win32') {
+    return listWindowDetailsWindows();
+  } else if (platform === 'darwin') {
+    return listWindowDetailsMacOS();
+  } else {
+    return listWindowDetailsLinux();
+  }
+}
+
+interface ListedWindow {
+  id: string;
+  title: string;
+  app?: string;
+  windowClass?: string | null;
+  pid?: number;
+  processName?: string | null;
+  processPath?: string | null;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function toWindowDetails(win: ListedWindow): WindowDetails {
+  return {
+    id: win.id,
+    title: win.title,
+    ...(win.app ? { app: win.app } : {}),
+    ...(win.pid ? { pid: win.pid } : {}),
+    ...(win.windowClass ? { windowClass: win.windowClass } : {}),
+    ...(win.processName ? { processName: win.processName } : {}),
+    ...(win.processPath ? { processPath: win.processPath } : {}),
+    bounds: { x: win.x, y: win.y, width: win.width, height: win.height },
+  };
+}
+
+async function listWindowDetailsWindows(): Promise<WindowDetails[]> {
+  const scriptPath = join(__dirname, '..', '..', '..', 'scripts', 'windows', 'list-window-details.ps1');
+  try {
+    const { stdout } = await execFileAsync('powershell', ['-NoProfile', '-ExecutionPolicy', 'Bypass', '-File', scriptPath], {
+      windowsHide: true,
+      timeout: 10000,
+      maxBuffer: 10 * 1024 * 1024,
+    });
+    const windows = JSON.parse(stdout.trim() || '[]') as ListedWindow[];
+    return windows.map((win) => ({ ...toWindowDetails(win), ...(win.processName ? { app: win.processName } : {}) }));
+  } catch (error) {
+    console.error('[OScribe] Failed to list window details:', error);
+    return [];
+  }
+}
+
+async function listWindowDetailsMacOS(): Promise<WindowDetails[]> {
+  // CGWindowList: on-screen windows front to back, normal window layer only (no menu bar, Dock)
+  const script = `
+    ObjC.import('CoreGraphics');
+    ObjC.import('AppKit');
+    const list = ObjC.deepUnwrap(ObjC.castRefToObject(
+      $.CGWindowListCopyWindowInfo($.kCGWindowListOptionOnScreenOnly | $.kCGWindowListExcludeDesktopElements, $.kCGNullWindowID)));
+    const apps = {};
+    JSON.stringify(list.filter((w) => w.kCGWindowLayer === 0).map((w) => {
+      const pid = w.kCGWindowOwnerPID;
+      if (!(pid in apps)) {
+        const app = $.NSRunningApplication.runningApplicationWithProcessIdentifier(pid);
+        apps[pid] = { windowClass: ObjC.unwrap(app.bundleIdentifier) || '', processPath: ObjC.unwrap(app.executableURL.path) || '' };
+      }
+      const b = w.kCGWindowBounds;
+      const app = w.kCGWindowOwnerName || '';
+      return Object.assign({ id: String(w.kCGWindowNumber), title: w.kCGWindowName || app, app, processName: app, pid,
+        x: b.X, y: b.Y, width: b.Width, height: b.Height }, apps[pid]);
+    }));
+  `;
+  try {
+    const { stdout } = await execFileAsync('osascript', ['-l', 'JavaScript', '-e', script], { timeout: 10000 });
+    return (JSON.parse(stdout.trim()) as ListedWindow[]).map(toWindowDetails);
+  } catch (error) {
+    console.error('[OScribe] Failed to list window details:', error);
+    return [];
+  }
+}
+
+/**
+ * Class part of an X11 WM_CLASS "instance.Class" pair as printed by wmctrl -x
+ * ("org.gnome.Nautilus.Org.gnome.Nautilus" -> "Org.gnome.Nautilus")
+ */
+function wmClassName(wmClass: string): string {
+  const half = (wmClass.length - 1) / 2;
+  if (Number.isInteger(half) && wmClass[half] === '.' &&
+      wmClass.slice(0, half).toLowerCase() === wmClass.slice(half + 1).toLowerCase()) {
+    return wmClass.slice(half + 1);
+  }
+  return wmClass.slice(wmClass.lastIndexOf('.') + 1);
+}
+
+async function listWindowDetailsLinux(): Promise<WindowDetails[]> {
+  const { windows: backend } = detectLinuxDisplayBackend();
+  let windows: WindowDetails[];
+
+  if (backend !== 'none') {
+    try {
+      windows = (await listWindowsWayland(backend))
+        .filter((win) => win.bounds)
+        .map((win) => ({ ...win, ...(win.app ? { windowClass: win.app } : {}) }));
+    } catch (error) {
+      console.error(`[OScribe] Failed to list window details (${backend}):`, error);
+      return [];
+    }
+  } else {
+    try {
+      windows = await listWindowDetailsX11();
+    } catch (error) {
+      console.error('[OScribe] Failed to list window details:', error);
+      return [];
+    }
+  }
+
+  const processes = new Map<number, Pick<WindowDetails, 'processName' | 'processPath'>>();
+  for (const win of windows) {
+    if (win.pid === undefined) continue;
+    if (!processes.has(win.pid)) processes.set(win.pid, await readProcessLinux(win.pid));
+    Object.assign(win, processes.get(win.pid));
+  }
+  return windows;
+}
+
+async function listWindowDetailsX11(): Promise<WindowDetails[]> {
+  // -p pid, -G geometry, -x WM_CLASS: id desktop pid x y w h class host title
+  const { stdout } = await execFileAsync('wmctrl', ['-lpGx'], { timeout: 5000 });
+
+  // Windows of other workspaces are not on screen (-1: sticky, on every workspace)
+  let currentDesktop = '';
+  try {
+    const { stdout: desktops } = await execFileAsync('wmctrl', ['-d'], { timeout: 5000 });
+    currentDesktop = desktops.split('\n').find((line) => /^\d+\s+\*/.test(line))?.split(/\s+/)[0] ?? '';
+  } catch {
+    // No desktop support: keep every window
+  }
+
+  const windows: WindowDetails[] = [];
+  for (const line of stdout.split('\n').filter(Boolean)) {
+    const [id = '', desktop = '', pidText = '', x = '', y = '', width = '', height = '', wmClass = '', , ...titleParts] = line.split(/\s+/);
+    if (currentDesktop && desktop !== currentDesktop && desktop !== '-1') continue;
+
+    const pid = parseInt(pidText, 10);
+    windows.push({
+      id,
+      title: titleParts.join(' '),
+      ...(pid > 0 ? { pid } : {}),
+      ...(wmClass && wmClass !== 'N/A' ? { windowClass: wmClassName(wmClass) } : {}),
+      bounds: { x: parseInt(x, 10), y: parseInt(y, 10), width: parseInt(width, 10), height: parseInt(height, 10) },
+    });
+  }
+
+  // wmctrl lists in mapping order - sort front to back with the stacking order (bottom to top)
+  try {
+    const { stdout: stacking } = await execFileAsync('xprop', ['-root', '_NET_CLIENT_LIST_STACKING'], { timeout: 5000 });
+    const order = (stacking.match(/0x[0-9a-f]+/gi) ?? []).map((hex) => parseInt(hex, 16));
+    const rank = (win: WindowDetails): number => order.indexOf(parseInt(win.id, 16));
+    windows.sort((a, b) => rank(b) - rank(a));
+  } catch {
+    // No stacking information: keep the mapping order
+  }
+  return windows;
+}
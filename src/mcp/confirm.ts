@@ -0,0 +1,71 @@
+/**
+ * Confirmation channel of an MCP connection
+ * Asks the client with an elicitation request when it supports them, otherwise waits
+ * for `oscribe approve`. Every decision is recorded in the session.
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { loadConfig } from '../config/index.js';
+import {
+  describeConfirmation,
+  toConfirmationRecord,
+  waitForApproval,
+  type ConfirmationHandler,
+  type ConfirmationRequest,
+  type ConfirmationResult,
+} from '../core/confirmation.js';
+import type { ToolContext } from './registry.js';
+
+/**
+ * Ask the user through the MCP client
+ */
+async function elicit(server: Server, request: ConfirmationRequest, timeoutMs: number): Promise<ConfirmationResult> {
+  try {
+    const response = await server.elicitInput(
+      {
+        message: `OScribe needs your approval:\n\n${describeConfirmation(request)}`,
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            approve: { type: 'boolean', title: 'Approve', description: 'Run this action' },
+            reason: { type: 'string', title: 'Reason', description: 'Optional note kept in the session' },
+          },
+          required: ['approve'],
+        },
+      },
+      { timeout: timeoutMs }
+    );
+
+    const reason = typeof response.content?.['reason'] === 'string' && response.content['reason']
+      ? response.content['reason']
+      : undefined;
+    if (response.action === 'accept') {
+      return { approved: response.content?.['approve'] === true, channel: 'elicitation', ...(reason ? { reason } : {}) };
+    }
+    return { approved: false, channel: 'elicitation', reason: response.action === 'decline' ? 'declined by the user' : 'cancelled by the user' };
+  } catch (error) {
+    if (error instanceof McpError && error.code === Number(ErrorCode.RequestTimeout)) {
+      return { approved: false, channel: 'timeout', reason: `no answer within ${Math.round(timeoutMs / 1000)}s` };
+    }
+    // Client advertised elicitation but failed it: fall back to the approval queue
+    console.error('[OScribe] Elicitation failed, waiting for "oscribe approve" instead:', error);
+    return waitForApproval(request, timeoutMs);
+  }
+}
+
+/**
+ * Confirmation handler for tool calls of this connection
+ */
+export function createConfirmationHandler(ctx: ToolContext): ConfirmationHandler {
+  return async (request) => {
+    const { timeoutMs } = loadConfig().confirmation;
+    const result = ctx.server.getClientCapabilities()?.elicitation
+      ? await elicit(ctx.server, request, timeoutMs)
+      : await waitForApproval(request, timeoutMs);
+
+    ctx.getRecorder().recordConfirmation(toConfirmationRecord(request, result));
+    console.error(`[OScribe] Confirmation ${request.id}: ${result.approved ? 'approved' : 'denied'} (${result.channel})`);
+    return result;
+  };
+}
@@ -0,0 +1,22 @@
+/**
+ * Tool error formatting shared by the CallTool handler and composite tools (os_batch)
+ */
+
+import { RestrictedActionError } from '../core/security.js';
+import { UserInterruptError } from '../core/killswitch.js';
+
+/**
+ * Format a tool error message
+ * Security errors get special prefixes for clarity
+ */
+export function formatToolError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof RestrictedActionError) {
+    return `[RESTRICTED] ${message}`;
+  }
+  if (error instanceof UserInterruptError) {
+    return `[KILL SWITCH] ${message}`;
+  }
+  return message;
+}
@@ -0,0 +1,310 @@
+/**
+ * HTTP transport for the MCP server
+ * Streamable HTTP on /mcp, with the legacy SSE transport on /sse + /messages
+ * Each MCP session gets its own Server instance (and its own connection state)
+ *
+ * Without a token the server only binds to loopback, and requests must carry a loopback
+ * Host (and Origin, if any): a web page can't reach it through DNS rebinding.
+ */
+
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import type { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest, type JSONRPCMessage, type MessageExtraInfo } from '@modelcontextprotocol/sdk/types.js';
+import { loadConfig } from '../config/index.js';
+
+export interface HttpServerOptions {
+  port: number;
+  /** Bind address (default: config.mcpServer.httpHost) */
+  host?: string;
+  /** Bearer token (default: config.mcpServer.httpToken) */
+  token?: string;
+}
+
+// Max JSON-RPC request body size
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const SERVER_ERROR = -32000;
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Request body that isn't valid JSON (answered with a JSON-RPC parse error)
+ */
+class BodyParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BodyParseError';
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, BodyParseError);
+    }
+  }
+}
+
+function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127(\.\d{1,3}){3}$/.test(host);
+}
+
+/**
+ * Host header values accepted on a loopback bind - anything else is a DNS-rebound name
+ */
+function loopbackHostHeaders(host: string, port: number): string[] {
+  const bound = host.includes(':') ? `[${host}]` : host;
+  const names = LOOPBACK_HOSTS.includes(bound) ? LOOPBACK_HOSTS : [...LOOPBACK_HOSTS, bound];
+  return names.map((name) => `${name}:${port}`);
+}
+
+/**
+ * Check Host and Origin against the allowed hosts (null: not checked)
+ * Returns the reason a request is refused, or null
+ */
+function checkRequestOrigin(req: IncomingMessage, allowedHosts: string[] | null): string | null {
+  if (!allowedHosts) {
+    return null;
+  }
+  const host = req.headers.host ?? '';
+  if (!allowedHosts.includes(host)) {
+    return `Invalid Host header: ${host}`;
+  }
+  // Browsers send Origin on cross-origin requests; other clients usually don't
+  const origin = req.headers.origin;
+  if (origin !== undefined && !allowedHosts.some((allowed) => origin === `http://${allowed}`)) {
+    return `Invalid Origin header: ${origin}`;
+  }
+  return null;
+}
+
+/**
+ * Check the Authorization header against the configured bearer token
+ */
+function isAuthorized(req: IncomingMessage, token: string | undefined): boolean {
+  if (!token) {
+    return true;
+  }
+
+  const header = req.headers.authorization ?? '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match?.[1]) {
+    return false;
+  }
+
+  const expected = Buffer.from(token);
+  const received = Buffer.from(match[1].trim());
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buf = chunk as Buffer;
+    size += buf.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(buf);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  if (!raw) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch (error) {
+    throw new BodyParseError(`Parse error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function sendJsonError(res: ServerResponse, status: number, message: string, code = SERVER_ERROR): void {
+  if (res.headersSent) {
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  }));
+}
+
+/**
+ * Transport view of a StreamableHTTPServerTransport
+ * Its handler accessors are typed `| undefined`, which Transport doesn't accept with
+ * exactOptionalPropertyTypes - the handlers are forwarded instead
+ */
+class StreamableSession implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: <T extends JSONRPCMessage>(message: T, extra?: MessageExtraInfo) => void;
+  sessionId?: string;
+
+  constructor(readonly http: StreamableHTTPServerTransport) {
+    http.onclose = (): void => this.onclose?.();
+    http.onerror = (error): void => this.onerror?.(error);
+    http.onmessage = (message, extra): void => {
+      // Set while the initialize request is handled
+      if (http.sessionId) this.sessionId = http.sessionId;
+      this.onmessage?.(message, extra);
+    };
+  }
+
+  start(): Promise<void> {
+    return this.http.start();
+  }
+
+  send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    return this.http.send(message, options);
+  }
+
+  close(): Promise<void> {
+    return this.http.close();
+  }
+}
+
+/**
+ * Start the MCP server over HTTP
+ * @param createServer - Factory returning a fresh Server for each new session
+ */
+export async function startHttpServer(
+  createServer: () => Server,
+  options: HttpServerOptions
+): Promise<void> {
+  const config = loadConfig();
+  const host = options.host ?? config.mcpServer.httpHost;
+  const token = options.token ?? config.mcpServer.httpToken;
+
+  if (!token && !isLoopbackHost(host)) {
+    throw new Error(`Refusing to serve on ${host} without authentication: set mcpServer.httpToken, or bind to 127.0.0.1`);
+  }
+  // With a token, a rebound page can't authenticate; without one, only loopback names are accepted
+  const allowedHosts = token ? null : loopbackHostHeaders(host, options.port);
+
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    // Existing session
+    if (typeof sessionId === 'string') {
+      const transport = streamableTransports.get(sessionId);
+      if (!transport) {
+        sendJsonError(res, 404, `Unknown session: ${sessionId}`);
+        return;
+      }
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    // New session - only an initialize request may open one
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonError(res, 400, 'Missing mcp-session-id header (send an initialize request first)');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: (): string => randomUUID(),
+      onsessioninitialized: (id): void => {
+        streamableTransports.set(id, transport);
+        console.error(`[OScribe] HTTP session opened: ${id}`);
+      },
+    });
+
+    const session = new StreamableSession(transport);
+    session.onclose = (): void => {
+      if (transport.sessionId) {
+        streamableTransports.delete(transport.sessionId);
+        console.error(`[OScribe] HTTP session closed: ${transport.sessionId}`);
+      }
+    };
+
+    await createServer().connect(session);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseStream = async (res: ServerResponse): Promise<void> => {
+    const transport = new SSEServerTransport('/messages', res);
+    sseTransports.set(transport.sessionId, transport);
+    console.error(`[OScribe] SSE session opened: ${transport.sessionId}`);
+
+    res.on('close', () => {
+      sseTransports.delete(transport.sessionId);
+      console.error(`[OScribe] SSE session closed: ${transport.sessionId}`);
+    });
+
+    await createServer().connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> => {
+    const sessionId = url.searchParams.get('sessionId') ?? '';
+    const transport = sseTransports.get(sessionId);
+    if (!transport) {
+      sendJsonError(res, 404, `Unknown session: ${sessionId}`);
+      return;
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    const refused = checkRequestOrigin(req, allowedHosts);
+    if (refused) {
+      sendJsonError(res, 403, refused);
+      return;
+    }
+
+    if (!isAuthorized(req, token)) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Bearer' });
+      res.end('Unauthorized');
+      return;
+    }
+
+    // Fixed base: the Host header is client input, and a throw here would take the server down
+    let url: URL;
+    try {
+      url = new URL(req.url ?? '/', 'http://localhost');
+    } catch {
+      sendJsonError(res, 400, `Invalid request URL: ${req.url ?? ''}`);
+      return;
+    }
+
+    let handler: Promise<void>;
+    if (url.pathname === '/mcp') {
+      handler = handleStreamable(req, res);
+    } else if (url.pathname === '/sse' && req.method === 'GET') {
+      handler = handleSseStream(res);
+    } else if (url.pathname === '/messages' && req.method === 'POST') {
+      handler = handleSseMessage(req, res, url);
+    } else {
+      res.writeHead(404);
+      res.end('Not found');
+      return;
+    }
+
+    handler.catch((error: unknown) => {
+      if (error instanceof BodyParseError) {
+        sendJsonError(res, 400, error.message, PARSE_ERROR);
+        return;
+      }
+      console.error('[OScribe] HTTP request failed:', error);
+      sendJsonError(res, 500, error instanceof Error ? error.message : String(error));
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, host, () => resolve());
+  });
+
+  if (!token) {
+    console.error('[OScribe] WARNING: no mcpServer.httpToken configured - HTTP endpoint is unauthenticated (loopback Host/Origin only)');
+  }
+  console.error(`OScribe MCP server started on http://${host}:${options.port}/mcp (SSE: /sse)`);
+}
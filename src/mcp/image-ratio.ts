@@ -0,0 +1,52 @@
+/**
+ * Client image size limits
+ * Used to tell the agent how much its client downscaled a screenshot
+ */
+
+// Known client image size limits for calculating resize ratio
+// When models receive images larger than their limit, they resize them
+interface ClientImageLimit {
+  maxLongEdge: number;
+  name: string;
+}
+
+const CLIENT_IMAGE_LIMITS: Record<string, ClientImageLimit> = {
+  // Claude models (Claude Desktop, Claude Code, etc.)
+  claude: { maxLongEdge: 1568, name: 'Claude' },
+  anthropic: { maxLongEdge: 1568, name: 'Claude' },
+  // OpenAI models
+  openai: { maxLongEdge: 2048, name: 'GPT-4V' },
+  // Google models
+  gemini: { maxLongEdge: 3072, name: 'Gemini' },
+  google: { maxLongEdge: 3072, name: 'Gemini' },
+  // Default fallback (conservative estimate)
+  default: { maxLongEdge: 1568, name: 'Unknown' },
+};
+
+/**
+ * Calculate image resize ratio based on client
+ * Models resize images when the long edge exceeds their limit
+ */
+export function calculateImageRatio(width: number, height: number, clientName?: string): { ratio: number; clientType: string } {
+  const longEdge = Math.max(width, height);
+  const defaultLimit: ClientImageLimit = { maxLongEdge: 1568, name: 'Unknown' };
+
+  // Try to match client name to known limits
+  let clientLimit: ClientImageLimit = defaultLimit;
+  if (clientName) {
+    const lowerName = clientName.toLowerCase();
+    for (const [key, limit] of Object.entries(CLIENT_IMAGE_LIMITS)) {
+      if (key !== 'default' && lowerName.includes(key)) {
+        clientLimit = limit;
+        break;
+      }
+    }
+  }
+
+  // If image is larger than limit, calculate resize ratio
+  const ratio = longEdge > clientLimit.maxLongEdge
+    ? longEdge / clientLimit.maxLongEdge
+    : 1;
+
+  return { ratio, clientType: clientLimit.name };
+}
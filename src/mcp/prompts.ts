@@ -0,0 +1,133 @@
+/**
+ * MCP prompts - parameterised templates for common automation workflows
+ * Each template expands into step-by-step instructions using the real os_* tools
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+  type GetPromptResult,
+  type PromptArgument,
+} from '@modelcontextprotocol/sdk/types.js';
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  render(args: Record<string, string>): string;
+}
+
+// Shared reminder of the coordinate convention emitted by os_screenshot
+const CLICK_CONVENTION = `Coordinates: os_screenshot lists elements as \`- Type: "Name" pos=(x,y) center=(cx,cy) [WxH]\`.
+Always click with os_click_at(x=cx, y=cy) using the center=(cx,cy) values. Never estimate positions from the image.`;
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'fill_form',
+    description: 'Fill in a form in a given window, field by field, then verify',
+    arguments: [
+      { name: 'window', description: 'Window title or app name containing the form', required: true },
+      { name: 'fields', description: 'Field values, one per line: "Label: value"', required: true },
+      { name: 'submit', description: 'Label of the submit button to click at the end (optional)', required: false },
+    ],
+    render: ({ window, fields, submit }) => `Fill in the form in the window "${window}".
+
+Field values:
+${fields}
+
+Steps:
+1. os_focus(window="${window}") then os_screenshot to see the form.
+2. For each field above, find the matching Edit/ComboBox/CheckBox element in the Elements list (match by name, or by the Text label next to it).
+3. os_click_at its center=(cx,cy), then os_hotkey(keys="ctrl+a") to select existing content, then os_type(text=<value>).
+   - ComboBox: click it, os_screenshot, then click the ListItem with the wanted value.
+   - CheckBox: click only if its current state differs from the wanted value.
+4. After all fields, os_screenshot again and check each field's value="..." matches what you typed.
+${submit ? `5. Click the "${submit}" button, wait with os_wait(ms=1000), then os_screenshot to confirm the result.` : '5. Do NOT submit the form - report the filled values instead.'}
+
+${CLICK_CONVENTION}
+If an action returns [RESTRICTED] or [KILL SWITCH], stop and report to the user.`,
+  },
+  {
+    name: 'navigate_browser',
+    description: 'Open a URL in a browser window and verify the page loaded',
+    arguments: [
+      { name: 'url', description: 'URL to open', required: true },
+      { name: 'browser', description: 'Browser window to use (e.g. "Chrome", "Edge"); defaults to the active window', required: false },
+      { name: 'expect', description: 'Text expected on the loaded page', required: false },
+    ],
+    render: ({ url, browser, expect }) => `Navigate the browser to ${url} and verify the page.
+
+Steps:
+1. ${browser ? `os_focus(window="${browser}")` : 'Use the browser in the active window'}, then os_screenshot.
+2. Check the "Strategy" line. If it says "CDP not enabled", call os_browser_restart_with_cdp${browser ? `(window="${browser}")` : ''} first to get full element detection.
+3. os_hotkey(keys="primary+l") to focus the address bar (ctrl+l, cmd+l on macOS).
+4. os_type(text="${url}") then os_hotkey(keys="enter").
+5. os_wait(ms=2000), then os_screenshot.
+6. Verify: the window title or address bar shows the expected page${expect ? ` and the text "${expect}" appears in the Elements or Text (OCR) lists` : ''}.
+   If not, wait and take another screenshot (up to 3 times) before reporting failure.
+
+${CLICK_CONVENTION}`,
+  },
+  {
+    name: 'unity_bridge_setup',
+    description: 'Set up the Unity Bridge for a Unity Mono game and verify it exposes UI elements',
+    arguments: [
+      { name: 'gamePath', description: 'Absolute path to the Unity game folder', required: true },
+    ],
+    render: ({ gamePath }) => `Set up the OScribe Unity Bridge for the game at "${gamePath}".
+
+Steps:
+1. os_unity_setup(gamePath="${gamePath}", step="detect") and read the result.
+   - If the runtime is IL2CPP, stop: only Unity Mono games are supported.
+2. os_unity_setup(gamePath="${gamePath}", step="auto") to install BepInEx, build and deploy OScribeBridge.dll.
+   - If the build step fails because dotnet is missing, tell the user to install the .NET SDK from https://dot.net/download.
+3. Ask the user to launch (or restart) the game, then os_wait(ms=5000).
+4. os_focus the game window and os_screenshot.
+5. Verify the header shows "🎮 UNITY GAME" and "Strategy: unity (Unity Bridge active ✓)" with elements listed.
+   If it says "Bridge not connected", wait a few seconds and screenshot again; the bridge starts after the game's first scene loads.
+
+${CLICK_CONVENTION}`,
+  },
+];
+
+/**
+ * Register prompt handlers on a server
+ */
+export function registerPrompts(server: Server): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: PROMPTS.map(({ name, description, arguments: args }) => ({
+      name,
+      description,
+      arguments: args,
+    })),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request): Promise<GetPromptResult> => {
+    const { name, arguments: args = {} } = request.params;
+
+    const prompt = PROMPTS.find((p) => p.name === name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const missing = prompt.arguments
+      .filter((arg) => arg.required && !args[arg.name])
+      .map((arg) => arg.name);
+    if (missing.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required argument(s) for ${name}: ${missing.join(', ')}`);
+    }
+
+    return {
+      description: prompt.description,
+      messages: [
+        {
+          role: 'user',
+          content: { type: 'text', text: prompt.render(args) },
+        },
+      ],
+    };
+  });
+}
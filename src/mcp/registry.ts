@@ -0,0 +1,175 @@
+/**
+ * Tool registry for the MCP server
+ * Each tool is a self-contained definition: zod schema, description, handler, platforms.
+ * The JSON schema sent in ListTools is generated from the zod schema.
+ */
+
+import { resolve, isAbsolute } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { SessionRecorder } from '../core/session-recorder.js';
+import type { ClipboardContent } from '../core/clipboard.js';
+
+/**
+ * Per-connection context passed to every tool handler
+ */
+export interface ToolContext {
+  /** MCP server handling this connection (client info, notifications) */
+  server: Server;
+  /** Session recorder for this connection (created on first use) */
+  getRecorder(): SessionRecorder;
+  /** Window last focused by os_focus, consumed by os_screenshot */
+  lastFocusedWindow: string | null;
+  /** Clipboard saved by os_clipboard_set (preserve), put back by os_clipboard_set (restore) */
+  clipboardSnapshot: ClipboardContent | null;
+}
+
+export interface ToolDefinition<TArgs = unknown> {
+  name: string;
+  description: string;
+  schema: z.ZodType<TArgs, z.ZodTypeDef, unknown>;
+  /** Platforms where the tool works (default: all) */
+  platforms?: typeof process.platform[];
+  handler(args: TArgs, ctx: ToolContext): Promise<CallToolResult>;
+}
+
+/**
+ * Define a tool with argument types inferred from its schema
+ */
+export function defineTool<TArgs>(tool: ToolDefinition<TArgs>): ToolDefinition<TArgs> {
+  return tool;
+}
+
+const PLATFORM_NAMES: Partial<Record<typeof process.platform, string>> = {
+  win32: 'Windows',
+  darwin: 'macOS',
+  linux: 'Linux',
+};
+
+/**
+ * Custom error for plugin loading failures
+ * Following error-handling-patterns skill
+ */
+export class ToolPluginError extends Error {
+  constructor(
+    message: string,
+    public readonly plugin: string
+  ) {
+    super(message);
+    this.name = 'ToolPluginError';
+    // Preserve stack trace (V8 engines)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  register<TArgs>(tool: ToolDefinition<TArgs>): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool "${tool.name}" is already registered`);
+    }
+    this.tools.set(tool.name, tool as ToolDefinition);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Check if a tool is available on the current platform
+   */
+  isAvailable(tool: ToolDefinition): boolean {
+    return !tool.platforms || tool.platforms.includes(process.platform);
+  }
+
+  /**
+   * Tool list for ListTools - only tools available on this platform
+   */
+  list(): Tool[] {
+    return [...this.tools.values()]
+      .filter((tool) => this.isAvailable(tool))
+      .map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: toInputSchema(tool.schema),
+      }));
+  }
+
+  /**
+   * Validate arguments and run a tool
+   * Throws on unknown tool or invalid arguments (caller formats the error)
+   */
+  async call(name: string, args: unknown, ctx: ToolContext): Promise<CallToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    if (!this.isAvailable(tool)) {
+      const platforms = (tool.platforms ?? []).map((p) => PLATFORM_NAMES[p] ?? p).join(', ');
+      return {
+        content: [{ type: 'text', text: `${name} is only available on ${platforms}.` }],
+      };
+    }
+
+    const parsed = tool.schema.parse(args ?? {});
+    return tool.handler(parsed, ctx);
+  }
+
+  /**
+   * Load third-party tools from a plugin module
+   * A plugin exports either `register(registry)` or a `tools` array (named or default)
+   * @param specifier - File path (absolute or relative to cwd) or package name
+   */
+  async loadPlugin(specifier: string): Promise<void> {
+    const isPath = isAbsolute(specifier) || specifier.startsWith('.');
+    const url = isPath ? pathToFileURL(resolve(specifier)).href : specifier;
+
+    let mod: { register?: unknown; tools?: unknown; default?: unknown };
+    try {
+      mod = (await import(url)) as typeof mod;
+    } catch (error) {
+      throw new ToolPluginError(
+        `Failed to load plugin "${specifier}": ${error instanceof Error ? error.message : String(error)}`,
+        specifier
+      );
+    }
+
+    const register = mod.register ?? mod.default;
+    if (typeof register === 'function') {
+      await (register as (registry: ToolRegistry) => unknown)(this);
+      return;
+    }
+
+    const tools = mod.tools ?? mod.default;
+    if (!Array.isArray(tools)) {
+      throw new ToolPluginError(
+        `Plugin "${specifier}" must export a register(registry) function or a tools array`,
+        specifier
+      );
+    }
+    for (const tool of tools as ToolDefinition[]) {
+      this.register(tool);
+    }
+  }
+}
+
+/**
+ * Convert a zod schema to the MCP tool inputSchema (JSON Schema object)
+ */
+function toInputSchema(schema: z.ZodTypeAny): Tool['inputSchema'] {
+  const jsonSchema = zodToJsonSchema(schema, { $refStrategy: 'none', target: 'jsonSchema7' }) as Record<string, unknown>;
+  delete jsonSchema['$schema'];
+  delete jsonSchema['additionalProperties'];
+  return { ...jsonSchema, type: 'object' };
+}
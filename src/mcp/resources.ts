@@ -0,0 +1,162 @@
+/**
+ * MCP resources - recorded sessions and live screen state
+ * Lets agents re-read past state without paying for a fresh screenshot
+ *
+ * - oscribe://sessions                          List of recorded sessions
+ * - oscribe://sessions/{id}                     session.json
+ * - oscribe://sessions/{id}/screenshots/{n}     Screenshot image + its _ui.json context
+ * - oscribe://screen/current/elements           Live UI element tree
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  type ReadResourceResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import { buildScreenMask, filterMaskedElements, getBlockedWindowLayers, maskWindowTitle } from '../core/privacy.js';
+import { getUIElements } from '../core/uiautomation.js';
+import { listSessions, loadSession, getSessionDirById, toElementContext } from '../core/session-recorder.js';
+import type { ToolContext } from './registry.js';
+
+const SESSIONS_URI = 'oscribe://sessions';
+const CURRENT_ELEMENTS_URI = 'oscribe://screen/current/elements';
+
+const SESSION_URI_PATTERN = /^oscribe:\/\/sessions\/([^/]+)$/;
+const SCREENSHOT_URI_PATTERN = /^oscribe:\/\/sessions\/([^/]+)\/screenshots\/(\d+)$/;
+
+function notFound(uri: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+}
+
+function jsonContent(uri: string, data: unknown): ReadResourceResult['contents'][number] {
+  return {
+    uri,
+    mimeType: 'application/json',
+    text: JSON.stringify(data, null, 2),
+  };
+}
+
+/**
+ * Screenshot image + UI context saved by SessionRecorder.saveScreenshot()
+ */
+function readScreenshot(uri: string, sessionId: string, index: number): ReadResourceResult {
+  const session = loadSession(sessionId);
+  const sessionDir = getSessionDirById(sessionId);
+  const screenshotPath = session?.screenshots[index];
+  if (!session || !sessionDir || !screenshotPath) {
+    throw notFound(uri);
+  }
+
+  // Paths in session.json are absolute - resolve inside the session dir in case it moved
+  const fileName = screenshotPath.split(/[/\\]/).pop() ?? '';
+  const imagePath = join(sessionDir, 'screenshots', fileName);
+  if (!existsSync(imagePath)) {
+    throw notFound(uri);
+  }
+
+  const contents: ReadResourceResult['contents'] = [
+    {
+      uri,
+      mimeType: 'image/png',
+      blob: readFileSync(imagePath).toString('base64'),
+    },
+  ];
+
+  const uiContextPath = join(dirname(imagePath), `${index}_ui.json`);
+  if (existsSync(uiContextPath)) {
+    contents.push({
+      uri: `${uri}/ui.json`,
+      mimeType: 'application/json',
+      text: readFileSync(uiContextPath, 'utf-8'),
+    });
+  }
+
+  return { contents };
+}
+
+/**
+ * Register resource handlers on a server
+ */
+export function registerResources(server: Server, ctx: ToolContext): void {
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: [
+      {
+        uri: SESSIONS_URI,
+        name: 'Recorded sessions',
+        description: 'List of recorded automation sessions (newest first)',
+        mimeType: 'application/json',
+      },
+      {
+        uri: CURRENT_ELEMENTS_URI,
+        name: 'Current screen elements',
+        description: 'Live UI element tree of the active window, with center=(x,y) coordinates',
+        mimeType: 'application/json',
+      },
+    ],
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [
+      {
+        uriTemplate: 'oscribe://sessions/{id}',
+        name: 'Session',
+        description: 'Recorded session (session.json): actions, params, results and screenshot paths',
+        mimeType: 'application/json',
+      },
+      {
+        uriTemplate: 'oscribe://sessions/{id}/screenshots/{n}',
+        name: 'Session screenshot',
+        description: 'Screenshot n of a session (PNG) with the UI elements captured at that time',
+        mimeType: 'image/png',
+      },
+    ],
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request): Promise<ReadResourceResult> => {
+    const { uri } = request.params;
+
+    if (uri === SESSIONS_URI) {
+      return { contents: [jsonContent(uri, listSessions())] };
+    }
+
+    if (uri === CURRENT_ELEMENTS_URI) {
+      const [tree, windowLayers] = await Promise.all([
+        getUIElements(ctx.lastFocusedWindow ?? undefined),
+        getBlockedWindowLayers(),
+      ]);
+      // Same masking as os_screenshot: nothing from blocked apps, regions or password fields
+      const mask = buildScreenMask(windowLayers, tree.elements);
+      return {
+        contents: [jsonContent(uri, {
+          window: maskWindowTitle(windowLayers, tree.window),
+          strategy: tree.strategy,
+          timestamp: tree.timestamp,
+          ...(tree.windowBounds ? { windowBounds: tree.windowBounds } : {}),
+          elements: filterMaskedElements(mask, tree.ui).map(toElementContext),
+        })],
+      };
+    }
+
+    const screenshotMatch = uri.match(SCREENSHOT_URI_PATTERN);
+    if (screenshotMatch?.[1] && screenshotMatch[2]) {
+      return readScreenshot(uri, screenshotMatch[1], parseInt(screenshotMatch[2], 10));
+    }
+
+    const sessionMatch = uri.match(SESSION_URI_PATTERN);
+    if (sessionMatch?.[1]) {
+      const session = loadSession(sessionMatch[1]);
+      if (!session) {
+        throw notFound(uri);
+      }
+      return { contents: [jsonContent(uri, session)] };
+    }
+
+    throw notFound(uri);
+  });
+}
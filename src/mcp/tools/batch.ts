@@ -0,0 +1,112 @@
+/**
+ * os_batch - Run a sequence of actions in a single MCP call
+ * Each step runs through the matching tool (same validation, same session recording).
+ * The kill switch is reset once for the whole call, so user activity at any step stops the batch.
+ */
+
+import { z } from 'zod';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { defineTool, type ToolDefinition } from '../registry.js';
+import { formatToolError } from '../errors.js';
+import { moveTool } from './move.js';
+import { clickAtTool } from './click-at.js';
+import { typeTool } from './type.js';
+import { hotkeyTool } from './hotkey.js';
+import { scrollTool } from './scroll.js';
+import { waitTool } from './wait.js';
+import { dragTool } from './drag.js';
+import { focusTool } from './focus.js';
+import { screenshotTool } from './screenshot.js';
+
+const STEP_TOOLS: Record<string, ToolDefinition> = {
+  move: moveTool,
+  click_at: clickAtTool,
+  type: typeTool,
+  hotkey: hotkeyTool,
+  scroll: scrollTool,
+  wait: waitTool,
+  drag: dragTool,
+  focus: focusTool,
+};
+
+const ACTIONS = ['move', 'click_at', 'type', 'hotkey', 'scroll', 'wait', 'drag', 'focus'] as const;
+
+const stepSchema = z.object({
+  action: z.enum(ACTIONS).describe('Action to run; other fields are that tool\'s parameters (e.g. click_at: x, y; type: text; hotkey: keys)'),
+}).passthrough();
+
+type StepStatus = 'ok' | 'error' | 'skipped';
+
+/**
+ * Text of a tool result (images are dropped from step results)
+ */
+function resultText(result: CallToolResult): string {
+  return result.content
+    .map((c) => (c.type === 'text' ? c.text : ''))
+    .filter(Boolean)
+    .join(' ');
+}
+
+function formatZodError(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+export const batchTool = defineTool({
+  name: 'os_batch',
+  description: 'Run several actions in order in one call (e.g. a whole login form). Supported actions: move, click_at, type, hotkey, scroll, wait, drag, focus - each step takes the same parameters as the os_* tool. All steps are validated before anything runs. Stops at the first error or kill switch and returns per-step results. Set screenshot=true to attach an os_screenshot at the end.',
+  schema: z.object({
+    steps: z.array(stepSchema).min(1).max(50).describe('Ordered steps, e.g. [{"action":"click_at","x":100,"y":200},{"action":"type","text":"hello"},{"action":"hotkey","keys":"enter"}]'),
+    screenshot: z.boolean().default(false).describe('Attach a screenshot after the last step (default: false)'),
+  }),
+  async handler({ steps, screenshot }, ctx) {
+    // Validate every step before running the first one
+    const planned = steps.map(({ action, ...params }, i) => {
+      const tool = STEP_TOOLS[action]!;
+      const parsed = tool.schema.safeParse(params);
+      if (!parsed.success) {
+        throw new Error(`Invalid step ${i + 1} (${action}): ${formatZodError(parsed.error)}`);
+      }
+      return { action, tool, args: parsed.data };
+    });
+
+    const results: { action: string; status: StepStatus; text: string }[] = [];
+    let failed = false;
+
+    for (const step of planned) {
+      if (failed) {
+        results.push({ action: step.action, status: 'skipped', text: '' });
+        continue;
+      }
+      try {
+        const result = await step.tool.handler(step.args, ctx);
+        failed = result.isError === true;
+        results.push({ action: step.action, status: failed ? 'error' : 'ok', text: resultText(result) });
+      } catch (error) {
+        failed = true;
+        results.push({ action: step.action, status: 'error', text: `Error: ${formatToolError(error)}` });
+      }
+    }
+
+    const completed = results.filter((r) => r.status === 'ok').length;
+    const lines = results.map((r, i) => {
+      const mark = r.status === 'ok' ? '✓' : r.status === 'error' ? '✗' : '-';
+      return `${i + 1}. ${mark} ${r.action}${r.status === 'skipped' ? ' (skipped)' : `: ${r.text}`}`;
+    });
+
+    const content: CallToolResult['content'] = [
+      {
+        type: 'text',
+        text: `Batch ${failed ? 'stopped' : 'completed'}: ${completed}/${results.length} steps\n${lines.join('\n')}`,
+      },
+    ];
+
+    if (screenshot) {
+      const shot = await screenshotTool.handler(screenshotTool.schema.parse({}), ctx);
+      content.push(...shot.content);
+    }
+
+    return failed ? { content, isError: true } : { content };
+  },
+});
@@ -0,0 +1,164 @@
+/**
+ * os_browser_restart_with_cdp - Relaunch a Chromium browser (or CEF app) with CDP enabled
+ */
+
+import { z } from 'zod';
+import { captureScreen } from '../../core/screenshot.js';
+import { getMousePosition } from '../../core/input.js';
+import { getUIElements } from '../../core/uiautomation.js';
+import { filterMaskedElements, maskScreenshot } from '../../core/privacy.js';
+import { restartBrowserWithCDP } from '../../core/browser-restart.js';
+import { calculateImageRatio } from '../image-ratio.js';
+import { defineTool } from '../registry.js';
+
+export const browserRestartTool = defineTool({
+  name: 'os_browser_restart_with_cdp',
+  description: `Restart Chromium browser (Chrome, Edge, Brave, Arc) with Chrome DevTools Protocol (CDP) enabled.
+Also works for CEF apps (Epic Games Launcher, Unreal Engine apps) — automatically detects and uses -cefdebug flag.
+
+This tool:
+1. Saves all open tabs (URLs)
+2. Closes the browser gracefully
+3. Relaunches with --remote-debugging-port=9222 (browsers) or -cefdebug=9225 (CEF apps)
+4. Restores all tabs
+5. Takes a screenshot automatically after restart to verify CDP is active
+
+Use this when:
+- Screenshot shows "Strategy: native (CDP not enabled ⚠️)"
+- Screenshot shows "Strategy: cef (CEF detected, CDP not active ⚠️)"
+- Browser warning suggests enabling CDP
+- You need 200-300+ elements instead of 20-40
+
+After restart, the screenshot will show "Strategy: browser (CDP active ✓)" or "Strategy: cef (CEF CDP active ✓)" and detect 10x more elements.`,
+  schema: z.object({
+    port: z.number().default(9222).describe('Remote debugging port (default: 9222)'),
+    window: z.string().optional().describe('Optional browser window/app name to target (e.g., "Google Chrome", "Microsoft Edge"). If not provided, uses active window.'),
+  }),
+  async handler({ port, window }, ctx) {
+    await ctx.getRecorder().recordAction('os_browser_restart_with_cdp', { port, window }, async () => {
+      // Action recorded in the function itself
+    });
+
+    // Check if active window is a CEF app (Unreal Engine / Epic Games etc.)
+    const uiTree = await getUIElements();
+    if (uiTree.strategy === 'cef') {
+      console.error(`CEF app detected, restarting with -cefdebug=${port === 9222 ? 9225 : port}...`);
+      const { restartCEFWithCDP } = await import('../../core/browser-restart.js');
+      const cefResult = await restartCEFWithCDP(port === 9222 ? 9225 : port);
+
+      if (!cefResult.success) {
+        return {
+          content: [{
+            type: 'text',
+            text: `❌ Failed to restart CEF app with CDP: ${cefResult.error ?? 'Unknown error'}`,
+          }],
+          isError: true,
+        };
+      }
+
+      // Take screenshot to verify
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+      const cefCapture = await captureScreen({ screen: 0 });
+      const cefCursor = getMousePosition();
+      const cefTree = await getUIElements();
+      const { screenshot: cefScreenshot, mask: cefMask } = await maskScreenshot(cefCapture, cefTree.elements);
+
+      const cefWidth = cefScreenshot.width ?? 0;
+      const cefHeight = cefScreenshot.height ?? 0;
+      const cefClientVersion = ctx.server.getClientVersion();
+      const { ratio: cefRatio, clientType: cefClientType } = calculateImageRatio(cefWidth, cefHeight, cefClientVersion?.name);
+
+      const cefStrategyInfo = `🔧 Strategy: ${cefTree.strategy}${cefTree.strategy === 'cef' && cefTree.ui.length >= 10 ? ' (CEF CDP active ✓)' : ' (CEF CDP not active ⚠️)'}`;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ CEF app restarted with -cefdebug=${port === 9222 ? 9225 : port}!\n\n📊 Results:\n- CDP enabled: ${cefResult.cdpEnabled ? 'Yes ✓' : 'No ✗'}\n\n📸 Screenshot after restart:\n${cefStrategyInfo}\n📐 Screenshot: ${cefWidth}x${cefHeight} | Client: ${cefClientType} | Ratio: ${cefRatio.toFixed(3)}\nCursor: (${cefCursor.x}, ${cefCursor.y})\n\nElements detected: ${cefTree.ui.length}\n\nFirst 10 elements:\n${filterMaskedElements(cefMask, cefTree.ui).slice(0, 10).map((el) => {
+              const cx = el.x + Math.floor(el.width / 2);
+              const cy = el.y + Math.floor(el.height / 2);
+              return `- ${el.type}: "${el.name}" center=(${cx},${cy})`;
+            }).join('\n')}`,
+          },
+          {
+            type: 'image',
+            data: cefScreenshot.base64,
+            mimeType: 'image/png',
+          },
+        ],
+      };
+    }
+
+    console.error(`Restarting browser with CDP on port ${port}${window ? ` (targeting: ${window})` : ''}...`);
+    const result = await restartBrowserWithCDP(port, window);
+
+    if (!result.success) {
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Failed to restart browser with CDP: ${result.error ?? 'Unknown error'}`,
+        }],
+        isError: true,
+      };
+    }
+
+    // Take a screenshot automatically after restart to verify CDP is active
+    console.error('Browser restarted, taking screenshot to verify CDP...');
+    await new Promise((resolve) => setTimeout(resolve, 2000)); // Wait for browser to stabilize
+
+    const capture = await captureScreen({ screen: 0 });
+    const cursor = getMousePosition();
+    const tree = await getUIElements();
+    const { screenshot, mask } = await maskScreenshot(capture, tree.elements);
+
+    // Calculate resize ratio
+    const width = screenshot.width ?? 0;
+    const height = screenshot.height ?? 0;
+    const clientVersion = ctx.server.getClientVersion();
+    const { ratio, clientType } = calculateImageRatio(width, height, clientVersion?.name);
+
+    // Format elements (not used in output but kept for potential future use)
+    // const elementsText = tree.ui.map((el) => {
+    //   const cx = el.x + Math.floor(el.width / 2);
+    //   const cy = el.y + Math.floor(el.height / 2);
+    //   return `- ${el.type}: "${el.name}" pos=(${el.x},${el.y}) center=(${cx},${cy}) [${el.width}x${el.height}]`;
+    // }).join('\n');
+
+    const strategyInfo = `🔧 Strategy: ${tree.strategy}${tree.strategy === 'browser' ? ' (CDP active ✓)' : ' (CDP not enabled ⚠️)'}`;
+    const successMessage = `✅ Browser restarted successfully with CDP enabled!
+
+📊 Results:
+- Browser: ${result.browser}
+- Tabs saved: ${result.tabsSaved}
+- Tabs restored: ${result.tabsRestored}
+- CDP enabled: ${result.cdpEnabled ? 'Yes ✓' : 'No ✗'}
+
+📸 Screenshot after restart:
+${strategyInfo}
+📐 Screenshot: ${width}x${height} | Client: ${clientType} | Ratio: ${ratio.toFixed(3)}
+Cursor: (${cursor.x}, ${cursor.y})
+
+Elements detected: ${tree.ui.length} (was ~4 before, now ${tree.ui.length}!)
+
+First 10 elements:
+${filterMaskedElements(mask, tree.ui).slice(0, 10).map((el) => {
+  const cx = el.x + Math.floor(el.width / 2);
+  const cy = el.y + Math.floor(el.height / 2);
+  return `- ${el.type}: "${el.name}" center=(${cx},${cy})`;
+}).join('\n')}`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: successMessage,
+        },
+        {
+          type: 'image',
+          data: screenshot.base64,
+          mimeType: 'image/png',
+        },
+      ],
+    };
+  },
+});
@@ -0,0 +1,49 @@
+/**
+ * os_click_at - Move to coordinates then click
+ */
+
+import { z } from 'zod';
+import { click } from '../../core/input.js';
+import { focusWindow } from '../../core/windows.js';
+import { captureClickAnchor } from '../../core/anchor.js';
+import { MOTION_PROFILES } from '../../core/motion.js';
+import { defineTool } from '../registry.js';
+import { MOTION_DESCRIPTION, motionOptions } from './move.js';
+
+export const clickAtTool = defineTool({
+  name: 'os_click_at',
+  description: 'Click at specific screen coordinates (moves and clicks in one action). Prefer using os_move + os_click for more precise control.',
+  schema: z.object({
+    x: z.number().describe('X coordinate to click'),
+    y: z.number().describe('Y coordinate to click'),
+    window: z.string().optional().describe('Window to focus first (optional)'),
+    button: z.enum(['left', 'right', 'middle']).default('left').describe('Mouse button (default: left)'),
+    motion: z.enum(MOTION_PROFILES).optional().describe(MOTION_DESCRIPTION),
+    motionDuration: z.number().min(0).max(10000).optional().describe('Travel time in ms (default from config)'),
+  }),
+  async handler({ x, y, window: windowName, button, motion, motionDuration }, ctx) {
+    const recorder = ctx.getRecorder();
+    const params: Record<string, unknown> = { x, y, button, window: windowName, motion, motionDuration };
+
+    await recorder.recordAction('os_click_at', params, async () => {
+      if (windowName) {
+        await focusWindow(windowName);
+      }
+      // Element under the point, so replay can find it again if the layout changed
+      const anchor = await captureClickAnchor(x, y, recorder.getLastUIContext());
+      if (anchor) {
+        params['anchor'] = anchor;
+      }
+      await click(x, y, { button, motion: motionOptions(motion, motionDuration) });
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${button === 'right' ? 'Right-clicked' : button === 'middle' ? 'Middle-clicked' : 'Clicked'} at (${x}, ${y})`,
+        },
+      ],
+    };
+  },
+});
@@ -0,0 +1,47 @@
+/**
+ * os_click_element - Click an element found by selector (no raw coordinates)
+ */
+
+import { z } from 'zod';
+import { click } from '../../core/input.js';
+import { focusWindow } from '../../core/windows.js';
+import { parseSelector, resolveElement } from '../../core/selector.js';
+import { defineTool } from '../registry.js';
+
+export const SELECTOR_DESCRIPTION = 'Element selector: [window="Title" >>] [Type] [attr op "value"]... [:nth(n)]. ' +
+  'attr: name | automationId | value. op: = exact, *= contains (case-insensitive), ~= regex (/pattern/flags). ' +
+  'Examples: Button[name="Save"], Edit[automationId="txtUser"], window="Notepad" >> MenuItem[name*="file"], ListItem[name~=/^Item \\d+$/]:nth(2)';
+
+export const clickElementTool = defineTool({
+  name: 'os_click_element',
+  description: 'Click a UI element identified by a selector. The selector is resolved against a fresh UI tree at click time, so no coordinates need to be copied from os_screenshot. Fails with a list of candidates if several elements match.',
+  schema: z.object({
+    selector: z.string().describe(SELECTOR_DESCRIPTION),
+    button: z.enum(['left', 'right', 'middle']).default('left').describe('Mouse button (default: left)'),
+    double: z.boolean().default(false).describe('Double-click (default: false)'),
+  }),
+  async handler({ selector, button, double }, ctx) {
+    const parsed = parseSelector(selector);
+    let target = { x: 0, y: 0 };
+    let label = '';
+
+    await ctx.getRecorder().recordAction('os_click_element', { selector, button, double }, async () => {
+      if (parsed.window) {
+        await focusWindow(parsed.window);
+      }
+      const element = await resolveElement(parsed);
+      target = { x: element.x + Math.floor(element.width / 2), y: element.y + Math.floor(element.height / 2) };
+      label = `${element.type} "${element.name}"`;
+      await click(target.x, target.y, { button, double });
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${double ? 'Double-clicked' : button === 'right' ? 'Right-clicked' : button === 'middle' ? 'Middle-clicked' : 'Clicked'} ${label} at (${target.x}, ${target.y})`,
+        },
+      ],
+    };
+  },
+});
@@ -0,0 +1,36 @@
+/**
+ * os_click - Click at the current cursor position (no movement)
+ */
+
+import { z } from 'zod';
+import { clickAtCurrentPosition, getMousePosition } from '../../core/input.js';
+import { focusWindow } from '../../core/windows.js';
+import { defineTool } from '../registry.js';
+
+export const clickTool = defineTool({
+  name: 'os_click',
+  description: 'Click at current cursor position. Use os_move first to position the cursor, then os_click to click. This ensures precise clicking by separating movement and click.',
+  schema: z.object({
+    window: z.string().optional().describe('Window to focus first (optional)'),
+    button: z.enum(['left', 'right', 'middle']).default('left').describe('Mouse button (default: left)'),
+  }),
+  async handler({ window: windowName, button }, ctx) {
+    const pos = getMousePosition();
+
+    await ctx.getRecorder().recordAction('os_click', { x: pos.x, y: pos.y, button, window: windowName }, async () => {
+      if (windowName) {
+        await focusWindow(windowName);
+      }
+      await clickAtCurrentPosition({ button });
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${button === 'right' ? 'Right-clicked' : button === 'middle' ? 'Middle-clicked' : 'Clicked'} at current position (${pos.x}, ${pos.y})`,
+        },
+      ],
+    };
+  },
+});
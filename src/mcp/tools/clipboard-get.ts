@@ -0,0 +1,52 @@
+/**
+ * os_clipboard_get - Read the clipboard as text, HTML or PNG image
+ */
+
+import { z } from 'zod';
+import {
+  CLIPBOARD_FORMATS,
+  listClipboardFormats,
+  readClipboardHtml,
+  readClipboardImage,
+  readClipboardText,
+} from '../../core/clipboard.js';
+import { defineTool } from '../registry.js';
+
+export const clipboardGetTool = defineTool({
+  name: 'os_clipboard_get',
+  description: 'Read the clipboard. Use it to check that a copy worked or to move data between apps. Images are returned as PNG.',
+  schema: z.object({
+    format: z.enum(CLIPBOARD_FORMATS).default('text').describe('Content to read: text, html or image (default: text)'),
+  }),
+  async handler({ format }) {
+    const available = await listClipboardFormats();
+    const formats = `Formats on clipboard: ${available.join(', ') || 'none'}`;
+
+    if (format === 'image') {
+      const image = await readClipboardImage();
+      if (!image) {
+        return { content: [{ type: 'text', text: `No image on the clipboard\n${formats}` }] };
+      }
+      return {
+        content: [
+          { type: 'image', data: image.toString('base64'), mimeType: 'image/png' },
+          { type: 'text', text: `Clipboard image (${image.length} bytes)\n${formats}` },
+        ],
+      };
+    }
+
+    const content = format === 'html' ? await readClipboardHtml() : await readClipboardText();
+    if (content === null) {
+      return { content: [{ type: 'text', text: `No ${format} on the clipboard\n${formats}` }] };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Clipboard ${format} (${content.length} chars):\n${content}\n\n${formats}`,
+        },
+      ],
+    };
+  },
+});
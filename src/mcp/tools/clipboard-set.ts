@@ -0,0 +1,70 @@
+/**
+ * os_clipboard_set - Put text, HTML or a PNG image on the clipboard
+ * preserve/restore save the user's clipboard before a sequence of actions and put it back after
+ */
+
+import { z } from 'zod';
+import {
+  CLIPBOARD_FORMATS,
+  restoreClipboard,
+  snapshotClipboard,
+  writeClipboardHtml,
+  writeClipboardImage,
+  writeClipboardText,
+} from '../../core/clipboard.js';
+import { defineTool } from '../registry.js';
+
+export const clipboardSetTool = defineTool({
+  name: 'os_clipboard_set',
+  description: 'Set the clipboard content (then paste with os_hotkey ctrl+v / cmd+v). ' +
+    'Pass preserve=true to save the current clipboard first, and call again with restore=true when done to put it back.',
+  schema: z.object({
+    content: z.string().optional().describe('Text, HTML markup, or base64-encoded PNG for images (omit with restore=true)'),
+    format: z.enum(CLIPBOARD_FORMATS).default('text').describe('Content type: text, html or image (default: text)'),
+    text: z.string().optional().describe('Plain-text alternative for html (apps that don\'t accept HTML)'),
+    preserve: z.boolean().default(false).describe('Save the current clipboard before replacing it'),
+    restore: z.boolean().default(false).describe('Put back the clipboard saved with preserve=true (content is ignored)'),
+  }),
+  async handler({ content, format, text, preserve, restore }, ctx) {
+    if (restore) {
+      if (!ctx.clipboardSnapshot) {
+        throw new Error('No saved clipboard: call os_clipboard_set with preserve=true first');
+      }
+      const snapshot = ctx.clipboardSnapshot;
+      await ctx.getRecorder().recordAction('os_clipboard_set', { restore }, async () => {
+        await restoreClipboard(snapshot);
+      });
+      ctx.clipboardSnapshot = null;
+      return { content: [{ type: 'text', text: 'Clipboard restored' }] };
+    }
+
+    if (content === undefined) {
+      throw new Error('content is required (or restore=true)');
+    }
+
+    if (preserve) {
+      ctx.clipboardSnapshot = await snapshotClipboard();
+    }
+
+    // Recorded without image data, which would bloat the session file
+    const params = format === 'image' ? { format, bytes: content.length, preserve } : { content, format, text, preserve };
+    await ctx.getRecorder().recordAction('os_clipboard_set', params, async () => {
+      if (format === 'image') {
+        await writeClipboardImage(Buffer.from(content, 'base64'));
+      } else if (format === 'html') {
+        await writeClipboardHtml(content, text);
+      } else {
+        await writeClipboardText(content);
+      }
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Clipboard set (${format}, ${content.length} chars)${preserve ? ' - previous clipboard saved' : ''}`,
+        },
+      ],
+    };
+  },
+});
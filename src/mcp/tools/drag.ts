@@ -0,0 +1,37 @@
+/**
+ * os_drag - Drag and drop between two points
+ */
+
+import { z } from 'zod';
+import { drag } from '../../core/input.js';
+import { MOTION_PROFILES } from '../../core/motion.js';
+import { defineTool } from '../registry.js';
+import { MOTION_DESCRIPTION } from './move.js';
+
+export const dragTool = defineTool({
+  name: 'os_drag',
+  description: 'Perform a drag-and-drop operation: moves to start position, holds mouse button, smoothly drags to destination, then releases. Use this for moving files, reordering items, resizing windows, or any UI interaction requiring drag-and-drop.',
+  schema: z.object({
+    fromX: z.number().describe('Starting X coordinate'),
+    fromY: z.number().describe('Starting Y coordinate'),
+    toX: z.number().describe('Ending X coordinate'),
+    toY: z.number().describe('Ending Y coordinate'),
+    button: z.enum(['left', 'right', 'middle']).default('left').describe('Mouse button (default: left)'),
+    duration: z.number().default(500).describe('Duration of drag in ms (default: 500)'),
+    motion: z.enum(MOTION_PROFILES).optional().describe(`${MOTION_DESCRIPTION} An instant profile drags linearly.`),
+  }),
+  async handler({ fromX, fromY, toX, toY, button, duration, motion }, ctx) {
+    await ctx.getRecorder().recordAction('os_drag', { fromX, fromY, toX, toY, button, duration, motion }, async () => {
+      await drag(fromX, fromY, toX, toY, { button, duration, ...(motion ? { motion: { profile: motion } } : {}) });
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Dragged from (${fromX}, ${fromY}) to (${toX}, ${toY})`,
+        },
+      ],
+    };
+  },
+});
@@ -0,0 +1,35 @@
+/**
+ * os_focus - Focus a window by title or app name
+ */
+
+import { z } from 'zod';
+import { focusWindow } from '../../core/windows.js';
+import { defineTool } from '../registry.js';
+
+export const focusTool = defineTool({
+  name: 'os_focus',
+  description: 'Focus a window by title or app name',
+  schema: z.object({
+    window: z.string().describe('Window title or app name'),
+  }),
+  async handler({ window: windowName }, ctx) {
+    let success = false;
+
+    await ctx.getRecorder().recordAction('os_focus', { window: windowName }, async () => {
+      success = await focusWindow(windowName);
+    });
+
+    if (success) {
+      ctx.lastFocusedWindow = windowName;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: success ? `Focused: ${windowName}` : `Could not focus: ${windowName}`,
+        },
+      ],
+    };
+  },
+});
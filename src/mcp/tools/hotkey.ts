@@ -0,0 +1,31 @@
+/**
+ * os_hotkey - Press a keyboard shortcut
+ */
+
+import { z } from 'zod';
+import { hotkey } from '../../core/input.js';
+import { defineTool } from '../registry.js';
+
+export const hotkeyTool = defineTool({
+  name: 'os_hotkey',
+  description: 'Press a keyboard shortcut',
+  schema: z.object({
+    keys: z.string().describe('Keys to press, e.g. "ctrl+c". "primary" is ctrl on Windows/Linux and cmd on macOS ("primary+c" copies everywhere)'),
+  }),
+  async handler({ keys }, ctx) {
+    const keyList = keys.split('+').map((k) => k.trim());
+
+    await ctx.getRecorder().recordAction('os_hotkey', { keys }, async () => {
+      await hotkey(keyList);
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Pressed: ${keys}`,
+        },
+      ],
+    };
+  },
+});
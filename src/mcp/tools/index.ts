@@ -0,0 +1,83 @@
+/**
+ * Built-in MCP tools
+ * Order here is the order clients see in ListTools
+ */
+
+import type { ToolDefinition } from '../registry.js';
+import { moveTool } from './move.js';
+import { clickTool } from './click.js';
+import { clickAtTool } from './click-at.js';
+import { typeTool } from './type.js';
+import { screenshotTool } from './screenshot.js';
+import { windowsTool } from './windows.js';
+import { focusTool } from './focus.js';
+import { scrollTool } from './scroll.js';
+import { hotkeyTool } from './hotkey.js';
+import { keySequenceTool } from './key-sequence.js';
+import { keyDownTool } from './key-down.js';
+import { keyUpTool } from './key-up.js';
+import { waitTool } from './wait.js';
+import { waitForTool } from './wait-for.js';
+import { batchTool } from './batch.js';
+import { inspectAtTool } from './inspect-at.js';
+import { systemUiTool } from './system-ui.js';
+import { nvdaStatusTool } from './nvda-status.js';
+import { nvdaInstallTool } from './nvda-install.js';
+import { nvdaStartTool } from './nvda-start.js';
+import { nvdaStopTool } from './nvda-stop.js';
+import { voiceoverStatusTool } from './voiceover-status.js';
+import { voiceoverStartTool } from './voiceover-start.js';
+import { voiceoverStopTool } from './voiceover-stop.js';
+import { browserRestartTool } from './browser-restart.js';
+import { mouseDownTool } from './mouse-down.js';
+import { mouseUpTool } from './mouse-up.js';
+import { dragTool } from './drag.js';
+import { tapTool } from './tap.js';
+import { longPressTool } from './long-press.js';
+import { swipeTool } from './swipe.js';
+import { pinchTool } from './pinch.js';
+import { unitySetupTool } from './unity-setup.js';
+import { clickElementTool } from './click-element.js';
+import { typeIntoTool } from './type-into.js';
+import { clipboardGetTool } from './clipboard-get.js';
+import { clipboardSetTool } from './clipboard-set.js';
+
+export const builtinTools: ToolDefinition[] = [
+  moveTool,
+  clickTool,
+  clickAtTool,
+  clickElementTool,
+  typeTool,
+  typeIntoTool,
+  clipboardGetTool,
+  clipboardSetTool,
+  screenshotTool,
+  windowsTool,
+  focusTool,
+  scrollTool,
+  hotkeyTool,
+  keySequenceTool,
+  keyDownTool,
+  keyUpTool,
+  waitTool,
+  waitForTool,
+  batchTool,
+  inspectAtTool,
+  systemUiTool,
+  nvdaStatusTool,
+  nvdaInstallTool,
+  nvdaStartTool,
+  nvdaStopTool,
+  voiceoverStatusTool,
+  voiceoverStartTool,
+  voiceoverStopTool,
+  browserRestartTool,
+  mouseDownTool,
+  mouseUpTool,
+  dragTool,
+  tapTool,
+  longPressTool,
+  swipeTool,
+  pinchTool,
+  unitySetupTool,
+];
@@ -0,0 +1,40 @@
+/**
+ * os_inspect_at - Get the UI element at specific coordinates
+ */
+
+import { z } from 'zod';
+import { getElementAtPoint } from '../../core/uiautomation.js';
+import { defineTool } from '../registry.js';
+
+export const inspectAtTool = defineTool({
+  name: 'os_inspect_at',
+  description: 'Get the UI element at specific coordinates. Returns element type, name, bounds, and state.',
+  schema: z.object({
+    x: z.number().describe('X coordinate'),
+    y: z.number().describe('Y coordinate'),
+  }),
+  async handler({ x, y }) {
+    const element = await getElementAtPoint(x, y);
+
+    if (!element) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No element found at (${x}, ${y})`,
+          },
+        ],
+      };
+    }
+
+    const center = { x: element.x + Math.floor(element.width / 2), y: element.y + Math.floor(element.height / 2) };
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Element at (${x}, ${y}):\n- Type: ${element.type}\n- Name: "${element.name}"\n- Center: (${center.x}, ${center.y})\n- Bounds: ${element.x},${element.y} ${element.width}x${element.height}\n- Enabled: ${element.isEnabled}${element.automationId ? `\n- AutomationId: ${element.automationId}` : ''}`,
+        },
+      ],
+    };
+  },
+});
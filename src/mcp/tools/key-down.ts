@@ -0,0 +1,29 @@
+/**
+ * os_key_down - Press and hold a key
+ */
+
+import { z } from 'zod';
+import { getHeldKeys, keyDown } from '../../core/input.js';
+import { defineTool } from '../registry.js';
+
+export const keyDownTool = defineTool({
+  name: 'os_key_down',
+  description: 'Press and hold a key until os_key_up. Use it to hold a modifier during other actions, e.g. os_key_down shift + os_click_at + os_key_up shift for a shift-click. For shortcuts, prefer os_hotkey or os_key_sequence.',
+  schema: z.object({
+    key: z.string().describe('Key to hold, e.g. "shift", "ctrl", "alt", "primary" (ctrl, cmd on macOS), "w", "space"'),
+  }),
+  async handler({ key }, ctx) {
+    await ctx.getRecorder().recordAction('os_key_down', { key }, async () => {
+      await keyDown(key);
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Key down: ${key} (held: ${getHeldKeys().join(', ')})`,
+        },
+      ],
+    };
+  },
+});
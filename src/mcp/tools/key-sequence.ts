@@ -0,0 +1,33 @@
+/**
+ * os_key_sequence - Press a sequence of key chords
+ */
+
+import { z } from 'zod';
+import { pressKeys } from '../../core/input.js';
+import { defineTool } from '../registry.js';
+
+export const keySequenceTool = defineTool({
+  name: 'os_key_sequence',
+  description: 'Press several shortcuts or keys in order. Chords are separated by spaces, keys in a chord joined by "+", ' +
+    'and "xN" repeats the previous chord. Examples: "ctrl+k ctrl+s" (VS Code chord), "shift+tab x3", "down x5 enter". ' +
+    'Key names: primary (ctrl, cmd on macOS), ctrl, shift, alt, cmd, win, enter, esc, tab, space, backspace, delete, up/down/left/right, home, end, ' +
+    'pageup, pagedown, f1-f24, printscreen, insert, numpad_0-9, audio_mute, volumeup, volumedown, playpause, or a single character.',
+  schema: z.object({
+    sequence: z.string().describe('Key sequence, e.g. "ctrl+k ctrl+s" or "shift+tab x3"'),
+    delay: z.number().min(0).max(5000).default(50).describe('Pause between key presses in ms (default: 50)'),
+  }),
+  async handler({ sequence, delay }, ctx) {
+    await ctx.getRecorder().recordAction('os_key_sequence', { sequence, delay }, async () => {
+      await pressKeys(sequence, { delay });
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Pressed: ${sequence}`,
+        },
+      ],
+    };
+  },
+});
@@ -0,0 +1,32 @@
+/**
+ * os_key_up - Release a key held with os_key_down
+ */
+
+import { z } from 'zod';
+import { getHeldKeys, keyUp } from '../../core/input.js';
+import { defineTool } from '../registry.js';
+
+export const keyUpTool = defineTool({
+  name: 'os_key_up',
+  description: 'Release a key pressed with os_key_down. Without a key, releases every held key.',
+  schema: z.object({
+    key: z.string().optional().describe('Key to release (default: all held keys)'),
+  }),
+  async handler({ key }, ctx) {
+    const released = key ?? (getHeldKeys().join(', ') || 'nothing held');
+
+    await ctx.getRecorder().recordAction('os_key_up', { key }, async () => {
+      await keyUp(key);
+    });
+
+    const held = getHeldKeys();
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Key up: ${released}${held.length > 0 ? ` (still held: ${held.join(', ')})` : ''}`,
+        },
+      ],
+    };
+  },
+});
@@ -0,0 +1,34 @@
+/**
+ * os_long_press - Press and hold with a finger or pen
+ */
+
+import { z } from 'zod';
+import { longPress, type GestureMethod } from '../../core/gestures.js';
+import { defineTool } from '../registry.js';
+import { methodNote, POINTER_DESCRIPTION } from './tap.js';
+
+export const longPressTool = defineTool({
+  name: 'os_long_press',
+  description: 'Touch and hold at screen coordinates - opens context menus, starts text selection or picks up items in touch UIs. Falls back to a held mouse button where touch cannot be injected.',
+  schema: z.object({
+    x: z.number().describe('X coordinate'),
+    y: z.number().describe('Y coordinate'),
+    duration: z.number().min(100).max(10000).default(800).describe('Hold time in ms (default: 800)'),
+    pointer: z.enum(['touch', 'pen']).default('touch').describe(POINTER_DESCRIPTION),
+  }),
+  async handler({ x, y, duration, pointer }, ctx) {
+    let method: GestureMethod = pointer;
+    await ctx.getRecorder().recordAction('os_long_press', { x, y, duration, pointer }, async () => {
+      method = await longPress(x, y, { duration, pointer });
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Long-pressed at (${x}, ${y}) for ${duration}ms${methodNote(method)}`,
+        },
+      ],
+    };
+  },
+});
@@ -0,0 +1,31 @@
+/**
+ * os_mouse_down - Press and hold a mouse button
+ */
+
+import { z } from 'zod';
+import { getMousePosition, mouseDown } from '../../core/input.js';
+import { defineTool } from '../registry.js';
+
+export const mouseDownTool = defineTool({
+  name: 'os_mouse_down',
+  description: 'Press and hold mouse button at current cursor position. For drag-and-drop, prefer os_drag which handles the complete operation. Use os_mouse_down + os_move + os_mouse_up only for complex multi-step drag scenarios.',
+  schema: z.object({
+    button: z.enum(['left', 'right', 'middle']).default('left').describe('Mouse button (default: left)'),
+  }),
+  async handler({ button }, ctx) {
+    const pos = getMousePosition();
+
+    await ctx.getRecorder().recordAction('os_mouse_down', { x: pos.x, y: pos.y, button }, async () => {
+      await mouseDown(button);
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Mouse ${button} button pressed at (${pos.x}, ${pos.y})`,
+        },
+      ],
+    };
+  },
+});
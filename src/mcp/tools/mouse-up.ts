@@ -0,0 +1,31 @@
+/**
+ * os_mouse_up - Release a mouse button
+ */
+
+import { z } from 'zod';
+import { getMousePosition, mouseUp } from '../../core/input.js';
+import { defineTool } from '../registry.js';
+
+export const mouseUpTool = defineTool({
+  name: 'os_mouse_up',
+  description: 'Release mouse button at current cursor position. Use after os_mouse_down to complete manual drag operations. For simple drag-and-drop, prefer os_drag instead.',
+  schema: z.object({
+    button: z.enum(['left', 'right', 'middle']).default('left').describe('Mouse button (default: left)'),
+  }),
+  async handler({ button }, ctx) {
+    const pos = getMousePosition();
+
+    await ctx.getRecorder().recordAction('os_mouse_up', { x: pos.x, y: pos.y, button }, async () => {
+      await mouseUp(button);
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Mouse ${button} button released at (${pos.x}, ${pos.y})`,
+        },
+      ],
+    };
+  },
+});
@@ -0,0 +1,46 @@
+/**
+ * os_move - Move the mouse cursor
+ */
+
+import { z } from 'zod';
+import { moveMouse } from '../../core/input.js';
+import { MOTION_PROFILES, type MotionOptions, type MotionProfile } from '../../core/motion.js';
+import { defineTool } from '../registry.js';
+
+export const MOTION_DESCRIPTION = 'Cursor path: instant (teleport), linear, bezier (curved, eased) or human (curve + jitter + overshoot). ' +
+  'Use a non-instant profile for games and canvas apps that need hover/move events. Default from config (motion.profile).';
+
+/**
+ * Motion options from the flat tool parameters
+ */
+export function motionOptions(profile: MotionProfile | undefined, duration: number | undefined): MotionOptions {
+  return {
+    ...(profile ? { profile } : {}),
+    ...(duration !== undefined ? { duration } : {}),
+  };
+}
+
+export const moveTool = defineTool({
+  name: 'os_move',
+  description: 'Move mouse cursor to specific coordinates',
+  schema: z.object({
+    x: z.number().describe('X coordinate to move to'),
+    y: z.number().describe('Y coordinate to move to'),
+    motion: z.enum(MOTION_PROFILES).optional().describe(MOTION_DESCRIPTION),
+    motionDuration: z.number().min(0).max(10000).optional().describe('Travel time in ms (default from config)'),
+  }),
+  async handler({ x, y, motion, motionDuration }, ctx) {
+    await ctx.getRecorder().recordAction('os_move', { x, y, motion, motionDuration }, async () => {
+      await moveMouse(x, y, { motion: motionOptions(motion, motionDuration) });
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Moved mouse to (${x}, ${y})`,
+        },
+      ],
+    };
+  },
+});
@@ -0,0 +1,33 @@
+/**
+ * os_nvda_install - Download and install NVDA portable (Windows)
+ */
+
+import { z } from 'zod';
+import { initNvda, isNvdaInstalled } from '../../core/nvda.js';
+import { defineTool } from '../registry.js';
+
+export const nvdaInstallTool = defineTool({
+  name: 'os_nvda_install',
+  description: 'Download and install NVDA portable for Electron app accessibility. Windows only.',
+  schema: z.object({}),
+  platforms: ['win32'],
+  async handler() {
+    if (isNvdaInstalled()) {
+      return {
+        content: [{ type: 'text', text: '✅ NVDA is already installed. Use os_nvda_start to run it.' }],
+      };
+    }
+
+    const success = await initNvda(true); // forceDownload=true
+
+    return {
+      content: [{
+        type: 'text',
+        text: success
+          ? '✅ NVDA portable installed successfully. Use os_nvda_start to enable Electron accessibility.'
+          : '❌ Failed to install NVDA. Check network connection and try again.',
+      }],
+      isError: !success,
+    };
+  },
+});
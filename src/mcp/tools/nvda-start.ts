@@ -0,0 +1,41 @@
+/**
+ * os_nvda_start - Start NVDA in silent mode (Windows)
+ */
+
+import { z } from 'zod';
+import { isNvdaInstalled, isNvdaRunning, startNvda } from '../../core/nvda.js';
+import { defineTool } from '../registry.js';
+
+export const nvdaStartTool = defineTool({
+  name: 'os_nvda_start',
+  description: 'Start NVDA screen reader in silent mode. Required for Electron app accessibility. Windows only.',
+  schema: z.object({}),
+  platforms: ['win32'],
+  async handler() {
+    const running = await isNvdaRunning();
+    if (running) {
+      return {
+        content: [{ type: 'text', text: '✅ NVDA is already running.' }],
+      };
+    }
+
+    if (!isNvdaInstalled()) {
+      return {
+        content: [{ type: 'text', text: '❌ NVDA not installed. Use os_nvda_install first.' }],
+        isError: true,
+      };
+    }
+
+    const success = await startNvda(false);
+
+    return {
+      content: [{
+        type: 'text',
+        text: success
+          ? '✅ NVDA started in silent mode. Electron apps will now expose their full UI tree.'
+          : '❌ Failed to start NVDA.',
+      }],
+      isError: !success,
+    };
+  },
+});
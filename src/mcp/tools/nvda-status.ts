@@ -0,0 +1,29 @@
+/**
+ * os_nvda_status - NVDA screen reader status (Windows)
+ */
+
+import { z } from 'zod';
+import { getNvdaStatus } from '../../core/nvda.js';
+import { defineTool } from '../registry.js';
+
+export const nvdaStatusTool = defineTool({
+  name: 'os_nvda_status',
+  description: 'Check NVDA screen reader status (Windows only). NVDA is needed for Electron app accessibility.',
+  schema: z.object({}),
+  platforms: ['win32'],
+  async handler() {
+    const status = await getNvdaStatus();
+    const statusText = status.installed
+      ? status.running
+        ? '✅ NVDA is running - Electron accessibility enabled'
+        : '⚠️ NVDA installed but not running. Use os_nvda_start to enable Electron accessibility.'
+      : '❌ NVDA not installed. Use os_nvda_install to enable Electron accessibility.';
+
+    return {
+      content: [{
+        type: 'text',
+        text: `NVDA Status:\n- Installed: ${status.installed ? 'Yes' : 'No'}\n- Running: ${status.running ? 'Yes' : 'No'}\n- Config: ${status.configValid ? 'Valid' : 'Not configured'}\n\n${statusText}`,
+      }],
+    };
+  },
+});
@@ -0,0 +1,25 @@
+/**
+ * os_nvda_stop - Stop NVDA (Windows)
+ */
+
+import { z } from 'zod';
+import { stopNvda } from '../../core/nvda.js';
+import { defineTool } from '../registry.js';
+
+export const nvdaStopTool = defineTool({
+  name: 'os_nvda_stop',
+  description: 'Stop NVDA screen reader. Windows only.',
+  schema: z.object({}),
+  platforms: ['win32'],
+  async handler() {
+    const success = await stopNvda();
+
+    return {
+      content: [{
+        type: 'text',
+        text: success ? '✅ NVDA stopped.' : '❌ Failed to stop NVDA.',
+      }],
+      isError: !success,
+    };
+  },
+});
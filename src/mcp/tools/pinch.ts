@@ -0,0 +1,36 @@
+/**
+ * os_pinch - Two-finger pinch zoom
+ */
+
+import { z } from 'zod';
+import { pinch, type GestureMethod } from '../../core/gestures.js';
+import { defineTool } from '../registry.js';
+import { methodNote } from './tap.js';
+
+export const pinchTool = defineTool({
+  name: 'os_pinch',
+  description: 'Two-finger pinch centered on a point: fingers moving apart zoom in, together zoom out (maps, images, PDFs, touch web pages). Falls back to ctrl + mouse wheel where touch cannot be injected.',
+  schema: z.object({
+    x: z.number().describe('Center X coordinate'),
+    y: z.number().describe('Center Y coordinate'),
+    startDistance: z.number().positive().default(200).describe('Distance between the fingers at the start, in px (default: 200)'),
+    endDistance: z.number().positive().default(400).describe('Distance at the end, in px - larger than startDistance zooms in (default: 400)'),
+    duration: z.number().min(50).max(5000).default(400).describe('Duration in ms (default: 400)'),
+    angle: z.number().default(0).describe('Angle of the line through both fingers in degrees (default: 0 = horizontal)'),
+  }),
+  async handler({ x, y, startDistance, endDistance, duration, angle }, ctx) {
+    let method: GestureMethod = 'touch';
+    await ctx.getRecorder().recordAction('os_pinch', { x, y, startDistance, endDistance, duration, angle }, async () => {
+      method = await pinch(x, y, { startDistance, endDistance, duration, angle });
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Pinched at (${x}, ${y}) from ${startDistance}px to ${endDistance}px (zoom ${endDistance > startDistance ? 'in' : 'out'})${methodNote(method)}`,
+        },
+      ],
+    };
+  },
+});
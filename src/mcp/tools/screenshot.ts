@@ -0,0 +1,250 @@
+/**
+ * os_screenshot - Screenshot with UI elements, OCR text and cursor position
+ */
+
+import { z } from 'zod';
+import { captureScreen } from '../../core/screenshot.js';
+import { getMousePosition } from '../../core/input.js';
+import { getUIElements, findSystemUIElements, getTaskbarConfig } from '../../core/uiautomation.js';
+import { isNvdaInstalled } from '../../core/nvda.js';
+import { isVoiceOverRunning } from '../../core/voiceover.js';
+import { toElementContext, type ScreenContext } from '../../core/session-recorder.js';
+import { recognizeText, filterByWindow, deduplicateOcr, formatOcrText, type OcrResult } from '../../core/ocr.js';
+import {
+  applyScreenMask,
+  buildScreenMask,
+  describeScreenMask,
+  filterMaskedElements,
+  filterMaskedOcr,
+  getBlockedWindowLayers,
+  maskWindowTitle,
+  withCaptureArea,
+} from '../../core/privacy.js';
+import { calculateImageRatio } from '../image-ratio.js';
+import { defineTool } from '../registry.js';
+
+export const screenshotTool = defineTool({
+  name: 'os_screenshot',
+  description: `Capture a screenshot with UI elements and cursor position. Returns: (1) the image, (2) cursor coordinates (x, y), (3) UI elements from Windows UI Automation with their screen coordinates. Use this to see the screen AND know where to click precisely.
+
+⚠️ CRITICAL - HOW TO CLICK ON ELEMENTS:
+- ALWAYS use the center=(x,y) coordinates from the Elements list below
+- NEVER guess or estimate positions visually from the image
+- The JSON coordinates are EXACT screen positions, the image is only for visual context
+
+Example: To click on Button "Enregistrer" center=(951,658) → use os_click_at(x=951, y=658)
+
+🌐 BROWSER SUPPORT (Chrome, Edge, Brave, Arc, Opera):
+- For Chromium browsers, OScribe uses Chrome DevTools Protocol (CDP) to detect 200-300+ interactive elements
+- CDP requires the browser to be launched with remote debugging enabled
+- To enable CDP: Close the browser, then launch it with: --remote-debugging-port=9222
+  - Chrome: google-chrome --remote-debugging-port=9222
+  - Edge: msedge --remote-debugging-port=9222
+  - Brave: brave --remote-debugging-port=9222
+- Without CDP, OScribe falls back to native UI Automation (detects only ~20-40 elements on macOS)
+- The "Strategy" field in the response indicates which method was used: "browser" (CDP) or "native" (UI Automation)`,
+  schema: z.object({
+    screen: z.number().default(0).describe('Screen number (default: 0)'),
+  }),
+  async handler({ screen }, ctx) {
+    // If os_focus was called before, use that window for UI tree
+    // (MCP clients like VS Code steal focus between tool calls)
+    const targetWindow = ctx.lastFocusedWindow;
+    ctx.lastFocusedWindow = null;
+
+    const capture = await captureScreen({ screen });
+    const cursor = getMousePosition();
+
+    // Get screenshot dimensions and calculate resize ratio for the client
+    const width = capture.width ?? 0;
+    const height = capture.height ?? 0;
+    const clientVersion = ctx.server.getClientVersion();
+    const { ratio, clientType } = calculateImageRatio(width, height, clientVersion?.name);
+
+    // Get UI elements, OCR text and the windows of blocked apps in parallel
+    const [fullTree, fullOcr, windowLayers] = await Promise.all([
+      getUIElements(targetWindow ?? undefined),
+      recognizeText(capture.buffer)
+        .catch((): OcrResult => ({ lines: [], duration_ms: 0 })),
+      getBlockedWindowLayers(),
+    ]);
+
+    // On Windows, always get system UI elements (taskbar, etc.)
+    // Even if hidden (auto-hide), agent can move mouse to edge to reveal it
+    // Skip if desktop is already active (getUIElements already returns taskbar)
+    let systemElements: typeof fullTree.ui = [];
+    let taskbarInfo = '';
+    if (process.platform === 'win32' && fullTree.windowClass !== 'Shell_TrayWnd') {
+      const taskbarConfig = await getTaskbarConfig();
+      const sysElements = await findSystemUIElements();
+      // Filter to only interactive elements (buttons mainly)
+      systemElements = sysElements.filter((el) =>
+        el.type === 'Button' && el.name && !(el as { source?: string }).source?.includes('Progman')
+      );
+
+      if (taskbarConfig.visible) {
+        taskbarInfo = `\n📌 Taskbar: ${taskbarConfig.position}`;
+      } else {
+        taskbarInfo = `\n📌 Taskbar: ${taskbarConfig.position} (hidden - move mouse to ${taskbarConfig.position} edge to reveal)`;
+      }
+    } else if (process.platform === 'win32') {
+      // Desktop active - taskbar already included in tree.ui
+      taskbarInfo = `\n📌 Taskbar: active (desktop focused)`;
+    }
+
+    // Mask blocked apps, configured regions and password fields - in the image, the
+    // recording, and the window title, elements and OCR text the model gets
+    const mask = await withCaptureArea(buildScreenMask(windowLayers, [...fullTree.elements, ...systemElements]), screen);
+    const masked = applyScreenMask(capture.buffer, mask);
+    const screenshot = masked === capture.buffer ? capture : { ...capture, buffer: masked, base64: masked.toString('base64') };
+    const tree = {
+      ...fullTree,
+      window: maskWindowTitle(windowLayers, fullTree.window),
+      elements: filterMaskedElements(mask, fullTree.elements),
+      ui: filterMaskedElements(mask, fullTree.ui),
+      content: filterMaskedElements(mask, fullTree.content),
+    };
+    systemElements = filterMaskedElements(mask, systemElements);
+    const ocrResult = { ...fullOcr, lines: filterMaskedOcr(mask, fullOcr.lines, { width, height }) };
+    const maskedLabels = describeScreenMask(mask);
+
+    // Build full context for session recording (includes content for reference)
+    const screenContext: ScreenContext = {
+      window: tree.window,
+      cursor: { x: cursor.x, y: cursor.y },
+      timestamp: new Date().toISOString(),
+      elements: [...tree.elements, ...systemElements].map(toElementContext),
+    };
+
+    // Save screenshot + full context to session
+    ctx.getRecorder().saveScreenshot(screenshot.base64, 'screenshot', screenContext);
+
+    // Format text output - ONLY UI elements sent to AI (not Text content)
+    // Show both corner (x,y) and center for clicking
+    const elementsText = tree.ui.map((el) => {
+      const cx = el.x + Math.floor(el.width / 2);
+      const cy = el.y + Math.floor(el.height / 2);
+      return `- ${el.type}: "${el.name}" pos=(${el.x},${el.y}) center=(${cx},${cy}) [${el.width}x${el.height}]${el.value ? ` value="${el.value}"` : ''}${el.automationId ? ` id="${el.automationId}"` : ''}`;
+    }).join('\n');
+
+    // Format system UI elements (taskbar buttons)
+    const systemText = systemElements.length > 0
+      ? `\n\n🖥️ System UI (${systemElements.length}):\n` + systemElements.map((el) => {
+          const cx = el.x + Math.floor(el.width / 2);
+          const cy = el.y + Math.floor(el.height / 2);
+          return `- ${el.type}: "${el.name}" center=(${cx},${cy}) [${el.width}x${el.height}]${el.automationId ? ` id="${el.automationId}"` : ''}`;
+        }).join('\n')
+      : '';
+
+    // Format OCR text elements - filter to focused window, deduplicate against UIA
+    const windowFiltered = tree.windowBounds
+      ? filterByWindow(ocrResult.lines, tree.windowBounds)
+      : ocrResult.lines;
+    const dedupedLines = deduplicateOcr(windowFiltered, [...tree.ui, ...tree.content]);
+    const ocrText = formatOcrText(dedupedLines);
+    const ocrSection = ocrText
+      ? `\n\n📝 Text (OCR) (${dedupedLines.length}):\n${ocrText}`
+      : '';
+
+    // Check if this is a Chromium browser (needed for warnings and strategy info)
+    const { detectBrowser } = await import('../../core/browser.js');
+    const { getActiveWindow } = await import('../../core/windows.js');
+    const activeWindow = await getActiveWindow();
+    const browserInfo = activeWindow ? await detectBrowser(tree.windowClass, activeWindow.app) : null;
+
+    // Build image info section with dimensions and ratio
+    const strategyInfo = `🔧 Strategy: ${tree.strategy}${tree.strategy === 'browser' ? ' (CDP active ✓)' : tree.strategy === 'cef' && tree.ui.length >= 10 ? ' (CEF CDP active ✓)' : tree.strategy === 'cef' ? ' (CEF detected, CDP not active ⚠️)' : tree.strategy === 'unity' && tree.unityBridgeActive ? ' (Unity Bridge active ✓)' : tree.strategy === 'unity' && !tree.unityBridgeActive ? ' (native fallback, Bridge not connected ⚠️)' : tree.strategy === 'native' && browserInfo ? ' (CDP not enabled ⚠️)' : ''}`;
+    const imageInfo = `📐 Screenshot: ${width}x${height} | Client: ${clientType} | Ratio: ${ratio.toFixed(3)}${taskbarInfo}`;
+    const maskInfo = maskedLabels.length > 0
+      ? `\n🔒 Masked (${maskedLabels.length}): ${maskedLabels.join(', ')} - hidden in the image, their elements and text left out`
+      : '';
+    const ratioHint = ratio > 1
+      ? `⚠️ Image resized by client. For visual estimates, multiply coordinates by ${ratio.toFixed(3)}`
+      : `✓ Image at full resolution (no resize)`;
+
+    // Add window bounds info for CDP (coordinate conversion)
+    let windowBoundsInfo = '';
+    if (tree.strategy === 'browser' && tree.windowBounds) {
+      const { x, y, width: winWidth, height: winHeight } = tree.windowBounds;
+      // Typical Chrome UI height on macOS: ~140px (window title bar ~28px + tab bar ~37px + address bar ~75px)
+      const chromeUIHeight = 140;
+      windowBoundsInfo = `\n🌐 Browser Window: position=(${x},${y}) size=${winWidth}x${winHeight}\n💡 CDP coordinates: Add viewport offset to convert CDP coords → screen coords\n   - CDP coordinate (cx, cy) → Screen coordinate (${x} + cx, ${y + chromeUIHeight} + cy)\n   - Viewport starts at approximately y=${y + chromeUIHeight} (after Chrome UI)`;
+    }
+
+    let accessibilityWarning = '';
+
+    // 1. Check for Chromium browser without CDP (highest priority)
+    if (browserInfo && !browserInfo.isDebuggingEnabled && tree.strategy === 'native' && tree.ui.length < 50) {
+      const browserCommands: Record<string, string> = {
+        chrome: 'open -a "Google Chrome" --args --remote-debugging-port=9222',
+        edge: 'open -a "Microsoft Edge" --args --remote-debugging-port=9222',
+        brave: 'open -a "Brave Browser" --args --remote-debugging-port=9222',
+        arc: 'open -a "Arc" --args --remote-debugging-port=9222',
+        chromium: 'open -a "Chromium" --args --remote-debugging-port=9222',
+      };
+
+      const command = browserCommands[browserInfo.type] ?? `${browserInfo.type} --remote-debugging-port=9222`;
+      let platformCommand = command;
+      if (process.platform === 'win32') {
+        platformCommand = `start ${browserInfo.type === 'chrome' ? 'chrome' : browserInfo.type === 'edge' ? 'msedge' : browserInfo.type} --remote-debugging-port=9222`;
+      } else if (process.platform === 'linux') {
+        platformCommand = `${browserInfo.type === 'chrome' ? 'google-chrome' : browserInfo.type} --remote-debugging-port=9222 &`;
+      }
+
+      accessibilityWarning = `🌐 CHROMIUM BROWSER DETECTED WITHOUT CDP - Only ${tree.ui.length} elements detected (native UI Automation)
+⚡ ACTION REQUIRED: Enable Chrome DevTools Protocol (CDP) to detect 200-300+ elements instead
+
+STEPS TO ENABLE CDP:
+1. Close ${browserInfo.type.charAt(0).toUpperCase() + browserInfo.type.slice(1)} completely
+2. Relaunch with remote debugging: ${platformCommand}
+3. Take another screenshot to verify CDP is active (Strategy should show "browser" instead of "native")
+
+💡 TIP: You should suggest this to the user immediately so they can enable CDP for better automation.`;
+    }
+    // 2. Check for Unity game without Bridge (only warn if bridge is NOT active)
+    else if (tree.strategy === 'unity' && !tree.unityBridgeActive && tree.ui.length < 10) {
+      accessibilityWarning = `🎮 UNITY GAME DETECTED: "${tree.window}"\n⚠️ Strategy: native (Unity Bridge not running)\n\n💡 Unity Bridge provides 10x more elements.\n   Install: Copy OScribeBridge.dll to BepInEx/plugins/`;
+    }
+    // 2b. Check for CEF app without CDP (Unreal Engine / Epic Games etc.)
+    else if (tree.strategy === 'cef' && tree.ui.length < 10) {
+      accessibilityWarning = `🔧 CEF APP DETECTED: "${tree.window}"\n⚠️ Only ${tree.ui.length} elements (CDP not active)\n\n💡 To enable full element detection:\n   1. Close the app\n   2. Relaunch with: AppName.exe -cefdebug=9225\n   3. Take another screenshot\n\n   Or use os_browser_restart_with_cdp tool to restart automatically.`;
+    }
+    // 3. Check for Electron app with limited accessibility
+    // Only warn if NVDA/VoiceOver is not running
+    else if (process.platform === 'win32' &&
+        (tree.strategy === 'electron' || tree.windowClass.includes('Chrome_WidgetWin')) &&
+        tree.ui.length < 10 &&
+        !isNvdaInstalled()) {
+      accessibilityWarning = '⚠️ ELECTRON APP DETECTED - NVDA not installed. Run os_nvda_install then os_nvda_start to see all UI elements.';
+    } else if (process.platform === 'darwin' &&
+        (tree.strategy === 'electron' || tree.windowClass.includes('Electron')) &&
+        tree.ui.length < 10 &&
+        !(await isVoiceOverRunning())) {
+      accessibilityWarning = '⚠️ ELECTRON APP DETECTED - VoiceOver not running. Run os_voiceover_start to see all UI elements (silent mode, no audio).';
+    }
+
+    // Return: 1) Accessibility warning FIRST if needed, 2) Window name, 3) Image info, 4) Instructions, 5) Elements, 6) Image
+    const capturedWindow = tree.strategy === 'unity'
+      ? `🎮 UNITY GAME: "${tree.window}"`
+      : `📸 Captured window: "${tree.window}"`;
+    const focusReminder = `→ If this is not the intended window, use os_focus("App Name") first, then take another screenshot.`;
+    const instruction = `⚠️ IMPORTANT: To click on elements, use center=(x,y) coordinates from the Elements list below with os_click_at(x, y). Do NOT estimate positions from the image.`;
+
+    // Put accessibility warning FIRST if Electron app detected without screen reader
+    const warningFirst = accessibilityWarning ? `${accessibilityWarning.trim()}\n\n` : '';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${warningFirst}${capturedWindow}\n${focusReminder}\n\n${strategyInfo}\n${imageInfo}\n${ratioHint}${maskInfo}${windowBoundsInfo}\n\n${instruction}\n\nCursor position: (${cursor.x}, ${cursor.y})\n\nElements (${tree.ui.length}):\n${elementsText || 'No interactive elements found'}${ocrSection}${systemText}`,
+        },
+        {
+          type: 'image',
+          data: screenshot.base64,
+          mimeType: 'image/png',
+        },
+      ],
+    };
+  },
+});
@@ -0,0 +1,30 @@
+/**
+ * os_scroll - Scroll in a direction
+ */
+
+import { z } from 'zod';
+import { scroll } from '../../core/input.js';
+import { defineTool } from '../registry.js';
+
+export const scrollTool = defineTool({
+  name: 'os_scroll',
+  description: 'Scroll in a direction',
+  schema: z.object({
+    direction: z.enum(['up', 'down', 'left', 'right']),
+    amount: z.number().default(3).describe('Scroll amount (default: 3)'),
+  }),
+  async handler({ direction, amount }, ctx) {
+    await ctx.getRecorder().recordAction('os_scroll', { direction, amount }, async () => {
+      await scroll(direction, amount);
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Scrolled ${direction} by ${amount}`,
+        },
+      ],
+    };
+  },
+});
@@ -0,0 +1,36 @@
+/**
+ * os_swipe - Swipe with a finger or pen
+ */
+
+import { z } from 'zod';
+import { swipe, type GestureMethod } from '../../core/gestures.js';
+import { defineTool } from '../registry.js';
+import { methodNote, POINTER_DESCRIPTION } from './tap.js';
+
+export const swipeTool = defineTool({
+  name: 'os_swipe',
+  description: 'Swipe from one point to another with a touch contact: scroll touch lists with inertia, switch carousel pages, dismiss cards, open edge panels. Short durations fling, long ones drag. Falls back to a mouse drag where touch cannot be injected.',
+  schema: z.object({
+    fromX: z.number().describe('Starting X coordinate'),
+    fromY: z.number().describe('Starting Y coordinate'),
+    toX: z.number().describe('Ending X coordinate'),
+    toY: z.number().describe('Ending Y coordinate'),
+    duration: z.number().min(50).max(5000).default(300).describe('Duration in ms (default: 300)'),
+    pointer: z.enum(['touch', 'pen']).default('touch').describe(POINTER_DESCRIPTION),
+  }),
+  async handler({ fromX, fromY, toX, toY, duration, pointer }, ctx) {
+    let method: GestureMethod = pointer;
+    await ctx.getRecorder().recordAction('os_swipe', { fromX, fromY, toX, toY, duration, pointer }, async () => {
+      method = await swipe(fromX, fromY, toX, toY, { duration, pointer });
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Swiped from (${fromX}, ${fromY}) to (${toX}, ${toY})${methodNote(method)}`,
+        },
+      ],
+    };
+  },
+});
@@ -0,0 +1,45 @@
+/**
+ * os_system_ui - Windows system UI elements (taskbar, tray, desktop icons)
+ */
+
+import { z } from 'zod';
+import { findSystemUIElements } from '../../core/uiautomation.js';
+import { defineTool } from '../registry.js';
+
+export const systemUiTool = defineTool({
+  name: 'os_system_ui',
+  description: 'Get all Windows system UI elements (taskbar, Start button, system tray, desktop icons, action center, widgets). Use this to interact with OS-level UI independently of application windows. Returns clickable coordinates for all system elements.',
+  schema: z.object({}),
+  platforms: ['win32'],
+  async handler() {
+    const elements = await findSystemUIElements();
+
+    if (elements.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'No system UI elements found. Make sure the desktop or taskbar is visible.',
+          },
+        ],
+      };
+    }
+
+    // Format elements with center coordinates for clicking
+    const elementsText = elements.map((el) => {
+      const cx = el.x + Math.floor(el.width / 2);
+      const cy = el.y + Math.floor(el.height / 2);
+      const source = (el as { source?: string }).source ?? 'unknown';
+      return `- ${el.type}: "${el.name}" center=(${cx},${cy}) [${el.width}x${el.height}] source=${source}${el.automationId ? ` id="${el.automationId}"` : ''}`;
+    }).join('\n');
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🖥️ Windows System UI Elements (${elements.length}):\n\n⚠️ Use center=(x,y) coordinates with os_click_at(x, y) to click on elements.\n\n${elementsText}`,
+        },
+      ],
+    };
+  },
+});
@@ -0,0 +1,41 @@
+/**
+ * os_tap - Tap with a finger or pen
+ */
+
+import { z } from 'zod';
+import { tap, type GestureMethod } from '../../core/gestures.js';
+import { defineTool } from '../registry.js';
+
+export const POINTER_DESCRIPTION = 'Finger or pen (default: touch). Drawing apps treat pens differently (pressure, palm rejection).';
+
+/**
+ * Suffix telling the agent whether real touch was used
+ */
+export function methodNote(method: GestureMethod): string {
+  return method === 'mouse' ? ' (emulated with the mouse - touch injection unavailable)' : ` (${method})`;
+}
+
+export const tapTool = defineTool({
+  name: 'os_tap',
+  description: 'Tap at screen coordinates with a real touch (or pen) contact. Use it for touch-first UIs (tablet mode, kiosks, touch-optimized apps) that react differently to touch than to clicks. Falls back to a mouse click where touch cannot be injected (macOS, Linux without uinput access).',
+  schema: z.object({
+    x: z.number().describe('X coordinate'),
+    y: z.number().describe('Y coordinate'),
+    pointer: z.enum(['touch', 'pen']).default('touch').describe(POINTER_DESCRIPTION),
+  }),
+  async handler({ x, y, pointer }, ctx) {
+    let method: GestureMethod = pointer;
+    await ctx.getRecorder().recordAction('os_tap', { x, y, pointer }, async () => {
+      method = await tap(x, y, { pointer });
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Tapped at (${x}, ${y})${methodNote(method)}`,
+        },
+      ],
+    };
+  },
+});
@@ -0,0 +1,52 @@
+/**
+ * os_type_into - Focus an element found by selector and type into it
+ */
+
+import { z } from 'zod';
+import { click, hotkey, typeText } from '../../core/input.js';
+import { focusWindow } from '../../core/windows.js';
+import { parseSelector, resolveElement } from '../../core/selector.js';
+import { TYPING_STRATEGIES } from '../../core/typing.js';
+import { REDACTED } from '../../core/redaction.js';
+import { defineTool } from '../registry.js';
+import { SELECTOR_DESCRIPTION } from './click-element.js';
+import { SECRET_DESCRIPTION, STRATEGY_DESCRIPTION, TEXT_DESCRIPTION } from './type.js';
+
+export const typeIntoTool = defineTool({
+  name: 'os_type_into',
+  description: 'Click into a UI element identified by a selector (typically an Edit field) and type text. The selector is resolved against a fresh UI tree at action time.',
+  schema: z.object({
+    selector: z.string().describe(SELECTOR_DESCRIPTION),
+    text: z.string().describe(TEXT_DESCRIPTION),
+    secret: z.boolean().default(false).describe(SECRET_DESCRIPTION),
+    clear: z.boolean().default(false).describe('Select all existing content before typing, replacing it (default: false)'),
+    strategy: z.enum(TYPING_STRATEGIES).optional().describe(STRATEGY_DESCRIPTION),
+  }),
+  async handler({ selector, text, secret, clear, strategy }, ctx) {
+    const parsed = parseSelector(selector);
+    let label = '';
+    let display = secret ? REDACTED : text;
+
+    await ctx.getRecorder().recordAction('os_type_into', { selector, text: display, clear, strategy, ...(secret ? { secret } : {}) }, async () => {
+      if (parsed.window) {
+        await focusWindow(parsed.window);
+      }
+      const element = await resolveElement(parsed);
+      label = `${element.type} "${element.name}"`;
+      await click(element.x + Math.floor(element.width / 2), element.y + Math.floor(element.height / 2));
+      if (clear) {
+        await hotkey(['primary', 'a']);
+      }
+      ({ display } = await typeText(text, { secret, ...(strategy ? { strategy } : {}) }));
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Typed into ${label}: "${display}"`,
+        },
+      ],
+    };
+  },
+});
@@ -0,0 +1,44 @@
+/**
+ * os_type - Type text with the keyboard
+ */
+
+import { z } from 'zod';
+import { typeText } from '../../core/input.js';
+import { REDACTED } from '../../core/redaction.js';
+import { TYPING_STRATEGIES } from '../../core/typing.js';
+import { defineTool } from '../registry.js';
+
+export const TEXT_DESCRIPTION = 'Text to type. {{secret:NAME}} placeholders are replaced at type time with the secret from ' +
+  'the OSCRIBE_SECRET_NAME environment variable or the OS keychain (service "oscribe", account NAME) - use them for passwords.';
+
+export const SECRET_DESCRIPTION = 'Keep the text out of logs, the session recording and this response (default: false). ' +
+  'Automatic when typing into a password field.';
+
+export const STRATEGY_DESCRIPTION = 'How to type: auto (key taps for the layout\'s own keys, Unicode injection for accents/symbols, paste for long text), ' +
+  'keys, unicode or paste (clipboard, restored afterwards). Default from config (typing.strategy).';
+
+export const typeTool = defineTool({
+  name: 'os_type',
+  description: 'Type text using the keyboard',
+  schema: z.object({
+    text: z.string().describe(TEXT_DESCRIPTION),
+    secret: z.boolean().default(false).describe(SECRET_DESCRIPTION),
+    strategy: z.enum(TYPING_STRATEGIES).optional().describe(STRATEGY_DESCRIPTION),
+  }),
+  async handler({ text, secret, strategy }, ctx) {
+    let display = secret ? REDACTED : text;
+
+    await ctx.getRecorder().recordAction('os_type', { text: display, strategy, ...(secret ? { secret } : {}) }, async () => {
+      ({ display } = await typeText(text, { secret, ...(strategy ? { strategy } : {}) }));
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Typed: "${display}"`,
+        },
+      ],
+    };
+  },
+});
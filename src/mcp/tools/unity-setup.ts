@@ -0,0 +1,69 @@
+/**
+ * os_unity_setup - Install the Unity Bridge plugin into a Unity Mono game
+ */
+
+import { z } from 'zod';
+import { setupUnityBridge } from '../../core/unity-setup.js';
+import { defineTool } from '../registry.js';
+
+export const unitySetupTool = defineTool({
+  name: 'os_unity_setup',
+  description: `Automatically set up the Unity Bridge for any Unity Mono game (Windows & macOS).
+
+This tool automates the full pipeline:
+1. **Detect**: Analyzes the game folder (runtime, DLLs, architecture)
+2. **BepInEx**: Downloads and installs BepInEx 5 mod loader
+3. **Build**: Compiles OScribeBridge.dll adapted to the game's DLLs
+4. **Deploy**: Copies the plugin to BepInEx/plugins/
+
+After setup, launch the game and the bridge exposes 80-100+ UI elements on port 9876.
+Use os_screenshot to see Unity UI elements (strategy: "unity").
+
+Requires: dotnet SDK installed (https://dot.net/download).
+Supports: Unity Mono games only (not IL2CPP).`,
+  schema: z.object({
+    gamePath: z.string().optional().describe(
+      'Absolute path to the Unity game folder. ' +
+      'Windows: folder with .exe. macOS: folder containing the .app bundle. ' +
+      'If omitted, attempts to detect from active window.',
+    ),
+    step: z.enum(['auto', 'detect', 'bepinex', 'build', 'deploy'])
+      .default('auto')
+      .describe('Step to execute. "auto" runs full pipeline. "detect" only analyzes the game.'),
+    force: z.boolean().default(false)
+      .describe('Force re-install even if already present.'),
+  }),
+  async handler({ gamePath, step, force }) {
+    const opts: Parameters<typeof setupUnityBridge>[0] = { step, force };
+    if (gamePath) opts.gamePath = gamePath;
+
+    const result = await setupUnityBridge(opts);
+
+    // Format output
+    const stepsText = result.steps.map((s) => {
+      const icon = s.status === 'success' ? '✅' : s.status === 'skipped' ? '⏭️' : s.status === 'pending' ? '⏳' : '❌';
+      const duration = s.duration_ms ? ` (${s.duration_ms}ms)` : '';
+      return `${icon} ${s.name}: ${s.message}${duration}`;
+    }).join('\n');
+
+    const header = result.success
+      ? `🎮 Unity Bridge setup ${step === 'detect' ? 'analysis' : 'complete'} for "${result.gameName}"`
+      : `❌ Unity Bridge setup failed for "${result.gameName}"`;
+
+    const meta = [
+      `Game: ${result.gamePath}`,
+      `Platform: ${result.platform} | Runtime: ${result.runtime}${result.compilationMode ? ` | Mode: ${result.compilationMode}` : ''}`,
+    ].join('\n');
+
+    const nextStepText = result.nextStep ? `\n👉 Next: ${result.nextStep}` : '';
+    const errorText = result.error && !result.success ? `\n⚠️ Error: ${result.error}` : '';
+
+    return {
+      content: [{
+        type: 'text',
+        text: `${header}\n\n${meta}\n\nSteps:\n${stepsText}${nextStepText}${errorText}`,
+      }],
+      isError: !result.success,
+    };
+  },
+});
@@ -0,0 +1,34 @@
+/**
+ * os_voiceover_start - Start VoiceOver in silent mode (macOS)
+ */
+
+import { z } from 'zod';
+import { isVoiceOverRunning, startVoiceOver } from '../../core/voiceover.js';
+import { defineTool } from '../registry.js';
+
+export const voiceoverStartTool = defineTool({
+  name: 'os_voiceover_start',
+  description: 'Start VoiceOver screen reader in silent mode (no audio). Required for Electron app accessibility. macOS only.',
+  schema: z.object({}),
+  platforms: ['darwin'],
+  async handler() {
+    const running = await isVoiceOverRunning();
+    if (running) {
+      return {
+        content: [{ type: 'text', text: '✅ VoiceOver is already running.' }],
+      };
+    }
+
+    const success = await startVoiceOver(true); // silent=true
+
+    return {
+      content: [{
+        type: 'text',
+        text: success
+          ? '✅ VoiceOver started in silent mode (no audio). Electron apps will now expose their full UI tree.'
+          : '❌ Failed to start VoiceOver.',
+      }],
+      isError: !success,
+    };
+  },
+});
@@ -0,0 +1,27 @@
+/**
+ * os_voiceover_status - VoiceOver screen reader status (macOS)
+ */
+
+import { z } from 'zod';
+import { getVoiceOverStatus } from '../../core/voiceover.js';
+import { defineTool } from '../registry.js';
+
+export const voiceoverStatusTool = defineTool({
+  name: 'os_voiceover_status',
+  description: 'Check VoiceOver screen reader status (macOS only). VoiceOver is needed for Electron app accessibility.',
+  schema: z.object({}),
+  platforms: ['darwin'],
+  async handler() {
+    const status = await getVoiceOverStatus();
+    const statusText = status.running
+      ? '✅ VoiceOver is running - Electron accessibility enabled'
+      : '⚠️ VoiceOver not running. Use os_voiceover_start to enable Electron accessibility.';
+
+    return {
+      content: [{
+        type: 'text',
+        text: `VoiceOver Status:\n- Available: ${status.available ? 'Yes' : 'No'}\n- Running: ${status.running ? 'Yes' : 'No'}\n- Can control: ${status.canControl ? 'Yes' : 'No (grant Accessibility permissions)'}\n\n${statusText}`,
+      }],
+    };
+  },
+});
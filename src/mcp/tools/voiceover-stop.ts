@@ -0,0 +1,25 @@
+/**
+ * os_voiceover_stop - Stop VoiceOver (macOS)
+ */
+
+import { z } from 'zod';
+import { stopVoiceOver } from '../../core/voiceover.js';
+import { defineTool } from '../registry.js';
+
+export const voiceoverStopTool = defineTool({
+  name: 'os_voiceover_stop',
+  description: 'Stop VoiceOver screen reader. macOS only.',
+  schema: z.object({}),
+  platforms: ['darwin'],
+  async handler() {
+    const success = await stopVoiceOver(true); // restoreSpeech=true
+
+    return {
+      content: [{
+        type: 'text',
+        text: success ? '✅ VoiceOver stopped.' : '❌ Failed to stop VoiceOver.',
+      }],
+      isError: !success,
+    };
+  },
+});
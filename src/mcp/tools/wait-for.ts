@@ -0,0 +1,61 @@
+/**
+ * os_wait_for - Wait until a UI condition holds (element, OCR text, stable pixels, window title)
+ */
+
+import { z } from 'zod';
+import { waitFor, type WaitCondition, type WaitResult } from '../../core/wait.js';
+import { defineTool } from '../registry.js';
+import { SELECTOR_DESCRIPTION } from './click-element.js';
+
+const regionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+}).describe('Screen region to watch (screen coordinates, as in os_screenshot)');
+
+export const waitForTool = defineTool({
+  name: 'os_wait_for',
+  description: 'Wait until a condition holds instead of sleeping a fixed time. Set exactly one of: selector (element appears/disappears), text (OCR text appears), stable (pixels stop changing), title (active window title matches). Returns what matched and how long it took; fails after the timeout.',
+  schema: z.object({
+    selector: z.string().optional().describe(`Wait for an element. ${SELECTOR_DESCRIPTION}`),
+    state: z.enum(['appear', 'disappear']).default('appear').describe('With selector: wait for the element to appear or disappear (default: appear)'),
+    text: z.string().optional().describe('Wait for OCR text to appear (case-insensitive substring)'),
+    stable: z.number().min(100).max(30000).optional().describe('Wait for pixels to stop changing for this many ms'),
+    threshold: z.number().min(0).max(1).default(0).describe('With stable: fraction of pixels allowed to change between polls (default: 0)'),
+    title: z.string().optional().describe('Wait for the active window title to match (substring, or /regex/flags)'),
+    region: regionSchema.optional(),
+    timeout: z.number().min(0).max(120000).default(10000).describe('Timeout in ms (default: 10000, max 120000)'),
+    interval: z.number().min(50).max(10000).default(500).describe('Poll interval in ms (default: 500)'),
+  }).refine(
+    (args) => [args.selector, args.text, args.stable, args.title].filter((v) => v !== undefined).length === 1,
+    { message: 'Set exactly one of selector, text, stable or title' }
+  ),
+  async handler(args, ctx) {
+    let condition: WaitCondition;
+    if (args.selector !== undefined) {
+      condition = { kind: 'element', selector: args.selector, state: args.state };
+    } else if (args.text !== undefined) {
+      condition = { kind: 'text', text: args.text, ...(args.region ? { region: args.region } : {}) };
+    } else if (args.stable !== undefined) {
+      condition = { kind: 'stable', stableMs: args.stable, threshold: args.threshold, ...(args.region ? { region: args.region } : {}) };
+    } else {
+      condition = { kind: 'title', pattern: args.title ?? '' };
+    }
+
+    const result = await ctx.getRecorder().recordAction(
+      'os_wait_for',
+      { ...condition, timeout: args.timeout, interval: args.interval },
+      () => waitFor(condition, { timeoutMs: args.timeout, intervalMs: args.interval })
+    ) as WaitResult;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${result.matched} (after ${result.elapsedMs}ms, ${result.polls} poll${result.polls === 1 ? '' : 's'})`,
+        },
+      ],
+    };
+  },
+});
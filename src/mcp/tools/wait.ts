@@ -0,0 +1,28 @@
+/**
+ * os_wait - Wait for a fixed duration
+ */
+
+import { z } from 'zod';
+import { defineTool } from '../registry.js';
+
+export const waitTool = defineTool({
+  name: 'os_wait',
+  description: 'Wait for a specified duration (useful for waiting for UI to load)',
+  schema: z.object({
+    ms: z.number().min(0).max(30000).describe('Milliseconds to wait (max 30000)'),
+  }),
+  async handler({ ms }, ctx) {
+    await ctx.getRecorder().recordAction('os_wait', { ms }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Waited ${ms}ms`,
+        },
+      ],
+    };
+  },
+});
@@ -0,0 +1,27 @@
+/**
+ * os_windows - List open windows and screens
+ */
+
+import { z } from 'zod';
+import { listScreens } from '../../core/screenshot.js';
+import { listWindows } from '../../core/windows.js';
+import { defineTool } from '../registry.js';
+
+export const windowsTool = defineTool({
+  name: 'os_windows',
+  description: 'List all open windows',
+  schema: z.object({}),
+  async handler() {
+    const windows = await listWindows();
+    const screens = await listScreens();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Windows:\n${windows.map((w) => `- ${w.title}`).join('\n') || 'No windows found'}\n\nScreens:\n${screens.map((s, i) => `- ${i}: ${s.name}`).join('\n')}`,
+        },
+      ],
+    };
+  },
+});
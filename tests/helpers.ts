@@ -0,0 +1,45 @@
+/**
+ * Shared test helpers - check() counters and an isolated ~/.oscribe
+ */
+
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+let passed = 0;
+let failed = 0;
+let tempHome: string | null = null;
+
+export function check(name: string, ok: boolean, detail = ''): void {
+  if (ok) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+  }
+}
+
+/**
+ * Isolated ~/.oscribe with the given config.json - call before importing ../dist modules,
+ * they read the config dir when loaded
+ * @returns The temporary home, removed by finish()
+ */
+export function useTempHome(prefix: string, config: Record<string, unknown> = {}): string {
+  const home = mkdtempSync(join(tmpdir(), `oscribe-${prefix}-`));
+  process.env['HOME'] = home;
+  process.env['USERPROFILE'] = home;
+  mkdirSync(join(home, '.oscribe'), { recursive: true });
+  writeFileSync(join(home, '.oscribe', 'config.json'), JSON.stringify(config));
+  tempHome = home;
+  return home;
+}
+
+/**
+ * Print the summary, remove the temporary home and exit (1 if a check failed)
+ */
+export function finish(): never {
+  if (tempHome) rmSync(tempHome, { recursive: true, force: true });
+  console.log(`\n${passed}/${passed + failed} tests passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
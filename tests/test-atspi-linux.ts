@@ -0,0 +1,93 @@
+#!/usr/bin/env tsx
+/**
+ * AT-SPI strategy test (Linux) - runs a small GTK window and reads it back
+ *
+ * Requires: Xvfb, dbus, at-spi2-core, python3-gi, gir1.2-gtk-3.0, gir1.2-atspi-2.0
+ *
+ *   npm run build
+ *   dbus-run-session -- xvfb-run -a npx tsx tests/test-atspi-linux.ts
+ */
+
+import { spawn } from 'node:child_process';
+import { getUIElements, getElementAtPoint } from '../dist/src/core/uiautomation.js';
+
+const WINDOW_TITLE = 'OScribe AT-SPI Test';
+
+// GTK app with a button, an entry with text and a disabled check box
+const GTK_APP = `
+import gi
+gi.require_version("Gtk", "3.0")
+from gi.repository import Gtk
+win = Gtk.Window(title="${WINDOW_TITLE}")
+box = Gtk.Box(orientation=Gtk.Orientation.VERTICAL, spacing=6)
+box.pack_start(Gtk.Button(label="Save"), False, False, 0)
+entry = Gtk.Entry()
+entry.set_text("hello")
+box.pack_start(entry, False, False, 0)
+check = Gtk.CheckButton(label="Remember me")
+check.set_sensitive(False)
+box.pack_start(check, False, False, 0)
+win.add(box)
+win.connect("destroy", Gtk.main_quit)
+win.show_all()
+win.present()
+Gtk.main()
+`;
+
+let passed = 0;
+let failed = 0;
+
+function check(name: string, ok: boolean, detail = ''): void {
+  if (ok) {
+    passed++;
+    console.log(`✅ ${name}`);
+  } else {
+    failed++;
+    console.log(`❌ ${name}${detail ? ` - ${detail}` : ''}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const app = spawn('python3', ['-c', GTK_APP], {
+    env: { ...process.env, GTK_MODULES: 'gail:atk-bridge', NO_AT_BRIDGE: '0' },
+    stdio: 'inherit',
+  });
+
+  try {
+    // Give GTK time to register with the AT-SPI registry
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+
+    const tree = await getUIElements(WINDOW_TITLE);
+    console.log(`Window: "${tree.window}" - ${tree.elements.length} elements`);
+    for (const el of tree.elements) {
+      console.log(`  ${el.type} "${el.name}" (${el.x},${el.y}) ${el.width}x${el.height}${el.isEnabled ? '' : ' disabled'}${el.value ? ` value="${el.value}"` : ''}`);
+    }
+
+    check('Window found', tree.window.includes(WINDOW_TITLE), tree.window);
+
+    const button = tree.elements.find((el) => el.type === 'Button' && el.name === 'Save');
+    check('Button "Save" mapped from push button', !!button);
+    check('Button has bounds', !!button && button.width > 0 && button.height > 0);
+
+    const edit = tree.elements.find((el) => el.type === 'Edit');
+    check('Entry mapped to Edit with value', edit?.value === 'hello', edit?.value);
+
+    const checkbox = tree.elements.find((el) => el.type === 'CheckBox');
+    check('Disabled CheckBox reported as not enabled', checkbox?.isEnabled === false);
+
+    if (button) {
+      const atPoint = await getElementAtPoint(button.x + button.width / 2, button.y + button.height / 2);
+      check('getElementAtPoint returns the button', atPoint?.type === 'Button' && atPoint.name === 'Save',
+        atPoint ? `${atPoint.type} "${atPoint.name}"` : 'null');
+    }
+  } catch (error) {
+    check('AT-SPI tree read', false, (error as Error).message);
+  } finally {
+    app.kill();
+  }
+
+  console.log(`\n${passed}/${passed + failed} tests passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
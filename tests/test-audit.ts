@@ -0,0 +1,118 @@
+#!/usr/bin/env tsx
+/**
+ * Audit test - hash-chained action log, tampering detection and signed summaries
+ * Uses a temporary HOME and the in-memory FakeInputBackend, no display needed.
+ *
+ *   npm run build
+ *   npx tsx tests/test-audit.ts
+ */
+
+import { generateKeyPairSync } from 'node:crypto';
+import { existsSync, readdirSync, readFileSync, unlinkSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { check, finish, useTempHome } from './helpers.js';
+
+useTempHome('audit', { audit: { sign: true } });
+
+const { FakeInputBackend, setInputBackend } = await import('../dist/src/core/input-backend.js');
+const { click, scroll } = await import('../dist/src/core/input.js');
+const { resetKillSwitch } = await import('../dist/src/core/killswitch.js');
+const { getLogsDir } = await import('../dist/src/core/logger.js');
+const { appendAuditEvent, AuditError, signAuditSummary, verifyAuditLog, verifyAuditSummary } = await import('../dist/src/core/audit.js');
+
+setInputBackend(new FakeInputBackend());
+resetKillSwitch();
+for (let i = 0; i < 4; i++) {
+  await click(10 * i, 20);
+}
+
+const logsDir = getLogsDir();
+const [logFile = ''] = readdirSync(logsDir).filter((f) => f.startsWith('actions-'));
+const logPath = join(logsDir, logFile);
+const original = readFileSync(logPath, 'utf-8');
+const lines = original.split('\n').filter(Boolean);
+const kinds = (): string => verifyAuditLog(logsDir).issues.map((issue) => issue.kind).join(',');
+
+const report = verifyAuditLog(logsDir);
+check('untouched log verifies, every event chained and signed',
+  report.valid && report.chained === 4 && report.signed === 4 && report.firstSeq === 1 && report.lastSeq === 4,
+  JSON.stringify(report.issues));
+
+writeFileSync(logPath, original.replace('"x":10', '"x":11'));
+check('edited event detected', kinds() === 'modified', kinds());
+
+writeFileSync(logPath, [lines[0], lines[1], lines[3], ''].join('\n'));
+check('removed event detected', kinds() === 'gap', kinds());
+
+writeFileSync(logPath, [lines[0], lines[1], lines[2], ''].join('\n'));
+check('truncated log detected', kinds() === 'truncated', kinds());
+
+writeFileSync(logPath, [lines[0], '{"action":"click","params":{"x":1,"y":1}}', ...lines.slice(1), ''].join('\n'));
+check('inserted unchained event detected', kinds() === 'unchained', kinds());
+
+writeFileSync(logPath, original);
+const { publicKey: otherKey } = generateKeyPairSync('ed25519');
+const foreign = verifyAuditLog(logsDir, { publicKey: otherKey.export({ type: 'spki', format: 'pem' }).toString() });
+check('signatures checked against a given public key',
+  foreign.issues.length === 4 && foreign.issues.every((issue) => issue.kind === 'bad-signature'));
+
+await scroll('down', 3);
+const extended = verifyAuditLog(logsDir);
+check('new events continue the chain', extended.valid && extended.lastSeq === 5, JSON.stringify(extended.issues));
+
+const summary = signAuditSummary(extended, logsDir);
+check('exported summary signed, edits break the signature',
+  verifyAuditSummary(summary) && !verifyAuditSummary({ ...summary, valid: true, lastSeq: 9 }));
+
+await Promise.all(Array.from({ length: 20 }, (_, i) => appendAuditEvent(logsDir, () => logPath, { action: 'test', params: { i } })));
+const concurrent = verifyAuditLog(logsDir);
+check('concurrent appends keep one chain', concurrent.valid && concurrent.lastSeq === 25, JSON.stringify(concurrent.issues));
+
+const lockPath = join(logsDir, '.audit.lock');
+writeFileSync(lockPath, '999999999:crashed-writer');
+await appendAuditEvent(logsDir, () => logPath, { action: 'test', params: {} });
+check('lock of a dead process taken over', !existsSync(lockPath) && verifyAuditLog(logsDir).lastSeq === 26);
+
+// Held by a live process (this one): wait without blocking, then fail - never steal it
+writeFileSync(lockPath, `${process.pid}:live-writer`);
+let ticks = 0;
+const ticker = setInterval(() => ticks++, 50);
+try {
+  await appendAuditEvent(logsDir, () => logPath, { action: 'test', params: {} });
+  check('live lock is never taken over', false, 'appended');
+} catch (error) {
+  check('live lock is never taken over, event loop kept running',
+    error instanceof AuditError && error.code === 'LOCK_TIMEOUT' &&
+    readFileSync(lockPath, 'utf-8') === `${process.pid}:live-writer` && ticks > 10 && verifyAuditLog(logsDir).lastSeq === 26,
+    `ticks=${ticks}`);
+}
+clearInterval(ticker);
+
+// Logging fails (lock never freed): the action's own outcome still goes through
+try {
+  await click(5, 5);
+  check('failed logging leaves the action result alone', verifyAuditLog(logsDir).lastSeq === 26);
+} catch (error) {
+  check('failed logging leaves the action result alone', false, String(error));
+}
+unlinkSync(lockPath);
+
+// Crash between appending an event and writing the head: the head is behind the log
+const headPath = join(logsDir, 'audit-head.json');
+const staleHead = readFileSync(headPath, 'utf-8');
+await appendAuditEvent(logsDir, () => logPath, { action: 'test', params: {} });
+writeFileSync(headPath, staleHead);
+await appendAuditEvent(logsDir, () => logPath, { action: 'test', params: {} });
+const recovered = verifyAuditLog(logsDir);
+check('stale head: chain continues from the last logged event', recovered.valid && recovered.lastSeq === 28,
+  JSON.stringify(recovered.issues));
+
+// Events larger than the chunk the last line is read back with
+writeFileSync(headPath, staleHead);
+await appendAuditEvent(logsDir, () => logPath, { action: 'test', params: { text: 'é'.repeat(100 * 1024) } });
+writeFileSync(headPath, staleHead);
+await appendAuditEvent(logsDir, () => logPath, { action: 'test', params: {} });
+const large = verifyAuditLog(logsDir);
+check('last event found past a large event', large.valid && large.lastSeq === 30, JSON.stringify(large.issues));
+
+finish();
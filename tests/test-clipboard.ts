@@ -0,0 +1,31 @@
+#!/usr/bin/env tsx
+/**
+ * Clipboard test - the Windows CF_HTML format (byte offsets header) both ways
+ * Pure functions, runs anywhere: the clipboard itself is not touched.
+ *
+ *   npm run build
+ *   npx tsx tests/test-clipboard.ts
+ */
+
+import { fromCfHtml, toCfHtml } from '../dist/src/core/clipboard.js';
+import { check, finish } from './helpers.js';
+
+const html = '<p>Café <b>crème</b> – 日本語 😀</p>';
+const cfHtml = toCfHtml(html);
+const bytes = Buffer.from(cfHtml, 'utf-8');
+const offset = (field: string): number => Number(new RegExp(`^${field}:(\\d{10})\\r$`, 'm').exec(cfHtml)?.[1] ?? -1);
+
+check('header lists the four offsets, ten digits each',
+  ['StartHTML', 'EndHTML', 'StartFragment', 'EndFragment'].every((field) => offset(field) > 0) && cfHtml.startsWith('Version:0.9\r\n'));
+check('fragment offsets are UTF-8 byte offsets of the fragment',
+  bytes.subarray(offset('StartFragment'), offset('EndFragment')).toString('utf-8') === html,
+  bytes.subarray(offset('StartFragment'), offset('EndFragment')).toString('utf-8'));
+check('document offsets span <html> to the end',
+  bytes.subarray(offset('StartHTML')).toString('utf-8').startsWith('<html>') && offset('EndHTML') === bytes.length);
+check('fragment read back unchanged', fromCfHtml(cfHtml) === html);
+check('no fragment markers: the document from <html> on',
+  fromCfHtml('Version:0.9\r\nStartHTML:0000000097\r\n<HTML><body>x</body></HTML>') === '<HTML><body>x</body></HTML>');
+check('not CF_HTML at all: returned as is', fromCfHtml('<b>bold</b>') === '<b>bold</b>');
+check('empty fragment kept empty', fromCfHtml(toCfHtml('')) === '');
+
+finish();
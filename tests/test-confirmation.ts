@@ -0,0 +1,74 @@
+#!/usr/bin/env tsx
+/**
+ * Confirmation test - "confirm" policy rules, the approval queue and confirmation handlers
+ * Uses a temporary HOME (config.json + policy.json), no display needed.
+ *
+ *   npm run build
+ *   npx tsx tests/test-confirmation.ts
+ */
+
+import { writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { check, finish, useTempHome } from './helpers.js';
+
+const home = useTempHome('confirm', { confirmation: { timeoutMs: 1500 } });
+writeFileSync(join(home, '.oscribe', 'policy.json'), JSON.stringify({
+  rules: [{ id: 'close-app', effect: 'confirm', description: 'closing apps', match: { hotkeys: 'alt+f4' } }],
+}));
+
+const {
+  createConfirmationRequest,
+  decideApproval,
+  listPendingApprovals,
+  runWithConfirmationHandler,
+  waitForApproval,
+} = await import('../dist/src/core/confirmation.js');
+const { checkRestrictions, RestrictedActionError } = await import('../dist/src/core/security.js');
+
+const hotkey = { keys: ['alt', 'f4'] };
+const asked: string[] = [];
+
+await runWithConfirmationHandler(async (request) => {
+  asked.push(request.summary);
+  return { approved: true, channel: 'elicitation' };
+}, () => checkRestrictions('hotkey', hotkey));
+check('approved "confirm" action runs', asked.length === 1 && asked[0]?.includes('alt+f4') === true, asked.join());
+
+try {
+  await runWithConfirmationHandler(
+    async () => ({ approved: false, channel: 'elicitation', reason: 'declined by the user' }),
+    () => checkRestrictions('hotkey', hotkey)
+  );
+  check('denied "confirm" action is blocked', false, 'no error');
+} catch (error) {
+  check('denied "confirm" action is blocked',
+    error instanceof RestrictedActionError && error.code === 'CONFIRMATION_DENIED' && error.message.includes('declined'));
+}
+
+let calls = 0;
+await runWithConfirmationHandler(async () => {
+  calls++;
+  return { approved: false, channel: 'elicitation' };
+}, () => checkRestrictions('hotkey', { keys: ['ctrl', 'c'] }));
+check('actions no rule asks about are not confirmed', calls === 0);
+
+// Approval queue: a second "terminal" answers while the action waits
+const request = createConfirmationRequest({ action: 'hotkey', summary: 'Hotkey "alt+f4"', params: hotkey });
+const waiting = waitForApproval(request, 5000);
+await new Promise((resolve) => setTimeout(resolve, 300));
+const pending = listPendingApprovals();
+check('queued request is listed as pending', pending.length === 1 && pending[0]?.id === request.id);
+check('decision is delivered to the waiting action',
+  decideApproval(request.id, false, 'not now') &&
+  JSON.stringify(await waiting) === JSON.stringify({ approved: false, channel: 'approve', reason: 'not now' }));
+check('answered request leaves the queue', listPendingApprovals().length === 0 && !decideApproval(request.id, true));
+
+try {
+  await checkRestrictions('hotkey', hotkey);
+  check('no answer in time denies the action', false, 'no error');
+} catch (error) {
+  check('no answer in time denies the action',
+    error instanceof RestrictedActionError && (error.details as { channel?: string } | undefined)?.channel === 'timeout');
+}
+
+finish();
@@ -0,0 +1,195 @@
+#!/usr/bin/env tsx
+/**
+ * Input backend test - drives input.ts through the in-memory FakeInputBackend
+ * No display and no native robotjs build required.
+ *
+ *   npm run build
+ *   npx tsx tests/test-input-backend.ts
+ */
+
+import { FakeInputBackend, InputBackendError, YdotoolInputBackend, detectInputBackend, setInputBackend } from '../dist/src/core/input-backend.js';
+import { click, typeText, hotkey, scroll, drag, mouseDown, mouseUp, getMousePosition, wait, keyDown, keyUp, pressKeys, getHeldKeys } from '../dist/src/core/input.js';
+import { resetKillSwitch, UserInterruptError } from '../dist/src/core/killswitch.js';
+import { RestrictedActionError } from '../dist/src/core/security.js';
+import { planTyping, keyStrokeFor } from '../dist/src/core/typing.js';
+import { KeyError, parseKeySequence } from '../dist/src/core/keys.js';
+import { planPinch, planSwipe, pinch, setTouchInjector, tap, type TouchFrame } from '../dist/src/core/gestures.js';
+import { check, finish } from './helpers.js';
+
+async function main(): Promise<void> {
+  const fake = new FakeInputBackend();
+  setInputBackend(fake);
+  resetKillSwitch();
+
+  await click(100, 200);
+  check('click moves then presses and releases',
+    JSON.stringify(fake.calls) === JSON.stringify([
+      { method: 'moveMouse', args: [100, 200] },
+      { method: 'mouseToggle', args: ['down', 'left'] },
+      { method: 'mouseToggle', args: ['up', 'left'] },
+    ]), JSON.stringify(fake.calls));
+
+  fake.calls.length = 0;
+  await click(100, 200, { double: true, button: 'right' });
+  check('double click toggles twice', fake.calls.filter((c) => c.method === 'mouseToggle').length === 4);
+
+  fake.calls.length = 0;
+  await typeText('hello', { delay: 10, strategy: 'keys' });
+  check('typeText passes text and delay', JSON.stringify(fake.calls[0]?.args) === '["hello",10]');
+
+  fake.calls.length = 0;
+  await typeText('été', { strategy: 'unicode' });
+  check('unicode strategy injects the whole text', fake.calls[0]?.method === 'typeUnicode' && fake.calls[0]?.args[0] === 'été');
+
+  // Backend without Unicode injection: secrets must fail rather than go through the clipboard
+  const noUnicode = new FakeInputBackend();
+  noUnicode.typeUnicode = async (): Promise<void> => {
+    throw new InputBackendError('no Unicode injection', 'UNSUPPORTED');
+  };
+  setInputBackend(noUnicode);
+  try {
+    await typeText('pässwörd', { strategy: 'unicode', secret: true });
+    check('secret is not pasted when Unicode injection is unsupported', false, 'typed');
+  } catch (error) {
+    check('secret is not pasted when Unicode injection is unsupported',
+      error instanceof InputBackendError && !noUnicode.calls.some((c) => c.method === 'keyTap'));
+  }
+  setInputBackend(fake);
+
+  check('layout: AZERTY digits need injection', keyStrokeFor('1', 'fr', true) === null && keyStrokeFor('1', 'us', true)?.key === '1');
+  check('layout: uppercase is shift + letter', JSON.stringify(keyStrokeFor('A', 'fr', true)) === '{"key":"a","modifiers":["shift"]}');
+  check('layout: physical-key backend injects off-US layouts', keyStrokeFor('a', 'fr', false) === null);
+  check('plan: "Hello é ça" keeps keys, folds short runs',
+    JSON.stringify(planTyping('Hello é ça', 'us', true)) ===
+      JSON.stringify([{ kind: 'keys', text: 'Hello ' }, { kind: 'unicode', text: 'é ç' }, { kind: 'keys', text: 'a' }]));
+
+  fake.calls.length = 0;
+  await hotkey(['Ctrl', 'Shift', 'T']);
+  check('hotkey maps modifiers to backend key names',
+    JSON.stringify(fake.calls[0]?.args) === '["t",["control","shift"]]', JSON.stringify(fake.calls[0]?.args));
+
+  fake.calls.length = 0;
+  await pressKeys('ctrl+k ctrl+s shift+tab x3', { delay: 0 });
+  check('key sequence taps each chord, repeats included',
+    JSON.stringify(fake.calls.map((c) => c.args)) === JSON.stringify([
+      ['k', ['control']], ['s', ['control']], ['tab', ['shift']], ['tab', ['shift']], ['tab', ['shift']],
+    ]));
+  check('key table knows F-keys, numpad, media and PrintScreen',
+    JSON.stringify(parseKeySequence('f13 num5 volumeup prtsc').map((c) => c.key)) === '["f13","numpad_5","audio_vol_up","printscreen"]');
+
+  fake.calls.length = 0;
+  try {
+    await pressKeys('ctrl+s ctrl+bogus');
+    check('unknown key is rejected before any key is sent', false, 'no error');
+  } catch (error) {
+    check('unknown key is rejected before any key is sent', error instanceof KeyError && fake.calls.length === 0);
+  }
+
+  fake.calls.length = 0;
+  await keyDown('shift');
+  await click(50, 50);
+  await keyUp();
+  check('held shift wraps a click',
+    fake.calls[0]?.method === 'keyToggle' && fake.calls.at(-1)?.method === 'keyToggle' &&
+    fake.calls.at(-1)?.args[1] === 'up' && getHeldKeys().length === 0);
+
+  // Held keys are part of the chord: win held + l is win+l (blocked by default)
+  await keyDown('win');
+  fake.calls.length = 0;
+  const blocked: string[] = [];
+  for (const [name, action] of [
+    ['hotkey', () => hotkey(['l'])],
+    ['pressKeys', () => pressKeys('l')],
+    ['typeText', () => typeText('l')],
+  ] as const) {
+    try {
+      await action();
+    } catch (error) {
+      if (error instanceof RestrictedActionError) blocked.push(name);
+    }
+  }
+  await keyUp();
+  check('keyDown + hotkey/pressKeys/typeText checked as the whole chord',
+    blocked.join(',') === 'hotkey,pressKeys,typeText' && !fake.calls.some((c) => c.method === 'keyTap' || c.method === 'typeString'),
+    blocked.join(','));
+
+  await keyDown('ctrl');
+  await keyDown('alt');
+  try {
+    await hotkey(['delete']);
+    check('ctrl+alt held, then delete is blocked', false, 'sent');
+  } catch (error) {
+    check('ctrl+alt held, then delete is blocked', error instanceof RestrictedActionError);
+  }
+  await keyUp();
+
+  fake.calls.length = 0;
+  await scroll('down', 5);
+  check('scroll down is negative y', JSON.stringify(fake.calls[0]?.args) === '[0,-5]');
+
+  fake.calls.length = 0;
+  await drag(0, 0, 100, 100, { duration: 50, steps: 5 });
+  const moves = fake.calls.filter((c) => c.method === 'moveMouse');
+  check('drag moves in steps between press and release',
+    moves.length === 6 && fake.calls[1]?.method === 'mouseToggle' && fake.calls.at(-1)?.args[0] === 'up');
+  check('getMousePosition reads the backend', getMousePosition().x === 100 && getMousePosition().y === 100);
+
+  fake.calls.length = 0;
+  await mouseDown();
+  await mouseUp();
+  check('mouseDown/mouseUp at current position', fake.calls.length === 2);
+
+  // Gestures: planned frames go to the touch injector, or the mouse when touch is unavailable
+  const swipeFrames = planSwipe(0, 0, 100, 0, 160);
+  check('swipe goes down, moves, then up at the end',
+    swipeFrames[0]?.contacts[0]?.state === 'down' && swipeFrames.at(-1)?.contacts[0]?.state === 'up' &&
+    swipeFrames.at(-1)?.contacts[0]?.x === 100 && swipeFrames.length === 12);
+  const pinchFrames = planPinch(500, 500, 100, 300, 160);
+  check('pinch moves two contacts apart around the center',
+    pinchFrames[0]?.contacts.map((c) => c.x).join() === '450,550' && pinchFrames.at(-1)?.contacts.map((c) => c.x).join() === '350,650');
+
+  const injected: TouchFrame[][] = [];
+  setTouchInjector({
+    name: 'fake',
+    unavailableReason: async (pointer) => (pointer === 'pen' ? 'no pen' : null),
+    inject: async (frames) => {
+      injected.push(frames);
+    },
+  });
+  fake.calls.length = 0;
+  const touchMethod = await tap(10, 20);
+  check('tap is injected as touch when available', touchMethod === 'touch' && injected.length === 1 && fake.calls.length === 0);
+  const penMethod = await tap(10, 20, { pointer: 'pen' });
+  check('unavailable pen falls back to a mouse click',
+    penMethod === 'mouse' && fake.calls.filter((c) => c.method === 'mouseToggle').length === 2);
+  fake.calls.length = 0;
+  await pinch(10, 20, { mode: 'mouse' });
+  check('pinch emulated as ctrl + wheel up',
+    fake.calls.some((c) => c.method === 'scroll' && (c.args[1] as number) > 0) &&
+    fake.calls.at(-1)?.method === 'keyToggle' && fake.calls.at(-1)?.args[1] === 'up');
+  setTouchInjector(undefined);
+
+  // User grabs the mouse after the cooldown: next action must be refused
+  fake.calls.length = 0;
+  await wait(600);
+  fake.setMousePosition(600, 600);
+  try {
+    await click(10, 10);
+    check('kill switch stops automation on user movement', false, 'click went through');
+  } catch (error) {
+    check('kill switch stops automation on user movement', error instanceof UserInterruptError);
+  }
+  check('no input injected after kill switch', fake.calls.length === 0);
+  check('ydotool reports it cannot read the pointer (no kill switch)',
+    !new YdotoolInputBackend().readsPointer && fake.readsPointer);
+  const sessionType = process.env['XDG_SESSION_TYPE'];
+  process.env['XDG_SESSION_TYPE'] = 'wayland';
+  check('auto never picks ydotool, even on Wayland (kill switch stays on)', detectInputBackend() !== 'ydotool');
+  if (sessionType === undefined) delete process.env['XDG_SESSION_TYPE'];
+  else process.env['XDG_SESSION_TYPE'] = sessionType;
+
+  setInputBackend(null);
+  finish();
+}
+
+main();
@@ -0,0 +1,81 @@
+#!/usr/bin/env tsx
+/**
+ * Key table test - modifier translation per platform and blocked-hotkey matching
+ * Pure functions, runs anywhere.
+ *
+ *   npm run build
+ *   npx tsx tests/test-keys.ts
+ */
+
+import { parseChord, PLATFORM_MODIFIERS, type KeyPlatform } from '../dist/src/core/keys.js';
+import { findBlockedHotkey } from '../dist/src/core/policy.js';
+import { check, finish } from './helpers.js';
+
+const sent = (chord: string, platform: KeyPlatform): string => {
+  const { key, modifiers } = parseChord(chord, platform);
+  return [...modifiers, key].join('+');
+};
+
+// Expected keys sent (robotjs names) for each shortcut, per platform
+const TABLES: Record<KeyPlatform, Record<string, string>> = {
+  win32: {
+    'primary+c': 'control+c',
+    'cmd+c': 'control+c',
+    'ctrl+c': 'control+c',
+    'win+l': 'command+l',
+    'super+e': 'command+e',
+    'option+f4': 'alt+f4',
+  },
+  darwin: {
+    'primary+c': 'command+c',
+    'cmd+c': 'command+c',
+    'ctrl+c': 'control+c',
+    'super+space': 'command+space',
+    'meta+q': 'command+q',
+    'option+left': 'alt+left',
+  },
+  linux: {
+    'primary+c': 'control+c',
+    'cmd+c': 'control+c',
+    'ctrl+alt+t': 'control+alt+t',
+    'super+l': 'command+l',
+    'win+d': 'command+d',
+    'opt+tab': 'alt+tab',
+  },
+};
+
+function main(): void {
+  for (const [platform, table] of Object.entries(TABLES) as Array<[KeyPlatform, Record<string, string>]>) {
+    const mismatches = Object.entries(table)
+      .map(([chord, expected]) => [chord, expected, sent(chord, platform)])
+      .filter(([, expected, actual]) => expected !== actual);
+    check(`${platform}: modifiers translate to the keys sent`, mismatches.length === 0, JSON.stringify(mismatches));
+    check(`${platform}: every platform modifier resolves to a modifier key`,
+      Object.values(PLATFORM_MODIFIERS[platform]).every((k) => ['control', 'command', 'alt', 'shift'].includes(k)));
+  }
+
+  const blocked = ['win+l', 'ctrl+alt+delete', 'win+r'];
+  check('win32: super+l and meta+l hit the win+l block', findBlockedHotkey(['super', 'l'], blocked, 'win32') === 'win+l' &&
+    findBlockedHotkey(['meta', 'L'], blocked, 'win32') === 'win+l');
+  check('win32: cmd+l is sent as ctrl+l, not blocked', findBlockedHotkey(['cmd', 'l'], blocked, 'win32') === undefined);
+  check('darwin: cmd+l (address bar) is not caught by the Windows win+l block', findBlockedHotkey(['cmd', 'l'], blocked, 'darwin') === undefined);
+  check('darwin: "win" is not a key name', (() => {
+    try {
+      parseChord('win+l', 'darwin');
+      return false;
+    } catch {
+      return true;
+    }
+  })());
+  check('linux: primary+alt+delete hits ctrl+alt+delete', findBlockedHotkey(['primary', 'alt', 'delete'], blocked, 'linux') === 'ctrl+alt+delete');
+  check('darwin: primary+alt+delete is cmd+alt+delete, not blocked', findBlockedHotkey(['primary', 'alt', 'delete'], blocked, 'darwin') === undefined);
+  check('canonical names match their aliases', findBlockedHotkey(['control', 'alt', 'del'], blocked, 'win32') === 'ctrl+alt+delete');
+  for (const keys of [['rctrl', 'alt', 'delete'], ['lctrl', 'alt', 'delete'], ['ctrl', 'altgr', 'delete'], ['ctrl', 'ralt', 'delete'], ['right_control', 'alt', 'delete']]) {
+    check(`side-specific modifiers fold to the generic key: ${keys.join('+')}`, findBlockedHotkey(keys, blocked, 'win32') === 'ctrl+alt+delete');
+  }
+  check('rshift in a pattern matches shift', findBlockedHotkey(['shift', 'f10'], ['rshift+f10'], 'win32') === 'rshift+f10');
+
+  finish();
+}
+
+main();
@@ -0,0 +1,63 @@
+#!/usr/bin/env tsx
+/**
+ * Motion test - cursor paths of the instant, linear, bezier and human profiles
+ * Pure path planning with a seeded random source, no display needed.
+ *
+ *   npm run build
+ *   npx tsx tests/test-motion.ts
+ */
+
+import { check, finish, useTempHome } from './helpers.js';
+
+useTempHome('motion', { motion: { profile: 'bezier', duration: 480 } });
+
+const { planPath, resolveMotion } = await import('../dist/src/core/motion.js');
+
+// Deterministic random source (LCG)
+const seeded = (seed: number): (() => number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 2 ** 32;
+    return state / 2 ** 32;
+  };
+};
+
+const from = { x: 100, y: 100 };
+const to = { x: 500, y: 300 };
+const motion = (profile: 'instant' | 'linear' | 'bezier' | 'human', extra = {}) =>
+  ({ profile, duration: 320, jitter: 2, overshoot: 0.05, ...extra });
+const lands = (path: { x: number; y: number }[]): boolean => path.at(-1)?.x === to.x && path.at(-1)?.y === to.y;
+
+const resolved = resolveMotion({ duration: 100 });
+check('options override config, config fills the rest',
+  resolved.profile === 'bezier' && resolved.duration === 100 && resolved.jitter === 2 && resolved.overshoot === 0.05,
+  JSON.stringify(resolved));
+
+check('instant: one move straight to the target',
+  JSON.stringify(planPath(from, to, motion('instant'))) === JSON.stringify([{ x: 500, y: 300, delayMs: 0 }]));
+check('no distance or no duration: one move',
+  planPath(to, to, motion('linear')).length === 1 && planPath(from, to, motion('linear', { duration: 0 })).length === 1);
+
+const linear = planPath(from, to, motion('linear'));
+check('linear: one step per 16ms, evenly spaced on the line, on the target at the end',
+  linear.length === 20 && lands(linear) && linear[9]?.x === 300 && linear[9]?.y === 200 &&
+  linear.every((p) => p.delayMs === 16), JSON.stringify(linear.slice(0, 3)));
+check('step count capped and floored',
+  planPath(from, to, motion('linear', { duration: 60000 })).length === 200 && planPath(from, to, motion('linear'), 1).length === 2);
+
+const bezier = planPath(from, to, motion('bezier'), undefined, seeded(1));
+check('bezier: curved path on the target at the end',
+  lands(bezier) && bezier.some((p) => Math.abs((p.y - 100) - (p.x - 100) / 2) > 5));
+check('bezier: same seed, same path',
+  JSON.stringify(bezier) === JSON.stringify(planPath(from, to, motion('bezier'), undefined, seeded(1))));
+
+const human = planPath(from, to, motion('human'), undefined, seeded(7));
+const maxX = Math.max(...human.map((p) => p.x));
+check('human: overshoots past the target, then corrects back onto it',
+  lands(human) && maxX > to.x && maxX <= to.x + 40 && human.at(-1)?.delayMs === 0, `max x ${maxX}`);
+check('human: uneven timing',
+  new Set(human.slice(0, -4).map((p) => p.delayMs.toFixed(2))).size > 1);
+check('human: overshoot capped at 40px on long moves',
+  Math.max(...planPath({ x: 0, y: 0 }, { x: 4000, y: 0 }, motion('human', { overshoot: 0.5, jitter: 0 }), undefined, seeded(3)).map((p) => p.x)) <= 4040);
+
+finish();
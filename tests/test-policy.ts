@@ -0,0 +1,71 @@
+#!/usr/bin/env tsx
+/**
+ * Policy engine test - rule matching, precedence and the restrictedMode conversion
+ * Pure functions, runs anywhere.
+ *
+ *   npm run build
+ *   npx tsx tests/test-policy.ts
+ */
+
+import { evaluatePolicy, legacyPolicy, parsePolicy, PolicyError, type PolicyRequest } from '../dist/src/core/policy.js';
+import { check, finish } from './helpers.js';
+
+const policy = parsePolicy({
+  default: 'allow',
+  rules: [
+    { id: 'vaults', effect: 'deny', priority: 100, match: { process: ['keepass*', '1password'] } },
+    { id: 'bank', effect: 'confirm', priority: 50, match: { process: 'chrome', title: ' - My Bank$' } },
+    { id: 'bank-read', effect: 'allow', priority: 50, match: { process: 'chrome', title: 'My Bank', actions: 'scroll' } },
+    { id: 'taskbar', effect: 'deny', match: { region: { x: 0, y: 1040, width: 1920, height: 40 }, actions: 'click' } },
+    { id: 'lock', effect: 'deny', match: { hotkeys: 'win+l' } },
+    { id: 'destructive', effect: 'confirm', match: { element: '^(Delete|Send)$', actions: 'click' } },
+  ],
+});
+
+const request = (action: string, window: Partial<NonNullable<PolicyRequest['window']>> | null, extra: Partial<PolicyRequest> = {}): PolicyRequest => ({
+  action,
+  points: [],
+  window: window ? { id: '1', title: '', ...window } : null,
+  ...extra,
+});
+
+const decide = (req: PolicyRequest): string => {
+  const decision = evaluatePolicy(policy, req, 'win32');
+  return `${decision.effect}:${decision.rule?.id ?? 'default'}`;
+};
+
+check('process glob matches a renamed vault window, .exe ignored',
+  decide(request('click', { title: 'Untitled', processName: 'KeePassXC.exe' })) === 'deny:vaults');
+check('a browser tab about banking is not caught by a process rule',
+  decide(request('click', { title: 'banking tips - Google Chrome', processName: 'chrome' })) === 'allow:default');
+check('process + title regex asks for confirmation',
+  decide(request('type', { title: 'Accounts - My Bank', processName: 'chrome' })) === 'confirm:bank');
+check('equal priority: confirm beats allow',
+  decide(request('scroll', { title: 'Accounts - My Bank', processName: 'chrome' })) === 'confirm:bank');
+check('region matches the action point',
+  decide(request('click', null, { points: [{ x: 100, y: 1050 }] })) === 'deny:taskbar' &&
+  decide(request('click', null, { points: [{ x: 100, y: 500 }] })) === 'allow:default');
+check('hotkeys are matched as sent (super+l = win+l)',
+  decide(request('hotkey', null, { keys: ['super', 'l'] })) === 'deny:lock');
+check('window rules never match an unknown window', decide(request('click', null)) === 'allow:default');
+check('element rule matches the name under the action point, not an unknown element',
+  decide(request('click', null, { element: 'send' })) === 'confirm:destructive' &&
+  decide(request('click', null, { element: 'Send later' })) === 'allow:default' &&
+  decide(request('click', null)) === 'allow:default');
+
+try {
+  parsePolicy({ rules: [{ id: 'bad', effect: 'block', match: { title: '(' } }] });
+  check('invalid policy is rejected', false, 'no error');
+} catch (error) {
+  check('invalid policy is rejected', error instanceof PolicyError && error.code === 'INVALID_POLICY');
+}
+
+const legacy = legacyPolicy({ enabled: true, blockedApps: ['bank'], blockedHotkeys: ['win+l'], allowedApps: [] });
+check('legacy blockedApps still match title substrings',
+  evaluatePolicy(legacy, request('click', { title: 'Online Banking' })).effect === 'deny');
+const whitelist = legacyPolicy({ enabled: true, blockedApps: ['notepad'], blockedHotkeys: [], allowedApps: ['notepad'] });
+check('legacy allowedApps: listed app allowed, others denied',
+  evaluatePolicy(whitelist, request('type', { title: 'notes - Notepad' })).effect === 'allow' &&
+  evaluatePolicy(whitelist, request('type', { title: 'Calculator' })).effect === 'deny');
+
+finish();
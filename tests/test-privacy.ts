@@ -0,0 +1,107 @@
+#!/usr/bin/env tsx
+/**
+ * Privacy test - screenshot masking of blocked app windows, static regions and password fields
+ * Works on synthetic images and window layers, no display needed.
+ *
+ *   npm run build
+ *   npx tsx tests/test-privacy.ts
+ */
+
+import { check, finish, useTempHome } from './helpers.js';
+
+useTempHome('privacy', {
+  privacy: { regions: [{ x: 0, y: 0, width: 4, height: 4, label: 'clock' }] },
+});
+
+const { decodePng, encodePng } = await import('../dist/src/core/png.js');
+const { applyScreenMask, buildScreenMask, describeScreenMask, filterMaskedElements, filterMaskedOcr, isMaskedPoint, maskWindowTitle } =
+  await import('../dist/src/core/privacy.js');
+
+// 40x20 RGBA gradient
+const width = 40;
+const height = 20;
+const data = Buffer.alloc(width * height * 4);
+for (let y = 0; y < height; y++) {
+  for (let x = 0; x < width; x++) {
+    data.set([x * 6, y * 12, 200, 255], (y * width + x) * 4);
+  }
+}
+const png = encodePng({ width, height, channels: 4, data });
+const pixel = (image: { width: number; data: Buffer }, x: number, y: number): number[] =>
+  [...image.data.subarray((y * image.width + x) * 4, (y * image.width + x) * 4 + 4)];
+
+check('encodePng round-trips through decodePng', decodePng(png).data.equals(data));
+
+// Blocked app at (10,0) 20x20 with an allowed window above it at (20,10) 10x10
+const mask = buildScreenMask(
+  [
+    { x: 10, y: 0, width: 20, height: 20, masked: true, reason: 'app', label: 'blocked app "keepassxc"' },
+    { x: 20, y: 10, width: 10, height: 10, masked: false, label: 'window "Notes"' },
+  ],
+  [
+    { type: 'Edit', name: 'Password', x: 32, y: 2, width: 6, height: 4, isEnabled: true, isPassword: true },
+    { type: 'Button', name: 'OK', x: 32, y: 12, width: 6, height: 4, isEnabled: true },
+  ]
+);
+
+check('blocked window masked, allowed window above it shown',
+  isMaskedPoint(mask, 12, 5) && !isMaskedPoint(mask, 25, 15) && isMaskedPoint(mask, 25, 5) && !isMaskedPoint(mask, 5, 10));
+check('configured regions and password fields masked',
+  JSON.stringify(describeScreenMask(mask)) === JSON.stringify(['blocked app "keepassxc"', 'clock', 'password field "Password"']));
+
+const black = decodePng(applyScreenMask(png, mask, 'black'));
+check('black mode: masked pixels black, the rest untouched',
+  JSON.stringify(pixel(black, 12, 5)) === '[0,0,0,255]' &&
+  JSON.stringify(pixel(black, 1, 1)) === '[0,0,0,255]' &&
+  JSON.stringify(pixel(black, 25, 15)) === JSON.stringify(pixel(decodePng(png), 25, 15)) &&
+  JSON.stringify(pixel(black, 5, 10)) === JSON.stringify(pixel(decodePng(png), 5, 10)));
+
+const blurred = decodePng(applyScreenMask(png, mask, 'blur'));
+check('blur mode: masked area pixelated to one averaged color',
+  JSON.stringify(pixel(blurred, 12, 2)) === JSON.stringify(pixel(blurred, 16, 3)) &&
+  JSON.stringify(pixel(blurred, 12, 2)) !== JSON.stringify(pixel(decodePng(png), 12, 2)) &&
+  pixel(blurred, 12, 2)[2] === 200);
+
+check('nothing masked: image returned as is', applyScreenMask(png, { layers: [] }) === png);
+
+const elements = filterMaskedElements(mask, [
+  { type: 'Button', name: 'Unlock', x: 12, y: 4, width: 6, height: 4 },
+  { type: 'Button', name: 'Save', x: 22, y: 12, width: 6, height: 4 },
+  { type: 'Edit', name: 'Password', x: 32, y: 2, width: 6, height: 4 },
+]);
+check('masked elements dropped', elements.map((el) => el.name).join(',') === 'Save');
+
+const word = (text: string, x: number): { text: string; x: number; y: number; width: number; height: number } =>
+  ({ text, x, y: 14, width: 4, height: 4 });
+const lines = filterMaskedOcr(mask, [
+  { text: 'vault secret', x: 14, y: 14, width: 12, height: 4, words: [word('vault', 14), word('secret', 22)] },
+  { text: 'notes', x: 22, y: 14, width: 4, height: 4, words: [word('notes', 22)] },
+]);
+check('OCR lines touching a masked area dropped', lines.map((line) => line.text).join(',') === 'notes');
+
+// Second screen at (1920,100), captured at 2x: 40x20 pixels show 20x10 of the screen
+const scaled = {
+  layers: [{ x: 1925, y: 100, width: 5, height: 5, masked: true, reason: 'app' as const, label: 'blocked app "keepassxc"' }],
+  area: { x: 1920, y: 100, width: 20, height: 10 },
+};
+const scaledImage = decodePng(applyScreenMask(png, scaled, 'black'));
+check('scaled image on another screen: layer mapped to image pixels',
+  JSON.stringify(pixel(scaledImage, 10, 0)) === '[0,0,0,255]' &&
+  JSON.stringify(pixel(scaledImage, 19, 9)) === '[0,0,0,255]' &&
+  JSON.stringify(pixel(scaledImage, 9, 5)) === JSON.stringify(pixel(decodePng(png), 9, 5)) &&
+  JSON.stringify(pixel(scaledImage, 20, 5)) === JSON.stringify(pixel(decodePng(png), 20, 5)) &&
+  JSON.stringify(pixel(scaledImage, 12, 10)) === JSON.stringify(pixel(decodePng(png), 12, 10)));
+check('scaled image: OCR boxes (image pixels) checked against the mapped layer',
+  filterMaskedOcr(scaled, [
+    { text: 'secret', x: 12, y: 2, width: 4, height: 4, words: [] },
+    { text: 'shown', x: 24, y: 2, width: 4, height: 4, words: [] },
+  ], { width, height }).map((line) => line.text).join(',') === 'shown');
+
+const windowLayers = [
+  { x: 10, y: 0, width: 20, height: 20, masked: true, reason: 'app' as const, label: 'blocked app "keepassxc"', title: 'Passwords.kdbx' },
+  { x: 20, y: 10, width: 10, height: 10, masked: false, label: 'window "Notes"', title: 'Notes' },
+];
+check('blocked app window title hidden, other titles kept',
+  maskWindowTitle(windowLayers, 'Passwords.kdbx') === '[blocked app]' && maskWindowTitle(windowLayers, 'Notes') === 'Notes');
+
+finish();
@@ -0,0 +1,56 @@
+#!/usr/bin/env tsx
+/**
+ * Selector test - parsing, matching and formatting of element selectors
+ * Pure functions against synthetic elements, runs anywhere.
+ *
+ *   npm run build
+ *   npx tsx tests/test-selector.ts
+ */
+
+import { formatSelector, matchesSelector, parseSelector, SelectorError } from '../dist/src/core/selector.js';
+import type { UIElement } from '../dist/src/core/uiautomation.js';
+import { check, finish } from './helpers.js';
+
+const element = (type: string, name: string, extra: Partial<UIElement> = {}): UIElement =>
+  ({ type, name, x: 0, y: 0, width: 10, height: 10, isEnabled: true, ...extra });
+
+const invalid = (input: string): string => {
+  try {
+    parseSelector(input);
+    return 'parsed';
+  } catch (error) {
+    return error instanceof SelectorError ? error.code : String(error);
+  }
+};
+
+const full = parseSelector('window="Note\\"pad" >> MenuItem[name*="file"][automationId="mnuFile"]:nth(2)');
+check('window scope, type, attributes and index parsed',
+  full.window === 'Note"pad' && full.type === 'MenuItem' && full.index === 2 &&
+  JSON.stringify(full.name) === '{"contains":"file"}' && JSON.stringify(full.automationId) === '{"exact":"mnuFile"}',
+  JSON.stringify(full));
+
+const regex = parseSelector('ListItem[name~=/^Item \\d+$/i]');
+check('regex value with escapes and flags',
+  regex.name !== undefined && 'regex' in regex.name && regex.name.regex.source === '^Item \\d+$' && regex.name.regex.flags === 'i');
+
+check('attribute without a type is enough', parseSelector('[value="42"]').value !== undefined);
+check('syntax errors rejected as INVALID_SELECTOR',
+  ['', 'Button[', 'Button[name="Save"', 'Button[label="x"]', 'Button[name~=/(/]', 'Button[name="a"][name="b"]', 'window="x" Button', 'Button extra']
+    .every((input) => invalid(input) === 'INVALID_SELECTOR'));
+
+check('type matched case-insensitively, exact name trimmed',
+  matchesSelector(element('Button', ' Save '), parseSelector('button[name="Save"]')) &&
+  !matchesSelector(element('Button', 'Save as'), parseSelector('Button[name="Save"]')));
+check('*= is a case-insensitive substring',
+  matchesSelector(element('MenuItem', 'Open File...'), parseSelector('MenuItem[name*="file"]')));
+const globalRegex = parseSelector('ListItem[name~=/^item \\d+$/gi]');
+check('g regex matches the same way on every call',
+  [1, 2, 3].every(() => matchesSelector(element('ListItem', 'Item 12'), globalRegex)));
+check('missing attribute matches as empty text only',
+  !matchesSelector(element('Edit', 'User'), parseSelector('Edit[automationId*="txt"]')) &&
+  matchesSelector(element('Edit', 'User'), parseSelector('Edit[value=""]')));
+
+const source = 'window="Notepad" >> ListItem[name~=/^Item \\d+$/][automationId*="row"]:nth(1)';
+check('selector formatted back to its source form', formatSelector(parseSelector(source)) === source, formatSelector(parseSelector(source)));
+
+finish();
@@ -0,0 +1,81 @@
+#!/usr/bin/env tsx
+/**
+ * Session export test - a recorded session turned into TypeScript, JSON and YAML
+ * Works on a synthetic session in a temporary HOME, no display needed.
+ *
+ *   npm run build
+ *   npx tsx tests/test-session-export.ts
+ */
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { check, finish, useTempHome } from './helpers.js';
+
+const home = useTempHome('export');
+// browser-restart.js, loaded through replay.js, logs to ~/Desktop
+mkdirSync(join(home, 'Desktop'));
+
+const { exportSession } = await import('../dist/src/core/session-export.js');
+type Session = Parameters<typeof exportSession>[0];
+
+// One screenshot context, then a click on the button it shows
+const id = '2026-01-01_10-00-00_export';
+const dir = join(home, '.oscribe', 'sessions', id);
+mkdirSync(join(dir, 'screenshots'), { recursive: true });
+writeFileSync(join(dir, 'screenshots', '001_ui.json'), JSON.stringify({
+  window: 'Editor',
+  cursor: { x: 0, y: 0 },
+  timestamp: '2026-01-01T10:00:00.100Z',
+  elements: [{ type: 'Button', name: 'Save', x: 90, y: 190, width: 20, height: 20, centerX: 100, centerY: 200 }],
+}));
+
+const at = (ms: number): string => new Date(Date.parse('2026-01-01T10:00:00.000Z') + ms).toISOString();
+const session: Session = {
+  id,
+  startTime: at(0),
+  initialRequest: 'Save the file */ then wait',
+  screenshots: [],
+  actions: [
+    { timestamp: at(0), action: 'os_screenshot', params: {}, result: 'success', duration_ms: 100, context: `${dir}/screenshots/001_ui.json` },
+    { timestamp: at(1100), action: 'os_click_at', params: { x: 100, y: 200, button: 'left' }, result: 'success', duration_ms: 20 },
+    { timestamp: at(1150), action: 'os_type', params: { text: '[REDACTED]', strategy: undefined }, result: 'success', duration_ms: 30 },
+    { timestamp: at(1300), action: 'os_hotkey', params: { keys: 'ctrl+s' }, result: 'error', error: 'blocked', duration_ms: 5 },
+    { timestamp: at(60000), action: 'os_wait_for', params: { kind: 'text', text: 'Saved', timeout: 5000 }, result: 'success', duration_ms: 400 },
+    { timestamp: at(60450), action: 'os_key_up', params: {}, result: 'success', duration_ms: 5 },
+  ],
+};
+writeFileSync(join(dir, 'session.json'), JSON.stringify(session));
+
+const json = JSON.parse(exportSession(session, 'json')) as {
+  session: string;
+  steps: { action: string; params: Record<string, unknown>; delayMs?: number; comment: string }[];
+};
+check('only successful replayable actions exported, in order',
+  json.session === id && json.steps.map((step) => step.action).join(',') === 'os_click_at,os_type,os_wait_for,os_key_up',
+  json.steps.map((step) => step.action).join(','));
+check('pauses from timestamps: short ones dropped, long ones capped at 3s',
+  json.steps.map((step) => step.delayMs ?? 0).join(',') === '1000,0,3000,0',
+  json.steps.map((step) => step.delayMs ?? 0).join(','));
+check('click comment names the element and window from the screenshot context',
+  json.steps[0]?.comment.includes('on Button "Save"') === true && json.steps[0]?.comment.includes('(window: Editor)') === true,
+  json.steps[0]?.comment);
+check('undefined params left out', !('strategy' in (json.steps[1]?.params ?? {})));
+
+const ts = exportSession(session, 'ts');
+check('TypeScript imports only the functions it calls, sorted',
+  ts.includes("import { click, keyUp, typeText, wait, waitFor } from 'oscribe';"), ts.split('\n').find((line) => line.startsWith('import')));
+check('TypeScript steps: pause, click, typed text, wait condition, key release',
+  ts.includes('  await wait(1000);\n  await click(100, 200);') &&
+  ts.includes('await waitFor({"kind":"text","text":"Saved"}, { timeoutMs: 5000, intervalMs: 500 });') &&
+  ts.includes('await keyUp();'));
+check('redacted text flagged for the user to fill in',
+  ts.includes('// Redacted when recorded: replace with the text or a {{secret:NAME}} placeholder\n  await typeText("[REDACTED]");'));
+check('request cannot close the header comment', ts.includes(' * Request: Save the file * / then wait'));
+
+const yaml = exportSession(session, 'yaml');
+check('YAML: same steps, strings double-quoted, empty params as {}',
+  yaml.startsWith(`session: "${id}"\n`) && yaml.includes('\nsteps:\n  - action: "os_click_at"\n    params:\n      x: 100\n') &&
+  yaml.includes('  - action: "os_key_up"\n    params: {}\n'),
+  yaml);
+
+finish();